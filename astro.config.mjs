@@ -26,6 +26,17 @@ export default defineConfig({
         access: "secret",
         optional: false,
       }),
+      PHOTO_STORAGE: envField.enum({
+        context: "server",
+        access: "secret",
+        values: ["supabase", "local"],
+        default: "supabase",
+      }),
+      PHOTO_STORAGE_DIR: envField.string({
+        context: "server",
+        access: "secret",
+        default: ".storage/photos",
+      }),
     },
   },
   vite: {
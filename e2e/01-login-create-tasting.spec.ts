@@ -84,7 +84,7 @@ test.describe("Login and Create Tasting Flow", () => {
       foam: 5,
       notesKoicha: "Rich, creamy texture with deep umami notes and pleasant sweetness.",
       notesMilk: "Smooth and balanced, pairs beautifully with milk.",
-      pricePln: 125,
+      priceAmount: 125,
       purchaseSource: "https://example-matcha-shop.com",
     };
 
@@ -230,7 +230,9 @@ setup("setup test database with seed data", async () => {
       foam: 5,
       notes_koicha: "Rich, creamy texture with deep umami. Excellent balance of flavors.",
       notes_milk: "Smooth and pleasant. Pairs beautifully with oat milk.",
-      price_pln: 150,
+      price_amount: 150,
+      price_currency: "PLN",
+      package_grams: 100,
       purchase_source: "https://ippodo-tea.co.jp",
     };
 
@@ -24,7 +24,7 @@ export const SEED_DATA = {
     foam: 5,
     notesKoicha: "Rich, creamy texture with deep umami. Excellent balance of flavors.",
     notesMilk: "Smooth and pleasant. Pairs beautifully with oat milk.",
-    pricePln: 150,
+    priceAmount: 150,
     purchaseSource: "https://ippodo-tea.co.jp",
   },
 };
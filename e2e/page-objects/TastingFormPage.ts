@@ -17,7 +17,8 @@ export interface TastingFormData {
   foam?: number;
   notesKoicha?: string;
   notesMilk?: string;
-  pricePln?: number;
+  priceAmount?: number;
+  packageGrams?: number;
   purchaseSource?: string;
 }
 
@@ -36,6 +37,7 @@ export class TastingFormPage extends BasePage {
   readonly notesKoichaInput: Locator;
   readonly notesMilkInput: Locator;
   readonly priceInput: Locator;
+  readonly packageGramsInput: Locator;
   readonly purchaseSourceInput: Locator;
 
   // Action Buttons
@@ -64,6 +66,7 @@ export class TastingFormPage extends BasePage {
     this.notesKoichaInput = this.getByTestId("notes-koicha-input");
     this.notesMilkInput = this.getByTestId("notes-milk-input");
     this.priceInput = this.getByTestId("price-input");
+    this.packageGramsInput = this.getByTestId("package-grams-input");
     this.purchaseSourceInput = this.getByTestId("purchase-source-input");
 
     // Actions
@@ -216,13 +219,21 @@ export class TastingFormPage extends BasePage {
   }
 
   /**
-   * Fill in price per 100g
-   * @param price - Price in PLN
+   * Fill in price paid (currency defaults to PLN)
+   * @param price - Price paid for the package
    */
   async fillPrice(price: number): Promise<void> {
     await this.priceInput.fill(price.toString());
   }
 
+  /**
+   * Fill in package size
+   * @param grams - Package size in grams
+   */
+  async fillPackageGrams(grams: number): Promise<void> {
+    await this.packageGramsInput.fill(grams.toString());
+  }
+
   /**
    * Fill in purchase source
    * @param source - Purchase source URL or name
@@ -249,7 +260,8 @@ export class TastingFormPage extends BasePage {
     if (data.foam) await this.setFoamRating(data.foam);
     if (data.notesKoicha) await this.fillNotesKoicha(data.notesKoicha);
     if (data.notesMilk) await this.fillNotesMilk(data.notesMilk);
-    if (data.pricePln) await this.fillPrice(data.pricePln);
+    if (data.priceAmount) await this.fillPrice(data.priceAmount);
+    if (data.packageGrams) await this.fillPackageGrams(data.packageGrams);
     if (data.purchaseSource) await this.fillPurchaseSource(data.purchaseSource);
   }
 
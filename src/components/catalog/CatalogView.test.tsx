@@ -0,0 +1,152 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import type { CatalogStatsResponseDTO } from "../../types";
+import { CatalogView } from "./CatalogView";
+import { describeRatingTrend, fitRatingTrend } from "./RatingTrendChart";
+
+/**
+ * Unit tests for CatalogView component and the rating trend helpers
+ */
+describe("CatalogView", () => {
+  const stats: CatalogStatsResponseDTO = {
+    total_notes: 3,
+    average_rating: 3.67,
+    sensory_profile: { umami: 4, bitter: 2, sweet: 3.5, foam: null },
+    latest_price: {
+      price_amount: 3240,
+      price_currency: "JPY",
+      package_grams: 40,
+      price_per_100g_pln: 218.7,
+      tasted_at: "2026-05-02",
+    },
+    by_blend: [
+      {
+        id: "blend-1",
+        name: "Ummon",
+        note_count: 2,
+        average_rating: 4,
+        rating_stddev: 1,
+        min_rating: 3,
+        max_rating: 5,
+      },
+      {
+        id: "blend-2",
+        name: "Sayaka",
+        note_count: 1,
+        average_rating: 3,
+        rating_stddev: 0,
+        min_rating: 3,
+        max_rating: 3,
+      },
+    ],
+    timeline: [
+      {
+        id: "note-1",
+        tasted_at: "2025-11-10",
+        overall_rating: 3,
+        blend_id: "blend-1",
+        blend_name: "Ummon",
+        price_per_100g_pln: null,
+      },
+      {
+        id: "note-2",
+        tasted_at: "2026-02-14",
+        overall_rating: 3,
+        blend_id: "blend-2",
+        blend_name: "Sayaka",
+        price_per_100g_pln: 150,
+      },
+      {
+        id: "note-3",
+        tasted_at: "2026-05-02",
+        overall_rating: 5,
+        blend_id: "blend-1",
+        blend_name: "Ummon",
+        price_per_100g_pln: 218.7,
+      },
+    ],
+  };
+
+  describe("fitRatingTrend", () => {
+    it("should return null without two distinct days", () => {
+      expect(fitRatingTrend([{ day: 1, rating: 4 }])).toBeNull();
+      expect(
+        fitRatingTrend([
+          { day: 1, rating: 4 },
+          { day: 1, rating: 2 },
+        ])
+      ).toBeNull();
+    });
+
+    it("should fit a line through the ratings", () => {
+      const trend = fitRatingTrend([
+        { day: 0, rating: 2 },
+        { day: 10, rating: 3 },
+        { day: 20, rating: 4 },
+      ]);
+
+      expect(trend?.start).toBeCloseTo(2);
+      expect(trend?.end).toBeCloseTo(4);
+    });
+  });
+
+  describe("describeRatingTrend", () => {
+    it("should return null when there is no trend", () => {
+      expect(describeRatingTrend(null)).toBeNull();
+    });
+
+    it("should describe small changes as steady", () => {
+      expect(describeRatingTrend({ start: 4, end: 4.2 })).toBe("Your ratings have held steady");
+    });
+
+    it("should describe the direction and size of the change", () => {
+      expect(describeRatingTrend({ start: 2, end: 4 })).toBe("Your ratings have risen by about 2.0 stars");
+      expect(describeRatingTrend({ start: 4.5, end: 3.9 })).toBe("Your ratings have dropped by about 0.6 stars");
+    });
+  });
+
+  describe("Rendering", () => {
+    it("should show the empty state when the user has no notes", () => {
+      render(<CatalogView kind="blend" stats={{ ...stats, total_notes: 0, by_blend: [], timeline: [] }} />);
+
+      expect(screen.getByTestId("catalog-empty")).toHaveTextContent("You haven't tasted this blend yet.");
+    });
+
+    it("should render summary figures with the latest price", () => {
+      render(<CatalogView kind="blend" stats={stats} />);
+
+      expect(screen.getByTestId("catalog-total-notes")).toHaveTextContent("3");
+      expect(screen.getByTestId("catalog-average-rating")).toHaveTextContent("(3.67)");
+      expect(screen.getByTestId("catalog-latest-price")).toHaveTextContent("¥3,240 / 40g");
+      expect(screen.getByTestId("catalog-latest-price")).toHaveTextContent("218.70 PLN / 100g · May 2, 2026");
+    });
+
+    it("should chart the ratings over time with a trend", () => {
+      render(<CatalogView kind="blend" stats={stats} />);
+
+      expect(screen.getByRole("img", { name: "Overall rating of 3 tastings over time" })).toBeInTheDocument();
+      expect(screen.getByTestId("rating-trend-line")).toBeInTheDocument();
+      expect(screen.getByText(/Your ratings have risen by about/)).toBeInTheDocument();
+    });
+
+    it("should list the notes newest first with links to them", () => {
+      render(<CatalogView kind="blend" stats={stats} />);
+
+      const notes = screen.getAllByTestId("catalog-note");
+      expect(notes).toHaveLength(3);
+      expect(notes[0]).toHaveAttribute("href", "/tastings/note-3");
+      expect(notes[0]).toHaveTextContent("May 2, 2026");
+      expect(notes[2]).toHaveTextContent("—");
+      expect(screen.queryByTestId("catalog-by-blend")).not.toBeInTheDocument();
+    });
+
+    it("should rank a brand's blends with links to their pages", () => {
+      render(<CatalogView kind="brand" stats={stats} />);
+
+      const blendRows = screen.getByTestId("catalog-by-blend").querySelectorAll("tbody tr");
+      expect(blendRows).toHaveLength(2);
+      expect(screen.getByRole("link", { name: "Ummon" })).toHaveAttribute("href", "/blends/blend-1");
+      expect(screen.getAllByTestId("catalog-note")[1]).toHaveTextContent("Sayaka");
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { formatIsoDate } from "../../lib/helpers/date";
+import { formatNotePrice, formatPricePer100g } from "../../lib/helpers/price";
+import type { CatalogStatsResponseDTO } from "../../types";
+import { StarRatingDisplay } from "../dashboard/StarRatingDisplay";
+import { RatingGroupTable } from "../stats/RatingGroupTable";
+import { FlavorRadarChart } from "../tasting-detail/FlavorRadarChart";
+import { RatingTrendChart } from "./RatingTrendChart";
+
+/**
+ * CatalogView Component
+ *
+ * The user's history with a single blend or brand: summary figures, rating trend over time,
+ * average flavor profile and every tasting note, newest first.
+ * Receives pre-aggregated data rendered server-side from the stats service.
+ */
+interface CatalogViewProps {
+  kind: "blend" | "brand";
+  stats: CatalogStatsResponseDTO;
+}
+
+export function CatalogView({ kind, stats }: CatalogViewProps) {
+  if (stats.total_notes === 0) {
+    return (
+      <div className="rounded-lg bg-white p-8 text-center shadow-sm" data-testid="catalog-empty">
+        <p className="mb-4 text-gray-600">You haven&apos;t tasted this {kind} yet.</p>
+        <a href="/tastings/new" className="text-sm font-medium text-primary hover:underline">
+          Add a tasting note
+        </a>
+      </div>
+    );
+  }
+
+  const latestPrice = stats.latest_price;
+  const notesNewestFirst = [...stats.timeline].reverse();
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="rounded-lg bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">Tasting notes</p>
+          <p className="text-3xl font-bold text-gray-900" data-testid="catalog-total-notes">
+            {stats.total_notes}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">Average rating</p>
+          {stats.average_rating !== null && (
+            <div className="mt-2 flex items-center gap-2">
+              <StarRatingDisplay rating={Math.round(stats.average_rating)} />
+              <span className="text-sm text-gray-500" data-testid="catalog-average-rating">
+                ({stats.average_rating.toFixed(2)})
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow-sm" data-testid="catalog-latest-price">
+          <p className="text-sm text-gray-500">Latest price</p>
+          {latestPrice ? (
+            <>
+              <p className="mt-1 text-xl font-semibold text-gray-900">{formatNotePrice(latestPrice)}</p>
+              <p className="text-xs text-gray-500">
+                {formatPricePer100g(latestPrice.price_per_100g_pln)} · {formatIsoDate(latestPrice.tasted_at)}
+              </p>
+            </>
+          ) : (
+            <p className="mt-1 text-sm text-gray-400">No price recorded</p>
+          )}
+        </div>
+      </div>
+
+      {/* Trend and sensory profile */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <section className="rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">Rating Over Time</h2>
+          <RatingTrendChart timeline={stats.timeline} />
+        </section>
+        <section className="rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">Average Flavor Profile</h2>
+          <FlavorRadarChart series={[{ label: "Average", profile: stats.sensory_profile }]} />
+        </section>
+      </div>
+
+      {/* A brand's blends */}
+      {kind === "brand" && (
+        <RatingGroupTable
+          title="Rating by Blend"
+          groups={stats.by_blend}
+          getHref={(blend) => `/blends/${blend.id}`}
+          data-testid="catalog-by-blend"
+        />
+      )}
+
+      {/* Tasting notes */}
+      <section className="rounded-lg bg-white p-4 shadow-sm">
+        <h2 className="mb-3 text-lg font-semibold text-gray-900">Your Tastings</h2>
+        <ul className="divide-y" data-testid="catalog-notes">
+          {notesNewestFirst.map((note) => (
+            <li key={note.id}>
+              <a
+                href={`/tastings/${note.id}`}
+                className="flex items-center justify-between gap-4 py-2 text-sm hover:bg-gray-50"
+                data-testid="catalog-note"
+              >
+                <span className="w-28 shrink-0 text-gray-600">{formatIsoDate(note.tasted_at)}</span>
+                {kind === "brand" && <span className="min-w-0 flex-1 truncate text-gray-900">{note.blend_name}</span>}
+                <StarRatingDisplay rating={note.overall_rating} className={kind === "blend" ? "flex-1" : ""} />
+                <span className="w-32 shrink-0 text-right text-xs tabular-nums text-gray-500">
+                  {formatPricePer100g(note.price_per_100g_pln) ?? "—"}
+                </span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { formatIsoDate, parseIsoDate } from "../../lib/helpers/date";
+import type { CatalogTimelineEntryDTO } from "../../types";
+
+/**
+ * RatingTrendChart Component
+ *
+ * SVG line chart of overall ratings by tasting date, with a least-squares trend line
+ * and a plain-language reading of it. Points link to their tasting notes.
+ */
+interface RatingTrendChartProps {
+  timeline: CatalogTimelineEntryDTO[];
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 32;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Smallest rating change over the charted period that counts as a trend
+ */
+const TREND_THRESHOLD = 0.25;
+
+/**
+ * Fits a least-squares line through (day, rating) points
+ * Returns null when fewer than 2 distinct days were tasted
+ *
+ * @returns Rating at the first and last day of the period according to the fitted line
+ */
+export function fitRatingTrend(points: { day: number; rating: number }[]): { start: number; end: number } | null {
+  const days = points.map((point) => point.day);
+  const firstDay = Math.min(...days);
+  const lastDay = Math.max(...days);
+
+  if (points.length < 2 || firstDay === lastDay) {
+    return null;
+  }
+
+  const meanDay = days.reduce((sum, day) => sum + day, 0) / points.length;
+  const meanRating = points.reduce((sum, point) => sum + point.rating, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.day - meanDay) * (point.rating - meanRating), 0);
+  const variance = points.reduce((sum, point) => sum + (point.day - meanDay) ** 2, 0);
+  const slope = covariance / variance;
+  const ratingAt = (day: number) => meanRating + slope * (day - meanDay);
+
+  return { start: ratingAt(firstDay), end: ratingAt(lastDay) };
+}
+
+/**
+ * Describes a fitted rating trend in plain language
+ * Returns null when no trend could be fitted
+ */
+export function describeRatingTrend(trend: { start: number; end: number } | null): string | null {
+  if (trend === null) {
+    return null;
+  }
+
+  const change = trend.end - trend.start;
+  if (Math.abs(change) < TREND_THRESHOLD) {
+    return "Your ratings have held steady";
+  }
+
+  return change > 0
+    ? `Your ratings have risen by about ${change.toFixed(1)} stars`
+    : `Your ratings have dropped by about ${Math.abs(change).toFixed(1)} stars`;
+}
+
+export function RatingTrendChart({ timeline, width = 560, height = 220 }: RatingTrendChartProps) {
+  if (timeline.length === 0) {
+    return <p className="text-sm text-gray-400">No tastings yet</p>;
+  }
+
+  // Days since the epoch, in local time like the tasting dates themselves
+  const points = timeline.map((entry) => ({
+    entry,
+    day: Math.round(parseIsoDate(entry.tasted_at).getTime() / DAY_MS),
+    rating: entry.overall_rating,
+  }));
+  const firstDay = points[0].day;
+  const lastDay = points[points.length - 1].day;
+  const span = lastDay - firstDay;
+
+  // A single day is drawn in the middle of the chart
+  const toX = (day: number) => (span === 0 ? width / 2 : PADDING + ((day - firstDay) / span) * (width - 2 * PADDING));
+  const toY = (rating: number) => height - PADDING - ((rating - 1) / 4) * (height - 2 * PADDING);
+
+  const trend = fitRatingTrend(points);
+  const summary = describeRatingTrend(trend);
+
+  return (
+    <figure className="flex flex-col gap-2">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full"
+        role="img"
+        aria-label={`Overall rating of ${timeline.length} ${timeline.length === 1 ? "tasting" : "tastings"} over time`}
+      >
+        {/* Rating gridlines */}
+        {[1, 2, 3, 4, 5].map((rating) => (
+          <g key={rating}>
+            <line x1={PADDING} x2={width - PADDING} y1={toY(rating)} y2={toY(rating)} stroke="#e5e7eb" />
+            <text
+              x={PADDING - 8}
+              y={toY(rating)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-gray-500 text-[10px]"
+            >
+              {rating}
+            </text>
+          </g>
+        ))}
+        <text x={PADDING} y={height - 8} className="fill-gray-500 text-[10px]">
+          {formatIsoDate(timeline[0].tasted_at)}
+        </text>
+        {span > 0 && (
+          <text x={width - PADDING} y={height - 8} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {formatIsoDate(timeline[timeline.length - 1].tasted_at)}
+          </text>
+        )}
+
+        {/* Trend */}
+        {trend && (
+          <line
+            x1={toX(firstDay)}
+            x2={toX(lastDay)}
+            y1={toY(trend.start)}
+            y2={toY(trend.end)}
+            stroke="#9ca3af"
+            strokeDasharray="4 4"
+            data-testid="rating-trend-line"
+          />
+        )}
+
+        {/* Ratings in tasting order */}
+        <polyline
+          points={points.map((point) => `${toX(point.day)},${toY(point.rating)}`).join(" ")}
+          fill="none"
+          className="stroke-primary"
+          strokeWidth={2}
+        />
+        {points.map((point) => (
+          <a key={point.entry.id} href={`/tastings/${point.entry.id}`}>
+            <circle cx={toX(point.day)} cy={toY(point.rating)} r={4} className="fill-primary">
+              <title>{`${formatIsoDate(point.entry.tasted_at)}: ${point.rating}★ ${point.entry.blend_name}`}</title>
+            </circle>
+          </a>
+        ))}
+      </svg>
+      <figcaption className="text-sm text-gray-600">{summary ?? "Taste it on another day to see a trend"}</figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,82 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { render, screen, waitFor } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CommunityBlendRatingDTO } from "../../types";
+import { CommunityRating } from "./CommunityRating";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+/**
+ * Unit tests for CommunityRating component
+ * Tests loading the community aggregates, the taster threshold and the opt-in
+ */
+describe("CommunityRating", () => {
+  const community: CommunityBlendRatingDTO = {
+    blend_id: "blend-1",
+    taster_count: 4,
+    average_rating: 3.75,
+    sensory_profile: { umami: 4.25, bitter: 2, sweet: 3.5, foam: 4 },
+    is_contributing: false,
+  };
+
+  const mockResponse = (data: unknown) => {
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => data });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should show the community average next to the user's own rating", async () => {
+    mockResponse(community);
+    render(<CommunityRating blendId="blend-1" ownRating={5} />);
+
+    await waitFor(() => expect(screen.getByTestId("community-average")).toHaveTextContent("3.75"));
+    expect(global.fetch).toHaveBeenCalledWith("/api/blends/blend-1/community");
+    expect(screen.getByTestId("community-taster-count")).toHaveTextContent("4 tasters");
+    expect(screen.getByTestId("community-own-rating")).toHaveTextContent("You: 5");
+    expect(screen.getByTestId("community-flavor-radar")).toBeInTheDocument();
+  });
+
+  it("should withhold averages until enough tasters share their ratings", async () => {
+    mockResponse({
+      ...community,
+      taster_count: 1,
+      average_rating: null,
+      sensory_profile: { umami: null, bitter: null, sweet: null, foam: null },
+    });
+    render(<CommunityRating blendId="blend-1" />);
+
+    await waitFor(() => expect(screen.getByTestId("community-not-enough")).toHaveTextContent("(1 of 3)"));
+    expect(screen.queryByTestId("community-average")).not.toBeInTheDocument();
+  });
+
+  it("should opt the user in and reload the aggregates", async () => {
+    const user = userEvent.setup();
+    mockResponse(community);
+    render(<CommunityRating blendId="blend-1" />);
+
+    await waitFor(() => expect(screen.getByTestId("community-opt-in")).not.toBeChecked());
+
+    mockResponse({ share_community_ratings: true });
+    mockResponse({ ...community, taster_count: 5, is_contributing: true });
+    await user.click(screen.getByTestId("community-opt-in"));
+
+    await waitFor(() => expect(screen.getByTestId("community-taster-count")).toHaveTextContent("5 tasters"));
+    expect(global.fetch).toHaveBeenCalledWith("/api/settings", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ share_community_ratings: true }),
+    });
+    expect(screen.getByTestId("community-opt-in")).toBeChecked();
+  });
+
+  it("should show an error when the aggregates cannot be loaded", async () => {
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, json: async () => ({}) });
+    render(<CommunityRating blendId="blend-1" />);
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Failed to load community ratings");
+  });
+});
@@ -0,0 +1,100 @@
+import { Users } from "lucide-react";
+import { COMMUNITY_MIN_TASTERS } from "../../lib/constants";
+import { StarRatingDisplay } from "../dashboard/StarRatingDisplay";
+import { useCommunityRating } from "../hooks/useCommunityRating";
+import { FlavorRadarChart, hasFlavorProfile, type FlavorProfile } from "../tasting-detail/FlavorRadarChart";
+import { Checkbox } from "../ui/checkbox";
+import { Label } from "../ui/label";
+
+/**
+ * CommunityRating Component
+ *
+ * Anonymised average rating and flavor profile of a blend across users who share their ratings,
+ * shown next to the user's own rating and profile when given.
+ * Includes the opt-in for contributing the user's own ratings.
+ */
+interface CommunityRatingProps {
+  blendId: string;
+  ownRating?: number | null;
+  ownProfile?: FlavorProfile;
+  "data-testid"?: string;
+}
+
+export function CommunityRating({
+  blendId,
+  ownRating = null,
+  ownProfile,
+  "data-testid": dataTestId = "community-rating",
+}: CommunityRatingProps) {
+  const { community, isLoading, isSaving, error, setContributing } = useCommunityRating(blendId);
+
+  const optInId = `community-opt-in-${blendId}`;
+  const series = [
+    ...(ownProfile ? [{ label: "You", profile: ownProfile }] : []),
+    ...(community ? [{ label: "Community", profile: community.sensory_profile }] : []),
+  ];
+
+  return (
+    <section className="space-y-3 rounded-md border bg-gray-50 p-3" data-testid={dataTestId} aria-busy={isLoading}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="flex items-center gap-1.5 text-sm font-semibold text-gray-900">
+          <Users className="h-4 w-4" aria-hidden="true" />
+          Community
+        </h3>
+        {community && (
+          <span className="text-xs text-gray-500" data-testid="community-taster-count">
+            {community.taster_count} {community.taster_count === 1 ? "taster" : "tasters"}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-destructive text-sm" role="alert">
+          {error}
+        </p>
+      )}
+
+      {isLoading && !community && <p className="text-sm text-gray-500">Loading community ratings...</p>}
+
+      {community &&
+        (community.average_rating === null ? (
+          <p className="text-sm text-gray-500" data-testid="community-not-enough">
+            Not enough tasters share their ratings of this blend yet ({community.taster_count} of{" "}
+            {COMMUNITY_MIN_TASTERS}).
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm" data-testid="community-average">
+              <span className="flex items-center gap-2">
+                <StarRatingDisplay rating={Math.round(community.average_rating)} />
+                <span className="tabular-nums text-gray-700">{community.average_rating.toFixed(2)}</span>
+              </span>
+              {ownRating !== null && ownRating > 0 && (
+                <span className="text-gray-500" data-testid="community-own-rating">
+                  You: {ownRating}
+                </span>
+              )}
+            </div>
+            {hasFlavorProfile(community.sensory_profile) && (
+              <FlavorRadarChart series={series} size={200} data-testid="community-flavor-radar" />
+            )}
+          </>
+        ))}
+
+      {community && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={optInId}
+            checked={community.is_contributing}
+            onCheckedChange={(checked) => setContributing(checked === true)}
+            disabled={isSaving}
+            data-testid="community-opt-in"
+          />
+          <Label htmlFor={optInId} className="text-xs font-normal text-gray-600">
+            Include my ratings, anonymously, in community averages
+          </Label>
+        </div>
+      )}
+    </section>
+  );
+}
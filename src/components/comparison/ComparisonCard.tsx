@@ -1,5 +1,8 @@
+import { formatPreparation } from "../../lib/helpers/brewing";
+import { formatNotePrice, formatPricePer100g } from "../../lib/helpers/price";
 import type { TastingNoteResponseDTO } from "../../types";
 import { StarRatingDisplay } from "../dashboard/StarRatingDisplay";
+import { TagList } from "../dashboard/TagList";
 import { DotRatingDisplay } from "../tasting-detail/DotRatingDisplay";
 import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
 
@@ -7,13 +10,16 @@ import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
  * ComparisonCard Component
  *
  * Mobile view card that displays all information for a single tasting note.
- * Two cards will be rendered vertically for side-by-side comparison.
+ * One card per compared note is rendered vertically.
  */
 interface ComparisonCardProps {
   note: TastingNoteResponseDTO;
+  sharedTagIds?: string[];
 }
 
-export function ComparisonCard({ note }: ComparisonCardProps) {
+export function ComparisonCard({ note, sharedTagIds = [] }: ComparisonCardProps) {
+  const preparation = formatPreparation(note).filter((detail) => detail.value !== null);
+
   return (
     <Card>
       <CardHeader>
@@ -54,6 +60,26 @@ export function ComparisonCard({ note }: ComparisonCardProps) {
             <DotRatingDisplay label="Foam Quality" value={note.foam} />
           </div>
 
+          {preparation.length > 0 && (
+            <div className="border-t pt-3 space-y-1">
+              {preparation.map((detail) => (
+                <div key={detail.label} className="flex justify-between">
+                  <dt className="text-sm font-medium text-gray-700">{detail.label}</dt>
+                  <dd className="text-sm text-gray-900">{detail.value}</dd>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {note.tags.length > 0 && (
+            <div className="border-t pt-3">
+              <dt className="text-sm font-medium text-gray-700 mb-1">Flavor Tags</dt>
+              <dd>
+                <TagList tags={note.tags} highlightedIds={sharedTagIds} />
+              </dd>
+            </div>
+          )}
+
           {note.notes_koicha && (
             <div className="border-t pt-3">
               <dt className="text-sm font-medium text-gray-700 mb-1">Notes (Koicha)</dt>
@@ -68,15 +94,21 @@ export function ComparisonCard({ note }: ComparisonCardProps) {
             </div>
           )}
 
-          {note.price_pln !== null && (
-            <div className="border-t pt-3 flex justify-between">
-              <dt className="text-sm font-medium text-gray-700">Price per 100g</dt>
-              <dd className="text-sm text-gray-900">{note.price_pln} PLN</dd>
+          {note.price_amount !== null && (
+            <div className="border-t pt-3 space-y-1">
+              <div className="flex justify-between">
+                <dt className="text-sm font-medium text-gray-700">Price</dt>
+                <dd className="text-sm text-gray-900">{formatNotePrice(note)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-sm font-medium text-gray-700">Price per 100g</dt>
+                <dd className="text-sm text-gray-900">{formatPricePer100g(note.price_per_100g_pln)}</dd>
+              </div>
             </div>
           )}
 
           {note.purchase_source && (
-            <div className={note.price_pln !== null ? "flex justify-between" : "border-t pt-3 flex justify-between"}>
+            <div className={note.price_amount !== null ? "flex justify-between" : "border-t pt-3 flex justify-between"}>
               <dt className="text-sm font-medium text-gray-700">Purchase Source</dt>
               <dd className="text-sm text-gray-900 truncate ml-2">{note.purchase_source}</dd>
             </div>
@@ -1,4 +1,8 @@
+import { formatPreparation } from "../../lib/helpers/brewing";
+import { formatNotePrice, formatPricePer100g } from "../../lib/helpers/price";
+import { getSharedTags } from "../../lib/helpers/tags";
 import { StarRatingDisplay } from "../dashboard/StarRatingDisplay";
+import { TagList } from "../dashboard/TagList";
 import { DotRatingDisplay } from "../tasting-detail/DotRatingDisplay";
 import { ComparisonRow } from "./ComparisonRow";
 import type { ComparisonRowViewModel, ComparisonViewModel } from "./types";
@@ -6,88 +10,104 @@ import type { ComparisonRowViewModel, ComparisonViewModel } from "./types";
 /**
  * ComparisonTable Component
  *
- * Desktop view that presents two tasting notes in a side-by-side table layout.
- * Each row represents a specific attribute for easy comparison.
+ * Desktop view that presents tasting notes in a side-by-side table layout,
+ * one column per note. Each row represents a specific attribute for easy comparison.
  */
 interface ComparisonTableProps {
   viewModel: ComparisonViewModel;
 }
 
 export function ComparisonTable({ viewModel }: ComparisonTableProps) {
-  const { note1, note2 } = viewModel;
+  const { notes } = viewModel;
+  const preparations = notes.map((note) => formatPreparation(note));
+  const sharedTagIds = getSharedTags(notes).map((tag) => tag.id);
 
   // Build rows for the comparison table
   const rows: ComparisonRowViewModel[] = [
     {
       label: "Brand",
-      value1: note1.blend.brand.name,
-      value2: note2.blend.brand.name,
+      values: notes.map((note) => note.blend.brand.name),
       type: "text",
     },
     {
       label: "Blend",
-      value1: note1.blend.name,
-      value2: note2.blend.name,
+      values: notes.map((note) => note.blend.name),
       type: "text",
     },
     {
       label: "Region",
-      value1: note1.blend.region.name,
-      value2: note2.blend.region.name,
+      values: notes.map((note) => note.blend.region.name),
       type: "text",
     },
     {
       label: "Overall Rating",
-      value1: <StarRatingDisplay rating={note1.overall_rating} />,
-      value2: <StarRatingDisplay rating={note2.overall_rating} />,
+      values: notes.map((note) => <StarRatingDisplay key={note.id} rating={note.overall_rating} />),
       type: "star",
     },
+    {
+      label: "Price",
+      values: notes.map((note) => formatNotePrice(note)),
+      type: "text",
+    },
     {
       label: "Price per 100g (PLN)",
-      value1: note1.price_pln !== null ? `${note1.price_pln} PLN` : null,
-      value2: note2.price_pln !== null ? `${note2.price_pln} PLN` : null,
+      values: notes.map((note) => formatPricePer100g(note.price_per_100g_pln)),
       type: "text",
     },
     {
       label: "Purchase Source",
-      value1: note1.purchase_source,
-      value2: note2.purchase_source,
+      values: notes.map((note) => note.purchase_source),
       type: "text",
     },
     {
       label: "Umami",
-      value1: <DotRatingDisplay label="" value={note1.umami} className="justify-start" />,
-      value2: <DotRatingDisplay label="" value={note2.umami} className="justify-start" />,
+      values: notes.map((note) => (
+        <DotRatingDisplay key={note.id} label="" value={note.umami} className="justify-start" />
+      )),
       type: "dot",
     },
     {
       label: "Bitter",
-      value1: <DotRatingDisplay label="" value={note1.bitter} className="justify-start" />,
-      value2: <DotRatingDisplay label="" value={note2.bitter} className="justify-start" />,
+      values: notes.map((note) => (
+        <DotRatingDisplay key={note.id} label="" value={note.bitter} className="justify-start" />
+      )),
       type: "dot",
     },
     {
       label: "Sweet",
-      value1: <DotRatingDisplay label="" value={note1.sweet} className="justify-start" />,
-      value2: <DotRatingDisplay label="" value={note2.sweet} className="justify-start" />,
+      values: notes.map((note) => (
+        <DotRatingDisplay key={note.id} label="" value={note.sweet} className="justify-start" />
+      )),
       type: "dot",
     },
     {
       label: "Foam Quality",
-      value1: <DotRatingDisplay label="" value={note1.foam} className="justify-start" />,
-      value2: <DotRatingDisplay label="" value={note2.foam} className="justify-start" />,
+      values: notes.map((note) => (
+        <DotRatingDisplay key={note.id} label="" value={note.foam} className="justify-start" />
+      )),
       type: "dot",
     },
+    // Preparation details come in a fixed order, so rows line up by index
+    ...(preparations[0] ?? []).map(({ label }, index) => ({
+      label,
+      values: preparations.map((preparation) => preparation[index].value),
+      type: "text" as const,
+    })),
+    {
+      label: "Flavor Tags",
+      values: notes.map((note) =>
+        note.tags.length > 0 ? <TagList key={note.id} tags={note.tags} highlightedIds={sharedTagIds} /> : null
+      ),
+      type: "text",
+    },
     {
       label: "Notes (Koicha)",
-      value1: note1.notes_koicha,
-      value2: note2.notes_koicha,
+      values: notes.map((note) => note.notes_koicha),
       type: "text",
     },
     {
       label: "Notes (with Milk)",
-      value1: note1.notes_milk,
-      value2: note2.notes_milk,
+      values: notes.map((note) => note.notes_milk),
       type: "text",
     },
   ];
@@ -98,8 +118,11 @@ export function ComparisonTable({ viewModel }: ComparisonTableProps) {
         <thead>
           <tr className="bg-primary text-primary-foreground">
             <th />
-            <th className="py-3 px-4 text-left text-sm font-semibold">{`${note1.blend.brand.name} | ${note1.blend.name}`}</th>
-            <th className="py-3 px-4 text-left text-sm font-semibold">{`${note2.blend.brand.name} | ${note2.blend.name}`}</th>
+            {notes.map((note) => (
+              <th key={note.id} className="py-3 px-4 text-left text-sm font-semibold">
+                {`${note.blend.brand.name} | ${note.blend.name}`}
+              </th>
+            ))}
           </tr>
         </thead>
         <tbody>
@@ -1,6 +1,9 @@
 import { Loader2 } from "lucide-react";
+import { getSharedTags } from "../../lib/helpers/tags";
 import { BackButton } from "../BackButton";
+import { TagList } from "../dashboard/TagList";
 import { useComparisonState } from "../hooks/useComparisonState";
+import { FlavorRadarChart } from "../tasting-detail/FlavorRadarChart";
 import { ComparisonCard } from "./ComparisonCard";
 import { ComparisonTable } from "./ComparisonTable";
 
@@ -60,6 +63,9 @@ export default function ComparisonView() {
     return null;
   }
 
+  const sharedTags = getSharedTags(viewModel.notes);
+  const sharedTagIds = sharedTags.map((tag) => tag.id);
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto px-4 py-8">
@@ -67,9 +73,32 @@ export default function ComparisonView() {
         <div className="mb-6">
           <BackButton text="Back to Dashboard" className="mb-4" />
           <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Tasting Comparison</h1>
-          <p className="text-gray-600 mt-2">Compare two matcha tasting notes side by side</p>
+          <p className="text-gray-600 mt-2">Compare {viewModel.notes.length} matcha tasting notes side by side</p>
         </div>
 
+        {/* Flavor profile overlay */}
+        <section className="mb-6 rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-2 text-lg font-semibold text-gray-900">Flavor Profile</h2>
+          <FlavorRadarChart
+            series={viewModel.notes.map((note) => ({
+              label: `${note.blend.brand.name} | ${note.blend.name}`,
+              profile: { umami: note.umami, bitter: note.bitter, sweet: note.sweet, foam: note.foam },
+            }))}
+            size={280}
+            data-testid="comparison-flavor-radar"
+          />
+        </section>
+
+        {/* Tags every compared note has in common */}
+        <section className="mb-6 rounded-lg bg-white p-4 shadow-sm" data-testid="comparison-shared-tags">
+          <h2 className="mb-2 text-lg font-semibold text-gray-900">Shared Flavor Tags</h2>
+          {sharedTags.length > 0 ? (
+            <TagList tags={sharedTags} highlightedIds={sharedTagIds} />
+          ) : (
+            <p className="text-sm text-gray-500">These notes have no flavor tags in common</p>
+          )}
+        </section>
+
         {/* Desktop view - Table */}
         <div className="hidden md:block">
           <ComparisonTable viewModel={viewModel} />
@@ -77,8 +106,9 @@ export default function ComparisonView() {
 
         {/* Mobile view - Stacked Cards */}
         <div className="md:hidden space-y-4">
-          <ComparisonCard note={viewModel.note1} />
-          <ComparisonCard note={viewModel.note2} />
+          {viewModel.notes.map((note) => (
+            <ComparisonCard key={note.id} note={note} sharedTagIds={sharedTagIds} />
+          ))}
         </div>
       </div>
     </div>
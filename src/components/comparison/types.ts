@@ -2,20 +2,19 @@ import type { TastingNoteResponseDTO } from "../../types";
 
 /**
  * View model for comparison data
- * Contains exactly two tasting notes to be compared side-by-side
+ * Contains the tasting notes to be compared side-by-side, in selection order
  */
 export interface ComparisonViewModel {
-  note1: TastingNoteResponseDTO;
-  note2: TastingNoteResponseDTO;
+  notes: TastingNoteResponseDTO[];
 }
 
 /**
  * View model for a single row in the comparison table
- * Represents one attribute being compared across both notes
+ * Represents one attribute being compared across all notes
+ * Values are ordered the same way as the notes in the view model
  */
 export interface ComparisonRowViewModel {
   label: string;
-  value1: string | number | React.ReactNode | null;
-  value2: string | number | React.ReactNode | null;
+  values: (string | number | React.ReactNode | null)[];
   type: "text" | "star" | "dot";
 }
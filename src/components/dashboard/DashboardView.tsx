@@ -1,8 +1,11 @@
-import { Filter, GitCompare, Plus, X } from "lucide-react";
+import { BarChart3, CalendarDays, Filter, GitCompare, LayoutGrid, Plus, Upload, X } from "lucide-react";
 import { useState } from "react";
-import type { TastingNotesListResponseDTO } from "../../types";
+import { MAX_COMPARE_NOTES, MIN_COMPARE_NOTES } from "../../lib/constants";
+import type { TastingNotesCursorListResponseDTO, TastingNotesFiltersDTO } from "../../types";
 import { Button } from "../ui/button";
+import { ExportMenu } from "./ExportMenu";
 import { FilterPanel } from "./FilterPanel";
+import { TastingCalendar } from "./TastingCalendar";
 import { TastingNotesGrid } from "./TastingNotesGrid";
 import { useDashboardState } from "./useDashboardState";
 
@@ -13,19 +16,36 @@ import { useDashboardState } from "./useDashboardState";
  * state management, and rendering of all child components.
  */
 interface DashboardViewProps {
-  initialData?: TastingNotesListResponseDTO;
+  initialData?: TastingNotesCursorListResponseDTO;
+  initialFilters?: TastingNotesFiltersDTO;
 }
 
-export default function DashboardView({ initialData }: DashboardViewProps) {
-  const { state, setFilters, toggleCompareMode, handleSelectNote } = useDashboardState(initialData);
+export default function DashboardView({ initialData, initialFilters }: DashboardViewProps) {
+  const { state, setFilters, loadMore, toggleCompareMode, handleSelectNote } = useDashboardState(
+    initialData,
+    initialFilters
+  );
   const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+  const [view, setView] = useState<"grid" | "calendar">("grid");
+
+  const selectedCount = state.selectedForCompare.length;
+  const canCompare = selectedCount >= MIN_COMPARE_NOTES;
+
+  // Compare mode selects notes on the grid
+  const handleToggleCompareMode = () => {
+    setView("grid");
+    toggleCompareMode();
+  };
 
-  const canCompare = state.selectedForCompare.length === 2;
+  // Selecting a day in the calendar shows that day's tastings in the grid
+  const handleSelectDay = (day: string) => {
+    setFilters({ from: day, to: day });
+    setView("grid");
+  };
 
   const handleCompare = () => {
     if (canCompare) {
-      const [id1, id2] = state.selectedForCompare;
-      window.location.href = `/tastings/compare?ids=${id1},${id2}`;
+      window.location.href = `/tastings/compare?ids=${state.selectedForCompare.join(",")}`;
     }
   };
 
@@ -40,13 +60,32 @@ export default function DashboardView({ initialData }: DashboardViewProps) {
               <Button
                 variant={"outline"}
                 size="sm"
-                onClick={toggleCompareMode}
+                onClick={handleToggleCompareMode}
                 aria-label={state.isCompareMode ? "Exit compare mode" : "Enter compare mode"}
               >
                 {state.isCompareMode ? <X className="mr-2 h-4 w-4" /> : <GitCompare className="mr-2 h-4 w-4" />}
                 {state.isCompareMode ? "Cancel" : "Compare"}
               </Button>
 
+              {/* Export Download */}
+              <ExportMenu filters={state.filters} disabled={state.isCompareMode} />
+
+              {/* Import (Desktop) */}
+              <Button asChild variant="outline" size="sm" className="hidden md:flex" disabled={state.isCompareMode}>
+                <a href="/tastings/import">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Import
+                </a>
+              </Button>
+
+              {/* Statistics (Desktop) */}
+              <Button asChild variant="outline" size="sm" className="hidden md:flex" disabled={state.isCompareMode}>
+                <a href="/stats">
+                  <BarChart3 className="mr-2 h-4 w-4" />
+                  Stats
+                </a>
+              </Button>
+
               {/* Filter Toggle (Mobile) */}
               <Button
                 variant="outline"
@@ -72,9 +111,14 @@ export default function DashboardView({ initialData }: DashboardViewProps) {
           {state.isCompareMode && (
             <div className="mt-4 flex items-center justify-between rounded-lg bg-muted p-3">
               <p className="text-sm">
-                {state.selectedForCompare.length === 0 && "Select 2 tastings to compare"}
-                {state.selectedForCompare.length === 1 && "Select 1 more tasting"}
-                {state.selectedForCompare.length === 2 && "Ready to compare"}
+                {selectedCount === 0 && `Select ${MIN_COMPARE_NOTES} to ${MAX_COMPARE_NOTES} tastings to compare`}
+                {selectedCount > 0 &&
+                  selectedCount < MIN_COMPARE_NOTES &&
+                  `Select ${MIN_COMPARE_NOTES - selectedCount} more tasting`}
+                {selectedCount >= MIN_COMPARE_NOTES &&
+                  selectedCount < MAX_COMPARE_NOTES &&
+                  `Ready to compare ${selectedCount} tastings`}
+                {selectedCount >= MAX_COMPARE_NOTES && `Ready to compare ${selectedCount} tastings (maximum reached)`}
               </p>
               <Button size="sm" disabled={!canCompare} onClick={handleCompare}>
                 Compare Selected
@@ -117,8 +161,35 @@ export default function DashboardView({ initialData }: DashboardViewProps) {
           )}
 
           {/* Main Grid Area */}
-          <main className="flex-1">
-            {state.error ? (
+          <main className="flex-1 space-y-4">
+            {/* View Toggle */}
+            <div className="flex justify-end gap-1" role="group" aria-label="Dashboard view">
+              <Button
+                variant={view === "grid" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("grid")}
+                aria-pressed={view === "grid"}
+                data-testid="grid-view-button"
+              >
+                <LayoutGrid className="h-4 w-4" />
+                Grid
+              </Button>
+              <Button
+                variant={view === "calendar" ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setView("calendar")}
+                aria-pressed={view === "calendar"}
+                disabled={state.isCompareMode}
+                data-testid="calendar-view-button"
+              >
+                <CalendarDays className="h-4 w-4" />
+                Calendar
+              </Button>
+            </div>
+
+            {view === "calendar" ? (
+              <TastingCalendar filters={state.filters} onSelectDay={handleSelectDay} />
+            ) : state.error ? (
               <div className="flex flex-col items-center justify-center py-12 text-center">
                 <p className="text-destructive mb-4 text-lg">Could not load tastings</p>
                 <p className="text-muted-foreground text-sm">{state.error}</p>
@@ -130,9 +201,13 @@ export default function DashboardView({ initialData }: DashboardViewProps) {
               <TastingNotesGrid
                 notes={state.notes}
                 isLoading={state.isLoading}
+                hasMore={Boolean(state.pagination?.next_cursor)}
+                isLoadingMore={state.isLoadingMore}
+                onLoadMore={loadMore}
                 isCompareMode={state.isCompareMode}
                 selectedNoteIds={state.selectedForCompare}
                 onSelectNote={handleSelectNote}
+                searchQuery={state.filters.q}
               />
             )}
           </main>
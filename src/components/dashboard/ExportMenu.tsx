@@ -0,0 +1,51 @@
+import { Download } from "lucide-react";
+import { buildTastingNotesSearchParams } from "../../lib/helpers/dashboard-filters";
+import type { TastingNotesQueryDTO } from "../../types";
+import { Button } from "../ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
+
+/**
+ * ExportMenu Component
+ *
+ * Dashboard header action that downloads the user's tasting journal.
+ * Offers CSV and JSON formats and applies the currently active filters.
+ */
+interface ExportMenuProps {
+  filters: TastingNotesQueryDTO;
+  disabled?: boolean;
+}
+
+export function ExportMenu({ filters, disabled = false }: ExportMenuProps) {
+  const getExportUrl = (format: "csv" | "json") => {
+    // Export covers every matching note, so pagination is dropped
+    const params = buildTastingNotesSearchParams({ ...filters, page: null, limit: null });
+    params.set("format", format);
+    return `/api/tasting-notes/export?${params.toString()}`;
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} aria-label="Export tastings">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-48 p-2" align="end">
+        <div className="flex flex-col">
+          <Button variant="ghost" size="sm" className="justify-start" asChild>
+            <a href={getExportUrl("csv")} download>
+              Download CSV
+            </a>
+          </Button>
+          <Button variant="ghost" size="sm" className="justify-start" asChild>
+            <a href={getExportUrl("json")} download>
+              Download JSON
+            </a>
+          </Button>
+        </div>
+        <p className="text-muted-foreground mt-2 px-2 text-xs">Uses the current search and filters.</p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,8 +1,14 @@
-import { Star, X } from "lucide-react";
-import type { TastingNotesQueryDTO } from "../../types";
+import { ArrowDown, ArrowUp, Search, Star, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { BLEND_GRADE_LABELS, BLEND_GRADES } from "../../lib/constants";
+import type { SensoryAttribute } from "../../lib/constants";
+import type { TastingNotesFiltersDTO, TastingNotesQueryDTO, TastingNotesSortKey } from "../../types";
 import { Button } from "../ui/button";
+import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import { Slider } from "../ui/slider";
+import { FilterPresetPicker } from "./FilterPresetPicker";
 import type { FilterOptions } from "./types";
 
 /**
@@ -11,6 +17,136 @@ import type { FilterOptions } from "./types";
  * A form containing various filter controls for refining the tasting notes list.
  * On desktop, it's a persistent sidebar; on mobile, it's a collapsible drawer.
  */
+/**
+ * Sort keys offered on the dashboard
+ * The kind picks the direction labels; defaultOrder is applied when the key is chosen
+ */
+const SORT_OPTIONS: {
+  value: TastingNotesSortKey;
+  label: string;
+  kind: "date" | "score" | "price" | "name";
+  defaultOrder: "asc" | "desc";
+}[] = [
+  { value: "created_at", label: "Date added", kind: "date", defaultOrder: "desc" },
+  { value: "tasted_at", label: "Date tasted", kind: "date", defaultOrder: "desc" },
+  { value: "updated_at", label: "Last edited", kind: "date", defaultOrder: "desc" },
+  { value: "overall_rating", label: "Overall rating", kind: "score", defaultOrder: "desc" },
+  { value: "value", label: "Value for money", kind: "score", defaultOrder: "desc" },
+  { value: "umami", label: "Umami", kind: "score", defaultOrder: "desc" },
+  { value: "bitter", label: "Bitterness", kind: "score", defaultOrder: "desc" },
+  { value: "sweet", label: "Sweetness", kind: "score", defaultOrder: "desc" },
+  { value: "foam", label: "Foam", kind: "score", defaultOrder: "desc" },
+  { value: "price_pln", label: "Price per 100g", kind: "price", defaultOrder: "asc" },
+  { value: "blend_name", label: "Blend name", kind: "name", defaultOrder: "asc" },
+  { value: "brand_name", label: "Brand name", kind: "name", defaultOrder: "asc" },
+];
+
+/**
+ * Direction labels by sort key kind
+ */
+const SORT_ORDER_LABELS = {
+  date: { asc: "Oldest first", desc: "Newest first" },
+  score: { asc: "Lowest first", desc: "Highest first" },
+  price: { asc: "Cheapest first", desc: "Priciest first" },
+  name: { asc: "A to Z", desc: "Z to A" },
+} as const;
+
+/**
+ * Ends of the sensory score scale
+ */
+const SENSORY_SCALE_MIN = 1;
+const SENSORY_SCALE_MAX = 5;
+
+/**
+ * Select value for "no secondary sort key"
+ */
+const NO_SECONDARY_SORT = "__none__";
+
+function getSortOption(key: TastingNotesSortKey) {
+  return SORT_OPTIONS.find((option) => option.value === key) ?? SORT_OPTIONS[0];
+}
+
+interface SortOrderToggleProps {
+  sortKey: TastingNotesSortKey;
+  order: "asc" | "desc";
+  onToggle: () => void;
+  testId: string;
+}
+
+/**
+ * Button flipping a sort direction, labelled for the kind of key (e.g. "Cheapest first")
+ */
+function SortOrderToggle({ sortKey, order, onToggle, testId }: SortOrderToggleProps) {
+  const label = SORT_ORDER_LABELS[getSortOption(sortKey).kind][order];
+  const Icon = order === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      className="shrink-0"
+      onClick={onToggle}
+      aria-label={`Sort direction: ${label}`}
+      data-testid={testId}
+    >
+      <Icon className="h-4 w-4" />
+      {label}
+    </Button>
+  );
+}
+
+/**
+ * Filter values with every filter removed (sorting is kept)
+ */
+const CLEARED_FILTERS: Partial<TastingNotesQueryDTO> = {
+  q: null,
+  brand_ids: null,
+  region_ids: null,
+  tag_ids: null,
+  grade: null,
+  cultivar: null,
+  min_rating: null,
+  min_price: null,
+  max_price: null,
+  min_umami: null,
+  max_umami: null,
+  min_bitter: null,
+  max_bitter: null,
+  min_sweet: null,
+  max_sweet: null,
+  min_foam: null,
+  max_foam: null,
+  has_notes_koicha: null,
+  has_notes_milk: null,
+  from: null,
+  to: null,
+};
+
+/**
+ * Sensory score range sliders; a thumb at either end of the scale leaves that bound unset
+ */
+const SENSORY_FILTERS: { attribute: SensoryAttribute; label: string }[] = [
+  { attribute: "umami", label: "Umami" },
+  { attribute: "bitter", label: "Bitterness" },
+  { attribute: "sweet", label: "Sweetness" },
+  { attribute: "foam", label: "Foam" },
+];
+
+/**
+ * Written-notes filters: select value per filter state
+ */
+const NOTES_FILTERS = [
+  { field: "has_notes_koicha", label: "Koicha notes" },
+  { field: "has_notes_milk", label: "Milk notes" },
+] as const;
+
+const NOTES_FILTER_OPTIONS = [
+  { value: "__any__", label: "Any" },
+  { value: "true", label: "Written" },
+  { value: "false", label: "Not written" },
+] as const;
+
 interface FilterPanelProps {
   filters: TastingNotesQueryDTO;
   onFilterChange: (newFilters: Partial<TastingNotesQueryDTO>) => void;
@@ -19,19 +155,119 @@ interface FilterPanelProps {
 }
 
 export function FilterPanel({ filters, onFilterChange, filterOptions, className = "" }: FilterPanelProps) {
+  // Search input is kept locally and only applied on submit to avoid a request per keystroke
+  const [searchInput, setSearchInput] = useState(filters.q ?? "");
+  const [cultivarInput, setCultivarInput] = useState(filters.cultivar ?? "");
+
+  useEffect(() => {
+    setSearchInput(filters.q ?? "");
+  }, [filters.q]);
+
+  useEffect(() => {
+    setCultivarInput(filters.cultivar ?? "");
+  }, [filters.cultivar]);
+
+  const handleSearchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onFilterChange({ q: searchInput.trim() || null });
+  };
+
+  const handleCultivarSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onFilterChange({ cultivar: cultivarInput.trim() || null });
+  };
+
   const handleRatingChange = (rating: number) => {
     onFilterChange({ min_rating: rating });
   };
 
+  const sortBy = filters.sort_by ?? "created_at";
+  const sortOrder = filters.sort_order ?? "desc";
+  const secondarySortBy = filters.secondary_sort_by ?? null;
+  const secondarySortOrder = filters.secondary_sort_order ?? "desc";
+
+  // Choosing a key applies its natural direction; a secondary key equal to the new primary one is dropped
+  const handleSortChange = (value: string) => {
+    const key = value as TastingNotesSortKey;
+    onFilterChange({
+      sort_by: key,
+      sort_order: getSortOption(key).defaultOrder,
+      ...(secondarySortBy === key && { secondary_sort_by: null, secondary_sort_order: null }),
+    });
+  };
+
+  const handleSecondarySortChange = (value: string) => {
+    if (value === NO_SECONDARY_SORT) {
+      onFilterChange({ secondary_sort_by: null, secondary_sort_order: null });
+      return;
+    }
+
+    const key = value as TastingNotesSortKey;
+    onFilterChange({ secondary_sort_by: key, secondary_sort_order: getSortOption(key).defaultOrder });
+  };
+
+  const handleTagToggle = (tagId: string) => {
+    const selected = filters.tag_ids ?? [];
+    const next = selected.includes(tagId) ? selected.filter((id) => id !== tagId) : [...selected, tagId];
+    onFilterChange({ tag_ids: next.length > 0 ? next : null });
+  };
+
+  const handlePriceChange = (field: "min_price" | "max_price", value: string) => {
+    const price = Number.parseInt(value, 10);
+    onFilterChange({ [field]: Number.isNaN(price) || price < 0 ? null : price });
+  };
+
+  const handleSensoryRangeChange = (attribute: SensoryAttribute, [min, max]: number[]) => {
+    onFilterChange({
+      [`min_${attribute}`]: min > SENSORY_SCALE_MIN ? min : null,
+      [`max_${attribute}`]: max < SENSORY_SCALE_MAX ? max : null,
+    });
+  };
+
   const handleClearFilters = () => {
+    onFilterChange(CLEARED_FILTERS);
+  };
+
+  // A preset replaces all filters and the sorting
+  const handleApplyPreset = (presetFilters: TastingNotesFiltersDTO) => {
     onFilterChange({
-      brand_ids: null,
-      region_ids: null,
-      min_rating: null,
+      ...CLEARED_FILTERS,
+      sort_by: "created_at",
+      sort_order: "desc",
+      secondary_sort_by: null,
+      secondary_sort_order: null,
+      ...presetFilters,
     });
   };
 
-  const hasActiveFilters = filters.brand_ids?.length || filters.region_ids?.length || filters.min_rating;
+  const hasPriceFilter =
+    (filters.min_price !== null && filters.min_price !== undefined) ||
+    (filters.max_price !== null && filters.max_price !== undefined);
+
+  const sensoryRanges = SENSORY_FILTERS.map(({ attribute, label }) => {
+    const min = filters[`min_${attribute}`] ?? null;
+    const max = filters[`max_${attribute}`] ?? null;
+    return { attribute, label, min, max, isActive: min !== null || max !== null };
+  });
+
+  const hasSensoryFilter = sensoryRanges.some((range) => range.isActive);
+
+  const hasDateFilter = Boolean(filters.from || filters.to);
+
+  const hasNotesFilter = NOTES_FILTERS.some(({ field }) => filters[field] !== null && filters[field] !== undefined);
+
+  const hasActiveFilters =
+    filters.q ||
+    filters.brand_ids?.length ||
+    filters.region_ids?.length ||
+    filters.tag_ids?.length ||
+    filters.grade ||
+    filters.cultivar ||
+    filters.min_rating ||
+    hasPriceFilter ||
+    hasSensoryFilter ||
+    hasNotesFilter ||
+    hasDateFilter;
 
   return (
     <div className={`space-y-6 ${className}`}>
@@ -45,6 +281,79 @@ export function FilterPanel({ filters, onFilterChange, filterOptions, className
         )}
       </div>
 
+      {/* Saved Views */}
+      <FilterPresetPicker filters={filters} onApply={handleApplyPreset} />
+
+      {/* Search */}
+      <form role="search" className="space-y-2" onSubmit={handleSearchSubmit}>
+        <Label htmlFor="search-filter">Search</Label>
+        <div className="relative">
+          <Search className="text-muted-foreground pointer-events-none absolute top-1/2 left-2.5 h-4 w-4 -translate-y-1/2" />
+          <Input
+            id="search-filter"
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Notes, blend, brand, region..."
+            className="pl-8"
+            maxLength={200}
+          />
+        </div>
+      </form>
+
+      {/* Sorting */}
+      <div className="space-y-2">
+        <Label htmlFor="sort-filter">Sort by</Label>
+        <div className="flex gap-2">
+          <Select value={sortBy} onValueChange={handleSortChange}>
+            <SelectTrigger id="sort-filter">
+              <SelectValue placeholder="Date added" />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <SortOrderToggle
+            sortKey={sortBy}
+            order={sortOrder}
+            onToggle={() => onFilterChange({ sort_order: sortOrder === "asc" ? "desc" : "asc" })}
+            testId="sort-order-toggle"
+          />
+        </div>
+
+        <Label htmlFor="secondary-sort-filter" className="text-muted-foreground text-xs">
+          Then by
+        </Label>
+        <div className="flex gap-2">
+          <Select value={secondarySortBy ?? NO_SECONDARY_SORT} onValueChange={handleSecondarySortChange}>
+            <SelectTrigger id="secondary-sort-filter">
+              <SelectValue placeholder="Nothing" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SECONDARY_SORT}>Nothing</SelectItem>
+              {SORT_OPTIONS.filter((option) => option.value !== sortBy).map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {secondarySortBy && (
+            <SortOrderToggle
+              sortKey={secondarySortBy}
+              order={secondarySortOrder}
+              onToggle={() => onFilterChange({ secondary_sort_order: secondarySortOrder === "asc" ? "desc" : "asc" })}
+              testId="secondary-sort-order-toggle"
+            />
+          )}
+        </div>
+        <p className="text-muted-foreground text-xs">Notes without a value for the sort key are listed last</p>
+      </div>
+
       {/* Brand Filter */}
       <div className="space-y-2">
         <Label htmlFor="brand-filter">Brand</Label>
@@ -99,6 +408,73 @@ export function FilterPanel({ filters, onFilterChange, filterOptions, className
         </Select>
       </div>
 
+      {/* Grade Filter */}
+      <div className="space-y-2">
+        <Label htmlFor="grade-filter">Grade</Label>
+        <Select
+          value={filters.grade || "__all__"}
+          onValueChange={(value) => onFilterChange({ grade: value === "__all__" ? null : value })}
+        >
+          <SelectTrigger id="grade-filter">
+            <SelectValue placeholder="All grades" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__all__">All grades</SelectItem>
+            {BLEND_GRADES.map((grade) => (
+              <SelectItem key={grade} value={grade}>
+                {BLEND_GRADE_LABELS[grade]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Cultivar Filter (applied on Enter, like the search) */}
+      <form className="space-y-2" onSubmit={handleCultivarSubmit}>
+        <Label htmlFor="cultivar-filter">Cultivar</Label>
+        <Input
+          id="cultivar-filter"
+          type="search"
+          value={cultivarInput}
+          onChange={(e) => setCultivarInput(e.target.value)}
+          placeholder="e.g. Okumidori"
+          maxLength={100}
+        />
+        {filters.cultivar && (
+          <p className="text-muted-foreground text-xs">Showing blends containing {filters.cultivar}</p>
+        )}
+      </form>
+
+      {/* Tag Filter */}
+      {filterOptions.tags.length > 0 && (
+        <div className="space-y-2">
+          <Label>Flavor Tags</Label>
+          <div className="flex flex-wrap gap-2">
+            {filterOptions.tags.map((tag) => {
+              const isSelected = filters.tag_ids?.includes(tag.id) ?? false;
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  onClick={() => handleTagToggle(tag.id)}
+                  className={`rounded-full border px-3 py-1 text-xs transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+                    isSelected
+                      ? "border-green-600 bg-green-600 text-white"
+                      : "border-gray-200 bg-white text-gray-700 hover:bg-accent"
+                  }`}
+                  aria-pressed={isSelected}
+                >
+                  {tag.name}
+                </button>
+              );
+            })}
+          </div>
+          {filters.tag_ids?.length ? (
+            <p className="text-muted-foreground text-xs">Showing notes with any of the selected tags</p>
+          ) : null}
+        </div>
+      )}
+
       {/* Rating Filter */}
       <div className="space-y-2">
         <Label>Minimum Rating</Label>
@@ -130,6 +506,114 @@ export function FilterPanel({ filters, onFilterChange, filterOptions, className
         </div>
         {filters.min_rating && <p className="text-muted-foreground text-xs">Showing {filters.min_rating}+ stars</p>}
       </div>
+
+      {/* Price Range Filter */}
+      <div className="space-y-2">
+        <Label htmlFor="min-price-filter">Price per 100g (PLN)</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="min-price-filter"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Min"
+            value={filters.min_price ?? ""}
+            onChange={(e) => handlePriceChange("min_price", e.target.value)}
+            aria-label="Minimum price"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            id="max-price-filter"
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Max"
+            value={filters.max_price ?? ""}
+            onChange={(e) => handlePriceChange("max_price", e.target.value)}
+            aria-label="Maximum price"
+          />
+        </div>
+        {hasPriceFilter && <p className="text-muted-foreground text-xs">Notes without a price are hidden</p>}
+      </div>
+
+      {/* Tasting Date Filter */}
+      <div className="space-y-2">
+        <Label htmlFor="from-date-filter">Date tasted</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="from-date-filter"
+            type="date"
+            value={filters.from ?? ""}
+            max={filters.to ?? undefined}
+            onChange={(e) => onFilterChange({ from: e.target.value || null })}
+            aria-label="Tasted from"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            id="to-date-filter"
+            type="date"
+            value={filters.to ?? ""}
+            min={filters.from ?? undefined}
+            onChange={(e) => onFilterChange({ to: e.target.value || null })}
+            aria-label="Tasted until"
+          />
+        </div>
+      </div>
+
+      {/* Sensory Score Filters */}
+      <div className="space-y-4" data-testid="sensory-filters">
+        <Label>Flavor Profile</Label>
+        {sensoryRanges.map(({ attribute, label, min, max, isActive }) => (
+          <div key={attribute} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span>{label}</span>
+              <span className="text-muted-foreground text-xs" data-testid={`${attribute}-range-label`}>
+                {isActive ? `${min ?? SENSORY_SCALE_MIN}–${max ?? SENSORY_SCALE_MAX}` : "Any"}
+              </span>
+            </div>
+            <Slider
+              min={SENSORY_SCALE_MIN}
+              max={SENSORY_SCALE_MAX}
+              step={1}
+              minStepsBetweenThumbs={0}
+              value={[min ?? SENSORY_SCALE_MIN, max ?? SENSORY_SCALE_MAX]}
+              onValueChange={(value) => handleSensoryRangeChange(attribute, value)}
+              thumbLabels={[`Minimum ${label.toLowerCase()}`, `Maximum ${label.toLowerCase()}`]}
+              data-testid={`${attribute}-range-filter`}
+            />
+          </div>
+        ))}
+        {hasSensoryFilter && (
+          <p className="text-muted-foreground text-xs">Notes without a score for a narrowed attribute are hidden</p>
+        )}
+      </div>
+
+      {/* Written Notes Filters */}
+      {NOTES_FILTERS.map(({ field, label }) => {
+        const value = filters[field];
+        return (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={`${field}-filter`}>{label}</Label>
+            <Select
+              value={value === null || value === undefined ? "__any__" : String(value)}
+              onValueChange={(selected) =>
+                onFilterChange({ [field]: selected === "__any__" ? null : selected === "true" })
+              }
+            >
+              <SelectTrigger id={`${field}-filter`}>
+                <SelectValue placeholder="Any" />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTES_FILTER_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
     </div>
   );
 }
@@ -0,0 +1,126 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { render, screen, waitFor } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { FilterPresetResponseDTO } from "../../types";
+import { FilterPresetPicker } from "./FilterPresetPicker";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+/**
+ * Unit tests for FilterPresetPicker component
+ * Tests listing, applying, saving and deleting saved filter presets
+ */
+describe("FilterPresetPicker", () => {
+  const ujiPreset: FilterPresetResponseDTO = {
+    id: "preset-1",
+    name: "Uji 4+ stars",
+    filters: { region_ids: ["region-1"], min_rating: 4, sort_by: "value", sort_order: "desc" },
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+
+  const mockPresets = (presets: FilterPresetResponseDTO[]) => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: presets }),
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list saved presets and mark the one matching the current filters", async () => {
+    mockPresets([ujiPreset]);
+    render(
+      <FilterPresetPicker
+        filters={{ limit: 12, region_ids: ["region-1"], min_rating: 4, sort_by: "value", sort_order: "desc" }}
+        onApply={vi.fn()}
+      />
+    );
+
+    const chip = await screen.findByRole("button", { name: "Uji 4+ stars" });
+    expect(chip).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getByTestId("filter-preset-delete-button")).toBeInTheDocument();
+    expect(screen.queryByTestId("filter-preset-save-button")).not.toBeInTheDocument();
+  });
+
+  it("should apply a preset's filters when it is clicked", async () => {
+    const user = userEvent.setup();
+    const mockOnApply = vi.fn();
+    mockPresets([ujiPreset]);
+    render(<FilterPresetPicker filters={{ sort_by: "created_at", sort_order: "desc" }} onApply={mockOnApply} />);
+
+    const chip = await screen.findByRole("button", { name: "Uji 4+ stars" });
+    expect(chip).toHaveAttribute("aria-pressed", "false");
+    await user.click(chip);
+
+    expect(mockOnApply).toHaveBeenCalledWith(ujiPreset.filters);
+  });
+
+  it("should save the current filters under a name", async () => {
+    const user = userEvent.setup();
+    mockPresets([]);
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({ ...ujiPreset, id: "preset-2", name: "Cheap ceremonial", filters: { max_price: 80 } }),
+    });
+    render(
+      <FilterPresetPicker
+        filters={{ limit: 12, cursor: "", max_price: 80, brand_ids: [], sort_by: "created_at", sort_order: "desc" }}
+        onApply={vi.fn()}
+      />
+    );
+
+    await user.click(screen.getByTestId("filter-preset-save-button"));
+    await user.type(screen.getByTestId("filter-preset-name-input"), "Cheap ceremonial");
+    await user.click(screen.getByTestId("filter-preset-submit"));
+
+    expect(await screen.findByRole("button", { name: "Cheap ceremonial" })).toBeInTheDocument();
+    expect(global.fetch).toHaveBeenLastCalledWith("/api/filter-presets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "Cheap ceremonial",
+        filters: { max_price: 80, sort_by: "created_at", sort_order: "desc" },
+      }),
+    });
+  });
+
+  it("should show an error when the name is already taken", async () => {
+    const user = userEvent.setup();
+    mockPresets([]);
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 409,
+      json: async () => ({ error: "A filter preset with this name already exists" }),
+    });
+    render(<FilterPresetPicker filters={{ min_rating: 5 }} onApply={vi.fn()} />);
+
+    await user.click(screen.getByTestId("filter-preset-save-button"));
+    await user.type(screen.getByTestId("filter-preset-name-input"), "Favourites");
+    await user.click(screen.getByTestId("filter-preset-submit"));
+
+    expect(await screen.findByTestId("filter-preset-error")).toHaveTextContent(
+      "A saved view with this name already exists"
+    );
+    expect(screen.getByTestId("filter-preset-name-input")).toHaveValue("Favourites");
+  });
+
+  it("should delete the active preset", async () => {
+    const user = userEvent.setup();
+    mockPresets([ujiPreset]);
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, status: 204 });
+    render(<FilterPresetPicker filters={ujiPreset.filters} onApply={vi.fn()} />);
+
+    await user.click(await screen.findByTestId("filter-preset-delete-button"));
+
+    await waitFor(() => {
+      expect(screen.queryByRole("button", { name: "Uji 4+ stars" })).not.toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenLastCalledWith("/api/filter-presets/preset-1", { method: "DELETE" });
+  });
+});
@@ -0,0 +1,125 @@
+import { BookmarkPlus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { buildDashboardQueryString, toTastingNotesFilters } from "../../lib/helpers/dashboard-filters";
+import type { TastingNotesFiltersDTO, TastingNotesQueryDTO } from "../../types";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { useFilterPresets } from "./useFilterPresets";
+
+interface FilterPresetPickerProps {
+  filters: TastingNotesQueryDTO;
+  onApply: (filters: TastingNotesFiltersDTO) => void;
+}
+
+/**
+ * FilterPresetPicker Component
+ *
+ * Saved views section of the filter panel. Applies a saved filter preset,
+ * saves the current filters under a name and deletes the active preset.
+ */
+export function FilterPresetPicker({ filters, onApply }: FilterPresetPickerProps) {
+  const { presets, isSaving, error, savePreset, deletePreset } = useFilterPresets();
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState("");
+
+  // A preset is active while the current filters match it exactly
+  const currentQuery = buildDashboardQueryString(filters);
+  const activePreset = presets.find((preset) => buildDashboardQueryString(preset.filters) === currentQuery);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    if (await savePreset(trimmed, toTastingNotesFilters(filters))) {
+      setName("");
+      setIsNaming(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-testid="filter-presets">
+      <Label>Saved Views</Label>
+
+      {presets.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {presets.map((preset) => {
+            const isActive = preset.id === activePreset?.id;
+            return (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => onApply(preset.filters)}
+                className={`rounded-full border px-3 py-1 text-xs transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+                  isActive
+                    ? "border-green-600 bg-green-600 text-white"
+                    : "border-gray-200 bg-white text-gray-700 hover:bg-accent"
+                }`}
+                aria-pressed={isActive}
+                data-testid="filter-preset-chip"
+              >
+                {preset.name}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-xs">Save filters you use often to switch back to them in one click</p>
+      )}
+
+      {isNaming ? (
+        <form className="flex gap-2" onSubmit={handleSave}>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Uji 4+ stars"
+            maxLength={100}
+            aria-label="Saved view name"
+            data-testid="filter-preset-name-input"
+          />
+          <Button type="submit" size="sm" disabled={isSaving || !name.trim()} data-testid="filter-preset-submit">
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsNaming(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {!activePreset && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsNaming(true)}
+              data-testid="filter-preset-save-button"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+              Save current view
+            </Button>
+          )}
+          {activePreset && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deletePreset(activePreset.id)}
+              aria-label={`Delete saved view ${activePreset.name}`}
+              data-testid="filter-preset-delete-button"
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete view
+            </Button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert" data-testid="filter-preset-error">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { render } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { getSearchTerms, HighlightedText } from "./HighlightedText";
+
+/**
+ * Unit tests for HighlightedText component
+ * Tests search term parsing and highlighting of matches
+ */
+describe("HighlightedText", () => {
+  describe("getSearchTerms", () => {
+    it("should return empty array for empty query", () => {
+      expect(getSearchTerms("")).toEqual([]);
+      expect(getSearchTerms(null)).toEqual([]);
+      expect(getSearchTerms(undefined)).toEqual([]);
+    });
+
+    it("should split query into lowercase unique terms", () => {
+      expect(getSearchTerms("Nutty  UJI nutty")).toEqual(["nutty", "uji"]);
+    });
+
+    it("should drop websearch operators", () => {
+      expect(getSearchTerms('"sweet grass" or -bitter')).toEqual(["sweet", "grass", "bitter"]);
+    });
+  });
+
+  describe("Rendering", () => {
+    it("should render plain text when there is no query", () => {
+      const { container } = render(<HighlightedText text="Rich and creamy" />);
+
+      expect(container.textContent).toBe("Rich and creamy");
+      expect(container.querySelectorAll("mark")).toHaveLength(0);
+    });
+
+    it("should highlight matches case-insensitively", () => {
+      const { container } = render(<HighlightedText text="Creamy, rich and creamy" query="creamy" />);
+
+      const marks = container.querySelectorAll("mark");
+      expect(marks).toHaveLength(2);
+      expect(marks[0].textContent).toBe("Creamy");
+      expect(marks[1].textContent).toBe("creamy");
+      expect(container.textContent).toBe("Creamy, rich and creamy");
+    });
+
+    it("should highlight multiple terms", () => {
+      const { container } = render(<HighlightedText text="Ippodo Sayaka from Uji" query="sayaka uji" />);
+
+      const marks = Array.from(container.querySelectorAll("mark")).map((mark) => mark.textContent);
+      expect(marks).toEqual(["Sayaka", "Uji"]);
+    });
+
+    it("should treat regex characters in the query literally", () => {
+      const { container } = render(<HighlightedText text="Price (100g) only" query="(100g)" />);
+
+      const marks = container.querySelectorAll("mark");
+      expect(marks).toHaveLength(1);
+      expect(marks[0].textContent).toBe("100g");
+    });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * HighlightedText Component
+ *
+ * Renders text with every occurrence of the search terms wrapped in a <mark>.
+ * Matching is case-insensitive and done per whitespace-separated term.
+ */
+interface HighlightedTextProps {
+  text: string;
+  query?: string | null;
+}
+
+/**
+ * Splits a search query into unique terms, dropping websearch operators
+ */
+export function getSearchTerms(query: string | null | undefined): string[] {
+  if (!query) {
+    return [];
+  }
+
+  const terms = query
+    .toLowerCase()
+    .replace(/["()]/g, " ")
+    .split(/\s+/)
+    .map((term) => term.replace(/^-/, ""))
+    .filter((term) => term.length > 0 && term !== "or");
+
+  return Array.from(new Set(terms));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  const terms = getSearchTerms(query);
+
+  if (terms.length === 0) {
+    return <>{text}</>;
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        // split() with a capture group puts matches at odd indexes
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
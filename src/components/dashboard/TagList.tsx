@@ -0,0 +1,36 @@
+import type { NestedTagDTO } from "../../types";
+
+/**
+ * TagList Component
+ *
+ * Read-only list of a tasting note's flavor tags as small chips.
+ * Tags listed in `highlightedIds` (e.g. shared by every compared note) are emphasised.
+ * Renders nothing when the note has no tags.
+ */
+interface TagListProps {
+  tags: NestedTagDTO[];
+  highlightedIds?: string[];
+  className?: string;
+  "data-testid"?: string;
+}
+
+export function TagList({ tags, highlightedIds = [], className = "", "data-testid": dataTestId }: TagListProps) {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={`flex flex-wrap gap-1.5 ${className}`} aria-label="Flavor tags" data-testid={dataTestId}>
+      {tags.map((tag) => (
+        <li
+          key={tag.id}
+          className={`rounded-full px-2 py-0.5 text-xs ${
+            highlightedIds.includes(tag.id) ? "bg-green-600 text-white" : "bg-green-50 text-green-800"
+          }`}
+        >
+          {tag.name}
+        </li>
+      ))}
+    </ul>
+  );
+}
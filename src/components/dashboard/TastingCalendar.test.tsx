@@ -0,0 +1,105 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { render, screen, waitFor, within } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TastingNoteResponseDTO } from "../../types";
+import { TastingCalendar } from "./TastingCalendar";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+/**
+ * Unit tests for TastingCalendar component
+ * Tests month loading with the dashboard filters, day cells and day selection
+ */
+describe("TastingCalendar", () => {
+  const makeNote = (id: string, tastedAt: string, rating: number, blendName = "Ummon"): TastingNoteResponseDTO =>
+    ({
+      id,
+      tasted_at: tastedAt,
+      overall_rating: rating,
+      blend: {
+        id: "blend-1",
+        name: blendName,
+        brand: { id: "brand-1", name: "Ippodo" },
+        region: { id: "r", name: "Uji" },
+      },
+    }) as TastingNoteResponseDTO;
+
+  const mockPage = (notes: TastingNoteResponseDTO[], nextCursor: string | null = null) => {
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ data: notes, pagination: { limit: 100, next_cursor: nextCursor } }),
+    });
+  };
+
+  const getDay = (date: string) =>
+    screen.getAllByTestId("calendar-day").find((cell) => cell.dataset.date === date) as HTMLElement;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should load the month of the date filter with the other filters applied", async () => {
+    mockPage([]);
+    render(<TastingCalendar filters={{ min_rating: 4, to: "2026-03-20" }} onSelectDay={vi.fn()} />);
+
+    expect(screen.getByTestId("calendar-month")).toHaveTextContent("March 2026");
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+    const url = new URL((global.fetch as any).mock.calls[0][0], "http://localhost");
+    expect(url.searchParams.get("min_rating")).toBe("4");
+    expect(url.searchParams.get("from")).toBe("2026-03-01");
+    expect(url.searchParams.get("to")).toBe("2026-03-20");
+    expect(url.searchParams.get("sort_by")).toBe("tasted_at");
+    expect(url.searchParams.get("cursor")).toBe("");
+  });
+
+  it("should show tastings with their ratings on the day they happened", async () => {
+    mockPage([makeNote("note-1", "2026-03-05", 5), makeNote("note-2", "2026-03-05", 3, "Sayaka")]);
+    render(<TastingCalendar filters={{ to: "2026-03-31" }} onSelectDay={vi.fn()} />);
+
+    await waitFor(() => expect(within(getDay("2026-03-05")).getAllByTestId("calendar-note")).toHaveLength(2));
+    const [first, second] = within(getDay("2026-03-05")).getAllByTestId("calendar-note");
+    expect(first).toHaveTextContent("5Ummon");
+    expect(first).toHaveAttribute("href", "/tastings/note-1");
+    expect(second).toHaveTextContent("3Sayaka");
+    expect(within(getDay("2026-03-06")).queryByTestId("calendar-note")).not.toBeInTheDocument();
+  });
+
+  it("should follow cursors until the whole month is loaded", async () => {
+    mockPage([makeNote("note-1", "2026-03-01", 4)], "next-page");
+    mockPage([makeNote("note-2", "2026-03-30", 2)]);
+    render(<TastingCalendar filters={{ to: "2026-03-31" }} onSelectDay={vi.fn()} />);
+
+    await waitFor(() => expect(within(getDay("2026-03-30")).getByTestId("calendar-note")).toBeInTheDocument());
+    expect(within(getDay("2026-03-01")).getByTestId("calendar-note")).toBeInTheDocument();
+    const secondUrl = new URL((global.fetch as any).mock.calls[1][0], "http://localhost");
+    expect(secondUrl.searchParams.get("cursor")).toBe("next-page");
+  });
+
+  it("should collapse busy days and select a day with tastings", async () => {
+    const user = userEvent.setup();
+    const mockOnSelectDay = vi.fn();
+    mockPage(["a", "b", "c", "d", "e"].map((id) => makeNote(id, "2026-03-10", 4)));
+    render(<TastingCalendar filters={{ to: "2026-03-31" }} onSelectDay={mockOnSelectDay} />);
+
+    await waitFor(() => expect(within(getDay("2026-03-10")).getByText("+2 more")).toBeInTheDocument());
+    await user.click(screen.getByRole("button", { name: "March 10, 2026: 5 tastings" }));
+
+    expect(mockOnSelectDay).toHaveBeenCalledWith("2026-03-10");
+    expect(screen.getByRole("button", { name: "March 11, 2026: 0 tastings" })).toBeDisabled();
+  });
+
+  it("should not request months outside the date filter", async () => {
+    const user = userEvent.setup();
+    mockPage([]);
+    render(<TastingCalendar filters={{ from: "2026-03-01", to: "2026-03-31" }} onSelectDay={vi.fn()} />);
+
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+    await user.click(screen.getByRole("button", { name: "Next month" }));
+
+    expect(screen.getByTestId("calendar-month")).toHaveTextContent("April 2026");
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
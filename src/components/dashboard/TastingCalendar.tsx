@@ -0,0 +1,129 @@
+import { ChevronLeft, ChevronRight, Star } from "lucide-react";
+import { useState } from "react";
+import { formatIsoDate, getMonthWeeks, parseIsoDate, toIsoDate } from "../../lib/helpers/date";
+import type { TastingNotesQueryDTO } from "../../types";
+import { Button } from "../ui/button";
+import { useTastingCalendar } from "./useTastingCalendar";
+
+/**
+ * TastingCalendar Component
+ *
+ * Month view of the dashboard: shows on which days tastings happened and how they were rated.
+ * Applies the same filters as the grid. Each tasting links to its detail page;
+ * selecting a day's date narrows the dashboard to that day.
+ */
+interface TastingCalendarProps {
+  filters: TastingNotesQueryDTO;
+  onSelectDay: (day: string) => void;
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/**
+ * Tastings listed per day cell before collapsing into "+N more"
+ */
+const MAX_NOTES_PER_DAY = 3;
+
+export function TastingCalendar({ filters, onSelectDay }: TastingCalendarProps) {
+  // Open on the month of the date filter's end, or the current month
+  const [month, setMonth] = useState(() => {
+    const date = filters.to ? parseIsoDate(filters.to) : new Date();
+    return { year: date.getFullYear(), monthIndex: date.getMonth() };
+  });
+  const { notesByDay, isLoading, error } = useTastingCalendar(filters, month.year, month.monthIndex);
+
+  const today = toIsoDate(new Date());
+  const weeks = getMonthWeeks(month.year, month.monthIndex);
+  const monthLabel = new Date(month.year, month.monthIndex, 1).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+  });
+
+  const changeMonth = (delta: number) => {
+    const date = new Date(month.year, month.monthIndex + delta, 1);
+    setMonth({ year: date.getFullYear(), monthIndex: date.getMonth() });
+  };
+
+  return (
+    <div className="space-y-4" data-testid="tasting-calendar">
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={() => changeMonth(-1)} aria-label="Previous month">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <h2 className="text-lg font-semibold" aria-live="polite" data-testid="calendar-month">
+          {monthLabel}
+        </h2>
+        <Button variant="outline" size="sm" onClick={() => changeMonth(1)} aria-label="Next month">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-destructive text-sm" role="alert">
+          {error}
+        </p>
+      )}
+
+      <div
+        className={`grid grid-cols-7 gap-1 transition-opacity ${isLoading ? "opacity-50" : ""}`}
+        aria-busy={isLoading}
+      >
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-muted-foreground py-1 text-center text-xs font-medium">
+            {weekday}
+          </div>
+        ))}
+
+        {weeks.flat().map((day, index) => {
+          if (!day) {
+            return <div key={`blank-${index}`} className="min-h-24" />;
+          }
+
+          const notes = notesByDay.get(day) ?? [];
+          const dayNumber = Number(day.slice(8));
+
+          return (
+            <div
+              key={day}
+              className={`min-h-24 rounded-md border p-1 ${notes.length > 0 ? "border-green-600/40 bg-green-50" : ""}`}
+              data-testid="calendar-day"
+              data-date={day}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectDay(day)}
+                disabled={notes.length === 0}
+                className={`rounded-sm px-1 text-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring ${
+                  day === today ? "font-bold text-green-700" : "text-gray-700"
+                } ${notes.length > 0 ? "hover:bg-accent" : ""}`}
+                aria-label={`${formatIsoDate(day, "long")}: ${notes.length} ${notes.length === 1 ? "tasting" : "tastings"}`}
+              >
+                {dayNumber}
+              </button>
+
+              <ul className="mt-1 space-y-0.5">
+                {notes.slice(0, MAX_NOTES_PER_DAY).map((note) => (
+                  <li key={note.id}>
+                    <a
+                      href={`/tastings/${note.id}`}
+                      className="flex items-center gap-0.5 truncate rounded-sm px-1 text-[11px] leading-4 hover:bg-accent"
+                      title={`${note.blend.brand.name} ${note.blend.name}`}
+                      data-testid="calendar-note"
+                    >
+                      <Star className="h-3 w-3 shrink-0 fill-yellow-400 text-yellow-400" aria-hidden="true" />
+                      <span className="font-medium">{note.overall_rating}</span>
+                      <span className="truncate">{note.blend.name}</span>
+                    </a>
+                  </li>
+                ))}
+              </ul>
+              {notes.length > MAX_NOTES_PER_DAY && (
+                <p className="text-muted-foreground px-1 text-[11px]">+{notes.length - MAX_NOTES_PER_DAY} more</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,31 @@
+import { formatIsoDate } from "../../lib/helpers/date";
 import type { TastingNoteResponseDTO } from "../../types";
 import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { Checkbox } from "../ui/checkbox";
+import { getSearchTerms, HighlightedText } from "./HighlightedText";
 import { StarRatingDisplay } from "./StarRatingDisplay";
+import { TagList } from "./TagList";
+import { ValueBadge } from "./ValueBadge";
 
 /**
  * TastingCard Component
  *
  * Displays a summary of a single tasting note on the dashboard.
  * Includes a checkbox that is visible only in "compare mode".
+ * When a search query is active, matching terms are highlighted and
+ * the first matching free-text field is shown as a snippet.
+ * Priced notes show a value-for-money badge next to the rating.
+ * Notes with photos show the first one as a thumbnail.
  */
 interface TastingCardProps {
   note: TastingNoteResponseDTO;
   isCompareMode: boolean;
   isSelected: boolean;
   onSelect: (noteId: string) => void;
+  searchQuery?: string | null;
 }
 
-export function TastingCard({ note, isCompareMode, isSelected, onSelect }: TastingCardProps) {
+export function TastingCard({ note, isCompareMode, isSelected, onSelect, searchQuery }: TastingCardProps) {
   const handleCardClick = (e: React.MouseEvent) => {
     // Prevent navigation when clicking the checkbox in compare mode
     if (isCompareMode) {
@@ -33,17 +42,27 @@ export function TastingCard({ note, isCompareMode, isSelected, onSelect }: Tasti
     }
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString("en-US", {
-      year: "numeric",
-      month: "short",
-      day: "numeric",
-    });
-  };
+  const searchTerms = getSearchTerms(searchQuery);
+  const matchingSnippet =
+    searchTerms.length > 0
+      ? [note.notes_koicha, note.notes_milk, note.purchase_source].find(
+          (text) => text && searchTerms.some((term) => text.toLowerCase().includes(term))
+        )
+      : null;
+
+  const thumbnail = note.photos[0];
 
   const cardContent = (
-    <Card className="block transition-shadow hover:shadow-md" data-testid="tasting-note-card">
+    <Card className="block overflow-hidden transition-shadow hover:shadow-md" data-testid="tasting-note-card">
+      {thumbnail && (
+        <img
+          src={thumbnail.url}
+          alt={thumbnail.caption || `${note.blend.name} photo`}
+          loading="lazy"
+          className="-mt-6 aspect-[3/1] w-full object-cover"
+          data-testid="tasting-note-thumbnail"
+        />
+      )}
       <CardHeader>
         {isCompareMode && (
           <CardAction>
@@ -55,14 +74,26 @@ export function TastingCard({ note, isCompareMode, isSelected, onSelect }: Tasti
             />
           </CardAction>
         )}
-        <CardTitle>{note.blend.name}</CardTitle>
+        <CardTitle>
+          <HighlightedText text={note.blend.name} query={searchQuery} />
+        </CardTitle>
         <CardDescription>
-          {note.blend.brand.name} • {note.blend.region.name}
+          <HighlightedText text={note.blend.brand.name} query={searchQuery} /> •{" "}
+          <HighlightedText text={note.blend.region.name} query={searchQuery} />
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-2">
-        <StarRatingDisplay rating={note.overall_rating} />
-        <p className="text-muted-foreground text-xs">{formatDate(note.created_at)}</p>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <StarRatingDisplay rating={note.overall_rating} />
+          <ValueBadge score={note.value_score} />
+        </div>
+        <TagList tags={note.tags} />
+        {matchingSnippet && (
+          <p className="text-muted-foreground line-clamp-2 text-sm" data-testid="tasting-note-search-snippet">
+            <HighlightedText text={matchingSnippet} query={searchQuery} />
+          </p>
+        )}
+        <p className="text-muted-foreground text-xs">{formatIsoDate(note.tasted_at)}</p>
       </CardContent>
     </Card>
   );
@@ -1,5 +1,7 @@
-import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
 import type { TastingNoteResponseDTO } from "../../types";
+import { Button } from "../ui/button";
 import { TastingCard } from "./TastingCard";
 import { TastingCardSkeleton } from "./TastingCardSkeleton";
 
@@ -8,23 +10,54 @@ import { TastingCardSkeleton } from "./TastingCardSkeleton";
  *
  * Displays the grid of tasting notes. Handles rendering the loading state
  * (skeletons) or the actual TastingCard components based on the current state.
+ * Loads the next page when the end of the grid scrolls into view (infinite scroll),
+ * with a "Load more" button as a fallback.
  */
 interface TastingNotesGridProps {
   notes: TastingNoteResponseDTO[];
   isLoading: boolean;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
   isCompareMode: boolean;
   selectedNoteIds: string[];
   onSelectNote: (noteId: string) => void;
+  searchQuery?: string | null;
 }
 
 export function TastingNotesGrid({
   notes,
   isLoading,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
   isCompareMode,
   selectedNoteIds,
   onSelectNote,
+  searchQuery,
 }: TastingNotesGridProps) {
   const [showSkeleton, setShowSkeleton] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Request the next page once the sentinel below the grid approaches the viewport
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || !onLoadMore || typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
 
   useEffect(() => {
     if (!isLoading) {
@@ -64,16 +97,28 @@ export function TastingNotesGrid({
   }
 
   return (
-    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-      {notes.map((note) => (
-        <TastingCard
-          key={note.id}
-          note={note}
-          isCompareMode={isCompareMode}
-          isSelected={selectedNoteIds.includes(note.id)}
-          onSelect={onSelectNote}
-        />
-      ))}
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {notes.map((note) => (
+          <TastingCard
+            key={note.id}
+            note={note}
+            isCompareMode={isCompareMode}
+            isSelected={selectedNoteIds.includes(note.id)}
+            onSelect={onSelectNote}
+            searchQuery={searchQuery}
+          />
+        ))}
+      </div>
+
+      {hasMore && (
+        <div ref={sentinelRef} className="flex justify-center" data-testid="load-more-sentinel">
+          <Button variant="outline" onClick={onLoadMore} disabled={isLoadingMore} data-testid="load-more-button">
+            {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isLoadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
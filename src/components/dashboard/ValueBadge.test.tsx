@@ -0,0 +1,38 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { getValueTier, ValueBadge } from "./ValueBadge";
+
+/**
+ * Unit tests for ValueBadge component
+ * Tests value score tiers and rendering for priced and unpriced notes
+ */
+describe("ValueBadge", () => {
+  describe("getValueTier", () => {
+    it.each([
+      [100, "Great value"],
+      [80, "Great value"],
+      [79, "Good value"],
+      [50, "Good value"],
+      [49, "Fair value"],
+      [25, "Fair value"],
+      [24, "Pricey"],
+      [0, "Pricey"],
+    ])("should map score %i to %s", (score, label) => {
+      expect(getValueTier(score).label).toBe(label);
+    });
+  });
+
+  describe("Rendering", () => {
+    it("should render the tier label and score", () => {
+      render(<ValueBadge score={86} />);
+
+      expect(screen.getByTestId("value-badge")).toHaveTextContent("Great value · 86");
+    });
+
+    it("should render nothing when the note has no price", () => {
+      const { container } = render(<ValueBadge score={null} />);
+
+      expect(container).toBeEmptyDOMElement();
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * ValueBadge Component
+ *
+ * Shows the value-for-money score of a tasting note (0-100, where 100 is
+ * the best rating per PLN in the user's journal). Renders nothing for unpriced notes.
+ */
+interface ValueBadgeProps {
+  score: number | null;
+  className?: string;
+}
+
+interface ValueTier {
+  label: string;
+  className: string;
+}
+
+/**
+ * Maps a value score to a display tier
+ */
+export function getValueTier(score: number): ValueTier {
+  if (score >= 80) {
+    return { label: "Great value", className: "bg-green-100 text-green-800" };
+  }
+  if (score >= 50) {
+    return { label: "Good value", className: "bg-lime-100 text-lime-800" };
+  }
+  if (score >= 25) {
+    return { label: "Fair value", className: "bg-amber-100 text-amber-800" };
+  }
+  return { label: "Pricey", className: "bg-gray-100 text-gray-700" };
+}
+
+export function ValueBadge({ score, className = "" }: ValueBadgeProps) {
+  if (score === null) {
+    return null;
+  }
+
+  const tier = getValueTier(score);
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${tier.className} ${className}`}
+      title={`Value score ${score}/100 - rating per PLN compared to your best value matcha`}
+      data-testid="value-badge"
+    >
+      {tier.label} · {score}
+    </span>
+  );
+}
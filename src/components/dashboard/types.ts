@@ -4,7 +4,7 @@
  * This file contains all type definitions specific to the Dashboard view.
  */
 
-import type { PaginationMetaDTO, TastingNoteResponseDTO, TastingNotesQueryDTO } from "../../types";
+import type { CursorPaginationMetaDTO, TastingNoteResponseDTO, TastingNotesQueryDTO } from "../../types";
 
 /**
  * Dashboard ViewModel
@@ -12,8 +12,9 @@ import type { PaginationMetaDTO, TastingNoteResponseDTO, TastingNotesQueryDTO }
  */
 export interface DashboardViewModel {
   notes: TastingNoteResponseDTO[];
-  pagination: PaginationMetaDTO | null;
+  pagination: CursorPaginationMetaDTO | null;
   isLoading: boolean;
+  isLoadingMore: boolean;
   error: string | null;
   filters: TastingNotesQueryDTO;
   filterOptions: FilterOptions;
@@ -23,9 +24,10 @@ export interface DashboardViewModel {
 
 /**
  * Filter Options
- * Dynamic lists of brands and regions available for filtering
+ * Dynamic lists of brands, regions and tags available for filtering
  */
 export interface FilterOptions {
   brands: { id: string; name: string }[];
   regions: { id: string; name: string }[];
+  tags: { id: string; name: string }[];
 }
@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { renderHook, waitFor } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import type { TastingNotesListResponseDTO } from "../../types";
+import { MAX_COMPARE_NOTES } from "../../lib/constants";
+import { buildDashboardQueryString, parseDashboardFilters } from "../../lib/helpers/dashboard-filters";
+import type { TastingNotesCursorListResponseDTO } from "../../types";
 import { useDashboardState } from "./useDashboardState";
 
 // Mock global fetch
@@ -9,7 +11,7 @@ global.fetch = vi.fn();
 
 /**
  * Unit tests for useDashboardState hook
- * Tests filtering, sorting, pagination, and compare mode logic
+ * Tests filtering, sorting, cursor pagination, and compare mode logic
  */
 describe("useDashboardState", () => {
   const mockBrandsResponse = {
@@ -26,19 +28,33 @@ describe("useDashboardState", () => {
     ],
   };
 
-  const mockTastingNotesResponse: TastingNotesListResponseDTO = {
+  const mockTagsResponse = {
+    data: [{ id: "tag-1", name: "grassy" }],
+  };
+
+  const mockTastingNotesResponse: TastingNotesCursorListResponseDTO = {
     data: [
       {
         id: "note-1",
+        tasted_at: "2024-01-01",
         created_at: "2024-01-01",
         updated_at: "2024-01-01",
         user_id: "user-1",
         blend: {
           id: "blend-1",
           name: "Sayaka",
+          grade: "ceremonial",
+          cultivars: [],
+          harvest: null,
+          is_organic: false,
+          is_jas_certified: false,
           brand: { id: "brand-1", name: "Ippodo" },
           region: { id: "region-1", name: "Uji" },
         },
+        tags: [],
+        photos: [],
+        is_public: false,
+        share_token: null,
         overall_rating: 5,
         umami: 5,
         bitter: 2,
@@ -46,14 +62,23 @@ describe("useDashboardState", () => {
         foam: 4,
         notes_koicha: "Rich and smooth",
         notes_milk: null,
-        price_pln: 45.0,
+        brew_method: null,
+        powder_grams: null,
+        water_ml: null,
+        water_temp_c: null,
+        whisk_type: null,
+        milk_type: null,
+        price_amount: 45.0,
+        price_currency: "PLN",
+        package_grams: 100,
+        price_per_100g_pln: 45.0,
+        value_score: 100,
         purchase_source: "ippodo.com",
       },
     ],
     pagination: {
-      page: 1,
       limit: 12,
-      total: 1,
+      next_cursor: null,
     },
   };
 
@@ -72,6 +97,12 @@ describe("useDashboardState", () => {
           json: () => Promise.resolve(mockRegionsResponse),
         });
       }
+      if (url.includes("/api/tags")) {
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(mockTagsResponse),
+        });
+      }
       if (url.includes("/api/tasting-notes")) {
         return Promise.resolve({
           ok: true,
@@ -94,7 +125,6 @@ describe("useDashboardState", () => {
       expect(result.current.state.isLoading).toBe(false);
       expect(result.current.state.error).toBeNull();
       expect(result.current.state.filters).toEqual({
-        page: 1,
         limit: 12,
         sort_by: "created_at",
         sort_order: "desc",
@@ -126,6 +156,7 @@ describe("useDashboardState", () => {
         { id: "region-1", name: "Uji" },
         { id: "region-2", name: "Kyoto" },
       ]);
+      expect(result.current.state.filterOptions.tags).toEqual([{ id: "tag-1", name: "grassy" }]);
     });
 
     it("should handle filter options fetch failure gracefully", async () => {
@@ -163,7 +194,7 @@ describe("useDashboardState", () => {
 
     it("should handle fetch error", async () => {
       (global.fetch as any).mockImplementation((url: string) => {
-        if (url.includes("/api/brands") || url.includes("/api/regions")) {
+        if (url.includes("/api/brands") || url.includes("/api/regions") || url.includes("/api/tags")) {
           return Promise.resolve({
             ok: true,
             json: () => Promise.resolve({ data: [] }),
@@ -201,60 +232,80 @@ describe("useDashboardState", () => {
       });
     });
 
-    it("should reset to page 1 when filters change", async () => {
+    it("should handle multiple filter types", async () => {
       const { result } = renderHook(() => useDashboardState());
 
       await waitFor(() => {
         expect(result.current.state.isLoading).toBe(false);
       });
 
-      // Change page first
-      result.current.setFilters({ page: 2 });
+      result.current.setFilters({
+        brand_ids: ["brand-1", "brand-2"],
+        region_ids: ["region-1"],
+        min_rating: 4,
+      });
 
       await waitFor(() => {
-        expect(result.current.state.filters.page).toBe(2);
+        expect(result.current.state.filters.brand_ids).toEqual(["brand-1", "brand-2"]);
+        expect(result.current.state.filters.region_ids).toEqual(["region-1"]);
+        expect(result.current.state.filters.min_rating).toBe(4);
       });
+    });
 
-      // Change filter - should reset to page 1
-      result.current.setFilters({ brand_ids: ["brand-1"] });
+    it("should send price range filters including a zero minimum", async () => {
+      const { result } = renderHook(() => useDashboardState());
 
       await waitFor(() => {
-        expect(result.current.state.filters.page).toBe(1);
+        expect(result.current.state.isLoading).toBe(false);
       });
+
+      result.current.setFilters({ min_price: 0, max_price: 120 });
+
+      await waitFor(
+        () => {
+          const lastUrl = (global.fetch as any).mock.calls.at(-1)[0] as string;
+          expect(lastUrl).toContain("min_price=0");
+          expect(lastUrl).toContain("max_price=120");
+        },
+        { timeout: 500 }
+      );
     });
 
-    it("should not reset page when explicitly changing page", async () => {
+    it("should send sensory ranges and written-notes filters", async () => {
       const { result } = renderHook(() => useDashboardState());
 
       await waitFor(() => {
         expect(result.current.state.isLoading).toBe(false);
       });
 
-      result.current.setFilters({ page: 3 });
+      result.current.setFilters({ min_sweet: 4, max_bitter: 2, has_notes_milk: true, has_notes_koicha: false });
 
-      await waitFor(() => {
-        expect(result.current.state.filters.page).toBe(3);
-      });
+      await waitFor(
+        () => {
+          const lastUrl = (global.fetch as any).mock.calls.at(-1)[0] as string;
+          expect(lastUrl).toContain("max_bitter=2&min_sweet=4");
+          expect(lastUrl).toContain("has_notes_koicha=false&has_notes_milk=true");
+        },
+        { timeout: 500 }
+      );
     });
 
-    it("should handle multiple filter types", async () => {
+    it("should send tag filters as a single comma-separated parameter", async () => {
       const { result } = renderHook(() => useDashboardState());
 
       await waitFor(() => {
         expect(result.current.state.isLoading).toBe(false);
       });
 
-      result.current.setFilters({
-        brand_ids: ["brand-1", "brand-2"],
-        region_ids: ["region-1"],
-        min_rating: 4,
-      });
+      result.current.setFilters({ tag_ids: ["tag-1", "tag-2"] });
 
-      await waitFor(() => {
-        expect(result.current.state.filters.brand_ids).toEqual(["brand-1", "brand-2"]);
-        expect(result.current.state.filters.region_ids).toEqual(["region-1"]);
-        expect(result.current.state.filters.min_rating).toBe(4);
-      });
+      await waitFor(
+        () => {
+          const lastUrl = (global.fetch as any).mock.calls.at(-1)[0] as string;
+          expect(lastUrl).toContain("tag_ids=tag-1%2Ctag-2");
+        },
+        { timeout: 500 }
+      );
     });
 
     it("should debounce filter changes", async () => {
@@ -283,6 +334,163 @@ describe("useDashboardState", () => {
     });
   });
 
+  describe("Cursor Pagination", () => {
+    const secondNote = { ...mockTastingNotesResponse.data[0], id: "note-2" };
+
+    const mockNotesPages = (firstPageCursor: string | null) => {
+      (global.fetch as any).mockImplementation((url: string) => {
+        if (url.includes("/api/tasting-notes")) {
+          const isNextPage = url.includes("cursor=cursor-1");
+          const body: TastingNotesCursorListResponseDTO = isNextPage
+            ? { data: [secondNote], pagination: { limit: 12, next_cursor: null } }
+            : { ...mockTastingNotesResponse, pagination: { limit: 12, next_cursor: firstPageCursor } };
+          return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+        }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve({ data: [] }) });
+      });
+    };
+
+    it("should request the first page in cursor mode", async () => {
+      renderHook(() => useDashboardState());
+
+      await waitFor(() => {
+        const notesUrl = (global.fetch as any).mock.calls
+          .map((call: unknown[]) => call[0] as string)
+          .find((url: string) => url.includes("/api/tasting-notes"));
+        expect(notesUrl).toContain("cursor=");
+        expect(notesUrl).not.toContain("page=");
+      });
+    });
+
+    it("should append the next page when loading more", async () => {
+      mockNotesPages("cursor-1");
+
+      const { result } = renderHook(() => useDashboardState());
+
+      await waitFor(() => {
+        expect(result.current.state.pagination?.next_cursor).toBe("cursor-1");
+      });
+
+      await result.current.loadMore();
+
+      await waitFor(() => {
+        expect(result.current.state.notes.map((note) => note.id)).toEqual(["note-1", "note-2"]);
+      });
+      expect(result.current.state.pagination?.next_cursor).toBeNull();
+      expect(result.current.state.isLoadingMore).toBe(false);
+    });
+
+    it("should not load more on the last page", async () => {
+      mockNotesPages(null);
+
+      const { result } = renderHook(() => useDashboardState());
+
+      await waitFor(() => {
+        expect(result.current.state.notes.length).toBe(1);
+      });
+
+      const fetchCallCount = (global.fetch as any).mock.calls.length;
+      await result.current.loadMore();
+
+      expect((global.fetch as any).mock.calls.length).toBe(fetchCallCount);
+      expect(result.current.state.notes.length).toBe(1);
+    });
+
+    it("should restart from the first page when filters change", async () => {
+      mockNotesPages("cursor-1");
+
+      const { result } = renderHook(() => useDashboardState());
+
+      await waitFor(() => {
+        expect(result.current.state.pagination?.next_cursor).toBe("cursor-1");
+      });
+
+      await result.current.loadMore();
+
+      await waitFor(() => {
+        expect(result.current.state.notes.length).toBe(2);
+      });
+
+      result.current.setFilters({ min_rating: 4 });
+
+      await waitFor(
+        () => {
+          expect(result.current.state.notes.map((note) => note.id)).toEqual(["note-1"]);
+          expect(result.current.state.filters.min_rating).toBe(4);
+        },
+        { timeout: 500 }
+      );
+    });
+  });
+
+  describe("URL Filters", () => {
+    afterEach(() => {
+      window.history.replaceState(null, "", "/");
+    });
+
+    it("should parse filters from a dashboard URL and ignore invalid parameters", () => {
+      const params = new URLSearchParams(
+        "q=nutty&region_ids=3f1c2a34-7e4b-4b8e-9a65-1c2d3e4f5a6b&min_rating=9&max_price=120&sort_by=value&page=2"
+      );
+
+      expect(parseDashboardFilters(params)).toEqual({
+        q: "nutty",
+        region_ids: ["3f1c2a34-7e4b-4b8e-9a65-1c2d3e4f5a6b"],
+        max_price: 120,
+        sort_by: "value",
+      });
+    });
+
+    it("should parse sensory ranges and written-notes flags from the URL", () => {
+      const params = new URLSearchParams(
+        "min_sweet=4&max_bitter=2&max_foam=7&has_notes_milk=true&has_notes_koicha=maybe"
+      );
+
+      expect(parseDashboardFilters(params)).toEqual({ min_sweet: 4, max_bitter: 2, has_notes_milk: true });
+    });
+
+    it("should parse blend grade and cultivar filters from the URL", () => {
+      const params = new URLSearchParams("grade=ceremonial&cultivar=Okumidori");
+
+      expect(parseDashboardFilters(params)).toEqual({ grade: "ceremonial", cultivar: "Okumidori" });
+      expect(parseDashboardFilters(new URLSearchParams("grade=competition"))).toEqual({});
+    });
+
+    it("should keep a secondary sort key in the URL even with the default sorting", () => {
+      const params = new URLSearchParams("secondary_sort_by=brand_name&secondary_sort_order=asc");
+
+      expect(parseDashboardFilters(params)).toEqual({ secondary_sort_by: "brand_name", secondary_sort_order: "asc" });
+      expect(
+        buildDashboardQueryString({ sort_by: "created_at", sort_order: "desc", ...parseDashboardFilters(params) })
+      ).toBe("secondary_sort_by=brand_name&secondary_sort_order=asc");
+    });
+
+    it("should leave pagination, empty filters and default sorting out of the URL", () => {
+      expect(
+        buildDashboardQueryString({
+          limit: 12,
+          cursor: "",
+          brand_ids: [],
+          min_rating: 4,
+          sort_by: "created_at",
+          sort_order: "desc",
+        })
+      ).toBe("min_rating=4");
+    });
+
+    it("should start from the initial filters and mirror filter changes in the URL", async () => {
+      const { result } = renderHook(() => useDashboardState(undefined, { min_rating: 4 }));
+
+      expect(result.current.state.filters.min_rating).toBe(4);
+
+      result.current.setFilters({ sort_by: "overall_rating", sort_order: "desc" });
+
+      await waitFor(() => {
+        expect(window.location.search).toBe("?min_rating=4&sort_by=overall_rating&sort_order=desc");
+      });
+    });
+  });
+
   describe("Sorting", () => {
     it("should update sort_by filter", async () => {
       const { result } = renderHook(() => useDashboardState());
@@ -311,6 +519,45 @@ describe("useDashboardState", () => {
         expect(result.current.state.filters.sort_order).toBe("asc");
       });
     });
+
+    it("should allow sorting by value", async () => {
+      const { result } = renderHook(() => useDashboardState());
+
+      await waitFor(() => {
+        expect(result.current.state.isLoading).toBe(false);
+      });
+
+      result.current.setFilters({ sort_by: "value", sort_order: "desc" });
+
+      await waitFor(() => {
+        expect(result.current.state.filters.sort_by).toBe("value");
+      });
+    });
+
+    it("should send a secondary sort key after the primary one", async () => {
+      const { result } = renderHook(() => useDashboardState());
+
+      await waitFor(() => {
+        expect(result.current.state.isLoading).toBe(false);
+      });
+
+      result.current.setFilters({
+        sort_by: "umami",
+        sort_order: "desc",
+        secondary_sort_by: "price_pln",
+        secondary_sort_order: "asc",
+      });
+
+      await waitFor(
+        () => {
+          const lastUrl = (global.fetch as any).mock.calls.at(-1)[0] as string;
+          expect(lastUrl).toContain(
+            "sort_by=umami&sort_order=desc&secondary_sort_by=price_pln&secondary_sort_order=asc"
+          );
+        },
+        { timeout: 500 }
+      );
+    });
   });
 
   describe("Compare Mode", () => {
@@ -408,7 +655,7 @@ describe("useDashboardState", () => {
       });
     });
 
-    it("should replace first note when selecting a third note", async () => {
+    it("should keep previous selections when selecting a third note", async () => {
       const { result } = renderHook(() => useDashboardState());
 
       result.current.handleSelectNote("note-1");
@@ -421,7 +668,24 @@ describe("useDashboardState", () => {
       result.current.handleSelectNote("note-3");
 
       await waitFor(() => {
-        expect(result.current.state.selectedForCompare).toEqual(["note-2", "note-3"]);
+        expect(result.current.state.selectedForCompare).toEqual(["note-1", "note-2", "note-3"]);
+      });
+    });
+
+    it("should ignore selections beyond the comparison limit", async () => {
+      const { result } = renderHook(() => useDashboardState());
+      const noteIds = Array.from({ length: MAX_COMPARE_NOTES }, (_, index) => `note-${index + 1}`);
+
+      noteIds.forEach((id) => result.current.handleSelectNote(id));
+
+      await waitFor(() => {
+        expect(result.current.state.selectedForCompare).toEqual(noteIds);
+      });
+
+      result.current.handleSelectNote("note-extra");
+
+      await waitFor(() => {
+        expect(result.current.state.selectedForCompare).toEqual(noteIds);
       });
     });
 
@@ -1,90 +1,90 @@
-import { useCallback, useEffect, useState } from "react";
-import type { TastingNotesListResponseDTO, TastingNotesQueryDTO } from "../../types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MAX_COMPARE_NOTES } from "../../lib/constants";
+import {
+  buildDashboardQueryString,
+  buildTastingNotesSearchParams,
+  DEFAULT_SORT,
+} from "../../lib/helpers/dashboard-filters";
+import type { TastingNotesCursorListResponseDTO, TastingNotesFiltersDTO, TastingNotesQueryDTO } from "../../types";
 import type { DashboardViewModel } from "./types";
 
 /**
  * Custom hook for managing dashboard state
  *
  * Centralizes all business logic for the dashboard:
- * - Data fetching with debouncing
- * - Filter state management
+ * - Data fetching with debouncing, plus cursor-based loading of further pages
+ * - Filter state management, mirrored in the URL so views can be bookmarked
  * - Compare mode logic
  * - Loading and error states
  */
-export function useDashboardState(initialData?: TastingNotesListResponseDTO) {
+export function useDashboardState(
+  initialData?: TastingNotesCursorListResponseDTO,
+  initialFilters?: TastingNotesFiltersDTO
+) {
   const [state, setState] = useState<DashboardViewModel>({
     notes: initialData?.data || [],
     pagination: initialData?.pagination || null,
     isLoading: false,
+    isLoadingMore: false,
     error: null,
     filters: {
-      page: 1,
       limit: 12,
-      sort_by: "created_at",
-      sort_order: "desc",
+      ...DEFAULT_SORT,
+      ...initialFilters,
     },
     filterOptions: {
       brands: [],
       regions: [],
+      tags: [],
     },
     isCompareMode: false,
     selectedForCompare: [],
   });
 
-  // Fetch filter options (brands and regions)
+  // Fetch filter options (brands, regions and tags)
   const fetchFilterOptions = useCallback(async () => {
     try {
-      const [brandsResponse, regionsResponse] = await Promise.all([
+      const [brandsResponse, regionsResponse, tagsResponse] = await Promise.all([
         fetch("/api/brands?limit=100"),
         fetch("/api/regions?limit=100"),
+        fetch("/api/tags?limit=100"),
       ]);
 
-      if (!brandsResponse.ok || !regionsResponse.ok) {
+      if (!brandsResponse.ok || !regionsResponse.ok || !tagsResponse.ok) {
         throw new Error("Failed to fetch filter options");
       }
 
       const brandsData = await brandsResponse.json();
       const regionsData = await regionsResponse.json();
+      const tagsData = await tagsResponse.json();
 
       setState((prev) => ({
         ...prev,
         filterOptions: {
           brands: brandsData.data.map((b: { id: string; name: string }) => ({ id: b.id, name: b.name })),
           regions: regionsData.data.map((r: { id: string; name: string }) => ({ id: r.id, name: r.name })),
+          tags: tagsData.data.map((t: { id: string; name: string }) => ({ id: t.id, name: t.name })),
         },
       }));
     } catch {
       // Failed to fetch filter options - continue with empty options
       setState((prev) => ({
         ...prev,
-        filterOptions: { brands: [], regions: [] },
+        filterOptions: { brands: [], regions: [], tags: [] },
       }));
     }
   }, []);
 
-  // Fetch tasting notes with current filters
+  // Incremented on every first-page fetch, so pages requested for older filters are discarded
+  const requestIdRef = useRef(0);
+
+  // Fetch the first page of tasting notes with current filters
   const fetchTastingNotes = useCallback(async (filters: TastingNotesQueryDTO) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    const requestId = ++requestIdRef.current;
+    setState((prev) => ({ ...prev, isLoading: true, isLoadingMore: false, error: null }));
 
     try {
-      const params = new URLSearchParams();
-
-      // Add pagination
-      if (filters.page) params.append("page", filters.page.toString());
-      if (filters.limit) params.append("limit", filters.limit.toString());
-
-      // Add filters
-      if (filters.brand_ids?.length) {
-        filters.brand_ids.forEach((id) => params.append("brand_ids", id));
-      }
-      if (filters.region_ids?.length) {
-        filters.region_ids.forEach((id) => params.append("region_ids", id));
-      }
-      if (filters.min_rating) params.append("min_rating", filters.min_rating.toString());
-
-      // Add sorting
-      if (filters.sort_by) params.append("sort_by", filters.sort_by);
-      if (filters.sort_order) params.append("sort_order", filters.sort_order);
+      const params = buildTastingNotesSearchParams({ ...filters, cursor: "" });
 
       const response = await fetch(`/api/tasting-notes?${params.toString()}`);
 
@@ -92,7 +92,11 @@ export function useDashboardState(initialData?: TastingNotesListResponseDTO) {
         throw new Error("Failed to fetch tasting notes");
       }
 
-      const data: TastingNotesListResponseDTO = await response.json();
+      const data: TastingNotesCursorListResponseDTO = await response.json();
+
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
 
       setState((prev) => ({
         ...prev,
@@ -101,6 +105,10 @@ export function useDashboardState(initialData?: TastingNotesListResponseDTO) {
         isLoading: false,
       }));
     } catch (err) {
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
       setState((prev) => ({
         ...prev,
         isLoading: false,
@@ -109,6 +117,50 @@ export function useDashboardState(initialData?: TastingNotesListResponseDTO) {
     }
   }, []);
 
+  // Append the next page after the current cursor (infinite scroll)
+  const loadMore = useCallback(async () => {
+    const nextCursor = state.pagination?.next_cursor;
+    if (!nextCursor || state.isLoading || state.isLoadingMore) {
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    setState((prev) => ({ ...prev, isLoadingMore: true }));
+
+    try {
+      const params = buildTastingNotesSearchParams({ ...state.filters, cursor: nextCursor });
+
+      const response = await fetch(`/api/tasting-notes?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to load more tasting notes");
+      }
+
+      const data: TastingNotesCursorListResponseDTO = await response.json();
+
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        notes: [...prev.notes, ...data.data],
+        pagination: data.pagination,
+        isLoadingMore: false,
+      }));
+    } catch (err) {
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        isLoadingMore: false,
+        error: err instanceof Error ? err.message : "An error occurred",
+      }));
+    }
+  }, [state.pagination, state.filters, state.isLoading, state.isLoadingMore]);
+
   // Debounced filter update
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -118,20 +170,28 @@ export function useDashboardState(initialData?: TastingNotesListResponseDTO) {
     return () => clearTimeout(timeoutId);
   }, [state.filters, fetchTastingNotes]);
 
+  // Mirror the filters in the URL (replacing the history entry, so filtering does not flood back navigation)
+  useEffect(() => {
+    const query = buildDashboardQueryString(state.filters);
+    const url = query ? `${window.location.pathname}?${query}` : window.location.pathname;
+
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(window.history.state, "", url);
+    }
+  }, [state.filters]);
+
   // Fetch filter options on mount
   useEffect(() => {
     fetchFilterOptions();
   }, [fetchFilterOptions]);
 
-  // Update filters
+  // Update filters (the list restarts from the first page)
   const setFilters = useCallback((newFilters: Partial<TastingNotesQueryDTO>) => {
     setState((prev) => ({
       ...prev,
       filters: {
         ...prev.filters,
         ...newFilters,
-        // Reset to page 1 when filters change (except when changing page)
-        page: newFilters.page !== undefined ? newFilters.page : 1,
       },
     }));
   }, []);
@@ -158,13 +218,9 @@ export function useDashboardState(initialData?: TastingNotesListResponseDTO) {
         };
       }
 
-      // Select (max 2 notes)
-      if (prev.selectedForCompare.length >= 2) {
-        // Replace the first selected note
-        return {
-          ...prev,
-          selectedForCompare: [prev.selectedForCompare[1], noteId],
-        };
+      // Select (ignore once the comparison limit is reached)
+      if (prev.selectedForCompare.length >= MAX_COMPARE_NOTES) {
+        return prev;
       }
 
       return {
@@ -177,6 +233,7 @@ export function useDashboardState(initialData?: TastingNotesListResponseDTO) {
   return {
     state,
     setFilters,
+    loadMore,
     toggleCompareMode,
     handleSelectNote,
   };
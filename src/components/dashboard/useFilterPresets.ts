@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  ErrorResponseDTO,
+  FilterPresetResponseDTO,
+  FilterPresetsResponseDTO,
+  TastingNotesFiltersDTO,
+} from "../../types";
+
+/**
+ * Custom hook for the user's saved filter presets
+ *
+ * Loads the presets on mount and saves or deletes them through the API,
+ * keeping the local list sorted by name.
+ */
+export function useFilterPresets() {
+  const [presets, setPresets] = useState<FilterPresetResponseDTO[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch presets on mount
+  useEffect(() => {
+    async function fetchPresets() {
+      try {
+        const response = await fetch("/api/filter-presets");
+        if (!response.ok) throw new Error("Failed to fetch saved views");
+
+        const result: FilterPresetsResponseDTO = await response.json();
+        setPresets(result.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch saved views");
+      }
+    }
+
+    fetchPresets();
+  }, []);
+
+  // Save filters under a new name; returns whether it worked (errors are kept in state)
+  const savePreset = useCallback(async (name: string, filters: TastingNotesFiltersDTO) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/filter-presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, filters }),
+      });
+
+      if (response.status === 409) {
+        throw new Error("A saved view with this name already exists");
+      }
+
+      if (!response.ok) {
+        const errorData: ErrorResponseDTO = await response.json().catch(() => ({ error: "" }));
+        throw new Error(errorData.error || "Failed to save view");
+      }
+
+      const preset: FilterPresetResponseDTO = await response.json();
+      setPresets((current) => [...current, preset].sort((a, b) => a.name.localeCompare(b.name)));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  // Delete a preset
+  const deletePreset = useCallback(async (id: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/filter-presets/${id}`, { method: "DELETE" });
+
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Failed to delete saved view");
+      }
+
+      setPresets((current) => current.filter((preset) => preset.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    }
+  }, []);
+
+  return {
+    presets,
+    isSaving,
+    error,
+    savePreset,
+    deletePreset,
+  };
+}
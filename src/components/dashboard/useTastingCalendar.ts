@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from "react";
+import { toIsoDate } from "../../lib/helpers/date";
+import { buildTastingNotesSearchParams, toTastingNotesFilters } from "../../lib/helpers/dashboard-filters";
+import type { TastingNoteResponseDTO, TastingNotesCursorListResponseDTO, TastingNotesQueryDTO } from "../../types";
+
+/**
+ * Notes fetched per request while filling a month (the API maximum)
+ */
+const CALENDAR_PAGE_SIZE = 100;
+
+/**
+ * Custom hook for the dashboard calendar
+ *
+ * Loads every tasting of the shown month that matches the dashboard filters,
+ * following cursors until the month is complete, and groups them by tasting date.
+ * The month is intersected with the from/to filters, so an empty intersection makes no request.
+ */
+export function useTastingCalendar(filters: TastingNotesQueryDTO, year: number, monthIndex: number) {
+  const [notes, setNotes] = useState<TastingNoteResponseDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the filters matter for the request; the query string keeps the effect from re-running on equal values
+  const filtersQuery = buildTastingNotesSearchParams(toTastingNotesFilters(filters)).toString();
+
+  useEffect(() => {
+    const monthStart = toIsoDate(new Date(year, monthIndex, 1));
+    const monthEnd = toIsoDate(new Date(year, monthIndex + 1, 0));
+    const params = new URLSearchParams(filtersQuery);
+    const from = [params.get("from"), monthStart].filter(Boolean).sort().at(-1) as string;
+    const to = [params.get("to"), monthEnd].filter(Boolean).sort()[0] as string;
+
+    if (from > to) {
+      setNotes([]);
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    let isCancelled = false;
+
+    async function fetchMonth() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        params.set("from", from);
+        params.set("to", to);
+        params.set("sort_by", "tasted_at");
+        params.set("sort_order", "asc");
+        params.delete("secondary_sort_by");
+        params.delete("secondary_sort_order");
+        params.set("limit", String(CALENDAR_PAGE_SIZE));
+
+        const monthNotes: TastingNoteResponseDTO[] = [];
+        let cursor: string | null = "";
+
+        while (cursor !== null) {
+          params.set("cursor", cursor);
+          const response = await fetch(`/api/tasting-notes?${params.toString()}`);
+
+          if (!response.ok) {
+            throw new Error("Failed to fetch tastings for the calendar");
+          }
+
+          const data: TastingNotesCursorListResponseDTO = await response.json();
+          monthNotes.push(...data.data);
+          cursor = data.pagination.next_cursor;
+
+          if (isCancelled) {
+            return;
+          }
+        }
+
+        setNotes(monthNotes);
+      } catch (err) {
+        if (!isCancelled) {
+          setError(err instanceof Error ? err.message : "An error occurred");
+        }
+      } finally {
+        if (!isCancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    fetchMonth();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [filtersQuery, year, monthIndex]);
+
+  // Tastings grouped by day, in the order they were returned
+  const notesByDay = useMemo(() => {
+    const days = new Map<string, TastingNoteResponseDTO[]>();
+    for (const note of notes) {
+      days.set(note.tasted_at, [...(days.get(note.tasted_at) ?? []), note]);
+    }
+    return days;
+  }, [notes]);
+
+  return {
+    notesByDay,
+    isLoading,
+    error,
+  };
+}
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from "react";
+import type { CommunityBlendRatingDTO, UserSettingsResponseDTO } from "../../types";
+
+/**
+ * Custom hook for the community ratings of a blend
+ * Fetches the anonymised aggregates whenever the blend changes (nothing while no blend is picked)
+ * and lets the user opt in or out of contributing their own ratings
+ */
+export function useCommunityRating(blendId: string | null) {
+  const [community, setCommunity] = useState<CommunityBlendRatingDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCommunity = useCallback(async (id: string, isCancelled: () => boolean = () => false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/blends/${id}/community`);
+
+      if (!response.ok) {
+        throw new Error("Failed to load community ratings");
+      }
+
+      const data: CommunityBlendRatingDTO = await response.json();
+      if (!isCancelled()) {
+        setCommunity(data);
+      }
+    } catch (err) {
+      if (!isCancelled()) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      }
+    } finally {
+      if (!isCancelled()) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    setCommunity(null);
+
+    if (!blendId) {
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchCommunity(blendId, () => cancelled);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [blendId, fetchCommunity]);
+
+  /**
+   * Opts the user in or out of community ratings, then reloads the aggregates they affect
+   */
+  const setContributing = async (shareCommunityRatings: boolean) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/settings", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ share_community_ratings: shareCommunityRatings }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update your sharing preference");
+      }
+
+      const settings: UserSettingsResponseDTO = await response.json();
+      setCommunity((current) => current && { ...current, is_contributing: settings.share_community_ratings });
+
+      if (blendId) {
+        await fetchCommunity(blendId);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    community,
+    isLoading,
+    isSaving,
+    error,
+    setContributing,
+  };
+}
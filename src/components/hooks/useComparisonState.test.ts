@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { renderHook, waitFor } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_COMPARE_NOTES } from "../../lib/constants";
 import type { SelectNotesResponseDTO } from "../../types";
 import { useComparisonState } from "./useComparisonState";
 
@@ -32,7 +33,7 @@ describe("useComparisonState", () => {
       });
 
       expect(result.current.error).toBe(
-        "Invalid comparison request. Please select two tasting notes from the dashboard."
+        "Invalid comparison request. Please select at least two tasting notes from the dashboard."
       );
       expect(result.current.viewModel).toBeNull();
     });
@@ -47,12 +48,31 @@ describe("useComparisonState", () => {
       });
 
       expect(result.current.error).toBe(
-        "Invalid comparison request. Please select two tasting notes from the dashboard."
+        "Invalid comparison request. Please select at least two tasting notes from the dashboard."
       );
     });
 
-    it("should show error when ids parameter has more than 2 ids", async () => {
-      window.location.search = "?ids=id1,id2,id3";
+    it("should show error when ids parameter exceeds the comparison limit", async () => {
+      const ids = Array.from(
+        { length: MAX_COMPARE_NOTES + 1 },
+        (_, index) => `550e8400-e29b-41d4-a716-44665544000${index}`
+      );
+      window.location.search = `?ids=${ids.join(",")}`;
+
+      const { result } = renderHook(() => useComparisonState());
+
+      await waitFor(() => {
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      expect(result.current.error).toBe(
+        "Invalid comparison request. Please select at least two tasting notes from the dashboard."
+      );
+    });
+
+    it("should show error when ids are repeated", async () => {
+      const validUUID = "550e8400-e29b-41d4-a716-446655440000";
+      window.location.search = `?ids=${validUUID},${validUUID}`;
 
       const { result } = renderHook(() => useComparisonState());
 
@@ -61,7 +81,7 @@ describe("useComparisonState", () => {
       });
 
       expect(result.current.error).toBe(
-        "Invalid comparison request. Please select two tasting notes from the dashboard."
+        "Invalid comparison request. Please select at least two tasting notes from the dashboard."
       );
     });
 
@@ -75,7 +95,7 @@ describe("useComparisonState", () => {
       });
 
       expect(result.current.error).toBe(
-        "Invalid comparison request. Please select two tasting notes from the dashboard."
+        "Invalid comparison request. Please select at least two tasting notes from the dashboard."
       );
     });
 
@@ -92,9 +112,18 @@ describe("useComparisonState", () => {
             blend: {
               id: "blend-1",
               name: "Ceremonial Grade",
+              grade: "ceremonial",
+              cultivars: [],
+              harvest: null,
+              is_organic: false,
+              is_jas_certified: false,
               brand: { id: "brand-1", name: "Ippodo" },
               region: { id: "region-1", name: "Uji" },
             },
+            tags: [],
+            photos: [],
+            is_public: false,
+            share_token: null,
             overall_rating: 5,
             umami: 5,
             bitter: 2,
@@ -102,8 +131,19 @@ describe("useComparisonState", () => {
             foam: 4,
             notes_koicha: "Rich",
             notes_milk: "Smooth",
-            price_pln: 150,
+            brew_method: null,
+            powder_grams: null,
+            water_ml: null,
+            water_temp_c: null,
+            whisk_type: null,
+            milk_type: null,
+            price_amount: 150,
+            price_currency: "PLN",
+            package_grams: 100,
+            price_per_100g_pln: 150,
+            value_score: 100,
             purchase_source: "https://example.com",
+            tasted_at: "2025-01-01",
             created_at: "2025-01-01T00:00:00Z",
             updated_at: "2025-01-01T00:00:00Z",
           },
@@ -113,9 +153,18 @@ describe("useComparisonState", () => {
             blend: {
               id: "blend-2",
               name: "Premium",
+              grade: "ceremonial",
+              cultivars: [],
+              harvest: null,
+              is_organic: false,
+              is_jas_certified: false,
               brand: { id: "brand-2", name: "Marukyu Koyamaen" },
               region: { id: "region-2", name: "Kyoto" },
             },
+            tags: [],
+            photos: [],
+            is_public: false,
+            share_token: null,
             overall_rating: 4,
             umami: 4,
             bitter: 3,
@@ -123,8 +172,19 @@ describe("useComparisonState", () => {
             foam: 5,
             notes_koicha: "Bold",
             notes_milk: "Creamy",
-            price_pln: 200,
+            brew_method: null,
+            powder_grams: null,
+            water_ml: null,
+            water_temp_c: null,
+            whisk_type: null,
+            milk_type: null,
+            price_amount: 200,
+            price_currency: "PLN",
+            package_grams: 100,
+            price_per_100g_pln: 200,
+            value_score: 100,
             purchase_source: null,
+            tasted_at: "2025-01-02",
             created_at: "2025-01-02T00:00:00Z",
             updated_at: "2025-01-02T00:00:00Z",
           },
@@ -144,8 +204,7 @@ describe("useComparisonState", () => {
 
       expect(result.current.error).toBeNull();
       expect(result.current.viewModel).toEqual({
-        note1: mockResponse.notes[0],
-        note2: mockResponse.notes[1],
+        notes: mockResponse.notes,
       });
     });
   });
@@ -164,9 +223,18 @@ describe("useComparisonState", () => {
             blend: {
               id: "blend-1",
               name: "Test Blend 1",
+              grade: "ceremonial",
+              cultivars: [],
+              harvest: null,
+              is_organic: false,
+              is_jas_certified: false,
               brand: { id: "brand-1", name: "Test Brand 1" },
               region: { id: "region-1", name: "Test Region 1" },
             },
+            tags: [],
+            photos: [],
+            is_public: false,
+            share_token: null,
             overall_rating: 3,
             umami: null,
             bitter: null,
@@ -174,8 +242,19 @@ describe("useComparisonState", () => {
             foam: null,
             notes_koicha: null,
             notes_milk: null,
-            price_pln: null,
+            brew_method: null,
+            powder_grams: null,
+            water_ml: null,
+            water_temp_c: null,
+            whisk_type: null,
+            milk_type: null,
+            price_amount: null,
+            price_currency: null,
+            package_grams: null,
+            price_per_100g_pln: null,
+            value_score: null,
             purchase_source: null,
+            tasted_at: "2025-01-01",
             created_at: "2025-01-01T00:00:00Z",
             updated_at: "2025-01-01T00:00:00Z",
           },
@@ -185,9 +264,18 @@ describe("useComparisonState", () => {
             blend: {
               id: "blend-2",
               name: "Test Blend 2",
+              grade: "ceremonial",
+              cultivars: [],
+              harvest: null,
+              is_organic: false,
+              is_jas_certified: false,
               brand: { id: "brand-2", name: "Test Brand 2" },
               region: { id: "region-2", name: "Test Region 2" },
             },
+            tags: [],
+            photos: [],
+            is_public: false,
+            share_token: null,
             overall_rating: 4,
             umami: null,
             bitter: null,
@@ -195,8 +283,19 @@ describe("useComparisonState", () => {
             foam: null,
             notes_koicha: null,
             notes_milk: null,
-            price_pln: null,
+            brew_method: null,
+            powder_grams: null,
+            water_ml: null,
+            water_temp_c: null,
+            whisk_type: null,
+            milk_type: null,
+            price_amount: null,
+            price_currency: null,
+            package_grams: null,
+            price_per_100g_pln: null,
+            value_score: null,
             purchase_source: null,
+            tasted_at: "2025-01-02",
             created_at: "2025-01-02T00:00:00Z",
             updated_at: "2025-01-02T00:00:00Z",
           },
@@ -329,9 +428,18 @@ describe("useComparisonState", () => {
             blend: {
               id: "blend-1",
               name: "Test",
+              grade: "ceremonial",
+              cultivars: [],
+              harvest: null,
+              is_organic: false,
+              is_jas_certified: false,
               brand: { id: "brand-1", name: "Brand" },
               region: { id: "region-1", name: "Region" },
             },
+            tags: [],
+            photos: [],
+            is_public: false,
+            share_token: null,
             overall_rating: 3,
             umami: null,
             bitter: null,
@@ -339,8 +447,19 @@ describe("useComparisonState", () => {
             foam: null,
             notes_koicha: null,
             notes_milk: null,
-            price_pln: null,
+            brew_method: null,
+            powder_grams: null,
+            water_ml: null,
+            water_temp_c: null,
+            whisk_type: null,
+            milk_type: null,
+            price_amount: null,
+            price_currency: null,
+            package_grams: null,
+            price_per_100g_pln: null,
+            value_score: null,
             purchase_source: null,
+            tasted_at: "2025-01-01",
             created_at: "2025-01-01T00:00:00Z",
             updated_at: "2025-01-01T00:00:00Z",
           },
@@ -350,9 +469,18 @@ describe("useComparisonState", () => {
             blend: {
               id: "blend-2",
               name: "Test 2",
+              grade: "ceremonial",
+              cultivars: [],
+              harvest: null,
+              is_organic: false,
+              is_jas_certified: false,
               brand: { id: "brand-2", name: "Brand 2" },
               region: { id: "region-2", name: "Region 2" },
             },
+            tags: [],
+            photos: [],
+            is_public: false,
+            share_token: null,
             overall_rating: 4,
             umami: null,
             bitter: null,
@@ -360,8 +488,19 @@ describe("useComparisonState", () => {
             foam: null,
             notes_koicha: null,
             notes_milk: null,
-            price_pln: null,
+            brew_method: null,
+            powder_grams: null,
+            water_ml: null,
+            water_temp_c: null,
+            whisk_type: null,
+            milk_type: null,
+            price_amount: null,
+            price_currency: null,
+            package_grams: null,
+            price_per_100g_pln: null,
+            value_score: null,
             purchase_source: null,
+            tasted_at: "2025-01-02",
             created_at: "2025-01-02T00:00:00Z",
             updated_at: "2025-01-02T00:00:00Z",
           },
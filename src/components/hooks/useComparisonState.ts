@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { MAX_COMPARE_NOTES, MIN_COMPARE_NOTES } from "../../lib/constants";
 import type { SelectNotesResponseDTO } from "../../types";
 import type { ComparisonViewModel } from "../comparison/types";
 
@@ -12,7 +13,7 @@ const isValidUUID = (uuid: string): boolean => {
 
 /**
  * Custom hook for managing comparison view state
- * Handles URL validation, API fetching, and state management for comparing two tasting notes
+ * Handles URL validation, API fetching, and state management for comparing tasting notes
  */
 export function useComparisonState() {
   const [viewModel, setViewModel] = useState<ComparisonViewModel | null>(null);
@@ -23,29 +24,29 @@ export function useComparisonState() {
   useEffect(() => {
     /**
      * Extracts and validates IDs from URL query parameters
-     * Returns an array of exactly 2 valid UUIDs or null if validation fails
+     * Returns an array of 2 to MAX_COMPARE_NOTES unique, valid UUIDs or null if validation fails
      */
     const validateIdsFromURL = (): string[] | null => {
       const urlParams = new URLSearchParams(window.location.search);
       const idsParam = urlParams.get("ids");
 
       if (!idsParam) {
-        setError("Invalid comparison request. Please select two tasting notes from the dashboard.");
+        setError("Invalid comparison request. Please select at least two tasting notes from the dashboard.");
         return null;
       }
 
       // Parse comma-separated IDs
       const ids = idsParam.split(",").map((id) => id.trim());
 
-      // Validate exactly 2 IDs
-      if (ids.length !== 2) {
-        setError("Invalid comparison request. Please select two tasting notes from the dashboard.");
+      // Validate number of IDs and that none are repeated
+      if (ids.length < MIN_COMPARE_NOTES || ids.length > MAX_COMPARE_NOTES || new Set(ids).size !== ids.length) {
+        setError("Invalid comparison request. Please select at least two tasting notes from the dashboard.");
         return null;
       }
 
-      // Validate UUID format for both IDs
+      // Validate UUID format for all IDs
       if (!ids.every(isValidUUID)) {
-        setError("Invalid comparison request. Please select two tasting notes from the dashboard.");
+        setError("Invalid comparison request. Please select at least two tasting notes from the dashboard.");
         return null;
       }
 
@@ -80,8 +81,7 @@ export function useComparisonState() {
 
         // Transform response into view model
         const comparisonViewModel: ComparisonViewModel = {
-          note1: data.notes[0],
-          note2: data.notes[1],
+          notes: data.notes,
         };
 
         setViewModel(comparisonViewModel);
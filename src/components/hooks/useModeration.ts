@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from "react";
+import type { CatalogKind } from "../../lib/constants";
+import type {
+  CatalogMergeResponseDTO,
+  DuplicateCandidateDTO,
+  DuplicateCandidatesResponseDTO,
+  ErrorResponseDTO,
+} from "../../types";
+
+/**
+ * Custom hook for the admin moderation page
+ * Fetches the likely duplicates of the selected catalog kind and merges entries,
+ * keeping the audit trail (loaded server-side) up to date
+ */
+export function useModeration(initialMerges: CatalogMergeResponseDTO[]) {
+  const [kind, setKind] = useState<CatalogKind>("brand");
+  const [candidates, setCandidates] = useState<DuplicateCandidateDTO[]>([]);
+  const [merges, setMerges] = useState<CatalogMergeResponseDTO[]>(initialMerges);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCandidates = useCallback(async (selected: CatalogKind, isCancelled: () => boolean = () => false) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/duplicates?kind=${selected}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to load likely duplicates");
+      }
+
+      const data: DuplicateCandidatesResponseDTO = await response.json();
+      if (!isCancelled()) {
+        setCandidates(data.data);
+      }
+    } catch (err) {
+      if (!isCancelled()) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      }
+    } finally {
+      if (!isCancelled()) {
+        setIsLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    setCandidates([]);
+
+    let cancelled = false;
+    fetchCandidates(kind, () => cancelled);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, fetchCandidates]);
+
+  /**
+   * Merges the source entry into the target, then reloads the duplicates the merge affects
+   * Throws with the server's message when the merge is rejected
+   */
+  const mergeEntities = async (sourceId: string, targetId: string) => {
+    const response = await fetch("/api/admin/merges", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind, source_id: sourceId, target_id: targetId }),
+    });
+
+    if (!response.ok) {
+      const errorBody: Partial<ErrorResponseDTO> = await response.json().catch(() => ({}));
+      throw new Error(errorBody.error ?? "Failed to merge entries");
+    }
+
+    const merge: CatalogMergeResponseDTO = await response.json();
+    setMerges((current) => [merge, ...current]);
+    await fetchCandidates(kind);
+  };
+
+  return {
+    kind,
+    setKind,
+    candidates,
+    merges,
+    isLoading,
+    error,
+    mergeEntities,
+  };
+}
@@ -0,0 +1,64 @@
+import type { ImportRowResultDTO } from "../../types";
+
+/**
+ * ImportPreviewTable Component
+ *
+ * Lists every row of an import with its resolved blend and status.
+ * Invalid or failed rows show their field-level errors.
+ */
+interface ImportPreviewTableProps {
+  rows: ImportRowResultDTO[];
+}
+
+const STATUS_LABELS: Record<ImportRowResultDTO["status"], { label: string; className: string }> = {
+  valid: { label: "Ready", className: "bg-green-100 text-green-800" },
+  imported: { label: "Imported", className: "bg-green-100 text-green-800" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+};
+
+export function ImportPreviewTable({ rows }: ImportPreviewTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full border-collapse bg-white text-sm">
+        <thead>
+          <tr className="bg-gray-50 text-left text-gray-700">
+            <th className="px-3 py-2 font-medium">Row</th>
+            <th className="px-3 py-2 font-medium">Brand</th>
+            <th className="px-3 py-2 font-medium">Blend</th>
+            <th className="px-3 py-2 font-medium">Region</th>
+            <th className="px-3 py-2 font-medium">Rating</th>
+            <th className="px-3 py-2 font-medium">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const status = STATUS_LABELS[row.status];
+            return (
+              <tr key={row.row} className="border-t align-top" data-testid={`import-row-${row.row}`}>
+                <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                <td className="px-3 py-2">{row.brand_name ?? "—"}</td>
+                <td className="px-3 py-2">
+                  {row.blend_name ?? "—"}
+                  {row.is_new_blend && <span className="text-muted-foreground ml-1 text-xs">(new)</span>}
+                </td>
+                <td className="px-3 py-2">{row.region_name ?? "—"}</td>
+                <td className="px-3 py-2">{row.overall_rating ?? "—"}</td>
+                <td className="px-3 py-2">
+                  <span className={`rounded px-2 py-0.5 text-xs font-medium ${status.className}`}>{status.label}</span>
+                  {row.errors.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-xs text-red-700">
+                      {row.errors.map((error, index) => (
+                        <li key={index}>{error.field ? `${error.field}: ${error.message}` : error.message}</li>
+                      ))}
+                    </ul>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { CheckCircle2, FileUp, Loader2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { ImportPreviewTable } from "./ImportPreviewTable";
+import { useImportWizard } from "./useImportWizard";
+
+/**
+ * ImportWizard Component
+ *
+ * Three-step flow for bulk importing tasting notes from a CSV or JSON file:
+ * select a file, review the dry-run preview, then confirm the import.
+ */
+export function ImportWizard() {
+  const { state, handleFileSelected, handleConfirmImport, reset } = useImportWizard();
+
+  return (
+    <div className="space-y-6">
+      {state.error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4">
+          <p className="text-sm text-red-800">{state.error}</p>
+        </div>
+      )}
+
+      {/* Step 1: Select file */}
+      {state.step === "select" && (
+        <section className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload a CSV file with a header row or a JSON array of objects. Recognised columns are <code>brand</code>,{" "}
+            <code>blend</code>, <code>region</code>, <code>overall_rating</code>, <code>umami</code>,{" "}
+            <code>bitter</code>, <code>sweet</code>, <code>foam</code>, <code>notes_koicha</code>,{" "}
+            <code>notes_milk</code>, <code>brew_method</code>, <code>powder_grams</code>, <code>water_ml</code>,{" "}
+            <code>water_temp_c</code>, <code>whisk_type</code>, <code>milk_type</code>, <code>price_amount</code>,{" "}
+            <code>price_currency</code>, <code>package_grams</code> and <code>purchase_source</code>. Prices without a
+            currency or package size are treated as PLN per 100g. Files exported from SipStory can be imported as-is.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              disabled={state.isLoading}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  handleFileSelected(file);
+                }
+              }}
+              data-testid="import-file-input"
+            />
+          </div>
+          {state.isLoading && (
+            <p className="flex items-center text-sm text-gray-600">
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Checking {state.fileName}...
+            </p>
+          )}
+        </section>
+      )}
+
+      {/* Step 2: Preview */}
+      {state.step === "preview" && state.preview && (
+        <section className="space-y-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Preview</h2>
+            <p className="text-sm text-gray-600">
+              {state.fileName}: {state.preview.total} rows, {state.preview.valid} ready to import
+              {state.preview.invalid > 0 && `, ${state.preview.invalid} with errors will be skipped`}. Nothing has been
+              saved yet.
+            </p>
+          </div>
+
+          <ImportPreviewTable rows={state.preview.rows} />
+
+          <div className="flex items-center justify-end gap-4 border-t pt-6">
+            <Button type="button" variant="outline" onClick={reset} disabled={state.isLoading}>
+              Choose Another File
+            </Button>
+            <Button
+              type="button"
+              onClick={handleConfirmImport}
+              disabled={state.isLoading || state.preview.valid === 0}
+              data-testid="confirm-import-button"
+            >
+              {state.isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <FileUp className="mr-2 h-4 w-4" />
+                  Import {state.preview.valid} {state.preview.valid === 1 ? "Row" : "Rows"}
+                </>
+              )}
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {/* Step 3: Done */}
+      {state.step === "done" && state.result && (
+        <section className="space-y-4">
+          <div className="flex items-center gap-2">
+            <CheckCircle2 className="h-6 w-6 text-green-600" />
+            <h2 className="text-xl font-semibold text-gray-900">
+              Imported {state.result.imported} of {state.result.total} rows
+            </h2>
+          </div>
+
+          <ImportPreviewTable rows={state.result.rows} />
+
+          <div className="flex items-center justify-end gap-4 border-t pt-6">
+            <Button type="button" variant="outline" onClick={reset}>
+              Import Another File
+            </Button>
+            <Button asChild>
+              <a href="/dashboard">Go to Dashboard</a>
+            </Button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
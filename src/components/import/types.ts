@@ -0,0 +1,27 @@
+/**
+ * Type definitions for the Import Wizard view
+ */
+
+import type { ImportTastingNotesResponseDTO } from "../../types";
+
+/**
+ * Step of the import wizard
+ * - select: choose a file
+ * - preview: dry-run results are shown, user confirms
+ * - done: import committed, summary shown
+ */
+export type ImportWizardStep = "select" | "preview" | "done";
+
+/**
+ * ViewModel for the import wizard state
+ */
+export interface ImportWizardViewModel {
+  step: ImportWizardStep;
+  fileName: string | null;
+  format: "csv" | "json" | null;
+  content: string | null;
+  preview: ImportTastingNotesResponseDTO | null;
+  result: ImportTastingNotesResponseDTO | null;
+  isLoading: boolean;
+  error: string | null;
+}
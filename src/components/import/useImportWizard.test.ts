@@ -0,0 +1,213 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ImportTastingNotesResponseDTO } from "../../types";
+import { detectImportFormat, useImportWizard } from "./useImportWizard";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+/**
+ * Unit tests for useImportWizard hook
+ * Tests format detection, dry-run preview and committing the import
+ */
+describe("useImportWizard", () => {
+  const csvContent = "brand,blend,region,overall_rating\nIppodo,Sayaka,Uji,5\nIppodo,Ummon,Uji,9";
+
+  const mockPreview: ImportTastingNotesResponseDTO = {
+    dry_run: true,
+    total: 2,
+    valid: 1,
+    invalid: 1,
+    imported: 0,
+    rows: [
+      {
+        row: 1,
+        status: "valid",
+        brand_name: "Ippodo",
+        blend_name: "Sayaka",
+        region_name: "Uji",
+        overall_rating: 5,
+        is_new_blend: false,
+        note_id: null,
+        errors: [],
+      },
+      {
+        row: 2,
+        status: "invalid",
+        brand_name: "Ippodo",
+        blend_name: "Ummon",
+        region_name: "Uji",
+        overall_rating: 9,
+        is_new_blend: null,
+        note_id: null,
+        errors: [{ field: "overall_rating", message: "Number must be less than or equal to 5" }],
+      },
+    ],
+  };
+
+  const mockResult: ImportTastingNotesResponseDTO = {
+    ...mockPreview,
+    dry_run: false,
+    imported: 1,
+    rows: [{ ...mockPreview.rows[0], status: "imported", note_id: "note-1" }, mockPreview.rows[1]],
+  };
+
+  // jsdom's File does not implement text(), so only the used surface is provided
+  const createFile = (content: string, name: string) => ({ name, text: () => Promise.resolve(content) }) as File;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    delete (window as any).location;
+    window.location = { href: "" } as any;
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("detectImportFormat", () => {
+    it("should detect format from file extension", () => {
+      expect(detectImportFormat("journal.csv", "[]")).toBe("csv");
+      expect(detectImportFormat("journal.JSON", "a,b")).toBe("json");
+    });
+
+    it("should fall back to content sniffing for unknown extensions", () => {
+      expect(detectImportFormat("journal.txt", '  [{"brand":"Ippodo"}]')).toBe("json");
+      expect(detectImportFormat("journal", "brand,blend")).toBe("csv");
+    });
+  });
+
+  describe("Preview", () => {
+    it("should start on the select step", () => {
+      const { result } = renderHook(() => useImportWizard());
+
+      expect(result.current.state.step).toBe("select");
+      expect(result.current.state.preview).toBeNull();
+    });
+
+    it("should request a dry run and show the preview", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(mockPreview),
+      });
+
+      const { result } = renderHook(() => useImportWizard());
+
+      await act(async () => {
+        await result.current.handleFileSelected(createFile(csvContent, "journal.csv"));
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "/api/tasting-notes/import",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ format: "csv", content: csvContent, dry_run: true }),
+        })
+      );
+      expect(result.current.state.step).toBe("preview");
+      expect(result.current.state.preview).toEqual(mockPreview);
+      expect(result.current.state.fileName).toBe("journal.csv");
+    });
+
+    it("should show API error message when preview fails", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ error: "No rows found to import" }),
+      });
+
+      const { result } = renderHook(() => useImportWizard());
+
+      await act(async () => {
+        await result.current.handleFileSelected(createFile("brand", "journal.csv"));
+      });
+
+      expect(result.current.state.step).toBe("select");
+      expect(result.current.state.error).toBe("No rows found to import");
+      expect(result.current.state.isLoading).toBe(false);
+    });
+
+    it("should redirect to login on 401", async () => {
+      (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 401 });
+
+      const { result } = renderHook(() => useImportWizard());
+
+      await act(async () => {
+        await result.current.handleFileSelected(createFile(csvContent, "journal.csv"));
+      });
+
+      expect(window.location.href).toBe("/login");
+    });
+  });
+
+  describe("Commit", () => {
+    it("should commit the previewed content and show the result", async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve(mockPreview) })
+        .mockResolvedValueOnce({ ok: true, status: 201, json: () => Promise.resolve(mockResult) });
+
+      const { result } = renderHook(() => useImportWizard());
+
+      await act(async () => {
+        await result.current.handleFileSelected(createFile(csvContent, "journal.csv"));
+      });
+
+      await act(async () => {
+        await result.current.handleConfirmImport();
+      });
+
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        "/api/tasting-notes/import",
+        expect.objectContaining({
+          body: JSON.stringify({ format: "csv", content: csvContent, dry_run: false }),
+        })
+      );
+      await waitFor(() => {
+        expect(result.current.state.step).toBe("done");
+      });
+      expect(result.current.state.result).toEqual(mockResult);
+    });
+
+    it("should keep the preview when commit fails", async () => {
+      (global.fetch as any)
+        .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve(mockPreview) })
+        .mockResolvedValueOnce({ ok: false, status: 500, json: () => Promise.resolve({}) });
+
+      const { result } = renderHook(() => useImportWizard());
+
+      await act(async () => {
+        await result.current.handleFileSelected(createFile(csvContent, "journal.csv"));
+      });
+
+      await act(async () => {
+        await result.current.handleConfirmImport();
+      });
+
+      expect(result.current.state.step).toBe("preview");
+      expect(result.current.state.error).toBe("Import failed. Please try again.");
+    });
+
+    it("should reset to the select step", async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(mockPreview),
+      });
+
+      const { result } = renderHook(() => useImportWizard());
+
+      await act(async () => {
+        await result.current.handleFileSelected(createFile(csvContent, "journal.csv"));
+      });
+
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.state.step).toBe("select");
+      expect(result.current.state.preview).toBeNull();
+    });
+  });
+});
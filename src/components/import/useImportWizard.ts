@@ -0,0 +1,128 @@
+/**
+ * Custom hook for managing the import wizard state and API calls
+ */
+
+import { useCallback, useState } from "react";
+import type { ImportTastingNotesResponseDTO } from "../../types";
+import type { ImportWizardViewModel } from "./types";
+
+const initialState: ImportWizardViewModel = {
+  step: "select",
+  fileName: null,
+  format: null,
+  content: null,
+  preview: null,
+  result: null,
+  isLoading: false,
+  error: null,
+};
+
+/**
+ * Detects the import format from the file name, falling back to the content
+ */
+export function detectImportFormat(fileName: string, content: string): "csv" | "json" {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+
+  if (extension === "json") return "json";
+  if (extension === "csv") return "csv";
+
+  return content.trimStart().startsWith("[") ? "json" : "csv";
+}
+
+/**
+ * Custom hook for the import wizard
+ * Reads the selected file, requests a dry-run preview and commits the import
+ */
+export function useImportWizard() {
+  const [state, setState] = useState<ImportWizardViewModel>(initialState);
+
+  // Send content to the import endpoint (dry run or commit)
+  const requestImport = useCallback(
+    async (format: "csv" | "json", content: string, dryRun: boolean): Promise<ImportTastingNotesResponseDTO | null> => {
+      const response = await fetch("/api/tasting-notes/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ format, content, dry_run: dryRun }),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return null;
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Import failed. Please try again.");
+      }
+
+      return response.json();
+    },
+    []
+  );
+
+  // Read the selected file and request a dry-run preview
+  const handleFileSelected = useCallback(
+    async (file: File) => {
+      setState({ ...initialState, fileName: file.name, isLoading: true });
+
+      try {
+        const content = await file.text();
+        const format = detectImportFormat(file.name, content);
+        const preview = await requestImport(format, content, true);
+
+        if (!preview) return;
+
+        setState((prev) => ({
+          ...prev,
+          step: "preview",
+          format,
+          content,
+          preview,
+          isLoading: false,
+        }));
+      } catch (err) {
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: err instanceof Error ? err.message : "Could not read the file",
+        }));
+      }
+    },
+    [requestImport]
+  );
+
+  // Commit the previewed import
+  const handleConfirmImport = useCallback(async () => {
+    if (!state.format || !state.content) return;
+
+    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const result = await requestImport(state.format, state.content, false);
+
+      if (!result) return;
+
+      setState((prev) => ({ ...prev, step: "done", result, isLoading: false }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        isLoading: false,
+        error: err instanceof Error ? err.message : "Import failed. Please try again.",
+      }));
+    }
+  }, [requestImport, state.format, state.content]);
+
+  // Start over with another file
+  const reset = useCallback(() => {
+    setState(initialState);
+  }, []);
+
+  return {
+    state,
+    handleFileSelected,
+    handleConfirmImport,
+    reset,
+  };
+}
@@ -0,0 +1,94 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useState } from "react";
+import type { CatalogKind } from "../../lib/constants";
+import type { DuplicateCandidateEntryDTO } from "../../types";
+
+interface MergeConfirmDialogProps {
+  kind: CatalogKind;
+  source: DuplicateCandidateEntryDTO | null;
+  target: DuplicateCandidateEntryDTO | null;
+  onClose: () => void;
+  onConfirm: () => Promise<void>;
+}
+
+/**
+ * What moves to the target when an entry of each kind is merged
+ */
+const MERGE_EFFECTS: Record<CatalogKind, string> = {
+  brand: "Its blends move to the target brand; blends with the same name are merged as well.",
+  region: "Its blends move to the target region.",
+  blend: "All tasting notes of it, of every user, move to the target blend.",
+};
+
+/**
+ * MergeConfirmDialog Component
+ *
+ * Modal dialog that asks an admin to confirm merging one catalog entry into another.
+ * Open while a source and target are given; closes itself once the merge succeeds.
+ */
+export function MergeConfirmDialog({ kind, source, target, onClose, onConfirm }: MergeConfirmDialogProps) {
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleConfirm = async () => {
+    setIsMerging(true);
+    setError(null);
+
+    try {
+      await onConfirm();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!isMerging) {
+      setError(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={source !== null && target !== null} onOpenChange={handleCancel}>
+      <DialogContent data-testid="merge-confirm-dialog">
+        <DialogHeader>
+          <DialogTitle>Merge {kind}</DialogTitle>
+          <DialogDescription>
+            Merge &ldquo;{source?.name}&rdquo; into &ldquo;{target?.name}&rdquo;? {MERGE_EFFECTS[kind]} &ldquo;
+            {source?.name}&rdquo; is then deleted. This action cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div
+            className="rounded-md bg-destructive/10 p-3 text-sm text-destructive"
+            role="alert"
+            data-testid="merge-error-message"
+          >
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCancel} disabled={isMerging} data-testid="merge-cancel-button">
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={isMerging} data-testid="merge-confirm-button">
+            {isMerging ? "Merging..." : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,117 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { render, screen, waitFor, within } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { CatalogMergeResponseDTO, DuplicateCandidateDTO } from "../../types";
+import { ModerationView } from "./ModerationView";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+/**
+ * Unit tests for ModerationView component
+ * Tests listing likely duplicates per kind, merging in either direction and the audit trail
+ */
+describe("ModerationView", () => {
+  const candidate: DuplicateCandidateDTO = {
+    first: { id: "brand-1", name: "Ippodo", usage: 3 },
+    second: { id: "brand-2", name: "Ippodo Tea", usage: 1 },
+    context: null,
+    score: 0.82,
+  };
+
+  const merge: CatalogMergeResponseDTO = {
+    id: "merge-1",
+    kind: "brand",
+    source_id: "brand-2",
+    source_name: "Ippodo Tea",
+    target_id: "brand-1",
+    target_name: "Ippodo",
+    merged_by: "user-1",
+    merged_at: "2026-10-19T12:00:00Z",
+    details: { blends_moved: 1, blends_merged: 0, notes_moved: 0, presets_updated: 2, merged_blends: [] },
+  };
+
+  const mockResponse = (data: unknown, ok = true) => {
+    (global.fetch as any).mockResolvedValueOnce({ ok, json: async () => data });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should list the likely duplicate brands with their usage", async () => {
+    mockResponse({ kind: "brand", data: [candidate] });
+    render(<ModerationView merges={[]} />);
+
+    const row = await screen.findByTestId("duplicate-candidate");
+    expect(global.fetch).toHaveBeenCalledWith("/api/admin/duplicates?kind=brand");
+    expect(row).toHaveTextContent("Ippodo3 blends");
+    expect(row).toHaveTextContent("Ippodo Tea1 blend");
+    expect(row).toHaveTextContent("82%");
+    expect(screen.getByTestId("merges-empty")).toBeInTheDocument();
+  });
+
+  it("should load the duplicates of another kind", async () => {
+    const user = userEvent.setup();
+    mockResponse({ kind: "brand", data: [] });
+    render(<ModerationView merges={[]} />);
+
+    await screen.findByTestId("duplicates-empty");
+
+    mockResponse({
+      kind: "blend",
+      data: [{ ...candidate, context: "Ippodo", first: { ...candidate.first, usage: 1 } }],
+    });
+    await user.click(screen.getByTestId("moderation-kind-blend"));
+
+    const row = await screen.findByTestId("duplicate-candidate");
+    expect(global.fetch).toHaveBeenLastCalledWith("/api/admin/duplicates?kind=blend");
+    expect(row).toHaveTextContent("1 note");
+    expect(screen.getByTestId("moderation-kind-blend")).toHaveAttribute("aria-pressed", "true");
+  });
+
+  it("should merge the second entry into the first after confirmation", async () => {
+    const user = userEvent.setup();
+    mockResponse({ kind: "brand", data: [candidate] });
+    render(<ModerationView merges={[]} />);
+
+    await user.click(await screen.findByTestId("merge-into-first-button"));
+    const dialog = screen.getByTestId("merge-confirm-dialog");
+    expect(dialog).toHaveTextContent("Merge “Ippodo Tea” into “Ippodo”?");
+
+    mockResponse(merge);
+    mockResponse({ kind: "brand", data: [] });
+    await user.click(within(dialog).getByTestId("merge-confirm-button"));
+
+    await waitFor(() => expect(screen.queryByTestId("merge-confirm-dialog")).not.toBeInTheDocument());
+    expect(global.fetch).toHaveBeenCalledWith("/api/admin/merges", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind: "brand", source_id: "brand-2", target_id: "brand-1" }),
+    });
+    expect(await screen.findByTestId("duplicates-empty")).toBeInTheDocument();
+    expect(screen.getByTestId("catalog-merge")).toHaveTextContent("1 blend moved, 2 presets updated");
+  });
+
+  it("should keep the dialog open and show the error when a merge is rejected", async () => {
+    const user = userEvent.setup();
+    mockResponse({ kind: "brand", data: [candidate] });
+    render(<ModerationView merges={[]} />);
+
+    await user.click(await screen.findByTestId("merge-into-second-button"));
+    mockResponse({ error: "Source or target brand not found" }, false);
+    await user.click(screen.getByTestId("merge-confirm-button"));
+
+    expect(await screen.findByTestId("merge-error-message")).toHaveTextContent("Source or target brand not found");
+    expect(screen.getByTestId("merge-confirm-dialog")).toBeInTheDocument();
+  });
+
+  it("should show the audit trail loaded with the page", async () => {
+    mockResponse({ kind: "brand", data: [] });
+    render(<ModerationView merges={[merge]} />);
+
+    await screen.findByTestId("duplicates-empty");
+    expect(screen.getByTestId("catalog-merge")).toHaveTextContent("brand: “Ippodo Tea” merged into “Ippodo”");
+  });
+});
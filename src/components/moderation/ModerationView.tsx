@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { CATALOG_KIND_LABELS, CATALOG_KINDS, type CatalogKind } from "../../lib/constants";
+import type { CatalogMergeResponseDTO, DuplicateCandidateDTO, DuplicateCandidateEntryDTO } from "../../types";
+import { useModeration } from "../hooks/useModeration";
+import { Button } from "../ui/button";
+import { MergeConfirmDialog } from "./MergeConfirmDialog";
+
+/**
+ * ModerationView Component
+ *
+ * Admin page for cleaning up the shared catalog: likely duplicate brands, regions or blends
+ * with a merge in either direction, and the audit trail of past merges.
+ * The audit trail is loaded server-side; duplicates are fetched per kind.
+ */
+interface ModerationViewProps {
+  merges: CatalogMergeResponseDTO[];
+}
+
+/**
+ * What the usage count of an entry of each kind counts
+ */
+const USAGE_LABELS: Record<CatalogKind, [string, string]> = {
+  brand: ["blend", "blends"],
+  region: ["blend", "blends"],
+  blend: ["note", "notes"],
+};
+
+/**
+ * Formats a count with its noun, e.g. "1 blend" or "3 blends"
+ */
+function formatCount(count: number, [singular, plural]: [string, string]): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/**
+ * Summarises what a merge moved, e.g. "3 blends moved, 12 notes moved"
+ */
+function describeMergeDetails(details: CatalogMergeResponseDTO["details"]): string {
+  const parts = [
+    details.blends_moved > 0 && `${formatCount(details.blends_moved, ["blend", "blends"])} moved`,
+    details.blends_merged > 0 && `${formatCount(details.blends_merged, ["blend", "blends"])} merged`,
+    details.notes_moved > 0 && `${formatCount(details.notes_moved, ["note", "notes"])} moved`,
+    details.presets_updated > 0 && `${formatCount(details.presets_updated, ["preset", "presets"])} updated`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(", ") : "Nothing referenced it";
+}
+
+export function ModerationView({ merges: initialMerges }: ModerationViewProps) {
+  const { kind, setKind, candidates, merges, isLoading, error, mergeEntities } = useModeration(initialMerges);
+  const [pendingMerge, setPendingMerge] = useState<{
+    source: DuplicateCandidateEntryDTO;
+    target: DuplicateCandidateEntryDTO;
+  } | null>(null);
+
+  const renderEntry = (entry: DuplicateCandidateEntryDTO) => (
+    <div className="min-w-0">
+      <p className="truncate font-medium text-gray-900">{entry.name}</p>
+      <p className="text-xs text-gray-500">{formatCount(entry.usage, USAGE_LABELS[kind])}</p>
+    </div>
+  );
+
+  const renderCandidate = (candidate: DuplicateCandidateDTO) => (
+    <li
+      key={`${candidate.first.id}-${candidate.second.id}`}
+      className="flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between"
+      data-testid="duplicate-candidate"
+    >
+      <div className="grid flex-1 grid-cols-2 gap-4">
+        {renderEntry(candidate.first)}
+        {renderEntry(candidate.second)}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {candidate.context && <span className="text-xs text-gray-500">{candidate.context}</span>}
+        <span className="text-xs tabular-nums text-gray-500" title="Name similarity">
+          {Math.round(candidate.score * 100)}%
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPendingMerge({ source: candidate.second, target: candidate.first })}
+          data-testid="merge-into-first-button"
+        >
+          Keep &ldquo;{candidate.first.name}&rdquo;
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPendingMerge({ source: candidate.first, target: candidate.second })}
+          data-testid="merge-into-second-button"
+        >
+          Keep &ldquo;{candidate.second.name}&rdquo;
+        </Button>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Kind selector */}
+      <div className="flex gap-2" role="group" aria-label="Catalog entries">
+        {CATALOG_KINDS.map((option) => (
+          <Button
+            key={option}
+            variant={option === kind ? "default" : "outline"}
+            size="sm"
+            aria-pressed={option === kind}
+            onClick={() => setKind(option)}
+            data-testid={`moderation-kind-${option}`}
+          >
+            {CATALOG_KIND_LABELS[option]}
+          </Button>
+        ))}
+      </div>
+
+      {/* Likely duplicates */}
+      <section className="rounded-lg bg-white shadow-sm" aria-busy={isLoading}>
+        <h2 className="border-b p-4 text-lg font-semibold text-gray-900">Likely Duplicates</h2>
+        {error && (
+          <p className="text-destructive p-4 text-sm" role="alert">
+            {error}
+          </p>
+        )}
+        {isLoading && candidates.length === 0 && <p className="p-4 text-sm text-gray-500">Looking for duplicates...</p>}
+        {!isLoading && !error && candidates.length === 0 && (
+          <p className="p-4 text-sm text-gray-500" data-testid="duplicates-empty">
+            No likely duplicate {CATALOG_KIND_LABELS[kind].toLowerCase()} found.
+          </p>
+        )}
+        {candidates.length > 0 && (
+          <ul className="divide-y" data-testid="duplicate-candidates">
+            {candidates.map(renderCandidate)}
+          </ul>
+        )}
+      </section>
+
+      {/* Audit trail */}
+      <section className="rounded-lg bg-white shadow-sm">
+        <h2 className="border-b p-4 text-lg font-semibold text-gray-900">Merge History</h2>
+        {merges.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500" data-testid="merges-empty">
+            No merges yet.
+          </p>
+        ) : (
+          <ul className="divide-y" data-testid="catalog-merges">
+            {merges.map((merge) => (
+              <li key={merge.id} className="p-4 text-sm" data-testid="catalog-merge">
+                <p className="text-gray-900">
+                  <span className="text-gray-500">{merge.kind}:</span> &ldquo;{merge.source_name}&rdquo; merged into
+                  &ldquo;{merge.target_name}&rdquo;
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(merge.merged_at).toLocaleDateString("en-US", {
+                    year: "numeric",
+                    month: "long",
+                    day: "numeric",
+                  })}{" "}
+                  · {describeMergeDetails(merge.details)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <MergeConfirmDialog
+        kind={kind}
+        source={pendingMerge?.source ?? null}
+        target={pendingMerge?.target ?? null}
+        onClose={() => setPendingMerge(null)}
+        onConfirm={async () => {
+          if (pendingMerge) {
+            await mergeEntities(pendingMerge.source.id, pendingMerge.target.id);
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * BarChart Component
+ *
+ * Minimal vertical bar chart built from divs.
+ * Used for the rating distribution and notes logged per month.
+ */
+export interface BarChartItem {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  className?: string;
+  "data-testid"?: string;
+}
+
+export function BarChart({ items, className = "", "data-testid": dataTestId }: BarChartProps) {
+  const maxValue = Math.max(1, ...items.map((item) => item.value));
+
+  return (
+    <div className={`flex h-40 items-end gap-2 ${className}`} data-testid={dataTestId}>
+      {items.map((item) => (
+        <div key={item.label} className="flex h-full min-w-0 flex-1 flex-col items-center justify-end gap-1">
+          <span className="text-xs tabular-nums text-gray-600">{item.value}</span>
+          <div
+            className="w-full max-w-12 rounded-t bg-primary/80"
+            style={{ height: `${(item.value / maxValue) * 100}%` }}
+            role="presentation"
+          />
+          <span className="w-full truncate text-center text-xs text-gray-500" title={item.label}>
+            {item.label}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
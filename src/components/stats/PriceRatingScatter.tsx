@@ -0,0 +1,102 @@
+import type { StatsResponseDTO } from "../../types";
+
+/**
+ * PriceRatingScatter Component
+ *
+ * SVG scatter plot of price per 100g against overall rating,
+ * with a plain-language reading of the correlation coefficient.
+ */
+interface PriceRatingScatterProps {
+  priceRating: StatsResponseDTO["price_rating"];
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 32;
+
+/**
+ * Describes a Pearson correlation coefficient in plain language
+ * Returns null when the coefficient could not be computed
+ */
+export function describeCorrelation(correlation: number | null): string | null {
+  if (correlation === null) {
+    return null;
+  }
+
+  const strength = Math.abs(correlation);
+  if (strength < 0.2) {
+    return "Price has little to no relation to your ratings";
+  }
+
+  const degree = strength < 0.5 ? "slightly" : strength < 0.8 ? "moderately" : "strongly";
+  return correlation > 0
+    ? `Pricier matcha ${degree} tends to rate higher`
+    : `Pricier matcha ${degree} tends to rate lower`;
+}
+
+export function PriceRatingScatter({ priceRating, width = 360, height = 220 }: PriceRatingScatterProps) {
+  const { points, correlation, sample_size } = priceRating;
+
+  if (sample_size === 0) {
+    return <p className="text-sm text-gray-400">Add prices to your tasting notes to see this chart</p>;
+  }
+
+  const maxPrice = Math.ceil(Math.max(1, ...points.map((point) => point.price_per_100g_pln)));
+  const toX = (price: number) => PADDING + (price / maxPrice) * (width - 2 * PADDING);
+  const toY = (rating: number) => height - PADDING - ((rating - 1) / 4) * (height - 2 * PADDING);
+  const summary = describeCorrelation(correlation);
+
+  return (
+    <figure className="flex flex-col gap-2">
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full max-w-md"
+        role="img"
+        aria-label={`Price versus rating for ${sample_size} priced notes`}
+      >
+        {/* Rating gridlines */}
+        {[1, 2, 3, 4, 5].map((rating) => (
+          <g key={rating}>
+            <line x1={PADDING} x2={width - PADDING} y1={toY(rating)} y2={toY(rating)} stroke="#e5e7eb" />
+            <text
+              x={PADDING - 8}
+              y={toY(rating)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-gray-500 text-[10px]"
+            >
+              {rating}
+            </text>
+          </g>
+        ))}
+        <text x={PADDING} y={height - 8} className="fill-gray-500 text-[10px]">
+          0 PLN
+        </text>
+        <text x={width - PADDING} y={height - 8} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {maxPrice} PLN / 100g
+        </text>
+
+        {/* Notes */}
+        {points.map((point, index) => (
+          <circle
+            key={index}
+            cx={toX(point.price_per_100g_pln)}
+            cy={toY(point.overall_rating)}
+            r={4}
+            className="fill-primary"
+            fillOpacity={0.6}
+          />
+        ))}
+      </svg>
+      <figcaption className="text-sm text-gray-600">
+        {summary ? (
+          <>
+            {summary} <span className="text-gray-400">(r = {correlation?.toFixed(2)})</span>
+          </>
+        ) : (
+          "Not enough priced notes to measure a correlation"
+        )}
+      </figcaption>
+    </figure>
+  );
+}
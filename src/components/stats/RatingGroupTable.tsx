@@ -0,0 +1,69 @@
+import type { StatsGroupDTO } from "../../types";
+
+/**
+ * RatingGroupTable Component
+ *
+ * Ranks brands, regions or blends by average overall rating.
+ * The spread (standard deviation and min–max) shows how consistent each one is.
+ * Names link to their catalog page when getHref is given.
+ */
+interface RatingGroupTableProps {
+  title: string;
+  groups: StatsGroupDTO[];
+  getHref?: (group: StatsGroupDTO) => string;
+  "data-testid"?: string;
+}
+
+export function RatingGroupTable({ title, groups, getHref, "data-testid": dataTestId }: RatingGroupTableProps) {
+  return (
+    <section className="rounded-lg bg-white p-4 shadow-sm" data-testid={dataTestId}>
+      <h2 className="mb-3 text-lg font-semibold text-gray-900">{title}</h2>
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-400">No tasting notes yet</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+              <th className="py-2 pr-2 font-medium">Name</th>
+              <th className="py-2 pr-2 font-medium">Average</th>
+              <th className="py-2 pr-2 text-right font-medium">Notes</th>
+              <th className="py-2 text-right font-medium" title="Standard deviation - lower is more consistent">
+                Spread
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr key={group.id} className="border-b last:border-0">
+                <td className="py-2 pr-2 font-medium text-gray-900">
+                  {getHref ? (
+                    <a href={getHref(group)} className="hover:underline">
+                      {group.name}
+                    </a>
+                  ) : (
+                    group.name
+                  )}
+                </td>
+                <td className="py-2 pr-2">
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 w-24 overflow-hidden rounded-full bg-gray-100" aria-hidden="true">
+                      <div className="h-full bg-primary" style={{ width: `${(group.average_rating / 5) * 100}%` }} />
+                    </div>
+                    <span className="tabular-nums">{group.average_rating.toFixed(2)}</span>
+                  </div>
+                </td>
+                <td className="py-2 pr-2 text-right tabular-nums">{group.note_count}</td>
+                <td className="py-2 text-right tabular-nums text-gray-600">
+                  ±{group.rating_stddev.toFixed(2)}{" "}
+                  <span className="text-xs text-gray-400">
+                    ({group.min_rating}–{group.max_rating})
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,130 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import type { StatsResponseDTO } from "../../types";
+import { describeCorrelation } from "./PriceRatingScatter";
+import { formatMonthLabel, StatsView } from "./StatsView";
+
+/**
+ * Unit tests for StatsView component and its formatting helpers
+ */
+describe("StatsView", () => {
+  const stats: StatsResponseDTO = {
+    total_notes: 4,
+    average_rating: 3.75,
+    by_brand: [
+      {
+        id: "brand-1",
+        name: "Ippodo",
+        note_count: 3,
+        average_rating: 4.33,
+        rating_stddev: 0.47,
+        min_rating: 4,
+        max_rating: 5,
+      },
+      {
+        id: "brand-2",
+        name: "Marukyu",
+        note_count: 1,
+        average_rating: 2,
+        rating_stddev: 0,
+        min_rating: 2,
+        max_rating: 2,
+      },
+    ],
+    by_region: [
+      {
+        id: "region-1",
+        name: "Uji",
+        note_count: 4,
+        average_rating: 3.75,
+        rating_stddev: 1.09,
+        min_rating: 2,
+        max_rating: 5,
+      },
+    ],
+    rating_distribution: [
+      { rating: 1, count: 0 },
+      { rating: 2, count: 1 },
+      { rating: 3, count: 0 },
+      { rating: 4, count: 2 },
+      { rating: 5, count: 1 },
+    ],
+    sensory_profile: { umami: 4, bitter: 2.5, sweet: null, foam: 3 },
+    notes_per_month: [
+      { month: "2025-09", count: 1 },
+      { month: "2025-10", count: 3 },
+    ],
+    price_rating: {
+      sample_size: 2,
+      correlation: 1,
+      points: [
+        { price_per_100g_pln: 80, overall_rating: 2 },
+        { price_per_100g_pln: 150, overall_rating: 5 },
+      ],
+    },
+  };
+
+  describe("formatMonthLabel", () => {
+    it("should format a YYYY-MM key as a short month label", () => {
+      expect(formatMonthLabel("2025-10")).toBe("Oct 2025");
+      expect(formatMonthLabel("2026-01")).toBe("Jan 2026");
+    });
+  });
+
+  describe("describeCorrelation", () => {
+    it("should return null when correlation is unknown", () => {
+      expect(describeCorrelation(null)).toBeNull();
+    });
+
+    it("should describe weak correlations as no relation", () => {
+      expect(describeCorrelation(0.1)).toBe("Price has little to no relation to your ratings");
+      expect(describeCorrelation(-0.15)).toBe("Price has little to no relation to your ratings");
+    });
+
+    it("should describe direction and strength", () => {
+      expect(describeCorrelation(0.9)).toBe("Pricier matcha strongly tends to rate higher");
+      expect(describeCorrelation(-0.6)).toBe("Pricier matcha moderately tends to rate lower");
+      expect(describeCorrelation(0.3)).toBe("Pricier matcha slightly tends to rate higher");
+    });
+  });
+
+  describe("Rendering", () => {
+    it("should show the empty state when there are no notes", () => {
+      render(<StatsView stats={{ ...stats, total_notes: 0, by_brand: [], by_region: [] }} />);
+
+      expect(screen.getByTestId("stats-empty")).toBeInTheDocument();
+    });
+
+    it("should render summary figures", () => {
+      render(<StatsView stats={stats} />);
+
+      expect(screen.getByTestId("stats-total-notes")).toHaveTextContent("4");
+      expect(screen.getByTestId("stats-top-brand")).toHaveTextContent("Ippodo");
+      expect(screen.getByText("(3.75)")).toBeInTheDocument();
+    });
+
+    it("should rank brands and regions", () => {
+      render(<StatsView stats={stats} />);
+
+      const brandRows = screen.getByTestId("stats-by-brand").querySelectorAll("tbody tr");
+      expect(brandRows).toHaveLength(2);
+      expect(brandRows[0]).toHaveTextContent("Ippodo");
+      expect(brandRows[0]).toHaveTextContent("4.33");
+      expect(screen.getByTestId("stats-by-region")).toHaveTextContent("Uji");
+    });
+
+    it("should render a bar per rating and per month", () => {
+      render(<StatsView stats={stats} />);
+
+      expect(screen.getByTestId("stats-rating-distribution").children).toHaveLength(5);
+      expect(screen.getByTestId("stats-notes-per-month")).toHaveTextContent("Oct 2025");
+    });
+
+    it("should summarise the price/rating correlation", () => {
+      render(<StatsView stats={stats} />);
+
+      expect(screen.getByText(/Pricier matcha strongly tends to rate higher/)).toBeInTheDocument();
+      expect(screen.getByRole("img", { name: "Price versus rating for 2 priced notes" })).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import type { StatsResponseDTO } from "../../types";
+import { BackButton } from "../BackButton";
+import { StarRatingDisplay } from "../dashboard/StarRatingDisplay";
+import { FlavorRadarChart } from "../tasting-detail/FlavorRadarChart";
+import { BarChart } from "./BarChart";
+import { PriceRatingScatter } from "./PriceRatingScatter";
+import { RatingGroupTable } from "./RatingGroupTable";
+
+/**
+ * StatsView Component
+ *
+ * Personal statistics over the user's tasting journal.
+ * Receives pre-aggregated data rendered server-side from the stats service.
+ */
+interface StatsViewProps {
+  stats: StatsResponseDTO;
+}
+
+/**
+ * Formats a YYYY-MM month key as a short label, e.g. "Oct 2025"
+ */
+export function formatMonthLabel(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString("en-US", { month: "short", year: "numeric" });
+}
+
+export function StatsView({ stats }: StatsViewProps) {
+  if (stats.total_notes === 0) {
+    return (
+      <div className="rounded-lg bg-white p-8 text-center shadow-sm" data-testid="stats-empty">
+        <p className="mb-4 text-gray-600">Log a few tastings to see your statistics.</p>
+        <BackButton variant="button" text="Back to Dashboard" />
+      </div>
+    );
+  }
+
+  const topBrand = stats.by_brand[0];
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="rounded-lg bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">Tasting notes</p>
+          <p className="text-3xl font-bold text-gray-900" data-testid="stats-total-notes">
+            {stats.total_notes}
+          </p>
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">Average rating</p>
+          {stats.average_rating !== null && (
+            <div className="mt-2 flex items-center gap-2">
+              <StarRatingDisplay rating={Math.round(stats.average_rating)} />
+              <span className="text-sm text-gray-500">({stats.average_rating.toFixed(2)})</span>
+            </div>
+          )}
+        </div>
+        <div className="rounded-lg bg-white p-4 shadow-sm">
+          <p className="text-sm text-gray-500">Top brand</p>
+          {topBrand && (
+            <p className="mt-1 truncate text-xl font-semibold text-gray-900" data-testid="stats-top-brand">
+              {topBrand.name}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Brands and regions */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <RatingGroupTable
+          title="Rating by Brand"
+          groups={stats.by_brand}
+          getHref={(brand) => `/brands/${brand.id}`}
+          data-testid="stats-by-brand"
+        />
+        <RatingGroupTable title="Rating by Region" groups={stats.by_region} data-testid="stats-by-region" />
+      </div>
+
+      {/* Distribution and sensory profile */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <section className="rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">Rating Distribution</h2>
+          <BarChart
+            items={stats.rating_distribution.map(({ rating, count }) => ({
+              label: `${rating}★`,
+              value: count,
+            }))}
+            data-testid="stats-rating-distribution"
+          />
+        </section>
+        <section className="rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">Average Flavor Profile</h2>
+          <FlavorRadarChart series={[{ label: "Average", profile: stats.sensory_profile }]} />
+        </section>
+      </div>
+
+      {/* Activity and price */}
+      <div className="grid gap-6 lg:grid-cols-2">
+        <section className="rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">Notes per Month</h2>
+          <BarChart
+            items={stats.notes_per_month.map(({ month, count }) => ({ label: formatMonthLabel(month), value: count }))}
+            data-testid="stats-notes-per-month"
+          />
+        </section>
+        <section className="rounded-lg bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">Price vs Rating</h2>
+          <PriceRatingScatter priceRating={stats.price_rating} />
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { render, screen } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { FlavorRadarChart, hasFlavorProfile, RADAR_SERIES_COLORS } from "./FlavorRadarChart";
+
+/**
+ * Unit tests for FlavorRadarChart component
+ * Tests SVG rendering of single and overlaid flavor profiles
+ */
+describe("FlavorRadarChart", () => {
+  const fullProfile = { umami: 5, bitter: 2, sweet: 4, foam: 3 };
+  const emptyProfile = { umami: null, bitter: null, sweet: null, foam: null };
+
+  describe("hasFlavorProfile", () => {
+    it("should return false when no axis is rated", () => {
+      expect(hasFlavorProfile(emptyProfile)).toBe(false);
+    });
+
+    it("should return true when at least one axis is rated", () => {
+      expect(hasFlavorProfile({ ...emptyProfile, sweet: 3 })).toBe(true);
+    });
+  });
+
+  describe("Rendering", () => {
+    it("should render all axis labels", () => {
+      render(<FlavorRadarChart series={[{ label: "Sayaka", profile: fullProfile }]} />);
+
+      ["Umami", "Bitter", "Sweet", "Foam"].forEach((label) => {
+        expect(screen.getByText(label)).toBeInTheDocument();
+      });
+    });
+
+    it("should describe the profile in the accessible label", () => {
+      render(<FlavorRadarChart series={[{ label: "Sayaka", profile: { ...fullProfile, foam: null } }]} />);
+
+      expect(
+        screen.getByRole("img", {
+          name: "Flavor profile. Sayaka: Umami 5, Bitter 2, Sweet 4, Foam not rated",
+        })
+      ).toBeInTheDocument();
+    });
+
+    it("should render 5 grid rings and one polygon per series", () => {
+      const { container } = render(
+        <FlavorRadarChart
+          series={[
+            { label: "Sayaka", profile: fullProfile },
+            { label: "Ummon", profile: { umami: 3, bitter: 3, sweet: 3, foam: 3 } },
+          ]}
+        />
+      );
+
+      expect(container.querySelectorAll("polygon")).toHaveLength(7);
+      expect(container.querySelectorAll("g[data-series]")).toHaveLength(2);
+    });
+
+    it("should place the maximum value at the chart edge", () => {
+      const { container } = render(
+        <FlavorRadarChart series={[{ label: "Sayaka", profile: fullProfile }]} size={200} />
+      );
+
+      // Umami is the top axis: x = center, y = padding
+      const firstPoint = container.querySelector("g[data-series] circle");
+      expect(firstPoint).toHaveAttribute("cx", "100");
+      expect(firstPoint).toHaveAttribute("cy", "36");
+    });
+
+    it("should show a legend only when overlaying several notes", () => {
+      const { rerender } = render(<FlavorRadarChart series={[{ label: "Sayaka", profile: fullProfile }]} />);
+
+      expect(screen.queryByRole("list")).not.toBeInTheDocument();
+
+      rerender(
+        <FlavorRadarChart
+          series={[
+            { label: "Sayaka", profile: fullProfile },
+            { label: "Ummon", profile: fullProfile },
+          ]}
+        />
+      );
+
+      expect(screen.getByRole("list")).toBeInTheDocument();
+      expect(screen.getByText("Ummon")).toBeInTheDocument();
+    });
+
+    it("should keep series colours stable when a note is unrated", () => {
+      const { container } = render(
+        <FlavorRadarChart
+          series={[
+            { label: "Unrated", profile: emptyProfile },
+            { label: "Sayaka", profile: fullProfile },
+          ]}
+        />
+      );
+
+      const polygons = container.querySelectorAll("g[data-series] polygon");
+      expect(polygons).toHaveLength(1);
+      expect(polygons[0]).toHaveAttribute("stroke", RADAR_SERIES_COLORS[1]);
+    });
+
+    it("should show a message when nothing is rated", () => {
+      render(<FlavorRadarChart series={[{ label: "Sayaka", profile: emptyProfile }]} />);
+
+      expect(screen.getByText("No flavor profile rated")).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * FlavorRadarChart Component
+ *
+ * Dependency-free SVG radar chart of the sensory profile (umami, bitter, sweet, foam).
+ * Renders one polygon per series, so several notes can be overlaid for comparison.
+ * Unrated axes are drawn at the centre.
+ */
+
+export interface FlavorProfile {
+  umami: number | null;
+  bitter: number | null;
+  sweet: number | null;
+  foam: number | null;
+}
+
+export interface FlavorRadarSeries {
+  label: string;
+  profile: FlavorProfile;
+}
+
+interface FlavorRadarChartProps {
+  series: FlavorRadarSeries[];
+  size?: number;
+  className?: string;
+  "data-testid"?: string;
+}
+
+/**
+ * Distinguishable series colours, one per comparable note
+ */
+export const RADAR_SERIES_COLORS = ["#16a34a", "#2563eb", "#dc2626", "#d97706", "#9333ea", "#0891b2"];
+
+const AXES: { key: keyof FlavorProfile; label: string }[] = [
+  { key: "umami", label: "Umami" },
+  { key: "bitter", label: "Bitter" },
+  { key: "sweet", label: "Sweet" },
+  { key: "foam", label: "Foam" },
+];
+
+const MAX_VALUE = 5;
+const LABEL_PADDING = 36;
+
+/**
+ * Returns true if at least one axis of the profile is rated
+ */
+export function hasFlavorProfile(profile: FlavorProfile): boolean {
+  return AXES.some(({ key }) => profile[key] !== null);
+}
+
+export function FlavorRadarChart({
+  series,
+  size = 240,
+  className = "",
+  "data-testid": dataTestId,
+}: FlavorRadarChartProps) {
+  const center = size / 2;
+  const radius = center - LABEL_PADDING;
+
+  // Axes start at the top and go clockwise
+  const pointAt = (axisIndex: number, value: number) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * axisIndex) / AXES.length;
+    const distance = (value / MAX_VALUE) * radius;
+    return {
+      x: center + distance * Math.cos(angle),
+      y: center + distance * Math.sin(angle),
+    };
+  };
+
+  const toPoints = (values: number[]) =>
+    values
+      .map((value, index) => {
+        const { x, y } = pointAt(index, value);
+        return `${x.toFixed(2)},${y.toFixed(2)}`;
+      })
+      .join(" ");
+
+  // Colours follow the position in the input, so a note keeps its colour even if others are unrated
+  const ratedSeries = series
+    .map((item, index) => ({ ...item, color: RADAR_SERIES_COLORS[index % RADAR_SERIES_COLORS.length] }))
+    .filter((item) => hasFlavorProfile(item.profile));
+
+  if (ratedSeries.length === 0) {
+    return (
+      <p className={`text-sm text-gray-400 ${className}`} data-testid={dataTestId}>
+        No flavor profile rated
+      </p>
+    );
+  }
+
+  const description = ratedSeries
+    .map(
+      (item) =>
+        `${item.label}: ${AXES.map(({ key, label }) => `${label} ${item.profile[key] ?? "not rated"}`).join(", ")}`
+    )
+    .join("; ");
+
+  return (
+    <figure className={`flex flex-col items-center gap-3 ${className}`} data-testid={dataTestId}>
+      <svg
+        viewBox={`0 0 ${size} ${size}`}
+        width={size}
+        height={size}
+        role="img"
+        aria-label={`Flavor profile. ${description}`}
+        className="max-w-full"
+      >
+        {/* Grid rings */}
+        {[1, 2, 3, 4, 5].map((level) => (
+          <polygon key={level} points={toPoints(AXES.map(() => level))} fill="none" stroke="#e5e7eb" strokeWidth={1} />
+        ))}
+
+        {/* Axis lines and labels */}
+        {AXES.map(({ key, label }, index) => {
+          const end = pointAt(index, MAX_VALUE);
+          const labelPoint = pointAt(index, MAX_VALUE + 1.2);
+          return (
+            <g key={key}>
+              <line x1={center} y1={center} x2={end.x} y2={end.y} stroke="#d1d5db" strokeWidth={1} />
+              <text
+                x={labelPoint.x}
+                y={labelPoint.y}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="fill-gray-600 text-[11px] font-medium"
+              >
+                {label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Series polygons */}
+        {ratedSeries.map((item, seriesIndex) => {
+          const color = item.color;
+          const values = AXES.map(({ key }) => item.profile[key] ?? 0);
+          return (
+            <g key={seriesIndex} data-series={item.label}>
+              <polygon
+                points={toPoints(values)}
+                fill={color}
+                fillOpacity={0.15}
+                stroke={color}
+                strokeWidth={2}
+                strokeLinejoin="round"
+              />
+              {values.map((value, index) => {
+                const { x, y } = pointAt(index, value);
+                return <circle key={index} cx={x} cy={y} r={3} fill={color} />;
+              })}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend (only useful when overlaying several notes) */}
+      {ratedSeries.length > 1 && (
+        <figcaption>
+          <ul className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs text-gray-700">
+            {ratedSeries.map((item, seriesIndex) => (
+              <li key={seriesIndex} className="flex items-center gap-1.5">
+                <span
+                  className="inline-block h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: item.color }}
+                  aria-hidden="true"
+                />
+                {item.label}
+              </li>
+            ))}
+          </ul>
+        </figcaption>
+      )}
+    </figure>
+  );
+}
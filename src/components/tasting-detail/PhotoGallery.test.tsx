@@ -0,0 +1,123 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { render, screen, waitFor } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_PHOTOS_PER_NOTE } from "../../lib/constants";
+import type { TastingNotePhotoDTO } from "../../types";
+import { PhotoGallery } from "./PhotoGallery";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+/**
+ * Unit tests for PhotoGallery component
+ * Tests photo rendering, uploads (including client-side checks) and deletion
+ */
+describe("PhotoGallery", () => {
+  const noteId = "note-1";
+
+  const createPhoto = (id: string, kind = "tin"): TastingNotePhotoDTO => ({
+    id,
+    kind,
+    caption: null,
+    content_type: "image/jpeg",
+    size_bytes: 1024,
+    url: `/api/tasting-notes/${noteId}/photos/${id}`,
+    created_at: "2025-11-08T10:00:00Z",
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should render a thumbnail per photo", () => {
+    render(<PhotoGallery noteId={noteId} initialPhotos={[createPhoto("p1"), createPhoto("p2", "foam")]} />);
+
+    expect(screen.getByAltText("Tin")).toHaveAttribute("src", `/api/tasting-notes/${noteId}/photos/p1`);
+    expect(screen.getByAltText("Bowl foam")).toBeInTheDocument();
+  });
+
+  it("should show an empty state without photos", () => {
+    render(<PhotoGallery noteId={noteId} initialPhotos={[]} />);
+
+    expect(screen.getByText("No photos yet")).toBeInTheDocument();
+  });
+
+  it("should upload the chosen file and show the new photo", async () => {
+    const user = userEvent.setup();
+    (global.fetch as any).mockResolvedValueOnce({ ok: true, json: async () => createPhoto("p3") });
+    render(<PhotoGallery noteId={noteId} initialPhotos={[]} />);
+
+    const file = new File(["matcha"], "tin.jpg", { type: "image/jpeg" });
+    await user.upload(screen.getByTestId("photo-file-input"), file);
+
+    await waitFor(() => {
+      expect(screen.getByAltText("Tin")).toBeInTheDocument();
+    });
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe(`/api/tasting-notes/${noteId}/photos`);
+    expect(init.method).toBe("POST");
+    expect((init.body as FormData).get("file")).toBe(file);
+    expect((init.body as FormData).get("kind")).toBe("tin");
+  });
+
+  it("should reject unsupported file types without calling the API", async () => {
+    const user = userEvent.setup({ applyAccept: false });
+    render(<PhotoGallery noteId={noteId} initialPhotos={[]} />);
+
+    await user.upload(screen.getByTestId("photo-file-input"), new File(["gif"], "foam.gif", { type: "image/gif" }));
+
+    expect(screen.getByTestId("photo-error-message")).toHaveTextContent(
+      "Only JPEG, PNG and WebP images can be uploaded"
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("should show the API error when an upload fails", async () => {
+    const user = userEvent.setup();
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ error: "A tasting note can have at most 10 photos" }),
+    });
+    render(<PhotoGallery noteId={noteId} initialPhotos={[]} />);
+
+    await user.upload(screen.getByTestId("photo-file-input"), new File(["matcha"], "tin.png", { type: "image/png" }));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("photo-error-message")).toHaveTextContent("A tasting note can have at most 10 photos");
+    });
+  });
+
+  it("should delete a photo from the full-size view", async () => {
+    const user = userEvent.setup();
+    (global.fetch as any).mockResolvedValueOnce({ ok: true });
+    render(<PhotoGallery noteId={noteId} initialPhotos={[createPhoto("p1")]} />);
+
+    await user.click(screen.getByRole("button", { name: "Open tin photo" }));
+    await user.click(await screen.findByTestId("photo-delete-button"));
+
+    await waitFor(() => {
+      expect(screen.getByText("No photos yet")).toBeInTheDocument();
+    });
+    expect(global.fetch).toHaveBeenCalledWith(`/api/tasting-notes/${noteId}/photos/p1`, { method: "DELETE" });
+  });
+
+  it("should hide upload and delete controls in read-only mode", async () => {
+    const user = userEvent.setup();
+    render(<PhotoGallery noteId={noteId} initialPhotos={[createPhoto("p1")]} readOnly />);
+
+    expect(screen.queryByTestId("photo-upload-button")).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Open tin photo" }));
+
+    expect(await screen.findByRole("dialog")).toBeInTheDocument();
+    expect(screen.queryByTestId("photo-delete-button")).not.toBeInTheDocument();
+  });
+
+  it("should disable uploads once the photo limit is reached", () => {
+    const photos = Array.from({ length: MAX_PHOTOS_PER_NOTE }, (_, index) => createPhoto(`p${index}`));
+    render(<PhotoGallery noteId={noteId} initialPhotos={photos} />);
+
+    expect(screen.getByTestId("photo-upload-button")).toBeDisabled();
+    expect(screen.getByText(`Up to ${MAX_PHOTOS_PER_NOTE} photos per tasting note`)).toBeInTheDocument();
+  });
+});
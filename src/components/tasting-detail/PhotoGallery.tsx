@@ -0,0 +1,222 @@
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MAX_PHOTO_BYTES,
+  MAX_PHOTOS_PER_NOTE,
+  PHOTO_CONTENT_TYPES,
+  PHOTO_KIND_LABELS,
+  PHOTO_KINDS,
+  type PhotoKind,
+} from "@/lib/constants";
+import type { ErrorResponseDTO, TastingNotePhotoDTO } from "@/types";
+import { ImagePlus, Loader2, Trash2 } from "lucide-react";
+import { useRef, useState } from "react";
+
+interface PhotoGalleryProps {
+  noteId: string;
+  initialPhotos: TastingNotePhotoDTO[];
+  readOnly?: boolean;
+}
+
+/**
+ * Returns the display label of a photo kind, falling back to the raw value
+ */
+function getKindLabel(kind: string): string {
+  return PHOTO_KIND_LABELS[kind as PhotoKind] ?? kind;
+}
+
+/**
+ * PhotoGallery Component
+ *
+ * Grid of the photos attached to a tasting note (tin, powder color, bowl foam).
+ * Handles uploading and deleting photos through the API and opens a photo
+ * in a dialog when its thumbnail is clicked. Read-only mode only shows the photos.
+ */
+export function PhotoGallery({ noteId, initialPhotos, readOnly = false }: PhotoGalleryProps) {
+  const [photos, setPhotos] = useState(initialPhotos);
+  const [kind, setKind] = useState<PhotoKind>("tin");
+  const [isUploading, setIsUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [selectedPhoto, setSelectedPhoto] = useState<TastingNotePhotoDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isFull = photos.length >= MAX_PHOTOS_PER_NOTE;
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    // Check limits client-side first; the API enforces the same rules
+    if (!(PHOTO_CONTENT_TYPES as readonly string[]).includes(file.type)) {
+      setError("Only JPEG, PNG and WebP images can be uploaded");
+      return;
+    }
+    if (file.size > MAX_PHOTO_BYTES) {
+      setError(`Photos must be at most ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`);
+      return;
+    }
+
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("kind", kind);
+
+      const response = await fetch(`/api/tasting-notes/${noteId}/photos`, {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData: ErrorResponseDTO = await response.json().catch(() => ({ error: "" }));
+        throw new Error(errorData.error || "Failed to upload photo");
+      }
+
+      const photo: TastingNotePhotoDTO = await response.json();
+      setPhotos((current) => [...current, photo]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (photo: TastingNotePhotoDTO) => {
+    setDeletingId(photo.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tasting-notes/${noteId}/photos/${photo.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete photo");
+      }
+
+      setPhotos((current) => current.filter((p) => p.id !== photo.id));
+      setSelectedPhoto(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4" data-testid="photo-gallery">
+      {photos.length > 0 ? (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {photos.map((photo) => (
+            <li key={photo.id} className="space-y-1">
+              <button
+                type="button"
+                onClick={() => setSelectedPhoto(photo)}
+                className="block w-full overflow-hidden rounded-md border bg-gray-50"
+                aria-label={`Open ${getKindLabel(photo.kind).toLowerCase()} photo`}
+              >
+                <img
+                  src={photo.url}
+                  alt={photo.caption || getKindLabel(photo.kind)}
+                  loading="lazy"
+                  className="aspect-square w-full object-cover"
+                />
+              </button>
+              <p className="text-xs text-gray-600">{getKindLabel(photo.kind)}</p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No photos yet</p>
+      )}
+
+      {error && (
+        <div
+          className="rounded-md bg-destructive/10 p-3 text-sm text-destructive"
+          role="alert"
+          data-testid="photo-error-message"
+        >
+          {error}
+        </div>
+      )}
+
+      {!readOnly && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as PhotoKind)} disabled={isUploading || isFull}>
+            <SelectTrigger className="w-40" aria-label="Photo shows" data-testid="photo-kind-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PHOTO_KINDS.map((photoKind) => (
+                <SelectItem key={photoKind} value={photoKind}>
+                  {PHOTO_KIND_LABELS[photoKind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading || isFull}
+            data-testid="photo-upload-button"
+          >
+            {isUploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+            {isUploading ? "Uploading..." : "Add photo"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={PHOTO_CONTENT_TYPES.join(",")}
+            onChange={handleFileChange}
+            className="hidden"
+            data-testid="photo-file-input"
+          />
+        </div>
+      )}
+      {!readOnly && isFull && (
+        <p className="text-xs text-gray-500">Up to {MAX_PHOTOS_PER_NOTE} photos per tasting note</p>
+      )}
+
+      {/* Full-size photo */}
+      <Dialog open={selectedPhoto !== null} onOpenChange={(open) => !open && setSelectedPhoto(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          {selectedPhoto && (
+            <>
+              <DialogTitle>{getKindLabel(selectedPhoto.kind)}</DialogTitle>
+              <DialogDescription className={selectedPhoto.caption ? "" : "sr-only"}>
+                {selectedPhoto.caption || "Tasting note photo"}
+              </DialogDescription>
+              <img
+                src={selectedPhoto.url}
+                alt={selectedPhoto.caption || getKindLabel(selectedPhoto.kind)}
+                className="max-h-[70vh] w-full rounded-md object-contain"
+              />
+              {!readOnly && (
+                <div className="flex justify-end">
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleDelete(selectedPhoto)}
+                    disabled={deletingId === selectedPhoto.id}
+                    data-testid="photo-delete-button"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    {deletingId === selectedPhoto.id ? "Deleting..." : "Delete photo"}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
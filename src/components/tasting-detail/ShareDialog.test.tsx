@@ -0,0 +1,97 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { render, screen, waitFor } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ShareDialog } from "./ShareDialog";
+
+// Mock global fetch
+global.fetch = vi.fn();
+
+/**
+ * Unit tests for ShareDialog component
+ * Tests creating and revoking share links and showing the link to copy
+ */
+describe("ShareDialog", () => {
+  const noteId = "note-1";
+  const shareToken = "AbCdEfGhIjKlMnOpQrStUv_-";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should show the share link when the note is shared", () => {
+    render(
+      <ShareDialog isOpen onClose={vi.fn()} noteId={noteId} shareToken={shareToken} onShareTokenChange={vi.fn()} />
+    );
+
+    expect(screen.getByTestId("share-link-input")).toHaveValue(`${window.location.origin}/s/${shareToken}`);
+    expect(screen.getByTestId("share-revoke-button")).toBeInTheDocument();
+  });
+
+  it("should create a link for a private note", async () => {
+    const user = userEvent.setup();
+    const mockOnShareTokenChange = vi.fn();
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ is_public: true, share_token: shareToken, share_url: `http://localhost/s/${shareToken}` }),
+    });
+    render(
+      <ShareDialog
+        isOpen
+        onClose={vi.fn()}
+        noteId={noteId}
+        shareToken={null}
+        onShareTokenChange={mockOnShareTokenChange}
+      />
+    );
+
+    expect(screen.queryByTestId("share-link-input")).not.toBeInTheDocument();
+    await user.click(screen.getByTestId("share-create-button"));
+
+    await waitFor(() => {
+      expect(mockOnShareTokenChange).toHaveBeenCalledWith(shareToken);
+    });
+    expect(global.fetch).toHaveBeenCalledWith(`/api/tasting-notes/${noteId}/share`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ is_public: true }),
+    });
+  });
+
+  it("should revoke the link of a shared note", async () => {
+    const user = userEvent.setup();
+    const mockOnShareTokenChange = vi.fn();
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ is_public: false, share_token: null, share_url: null }),
+    });
+    render(
+      <ShareDialog
+        isOpen
+        onClose={vi.fn()}
+        noteId={noteId}
+        shareToken={shareToken}
+        onShareTokenChange={mockOnShareTokenChange}
+      />
+    );
+
+    await user.click(screen.getByTestId("share-revoke-button"));
+
+    await waitFor(() => {
+      expect(mockOnShareTokenChange).toHaveBeenCalledWith(null);
+    });
+    expect(JSON.parse((global.fetch as any).mock.calls[0][1].body)).toEqual({ is_public: false });
+  });
+
+  it("should show an error when the request fails", async () => {
+    const user = userEvent.setup();
+    (global.fetch as any).mockResolvedValueOnce({ ok: false });
+    render(<ShareDialog isOpen onClose={vi.fn()} noteId={noteId} shareToken={null} onShareTokenChange={vi.fn()} />);
+
+    await user.click(screen.getByTestId("share-create-button"));
+
+    await waitFor(() => {
+      expect(screen.getByTestId("share-error-message")).toHaveTextContent("Failed to create share link");
+    });
+  });
+});
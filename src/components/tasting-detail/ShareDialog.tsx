@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import type { ShareTastingNoteResponseDTO } from "@/types";
+import { Check, Copy } from "lucide-react";
+import { useState } from "react";
+
+interface ShareDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  noteId: string;
+  shareToken: string | null;
+  onShareTokenChange: (shareToken: string | null) => void;
+}
+
+/**
+ * Builds the absolute share link for a token
+ */
+function getShareUrl(shareToken: string): string {
+  return `${window.location.origin}/s/${shareToken}`;
+}
+
+/**
+ * ShareDialog Component
+ *
+ * Modal dialog for sharing a tasting note via a public, read-only link.
+ * Creates or revokes the link through the API; revoked links stop working
+ * and sharing again produces a new link.
+ */
+export function ShareDialog({ isOpen, onClose, noteId, shareToken, onShareTokenChange }: ShareDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const setSharing = async (isPublic: boolean) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/tasting-notes/${noteId}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_public: isPublic }),
+      });
+
+      if (!response.ok) {
+        throw new Error(isPublic ? "Failed to create share link" : "Failed to revoke share link");
+      }
+
+      const data: ShareTastingNoteResponseDTO = await response.json();
+      onShareTokenChange(data.share_token);
+      setIsCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareToken) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(getShareUrl(shareToken));
+      setIsCopied(true);
+    } catch {
+      setError("Could not copy the link - please copy it manually");
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      setError(null);
+      setIsCopied(false);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent data-testid="share-dialog">
+        <DialogHeader>
+          <DialogTitle>Share Tasting Note</DialogTitle>
+          <DialogDescription>
+            {shareToken
+              ? "Anyone with this link can view this tasting note. They cannot edit it or see your other notes."
+              : "Create a read-only link to this tasting note. Your other notes stay private."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {shareToken && (
+          <div className="flex gap-2">
+            <Input
+              value={getShareUrl(shareToken)}
+              readOnly
+              aria-label="Share link"
+              onFocus={(e) => e.target.select()}
+              data-testid="share-link-input"
+            />
+            <Button variant="outline" onClick={handleCopy} aria-label="Copy share link" data-testid="share-copy-button">
+              {isCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {isCopied ? "Copied" : "Copy"}
+            </Button>
+          </div>
+        )}
+
+        {error && (
+          <div
+            className="rounded-md bg-destructive/10 p-3 text-sm text-destructive"
+            role="alert"
+            data-testid="share-error-message"
+          >
+            {error}
+          </div>
+        )}
+
+        <DialogFooter>
+          {shareToken ? (
+            <Button
+              variant="destructive"
+              onClick={() => setSharing(false)}
+              disabled={isSaving}
+              data-testid="share-revoke-button"
+            >
+              {isSaving ? "Revoking..." : "Stop sharing"}
+            </Button>
+          ) : (
+            <Button onClick={() => setSharing(true)} disabled={isSaving} data-testid="share-create-button">
+              {isSaving ? "Creating..." : "Create link"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,26 +1,37 @@
 import { BackButton } from "@/components/BackButton";
+import { CommunityRating } from "@/components/community/CommunityRating";
 import { StarRatingDisplay } from "@/components/dashboard/StarRatingDisplay";
+import { TagList } from "@/components/dashboard/TagList";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Pencil, Trash2 } from "lucide-react";
+import { Link2, Pencil, Trash2 } from "lucide-react";
 import { useState } from "react";
 import { DeleteConfirmDialog } from "./DeleteConfirmDialog";
 import { DotRatingDisplay } from "./DotRatingDisplay";
+import { FlavorRadarChart, hasFlavorProfile } from "./FlavorRadarChart";
+import { PhotoGallery } from "./PhotoGallery";
+import { ShareDialog } from "./ShareDialog";
 import type { TastingDetailViewModel } from "./types";
 
 interface TastingDetailViewProps {
   note: TastingDetailViewModel;
+  readOnly?: boolean;
 }
 
 /**
  * TastingDetailView Component
  *
  * Main component for displaying a complete tasting note in detail view.
- * Shows all tasting information including ratings, notes, and metadata.
- * Provides options to edit or delete the note.
+ * Shows all tasting information including ratings, notes, photos and metadata.
+ * Provides options to edit, share or delete the note; in read-only mode
+ * (public share page) these controls are hidden.
  */
-export function TastingDetailView({ note }: TastingDetailViewProps) {
+export function TastingDetailView({ note, readOnly = false }: TastingDetailViewProps) {
   const [isDeleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [isShareDialogOpen, setShareDialogOpen] = useState(false);
+  const [shareToken, setShareToken] = useState(note.shareToken);
+
+  const flavorProfile = { umami: note.umami, bitter: note.bitter, sweet: note.sweet, foam: note.foam };
 
   const handleEdit = () => {
     window.location.href = `/tastings/${note.id}/edit`;
@@ -29,38 +40,66 @@ export function TastingDetailView({ note }: TastingDetailViewProps) {
   return (
     <div className="mx-auto max-w-3xl space-y-6 p-4 md:p-6">
       {/* Back to Dashboard */}
-      <BackButton text="Back to Dashboard" />
+      {!readOnly && <BackButton text="Back to Dashboard" />}
 
       {/* Header Section */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
         <div className="space-y-1">
           <h1 className="text-2xl font-bold text-gray-900 md:text-3xl" data-testid="detail-page-heading">
-            {note.brandName} | {note.blendName}
+            {readOnly ? (
+              <>
+                {note.brandName} | {note.blendName}
+              </>
+            ) : (
+              <>
+                <a href={`/brands/${note.brandId}`} className="hover:underline">
+                  {note.brandName}
+                </a>{" "}
+                |{" "}
+                <a href={`/blends/${note.blendId}`} className="hover:underline">
+                  {note.blendName}
+                </a>
+              </>
+            )}
           </h1>
-          <p className="text-sm text-gray-500">Last updated: {note.updatedAt}</p>
-        </div>
-        <div className="flex gap-2">
-          <Button
-            variant="outline"
-            size="default"
-            onClick={handleEdit}
-            aria-label="Edit tasting note"
-            data-testid="edit-button"
-          >
-            <Pencil className="h-4 w-4" />
-            <span className="hidden sm:inline">Edit</span>
-          </Button>
-          <Button
-            variant="destructive"
-            size="default"
-            onClick={() => setDeleteDialogOpen(true)}
-            aria-label="Delete tasting note"
-            data-testid="delete-button"
-          >
-            <Trash2 className="h-4 w-4" />
-            <span className="hidden sm:inline">Delete</span>
-          </Button>
+          <p className="text-sm text-gray-500">
+            <span data-testid="detail-tasted-at">Tasted on {note.tastedAt}</span> · Last updated: {note.updatedAt}
+          </p>
         </div>
+        {!readOnly && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="default"
+              onClick={handleEdit}
+              aria-label="Edit tasting note"
+              data-testid="edit-button"
+            >
+              <Pencil className="h-4 w-4" />
+              <span className="hidden sm:inline">Edit</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="default"
+              onClick={() => setShareDialogOpen(true)}
+              aria-label="Share tasting note"
+              data-testid="share-button"
+            >
+              <Link2 className="h-4 w-4" />
+              <span className="hidden sm:inline">{shareToken ? "Shared" : "Share"}</span>
+            </Button>
+            <Button
+              variant="destructive"
+              size="default"
+              onClick={() => setDeleteDialogOpen(true)}
+              aria-label="Delete tasting note"
+              data-testid="delete-button"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span className="hidden sm:inline">Delete</span>
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Main Details Section */}
@@ -75,6 +114,19 @@ export function TastingDetailView({ note }: TastingDetailViewProps) {
             <StarRatingDisplay rating={note.overallRating} />
           </div>
 
+          {/* Community ratings of the blend (owner view only; the share page has no session) */}
+          {!readOnly && (
+            <CommunityRating blendId={note.blendId} ownRating={note.overallRating} ownProfile={flavorProfile} />
+          )}
+
+          {/* Flavor Tags */}
+          {note.tags.length > 0 && (
+            <div className="space-y-2 border-b pb-4">
+              <h3 className="text-sm font-semibold text-gray-900">Flavor Tags</h3>
+              <TagList tags={note.tags} data-testid="detail-tags" />
+            </div>
+          )}
+
           {/* Structured Ratings */}
           <div className="space-y-3">
             <h3 className="text-sm font-semibold text-gray-900">Tasting Characteristics</h3>
@@ -82,8 +134,29 @@ export function TastingDetailView({ note }: TastingDetailViewProps) {
             <DotRatingDisplay label="Bitter" value={note.bitter} data-testid="detail-bitter-rating" />
             <DotRatingDisplay label="Sweet" value={note.sweet} data-testid="detail-sweet-rating" />
             <DotRatingDisplay label="Foam Quality" value={note.foam} data-testid="detail-foam-rating" />
+            {hasFlavorProfile(flavorProfile) && (
+              <FlavorRadarChart
+                series={[{ label: `${note.brandName} | ${note.blendName}`, profile: flavorProfile }]}
+                className="pt-2"
+                data-testid="detail-flavor-radar"
+              />
+            )}
           </div>
 
+          {/* Preparation */}
+          {note.preparation.length > 0 && (
+            <div className="space-y-3 border-t pt-4" data-testid="detail-preparation">
+              <h3 className="text-sm font-semibold text-gray-900">Preparation</h3>
+
+              {note.preparation.map((detail) => (
+                <div key={detail.label} className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">{detail.label}</span>
+                  <span className="text-sm text-gray-900">{detail.value}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* General Info */}
           <div className="space-y-3 border-t pt-4">
             <h3 className="text-sm font-semibold text-gray-900">General Information</h3>
@@ -96,12 +169,21 @@ export function TastingDetailView({ note }: TastingDetailViewProps) {
             </div>
 
             <div className="flex items-center justify-between">
-              <span className="text-sm font-medium text-gray-700">Price (per 100g)</span>
+              <span className="text-sm font-medium text-gray-700">Price</span>
               <span className="text-sm text-gray-900" data-testid="detail-price">
-                {note.pricePln || "—"}
+                {note.price || "—"}
               </span>
             </div>
 
+            {note.pricePer100g && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">Price per 100g</span>
+                <span className="text-sm text-gray-900" data-testid="detail-price-per-100g">
+                  ≈ {note.pricePer100g}
+                </span>
+              </div>
+            )}
+
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-gray-700">Purchase Source</span>
               {note.purchaseSource.isUrl ? (
@@ -147,8 +229,37 @@ export function TastingDetailView({ note }: TastingDetailViewProps) {
         </Card>
       )}
 
-      {/* Delete Confirmation Dialog */}
-      <DeleteConfirmDialog isOpen={isDeleteDialogOpen} onClose={() => setDeleteDialogOpen(false)} noteId={note.id} />
+      {/* Photos Section */}
+      {(!readOnly || note.photos.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Photos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PhotoGallery noteId={note.id} initialPhotos={note.photos} readOnly={readOnly} />
+          </CardContent>
+        </Card>
+      )}
+
+      {!readOnly && (
+        <>
+          {/* Share Dialog */}
+          <ShareDialog
+            isOpen={isShareDialogOpen}
+            onClose={() => setShareDialogOpen(false)}
+            noteId={note.id}
+            shareToken={shareToken}
+            onShareTokenChange={setShareToken}
+          />
+
+          {/* Delete Confirmation Dialog */}
+          <DeleteConfirmDialog
+            isOpen={isDeleteDialogOpen}
+            onClose={() => setDeleteDialogOpen(false)}
+            noteId={note.id}
+          />
+        </>
+      )}
     </div>
   );
 }
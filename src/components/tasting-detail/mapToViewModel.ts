@@ -0,0 +1,64 @@
+import { formatPreparation } from "../../lib/helpers/brewing";
+import { formatIsoDate } from "../../lib/helpers/date";
+import { formatNotePrice, formatPricePer100g } from "../../lib/helpers/price";
+import type { SharedTastingNoteDTO, TastingNoteResponseDTO } from "../../types";
+import type { TastingDetailViewModel } from "./types";
+
+/**
+ * Maps a TastingNoteResponseDTO to a TastingDetailViewModel
+ * Formats data for display purposes
+ * Shared by the owner's detail page and the public share page (which has no normalised price)
+ */
+export function mapToViewModel(dto: TastingNoteResponseDTO | SharedTastingNoteDTO): TastingDetailViewModel {
+  // Format price as paid and normalised per 100g
+  const price = formatNotePrice(dto);
+  const pricePer100g = "price_per_100g_pln" in dto ? formatPricePer100g(dto.price_per_100g_pln) : null;
+
+  // Format date (e.g., "November 8, 2025")
+  const updatedAt = new Date(dto.updated_at).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+  // Validate purchase source URL
+  const purchaseSource = {
+    text: dto.purchase_source || "",
+    isUrl: false,
+  };
+
+  if (dto.purchase_source) {
+    try {
+      new URL(dto.purchase_source);
+      purchaseSource.isUrl = true;
+    } catch {
+      // Not a valid URL, treat as plain text
+      purchaseSource.isUrl = false;
+    }
+  }
+
+  return {
+    id: dto.id,
+    blendId: dto.blend.id,
+    blendName: dto.blend.name,
+    brandId: dto.blend.brand.id,
+    brandName: dto.blend.brand.name,
+    regionName: dto.blend.region.name,
+    overallRating: dto.overall_rating,
+    tags: dto.tags,
+    photos: dto.photos,
+    umami: dto.umami,
+    bitter: dto.bitter,
+    sweet: dto.sweet,
+    foam: dto.foam,
+    notesKoicha: dto.notes_koicha,
+    notesMilk: dto.notes_milk,
+    preparation: formatPreparation(dto).filter((detail) => detail.value !== null),
+    price,
+    pricePer100g,
+    purchaseSource,
+    shareToken: dto.is_public ? dto.share_token : null,
+    tastedAt: formatIsoDate(dto.tasted_at, "long"),
+    updatedAt,
+  };
+}
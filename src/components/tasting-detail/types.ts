@@ -1,23 +1,34 @@
+import type { PreparationDetail } from "../../lib/helpers/brewing";
+import type { NestedTagDTO, TastingNotePhotoDTO } from "../../types";
+
 /**
  * View Model for displaying a tasting note in detail view
  * Derived from TastingNoteResponseDTO with formatted and display-friendly data
  */
 export interface TastingDetailViewModel {
   id: string;
+  blendId: string;
   blendName: string;
+  brandId: string;
   brandName: string;
   regionName: string;
   overallRating: number;
+  tags: NestedTagDTO[];
+  photos: TastingNotePhotoDTO[];
   umami: number | null;
   bitter: number | null;
   sweet: number | null;
   foam: number | null;
   notesKoicha: string | null;
   notesMilk: string | null;
-  pricePln: string | null; // Formatted as "123 PLN" or "—"
+  preparation: PreparationDetail[]; // Recorded preparation parameters only
+  price: string | null; // Price paid, formatted as "¥3,240 / 30g"
+  pricePer100g: string | null; // Normalised, formatted as "48.60 PLN / 100g"
   purchaseSource: {
     text: string;
     isUrl: boolean;
   };
+  shareToken: string | null; // Set while the note is shared via a public link
+  tastedAt: string; // Day of the tasting, formatted as "Month Day, Year"
   updatedAt: string; // Formatted as "Month Day, Year"
 }
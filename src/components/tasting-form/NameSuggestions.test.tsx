@@ -0,0 +1,53 @@
+import { render, screen } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import type { CreateBlendSuggestionsDTO } from "../../types";
+import { NameSuggestions } from "./NameSuggestions";
+
+/**
+ * Unit tests for NameSuggestions component
+ * Tests listing similar existing names per kind, picking one and declining them all
+ */
+describe("NameSuggestions", () => {
+  const suggestions: CreateBlendSuggestionsDTO = {
+    brands: [{ id: "brand-1", name: "Ippodo", score: 0.6 }],
+    regions: [],
+    blends: [
+      {
+        id: "blend-1",
+        name: "Sayaka",
+        score: 0.8,
+        brand: { id: "brand-1", name: "Ippodo" },
+        region: { id: "region-1", name: "Uji" },
+      },
+    ],
+  };
+
+  it("should list only the kinds that have suggestions, blends with their brand and region", () => {
+    render(<NameSuggestions suggestions={suggestions} onApply={vi.fn()} onCreateAnyway={vi.fn()} />);
+
+    expect(screen.getByTestId("name-suggestions-brands")).toHaveTextContent("Ippodo");
+    expect(screen.getByTestId("name-suggestions-blends")).toHaveTextContent("SayakaIppodo · Uji");
+    expect(screen.queryByTestId("name-suggestions-regions")).not.toBeInTheDocument();
+  });
+
+  it("should apply the picked suggestion with its kind", async () => {
+    const user = userEvent.setup();
+    const onApply = vi.fn();
+    render(<NameSuggestions suggestions={suggestions} onApply={onApply} onCreateAnyway={vi.fn()} />);
+
+    await user.click(screen.getByRole("button", { name: "Ippodo" }));
+
+    expect(onApply).toHaveBeenCalledWith("brands", suggestions.brands[0]);
+  });
+
+  it("should let the user create the new names anyway", async () => {
+    const user = userEvent.setup();
+    const onCreateAnyway = vi.fn();
+    render(<NameSuggestions suggestions={suggestions} onApply={vi.fn()} onCreateAnyway={onCreateAnyway} />);
+
+    await user.click(screen.getByTestId("create-new-names-button"));
+
+    expect(onCreateAnyway).toHaveBeenCalled();
+  });
+});
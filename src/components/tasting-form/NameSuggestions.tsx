@@ -0,0 +1,78 @@
+/**
+ * NameSuggestions Component
+ * "Did you mean" step shown before a new brand, region or blend is created
+ * Lists existing entries with similar names; picking one replaces the typed name
+ */
+
+import type { BlendNameSuggestionDTO, CatalogNameSuggestionDTO, CreateBlendSuggestionsDTO } from "../../types";
+import { Button } from "../ui/button";
+
+interface NameSuggestionsProps {
+  suggestions: CreateBlendSuggestionsDTO;
+  onApply: (
+    kind: keyof CreateBlendSuggestionsDTO,
+    suggestion: CatalogNameSuggestionDTO | BlendNameSuggestionDTO
+  ) => void;
+  onCreateAnyway: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Headings of the suggestion groups, in display order
+ */
+const GROUP_LABELS: Record<keyof CreateBlendSuggestionsDTO, string> = {
+  blends: "Blend",
+  brands: "Brand",
+  regions: "Region",
+};
+
+export function NameSuggestions({ suggestions, onApply, onCreateAnyway, disabled = false }: NameSuggestionsProps) {
+  const groups = (Object.keys(GROUP_LABELS) as (keyof CreateBlendSuggestionsDTO)[]).filter(
+    (kind) => suggestions[kind].length > 0
+  );
+
+  return (
+    <div className="space-y-3 rounded-md border border-amber-200 bg-amber-50 p-4" data-testid="name-suggestions">
+      <p className="text-sm font-medium text-amber-900">
+        Did you mean an existing entry? Similar names are already in the catalog.
+      </p>
+
+      {groups.map((kind) => (
+        <div key={kind} className="space-y-1" data-testid={`name-suggestions-${kind}`}>
+          <p className="text-xs font-medium uppercase tracking-wide text-amber-800">{GROUP_LABELS[kind]}</p>
+          <div className="flex flex-wrap gap-2">
+            {suggestions[kind].map((suggestion: CatalogNameSuggestionDTO | BlendNameSuggestionDTO) => (
+              <Button
+                key={suggestion.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onApply(kind, suggestion)}
+                disabled={disabled}
+                data-testid="name-suggestion"
+              >
+                {suggestion.name}
+                {"brand" in suggestion && (
+                  <span className="text-xs text-gray-500">
+                    {suggestion.brand.name} · {suggestion.region.name}
+                  </span>
+                )}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={onCreateAnyway}
+        disabled={disabled}
+        data-testid="create-new-names-button"
+      >
+        No, create as new
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import { userEvent } from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import { TagChipInput } from "./TagChipInput";
+import type { AutocompleteOption } from "./types";
+
+/**
+ * Unit tests for TagChipInput component
+ * Tests chip rendering, removal, suggestion filtering and tag creation
+ */
+describe("TagChipInput", () => {
+  const mockSuggestions: AutocompleteOption[] = [
+    { id: "1", name: "grassy" },
+    { id: "2", name: "nutty" },
+    { id: "3", name: "seaweed" },
+  ];
+
+  it("should render a chip per selected tag", () => {
+    render(<TagChipInput label="Flavor Tags" value={["grassy", "nutty"]} onChange={vi.fn()} suggestions={[]} />);
+
+    const chips = screen.getAllByTestId("tag-chip");
+    expect(chips).toHaveLength(2);
+    expect(chips[0]).toHaveTextContent("grassy");
+    expect(chips[1]).toHaveTextContent("nutty");
+  });
+
+  it("should remove a tag when its remove button is clicked", async () => {
+    const user = userEvent.setup();
+    const mockOnChange = vi.fn();
+    render(<TagChipInput label="Flavor Tags" value={["grassy", "nutty"]} onChange={mockOnChange} suggestions={[]} />);
+
+    await user.click(screen.getByRole("button", { name: "Remove tag grassy" }));
+
+    expect(mockOnChange).toHaveBeenCalledWith(["nutty"]);
+  });
+
+  it("should only suggest tags that are not selected yet", async () => {
+    const user = userEvent.setup();
+    render(<TagChipInput label="Flavor Tags" value={["grassy"]} onChange={vi.fn()} suggestions={mockSuggestions} />);
+
+    await user.click(screen.getByRole("combobox"));
+
+    await waitFor(() => {
+      expect(screen.getByRole("option", { name: "nutty" })).toBeInTheDocument();
+    });
+    expect(screen.getByRole("option", { name: "seaweed" })).toBeInTheDocument();
+    expect(screen.queryByRole("option", { name: "grassy" })).not.toBeInTheDocument();
+  });
+
+  it("should add an existing tag when a suggestion is selected", async () => {
+    const user = userEvent.setup();
+    const mockOnChange = vi.fn();
+    render(<TagChipInput label="Flavor Tags" value={[]} onChange={mockOnChange} suggestions={mockSuggestions} />);
+
+    await user.click(screen.getByRole("combobox"));
+    await user.click(await screen.findByRole("option", { name: "nutty" }));
+
+    expect(mockOnChange).toHaveBeenCalledWith(["nutty"]);
+  });
+
+  it("should offer to create a new, normalised tag", async () => {
+    const user = userEvent.setup();
+    const mockOnChange = vi.fn();
+    render(
+      <TagChipInput label="Flavor Tags" value={["grassy"]} onChange={mockOnChange} suggestions={mockSuggestions} />
+    );
+
+    await user.click(screen.getByRole("combobox"));
+    await user.type(await screen.findByPlaceholderText("Search or create tag..."), "  Astringent ");
+    await user.click(await screen.findByRole("option", { name: 'Create "astringent"' }));
+
+    expect(mockOnChange).toHaveBeenCalledWith(["grassy", "astringent"]);
+  });
+
+  it("should not offer to create a tag that already exists", async () => {
+    const user = userEvent.setup();
+    render(<TagChipInput label="Flavor Tags" value={[]} onChange={vi.fn()} suggestions={mockSuggestions} />);
+
+    await user.click(screen.getByRole("combobox"));
+    await user.type(await screen.findByPlaceholderText("Search or create tag..."), "Nutty");
+
+    await waitFor(() => {
+      expect(screen.getByRole("option", { name: "nutty" })).toBeInTheDocument();
+    });
+    expect(screen.queryByRole("option", { name: /Create/ })).not.toBeInTheDocument();
+  });
+
+  it("should disable adding once the tag limit is reached", () => {
+    render(
+      <TagChipInput label="Flavor Tags" value={["grassy", "nutty"]} onChange={vi.fn()} suggestions={[]} maxTags={2} />
+    );
+
+    expect(screen.getByRole("combobox")).toBeDisabled();
+    expect(screen.getByText("Up to 2 tags per tasting note")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * TagChipInput Component
+ * Multi-value combobox for free-form flavor tags, shown as removable chips
+ * Suggests existing tags and lets the user add new ones (same Command/Popover pattern as AutocompleteInput)
+ */
+
+import { Plus, X } from "lucide-react";
+import { useMemo, useState } from "react";
+import { MAX_TAGS_PER_NOTE } from "../../lib/constants";
+import { cn } from "../../lib/utils";
+import { Button } from "../ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "../ui/command";
+import { Label } from "../ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "../ui/popover";
+import type { TagChipInputProps } from "./types";
+
+/**
+ * Normalises a tag name the same way the API does (trimmed, lowercase)
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function TagChipInput({
+  value,
+  onChange,
+  suggestions,
+  label,
+  maxTags = MAX_TAGS_PER_NOTE,
+  disabled = false,
+  error,
+  "data-testid": dataTestId,
+}: TagChipInputProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const normalizedSearch = normalizeTagName(search);
+  const isFull = value.length >= maxTags;
+
+  // Suggest existing tags that are not selected yet
+  const filteredSuggestions = useMemo(
+    () =>
+      suggestions.filter(
+        (suggestion) =>
+          !value.includes(normalizeTagName(suggestion.name)) &&
+          (!normalizedSearch || suggestion.name.toLowerCase().includes(normalizedSearch))
+      ),
+    [suggestions, value, normalizedSearch]
+  );
+
+  // Offer to create the typed tag unless it already exists or is selected
+  const canCreate =
+    normalizedSearch !== "" &&
+    !value.includes(normalizedSearch) &&
+    !suggestions.some((suggestion) => normalizeTagName(suggestion.name) === normalizedSearch);
+
+  const handleAdd = (name: string) => {
+    const normalized = normalizeTagName(name);
+    if (normalized && !value.includes(normalized) && !isFull) {
+      onChange([...value, normalized]);
+    }
+    setSearch("");
+    setOpen(false);
+  };
+
+  const handleRemove = (name: string) => {
+    onChange(value.filter((tag) => tag !== name));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={label} className="text-sm font-medium text-gray-700">
+        {label}
+      </Label>
+      <div className="flex flex-wrap items-center gap-2" data-testid={dataTestId}>
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full bg-green-50 px-3 py-1 text-sm text-green-800"
+            data-testid="tag-chip"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => handleRemove(tag)}
+              disabled={disabled}
+              aria-label={`Remove tag ${tag}`}
+              className="rounded-full text-green-700 hover:text-green-900 disabled:opacity-50"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              id={label}
+              type="button"
+              variant="outline"
+              size="sm"
+              role="combobox"
+              aria-expanded={open}
+              aria-label={`Add ${label.toLowerCase()}`}
+              disabled={disabled || isFull}
+              className={cn("font-normal", error && "border-red-500 focus-visible:ring-red-500")}
+            >
+              <Plus className="h-4 w-4" />
+              Add tag
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-0" align="start">
+            <Command shouldFilter={false}>
+              <CommandInput placeholder="Search or create tag..." value={search} onValueChange={setSearch} />
+              <CommandList>
+                <CommandEmpty>No tags found</CommandEmpty>
+                <CommandGroup>
+                  {canCreate && (
+                    <CommandItem value={`create:${normalizedSearch}`} onSelect={() => handleAdd(normalizedSearch)}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      {`Create "${normalizedSearch}"`}
+                    </CommandItem>
+                  )}
+                  {filteredSuggestions.map((suggestion) => (
+                    <CommandItem key={suggestion.id} value={suggestion.id} onSelect={() => handleAdd(suggestion.name)}>
+                      {suggestion.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      </div>
+      {isFull && <p className="text-xs text-gray-500">Up to {maxTags} tags per tasting note</p>}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
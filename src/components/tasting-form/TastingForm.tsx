@@ -4,17 +4,37 @@
  */
 
 import { Loader2 } from "lucide-react";
+import {
+  BLEND_GRADE_LABELS,
+  BLEND_GRADES,
+  BREW_METHOD_LABELS,
+  BREW_METHODS,
+  HARVEST_LABELS,
+  HARVESTS,
+  SUPPORTED_CURRENCIES,
+} from "../../lib/constants";
+import type { BlendGrade, BrewMethod, Harvest, SupportedCurrency } from "../../lib/constants";
+import { toIsoDate } from "../../lib/helpers/date";
+import { CommunityRating } from "../community/CommunityRating";
 import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 import { Textarea } from "../ui/textarea";
 import { AutocompleteInput } from "./AutocompleteInput";
 import { DotRatingInput } from "./DotRatingInput";
+import { NameSuggestions } from "./NameSuggestions";
 import { StarRatingInput } from "./StarRatingInput";
+import { TagChipInput } from "./TagChipInput";
 import type { TastingFormProps } from "./types";
 import { useAutocompleteData } from "./useAutocompleteData";
 import { useTastingForm } from "./useTastingForm";
 
+// Radix Select items cannot have an empty value, so "not recorded" uses a sentinel
+const NO_BREW_METHOD = "none";
+const NO_BLEND_DETAIL = "none";
+
 export function TastingForm(props: TastingFormProps) {
   const {
     formData,
@@ -27,6 +47,9 @@ export function TastingForm(props: TastingFormProps) {
     handleRegionChange,
     handleBlendChange,
     handleSubmit,
+    nameSuggestions,
+    applyNameSuggestion,
+    createWithNewNames,
   } = useTastingForm(props);
 
   // Fetch autocomplete data based on selections
@@ -34,6 +57,7 @@ export function TastingForm(props: TastingFormProps) {
     brands,
     regions,
     blends,
+    tags,
     isLoading,
     error: autocompleteError,
   } = useAutocompleteData({
@@ -69,7 +93,7 @@ export function TastingForm(props: TastingFormProps) {
           suggestions={brands}
           placeholder="Select or enter brand name"
           required
-          disabled={isEditMode}
+          disabled={isSubmitting}
           error={errors.brandName}
           isLoading={isLoading && brands.length === 0}
           data-testid="brand-input"
@@ -98,7 +122,7 @@ export function TastingForm(props: TastingFormProps) {
           suggestions={blends}
           placeholder="Select or enter blend name"
           required
-          disabled={isEditMode}
+          disabled={isSubmitting}
           error={errors.blendName}
           isLoading={isLoading}
           data-testid="blend-input"
@@ -112,11 +136,147 @@ export function TastingForm(props: TastingFormProps) {
           suggestions={regions}
           placeholder="Select or enter region"
           required
-          disabled={isEditMode}
+          disabled={isSubmitting}
           error={errors.regionName}
           isLoading={isLoading && formData.brandId !== null}
           data-testid="region-input"
         />
+
+        {/* Did you mean: existing entries close to the new names */}
+        {nameSuggestions && (
+          <NameSuggestions
+            suggestions={nameSuggestions}
+            onApply={applyNameSuggestion}
+            onCreateAnyway={createWithNewNames}
+            disabled={isSubmitting}
+          />
+        )}
+
+        {/* Details of a new blend (existing blends keep theirs) */}
+        {!formData.blendId && formData.blendName.trim() && (
+          <div className="space-y-4 rounded-md border border-gray-200 p-4" data-testid="blend-details">
+            <p className="text-sm font-medium text-gray-700">New blend details (optional)</p>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {/* Grade */}
+              <div className="space-y-2">
+                <Label htmlFor="grade" className="text-sm font-medium text-gray-700">
+                  Grade
+                </Label>
+                <Select
+                  value={formData.grade ?? NO_BLEND_DETAIL}
+                  onValueChange={(value) =>
+                    handleInputChange("grade", value === NO_BLEND_DETAIL ? null : (value as BlendGrade))
+                  }
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="grade" className="w-full" data-testid="grade-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_BLEND_DETAIL}>Unknown</SelectItem>
+                    {BLEND_GRADES.map((grade) => (
+                      <SelectItem key={grade} value={grade}>
+                        {BLEND_GRADE_LABELS[grade]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Harvest */}
+              <div className="space-y-2">
+                <Label htmlFor="harvest" className="text-sm font-medium text-gray-700">
+                  Harvest
+                </Label>
+                <Select
+                  value={formData.harvest ?? NO_BLEND_DETAIL}
+                  onValueChange={(value) =>
+                    handleInputChange("harvest", value === NO_BLEND_DETAIL ? null : (value as Harvest))
+                  }
+                  disabled={isSubmitting}
+                >
+                  <SelectTrigger id="harvest" className="w-full" data-testid="harvest-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_BLEND_DETAIL}>Unknown</SelectItem>
+                    {HARVESTS.map((harvest) => (
+                      <SelectItem key={harvest} value={harvest}>
+                        {HARVEST_LABELS[harvest]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Cultivars */}
+            <div className="space-y-2">
+              <Label htmlFor="cultivars" className="text-sm font-medium text-gray-700">
+                Cultivars
+              </Label>
+              <Input
+                id="cultivars"
+                type="text"
+                value={formData.cultivars}
+                onChange={(e) => handleInputChange("cultivars", e.target.value)}
+                placeholder="e.g. Okumidori, Samidori"
+                disabled={isSubmitting}
+                className={errors.cultivars ? "border-red-500 focus-visible:ring-red-500" : ""}
+                data-testid="cultivars-input"
+              />
+              {errors.cultivars && <p className="text-sm text-red-500">{errors.cultivars}</p>}
+            </div>
+
+            {/* Certifications (JAS organic implies organic) */}
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="isOrganic"
+                  checked={formData.isOrganic || formData.isJasCertified}
+                  onCheckedChange={(checked) => handleInputChange("isOrganic", checked === true)}
+                  disabled={isSubmitting || formData.isJasCertified}
+                  data-testid="organic-checkbox"
+                />
+                <Label htmlFor="isOrganic" className="text-sm font-normal text-gray-700">
+                  Organic
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="isJasCertified"
+                  checked={formData.isJasCertified}
+                  onCheckedChange={(checked) => handleInputChange("isJasCertified", checked === true)}
+                  disabled={isSubmitting}
+                  data-testid="jas-checkbox"
+                />
+                <Label htmlFor="isJasCertified" className="text-sm font-normal text-gray-700">
+                  JAS organic certified
+                </Label>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Tasting Date */}
+        <div className="space-y-2">
+          <Label htmlFor="tastedAt" className="text-sm font-medium text-gray-700">
+            Date Tasted
+          </Label>
+          <Input
+            id="tastedAt"
+            type="date"
+            value={formData.tastedAt}
+            onChange={(e) => handleInputChange("tastedAt", e.target.value)}
+            max={toIsoDate(new Date())}
+            required
+            disabled={isSubmitting}
+            className={errors.tastedAt ? "border-red-500 focus-visible:ring-red-500" : ""}
+            data-testid="tasted-at-input"
+          />
+          {errors.tastedAt && <p className="text-sm text-red-500">{errors.tastedAt}</p>}
+        </div>
       </section>
 
       {/* Overall Rating Section */}
@@ -132,6 +292,15 @@ export function TastingForm(props: TastingFormProps) {
           error={errors.overallRating}
           data-testid="overall-rating-input"
         />
+
+        {/* Community ratings of an existing blend, next to the user's own */}
+        {formData.blendId && (
+          <CommunityRating
+            blendId={formData.blendId}
+            ownRating={formData.overallRating}
+            ownProfile={{ umami: formData.umami, bitter: formData.bitter, sweet: formData.sweet, foam: formData.foam }}
+          />
+        )}
       </section>
 
       {/* Detailed Ratings Section */}
@@ -178,10 +347,155 @@ export function TastingForm(props: TastingFormProps) {
         </div>
       </section>
 
+      {/* Preparation Section */}
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold text-gray-900">Preparation</h2>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {/* Brew Method */}
+          <div className="space-y-2">
+            <Label htmlFor="brewMethod" className="text-sm font-medium text-gray-700">
+              Method
+            </Label>
+            <Select
+              value={formData.brewMethod ?? NO_BREW_METHOD}
+              onValueChange={(value) =>
+                handleInputChange("brewMethod", value === NO_BREW_METHOD ? null : (value as BrewMethod))
+              }
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="brewMethod" className="w-full" data-testid="brew-method-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_BREW_METHOD}>Not recorded</SelectItem>
+                {BREW_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {BREW_METHOD_LABELS[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Powder */}
+          <div className="space-y-2">
+            <Label htmlFor="powderGrams" className="text-sm font-medium text-gray-700">
+              Powder (g)
+            </Label>
+            <Input
+              id="powderGrams"
+              type="number"
+              value={formData.powderGrams ?? ""}
+              onChange={(e) => handleInputChange("powderGrams", e.target.value ? parseFloat(e.target.value) : null)}
+              placeholder="2"
+              disabled={isSubmitting}
+              min="0.1"
+              max="50"
+              step="0.1"
+              className={errors.powderGrams ? "border-red-500 focus-visible:ring-red-500" : ""}
+              data-testid="powder-grams-input"
+            />
+            {errors.powderGrams && <p className="text-sm text-red-500">{errors.powderGrams}</p>}
+          </div>
+
+          {/* Water */}
+          <div className="space-y-2">
+            <Label htmlFor="waterMl" className="text-sm font-medium text-gray-700">
+              Water (ml)
+            </Label>
+            <Input
+              id="waterMl"
+              type="number"
+              value={formData.waterMl ?? ""}
+              onChange={(e) => handleInputChange("waterMl", e.target.value ? parseInt(e.target.value, 10) : null)}
+              placeholder="70"
+              disabled={isSubmitting}
+              min="1"
+              max="1000"
+              step="1"
+              className={errors.waterMl ? "border-red-500 focus-visible:ring-red-500" : ""}
+              data-testid="water-ml-input"
+            />
+            {errors.waterMl && <p className="text-sm text-red-500">{errors.waterMl}</p>}
+          </div>
+
+          {/* Water Temperature */}
+          <div className="space-y-2">
+            <Label htmlFor="waterTempC" className="text-sm font-medium text-gray-700">
+              Water Temperature (°C)
+            </Label>
+            <Input
+              id="waterTempC"
+              type="number"
+              value={formData.waterTempC ?? ""}
+              onChange={(e) => handleInputChange("waterTempC", e.target.value ? parseInt(e.target.value, 10) : null)}
+              placeholder="80"
+              disabled={isSubmitting}
+              min="0"
+              max="100"
+              step="1"
+              className={errors.waterTempC ? "border-red-500 focus-visible:ring-red-500" : ""}
+              data-testid="water-temp-input"
+            />
+            {errors.waterTempC && <p className="text-sm text-red-500">{errors.waterTempC}</p>}
+          </div>
+
+          {/* Whisk Type */}
+          <div className="space-y-2">
+            <Label htmlFor="whiskType" className="text-sm font-medium text-gray-700">
+              Whisk
+            </Label>
+            <Input
+              id="whiskType"
+              type="text"
+              value={formData.whiskType || ""}
+              onChange={(e) => handleInputChange("whiskType", e.target.value || null)}
+              placeholder="e.g. 80-prong chasen, electric frother..."
+              disabled={isSubmitting}
+              maxLength={100}
+              className={errors.whiskType ? "border-red-500 focus-visible:ring-red-500" : ""}
+              data-testid="whisk-type-input"
+            />
+            {errors.whiskType && <p className="text-sm text-red-500">{errors.whiskType}</p>}
+          </div>
+
+          {/* Milk Type */}
+          <div className="space-y-2">
+            <Label htmlFor="milkType" className="text-sm font-medium text-gray-700">
+              Milk
+            </Label>
+            <Input
+              id="milkType"
+              type="text"
+              value={formData.milkType || ""}
+              onChange={(e) => handleInputChange("milkType", e.target.value || null)}
+              placeholder="e.g. oat, whole cow's milk..."
+              disabled={isSubmitting}
+              maxLength={100}
+              className={errors.milkType ? "border-red-500 focus-visible:ring-red-500" : ""}
+              data-testid="milk-type-input"
+            />
+            {errors.milkType && <p className="text-sm text-red-500">{errors.milkType}</p>}
+          </div>
+        </div>
+      </section>
+
       {/* Tasting Notes Section */}
       <section className="space-y-4">
         <h2 className="text-xl font-semibold text-gray-900">Tasting Notes</h2>
 
+        {/* Flavor Tags */}
+        <TagChipInput
+          label="Flavor Tags"
+          value={formData.tags}
+          onChange={(names) => handleInputChange("tags", names)}
+          suggestions={tags}
+          disabled={isSubmitting}
+          error={errors.tags}
+          data-testid="tags-input"
+        />
+
         {/* Notes as Koicha */}
         <div className="space-y-2">
           <Label htmlFor="notesKoicha" className="text-sm font-medium text-gray-700">
@@ -228,24 +542,70 @@ export function TastingForm(props: TastingFormProps) {
         <h2 className="text-xl font-semibold text-gray-900">Purchase Details</h2>
 
         {/* Price */}
-        <div className="space-y-2">
-          <Label htmlFor="pricePln" className="text-sm font-medium text-gray-700">
-            Price per 100g (PLN)
-          </Label>
-          <Input
-            id="pricePln"
-            type="number"
-            value={formData.pricePln ?? ""}
-            onChange={(e) => handleInputChange("pricePln", e.target.value ? parseInt(e.target.value, 10) : null)}
-            placeholder="0"
-            disabled={isSubmitting}
-            min="0"
-            step="1"
-            className={errors.pricePln ? "border-red-500 focus-visible:ring-red-500" : ""}
-            data-testid="price-input"
-          />
-          {errors.pricePln && <p className="text-sm text-red-500">{errors.pricePln}</p>}
+        <div className="grid gap-4 sm:grid-cols-[1fr_auto_1fr]">
+          <div className="space-y-2">
+            <Label htmlFor="priceAmount" className="text-sm font-medium text-gray-700">
+              Price Paid
+            </Label>
+            <Input
+              id="priceAmount"
+              type="number"
+              value={formData.priceAmount ?? ""}
+              onChange={(e) => handleInputChange("priceAmount", e.target.value ? parseFloat(e.target.value) : null)}
+              placeholder="0.00"
+              disabled={isSubmitting}
+              min="0"
+              step="0.01"
+              className={errors.priceAmount ? "border-red-500 focus-visible:ring-red-500" : ""}
+              data-testid="price-input"
+            />
+            {errors.priceAmount && <p className="text-sm text-red-500">{errors.priceAmount}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="priceCurrency" className="text-sm font-medium text-gray-700">
+              Currency
+            </Label>
+            <Select
+              value={formData.priceCurrency}
+              onValueChange={(value) => handleInputChange("priceCurrency", value as SupportedCurrency)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="priceCurrency" className="w-full sm:w-28" data-testid="price-currency-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="packageGrams" className="text-sm font-medium text-gray-700">
+              Package Size (g)
+            </Label>
+            <Input
+              id="packageGrams"
+              type="number"
+              value={formData.packageGrams ?? ""}
+              onChange={(e) => handleInputChange("packageGrams", e.target.value ? parseInt(e.target.value, 10) : null)}
+              placeholder="100"
+              disabled={isSubmitting}
+              min="1"
+              step="1"
+              className={errors.packageGrams ? "border-red-500 focus-visible:ring-red-500" : ""}
+              data-testid="package-grams-input"
+            />
+            {errors.packageGrams && <p className="text-sm text-red-500">{errors.packageGrams}</p>}
+          </div>
         </div>
+        <p className="text-xs text-gray-500">
+          Leave the package size empty if the price is per 100g. Prices are converted to PLN per 100g for comparison.
+        </p>
 
         {/* Purchase Source */}
         <div className="space-y-2">
@@ -2,6 +2,7 @@
  * Type definitions for Tasting Form components
  */
 
+import type { BlendGrade, BrewMethod, Harvest, SupportedCurrency } from "../../lib/constants";
 import type { TastingNoteResponseDTO } from "../../types";
 
 /**
@@ -15,6 +16,12 @@ export interface TastingNoteFormViewModel {
   blendName: string;
   regionId: string | null;
   regionName: string;
+  // Details of a new blend (only sent when the blend is created)
+  grade: BlendGrade | null;
+  cultivars: string; // Comma-separated cultivar names
+  harvest: Harvest | null;
+  isOrganic: boolean;
+  isJasCertified: boolean; // Implies isOrganic
   overallRating: number;
   umami: number | null;
   bitter: number | null;
@@ -22,8 +29,18 @@ export interface TastingNoteFormViewModel {
   foam: number | null;
   notesKoicha: string | null;
   notesMilk: string | null;
-  pricePln: number | null;
+  brewMethod: BrewMethod | null;
+  powderGrams: number | null;
+  waterMl: number | null;
+  waterTempC: number | null;
+  whiskType: string | null;
+  milkType: string | null;
+  priceAmount: number | null;
+  priceCurrency: SupportedCurrency;
+  packageGrams: number | null;
   purchaseSource: string | null;
+  tastedAt: string; // YYYY-MM-DD, defaults to today
+  tags: string[]; // Tag names
 }
 
 /**
@@ -68,6 +85,28 @@ export interface AutocompleteInputProps {
   "data-testid"?: string;
 }
 
+/**
+ * Props for TagChipInput component
+ */
+export interface TagChipInputProps {
+  /** Selected tag names */
+  value: string[];
+  /** Callback with the full list of tag names after a change */
+  onChange: (names: string[]) => void;
+  /** Existing tags to suggest */
+  suggestions: AutocompleteOption[];
+  /** Label for accessibility */
+  label: string;
+  /** Maximum number of tags that can be selected */
+  maxTags?: number;
+  /** Whether the input is disabled */
+  disabled?: boolean;
+  /** Error message to display */
+  error?: string;
+  /** Test ID for E2E testing */
+  "data-testid"?: string;
+}
+
 /**
  * Props for StarRatingInput component
  */
@@ -113,6 +152,7 @@ export interface TastingFormErrors {
   brandName?: string;
   blendName?: string;
   regionName?: string;
+  cultivars?: string;
   overallRating?: string;
   umami?: string;
   bitter?: string;
@@ -120,6 +160,14 @@ export interface TastingFormErrors {
   foam?: string;
   notesKoicha?: string;
   notesMilk?: string;
-  pricePln?: string;
+  powderGrams?: string;
+  waterMl?: string;
+  waterTempC?: string;
+  whiskType?: string;
+  milkType?: string;
+  priceAmount?: string;
+  packageGrams?: string;
   purchaseSource?: string;
+  tastedAt?: string;
+  tags?: string;
 }
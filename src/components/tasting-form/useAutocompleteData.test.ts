@@ -28,12 +28,24 @@ describe("useAutocompleteData", () => {
     ],
   };
 
+  const mockTagsResponse = {
+    data: [
+      { id: "tag-1", name: "grassy" },
+      { id: "tag-2", name: "nutty" },
+    ],
+  };
+
   const mockBlendsResponse: { data: BlendResponseDTO[] } = {
     data: [
       {
         id: "blend-1",
         name: "Sayaka",
         created_at: "2024-01-01",
+        grade: "ceremonial",
+        cultivars: [],
+        harvest: null,
+        is_organic: false,
+        is_jas_certified: false,
         brand: { id: "brand-1", name: "Ippodo" },
         region: { id: "region-1", name: "Uji" },
       },
@@ -41,6 +53,11 @@ describe("useAutocompleteData", () => {
         id: "blend-2",
         name: "Ummon",
         created_at: "2024-01-01",
+        grade: "ceremonial",
+        cultivars: [],
+        harvest: null,
+        is_organic: false,
+        is_jas_certified: false,
         brand: { id: "brand-1", name: "Ippodo" },
         region: { id: "region-2", name: "Kyoto" },
       },
@@ -53,6 +70,11 @@ describe("useAutocompleteData", () => {
         id: "blend-1",
         name: "Sayaka",
         created_at: "2024-01-01",
+        grade: "ceremonial",
+        cultivars: [],
+        harvest: null,
+        is_organic: false,
+        is_jas_certified: false,
         brand: { id: "brand-1", name: "Ippodo" },
         region: { id: "region-1", name: "Uji" },
       },
@@ -74,6 +96,12 @@ describe("useAutocompleteData", () => {
           json: () => Promise.resolve(mockRegionsResponse),
         });
       }
+      if (url.includes("/api/tags")) {
+        return Promise.resolve({
+          ok: true,
+          json: () => Promise.resolve(mockTagsResponse),
+        });
+      }
       if (url.includes("/api/blends")) {
         // Check if filtering by brand and region
         if (url.includes("brand_id=brand-1") && url.includes("region_id=region-1")) {
@@ -129,6 +157,22 @@ describe("useAutocompleteData", () => {
       ]);
     });
 
+    it("should fetch tags on mount", async () => {
+      const { result } = renderHook(() =>
+        useAutocompleteData({
+          selectedBrandId: null,
+          selectedRegionId: null,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.tags).toEqual([
+          { id: "tag-1", name: "grassy" },
+          { id: "tag-2", name: "nutty" },
+        ]);
+      });
+    });
+
     it("should fetch all regions when no brand is selected", async () => {
       const { result } = renderHook(() =>
         useAutocompleteData({
@@ -1,6 +1,6 @@
 /**
  * Custom hook for fetching cascading autocomplete data
- * Fetches brands, regions, and blends based on user selections
+ * Fetches brands, regions, and blends based on user selections, plus flavor tags
  */
 
 import { useEffect, useState } from "react";
@@ -20,6 +20,7 @@ interface AutocompleteData {
   brands: AutocompleteOption[];
   regions: AutocompleteOption[];
   blends: BlendOption[];
+  tags: AutocompleteOption[];
   isLoading: boolean;
   error: string | null;
 }
@@ -34,11 +35,13 @@ interface UseAutocompleteDataProps {
  * - Brands are always fetched
  * - Regions are filtered by brand if brand is selected
  * - Blends are filtered by brand and/or region if selected
+ * - Tags are always fetched
  */
 export function useAutocompleteData({ selectedBrandId, selectedRegionId }: UseAutocompleteDataProps): AutocompleteData {
   const [brands, setBrands] = useState<AutocompleteOption[]>([]);
   const [regions, setRegions] = useState<AutocompleteOption[]>([]);
   const [blends, setBlends] = useState<BlendOption[]>([]);
+  const [tags, setTags] = useState<AutocompleteOption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -63,6 +66,27 @@ export function useAutocompleteData({ selectedBrandId, selectedRegionId }: UseAu
     fetchBrands();
   }, []);
 
+  // Fetch tags on mount
+  useEffect(() => {
+    async function fetchTags() {
+      try {
+        const response = await fetch("/api/tags?limit=100");
+        if (!response.ok) throw new Error("Failed to fetch tags");
+
+        const result = await response.json();
+        const tagOptions = result.data.map((tag: { id: string; name: string }) => ({
+          id: tag.id,
+          name: tag.name,
+        }));
+        setTags(tagOptions);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch tags");
+      }
+    }
+
+    fetchTags();
+  }, []);
+
   // Fetch regions based on selected brand
   useEffect(() => {
     async function fetchRegions() {
@@ -146,5 +170,5 @@ export function useAutocompleteData({ selectedBrandId, selectedRegionId }: UseAu
     fetchBlends();
   }, [selectedBrandId, selectedRegionId]);
 
-  return { brands, regions, blends, isLoading, error };
+  return { brands, regions, blends, tags, isLoading, error };
 }
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { act, renderHook, waitFor } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { toIsoDate } from "../../lib/helpers/date";
 import type { TastingNoteResponseDTO } from "../../types";
 import { useTastingForm } from "./useTastingForm";
 
@@ -22,8 +23,13 @@ describe("useTastingForm", () => {
   const mockExistingNote: TastingNoteResponseDTO = {
     id: "note-123",
     user_id: "user-1",
+    tasted_at: "2024-01-01",
     created_at: "2024-01-01T00:00:00Z",
     updated_at: "2024-01-01T00:00:00Z",
+    tags: [{ id: "tag-1", name: "grassy" }],
+    photos: [],
+    is_public: false,
+    share_token: null,
     overall_rating: 4,
     umami: 4,
     bitter: 2,
@@ -31,11 +37,26 @@ describe("useTastingForm", () => {
     foam: 5,
     notes_koicha: "Rich and smooth",
     notes_milk: "Creamy and balanced",
-    price_pln: 150.0,
+    brew_method: "usucha",
+    powder_grams: 2,
+    water_ml: 70,
+    water_temp_c: 80,
+    whisk_type: "80-prong chasen",
+    milk_type: null,
+    price_amount: 150.0,
+    price_currency: "PLN",
+    package_grams: 100,
+    price_per_100g_pln: 150.0,
+    value_score: 100,
     purchase_source: "https://example.com",
     blend: {
       id: "blend-1",
       name: "Premium Blend",
+      grade: "premium",
+      cultivars: ["Okumidori", "Samidori"],
+      harvest: null,
+      is_organic: false,
+      is_jas_certified: false,
       brand: {
         id: "brand-1",
         name: "Ippodo",
@@ -72,6 +93,11 @@ describe("useTastingForm", () => {
         blendName: "",
         regionId: null,
         regionName: "",
+        grade: null,
+        cultivars: "",
+        harvest: null,
+        isOrganic: false,
+        isJasCertified: false,
         overallRating: 0,
         umami: null,
         bitter: null,
@@ -79,8 +105,18 @@ describe("useTastingForm", () => {
         foam: null,
         notesKoicha: null,
         notesMilk: null,
-        pricePln: null,
+        brewMethod: null,
+        powderGrams: null,
+        waterMl: null,
+        waterTempC: null,
+        whiskType: null,
+        milkType: null,
+        priceAmount: null,
+        priceCurrency: "PLN",
+        packageGrams: null,
         purchaseSource: null,
+        tags: [],
+        tastedAt: toIsoDate(new Date()),
       });
       expect(result.current.isEditMode).toBe(false);
       expect(result.current.errors).toEqual({});
@@ -98,6 +134,11 @@ describe("useTastingForm", () => {
         blendName: "Premium Blend",
         regionId: "region-1",
         regionName: "Uji",
+        grade: "premium",
+        cultivars: "Okumidori, Samidori",
+        harvest: null,
+        isOrganic: false,
+        isJasCertified: false,
         overallRating: 4,
         umami: 4,
         bitter: 2,
@@ -105,8 +146,18 @@ describe("useTastingForm", () => {
         foam: 5,
         notesKoicha: "Rich and smooth",
         notesMilk: "Creamy and balanced",
-        pricePln: 150.0,
+        brewMethod: "usucha",
+        powderGrams: 2,
+        waterMl: 70,
+        waterTempC: 80,
+        whiskType: "80-prong chasen",
+        milkType: null,
+        priceAmount: 150.0,
+        priceCurrency: "PLN",
+        packageGrams: 100,
         purchaseSource: "https://example.com",
+        tags: ["grassy"],
+        tastedAt: "2024-01-01",
       });
       expect(result.current.isEditMode).toBe(true);
     });
@@ -218,7 +269,7 @@ describe("useTastingForm", () => {
         result.current.handleBrandChange("brand-1", "Ippodo");
         result.current.handleBlendChange("blend-1", "Premium");
         result.current.handleInputChange("overallRating", 4);
-        result.current.handleInputChange("pricePln", -10);
+        result.current.handleInputChange("priceAmount", -10);
       });
 
       await act(async () => {
@@ -226,7 +277,26 @@ describe("useTastingForm", () => {
         await result.current.handleSubmit(mockEvent);
       });
 
-      expect(result.current.errors.pricePln).toBe("Price must be a non-negative number");
+      expect(result.current.errors.priceAmount).toBe("Price must be a non-negative number");
+    });
+
+    it("should validate package size is a positive whole number", async () => {
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange("brand-1", "Ippodo");
+        result.current.handleBlendChange("blend-1", "Premium");
+        result.current.handleInputChange("overallRating", 4);
+        result.current.handleInputChange("priceAmount", 3240);
+        result.current.handleInputChange("packageGrams", 0);
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.errors.packageGrams).toBe("Package size must be a positive whole number of grams");
     });
 
     it("should validate notes text field length (max 1000 characters)", async () => {
@@ -249,6 +319,66 @@ describe("useTastingForm", () => {
       expect(result.current.errors.notesKoicha).toBe("Notes as Koicha must not exceed 1000 characters");
     });
 
+    it("should validate preparation parameter ranges", async () => {
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange("brand-1", "Ippodo");
+        result.current.handleBlendChange("blend-1", "Premium");
+        result.current.handleInputChange("overallRating", 4);
+        result.current.handleInputChange("powderGrams", 0.04);
+        result.current.handleInputChange("waterMl", 70);
+        result.current.handleInputChange("waterTempC", 120);
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.errors.powderGrams).toBe("Powder must be between 0.1 and 50 grams");
+      expect(result.current.errors.waterMl).toBeUndefined();
+      expect(result.current.errors.waterTempC).toBe("Water temperature must be a whole number between 0 and 100 °C");
+    });
+
+    it("should reject powder with more than one decimal place", async () => {
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange("brand-1", "Ippodo");
+        result.current.handleBlendChange("blend-1", "Premium");
+        result.current.handleInputChange("overallRating", 4);
+        result.current.handleInputChange("powderGrams", 2.25);
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.errors.powderGrams).toBe("Powder can have at most one decimal place");
+    });
+
+    it("should reject a tasting date in the future", async () => {
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+
+      await act(async () => {
+        result.current.handleBrandChange("brand-1", "Ippodo");
+        result.current.handleBlendChange("blend-1", "Premium");
+        result.current.handleInputChange("overallRating", 4);
+        result.current.handleInputChange("tastedAt", toIsoDate(tomorrow));
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.errors.tastedAt).toBe("Tasting date must not be in the future");
+    });
+
     it("should allow optional fields to be empty/null", async () => {
       const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
 
@@ -552,6 +682,183 @@ describe("useTastingForm", () => {
       expect(result.current.apiError).toBe("Failed to create blend");
     });
 
+    it("should show suggestions instead of creating names close to existing ones", async () => {
+      const suggestions = {
+        brands: [{ id: "brand-1", name: "Ippodo", score: 0.6 }],
+        regions: [],
+        blends: [],
+      };
+
+      (global.fetch as any).mockImplementation((url: string, options: any) => {
+        if (url === "/api/blends" && options.method === "POST") {
+          return Promise.resolve({
+            ok: false,
+            status: 409,
+            json: () => Promise.resolve({ error: "Similar names already exist", suggestions }),
+          });
+        }
+        return Promise.reject(new Error("Unknown endpoint"));
+      });
+
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange(null, "Ipodo");
+        result.current.handleRegionChange("region-1", "Uji");
+        result.current.handleBlendChange(null, "New Blend");
+        result.current.handleInputChange("overallRating", 4);
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.nameSuggestions).toEqual(suggestions);
+      expect(result.current.apiError).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalledWith("/api/tasting-notes", expect.anything());
+
+      // Picking the suggested brand keeps the typed blend and region
+      act(() => {
+        result.current.applyNameSuggestion("brands", suggestions.brands[0]);
+      });
+
+      expect(result.current.formData).toMatchObject({
+        brandId: "brand-1",
+        brandName: "Ippodo",
+        blendId: null,
+        blendName: "New Blend",
+        regionId: "region-1",
+      });
+      expect(result.current.nameSuggestions).toBeNull();
+    });
+
+    it("should create the new names anyway when the suggestions are declined", async () => {
+      (global.fetch as any).mockImplementation((url: string, options: any) => {
+        if (url === "/api/blends" && options.method === "POST") {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: "new-blend-id" }),
+          });
+        }
+        if (url === "/api/tasting-notes" && options.method === "POST") {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: "new-note-id" }),
+          });
+        }
+        return Promise.reject(new Error("Unknown endpoint"));
+      });
+
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange(null, "Ipodo");
+        result.current.handleRegionChange("region-1", "Uji");
+        result.current.handleBlendChange(null, "New Blend");
+        result.current.handleInputChange("overallRating", 4);
+      });
+
+      await act(async () => {
+        await result.current.createWithNewNames();
+      });
+
+      const blendCall = (global.fetch as any).mock.calls.find((call: any) => call[0] === "/api/blends");
+      expect(JSON.parse(blendCall[1].body)).toMatchObject({
+        name: "New Blend",
+        brand: { name: "Ipodo" },
+        allow_similar: true,
+      });
+      expect(window.location.href).toBe("/dashboard");
+    });
+
+    it("should send the details of a new blend", async () => {
+      (global.fetch as any).mockImplementation((url: string, options: any) => {
+        if (url === "/api/blends" && options.method === "POST") {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: "new-blend-id" }),
+          });
+        }
+        if (url === "/api/tasting-notes" && options.method === "POST") {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: "new-note-id" }),
+          });
+        }
+        return Promise.reject(new Error("Unknown endpoint"));
+      });
+
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange("brand-1", "Ippodo");
+        result.current.handleRegionChange("region-1", "Uji");
+        result.current.handleBlendChange(null, "New Blend");
+        result.current.handleInputChange("overallRating", 4);
+        result.current.handleInputChange("grade", "ceremonial");
+        result.current.handleInputChange("cultivars", " Okumidori, ,Samidori ");
+        result.current.handleInputChange("harvest", "first_flush");
+        result.current.handleInputChange("isJasCertified", true);
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      const blendCall = (global.fetch as any).mock.calls.find((call: any) => call[0] === "/api/blends");
+      expect(JSON.parse(blendCall[1].body)).toMatchObject({
+        grade: "ceremonial",
+        cultivars: ["Okumidori", "Samidori"],
+        harvest: "first_flush",
+        is_organic: true,
+        is_jas_certified: true,
+      });
+    });
+
+    it("should reject more cultivars than a blend can hold", async () => {
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange("brand-1", "Ippodo");
+        result.current.handleRegionChange("region-1", "Uji");
+        result.current.handleBlendChange(null, "New Blend");
+        result.current.handleInputChange("overallRating", 4);
+        result.current.handleInputChange("cultivars", Array.from({ length: 11 }, (_, i) => `Cultivar ${i}`).join(","));
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.errors.cultivars).toBe("At most 10 cultivars are allowed");
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it("should reject cultivar names with characters outside the allowed set", async () => {
+      const { result } = renderHook(() => useTastingForm({ initialData: undefined }));
+
+      await act(async () => {
+        result.current.handleBrandChange("brand-1", "Ippodo");
+        result.current.handleRegionChange("region-1", "Uji");
+        result.current.handleBlendChange(null, "New Blend");
+        result.current.handleInputChange("overallRating", 4);
+        result.current.handleInputChange("cultivars", 'Okumidori, "Samidori}');
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.errors.cultivars).toBe(
+        "Cultivar names may only contain letters, digits, spaces, periods, apostrophes and hyphens"
+      );
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
     it("should handle tasting note creation failure with 400 validation errors", async () => {
       const mockBlendResponse = { id: "new-blend-id" };
 
@@ -722,6 +1029,106 @@ describe("useTastingForm", () => {
 
       expect(result.current.errors.umami).toBe("Invalid umami rating");
     });
+
+    it("should not send blend_id when the blend is unchanged", async () => {
+      (global.fetch as any).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: "note-123" }),
+      });
+
+      const { result } = renderHook(() => useTastingForm({ initialData: mockExistingNote }));
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body).not.toHaveProperty("blend_id");
+    });
+
+    it("should re-assign the note to another existing blend", async () => {
+      (global.fetch as any).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ id: "note-123" }),
+      });
+
+      const { result } = renderHook(() => useTastingForm({ initialData: mockExistingNote }));
+
+      await act(async () => {
+        result.current.handleBlendChange("blend-2", "Sayaka", "brand-2", "Marukyu", "region-1", "Uji");
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(global.fetch).toHaveBeenCalledWith(
+        "/api/tasting-notes/note-123",
+        expect.objectContaining({ method: "PATCH" })
+      );
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(body.blend_id).toBe("blend-2");
+      expect(window.location.replace).toHaveBeenCalledWith("/tastings/note-123");
+    });
+
+    it("should create a new blend before re-assigning the note to it", async () => {
+      (global.fetch as any).mockImplementation((url: string, options: any) => {
+        if (url === "/api/blends" && options.method === "POST") {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: "new-blend-id" }),
+          });
+        }
+        if (url === "/api/tasting-notes/note-123" && options.method === "PATCH") {
+          return Promise.resolve({
+            ok: true,
+            json: () => Promise.resolve({ id: "note-123" }),
+          });
+        }
+        return Promise.reject(new Error("Unknown endpoint"));
+      });
+
+      const { result } = renderHook(() => useTastingForm({ initialData: mockExistingNote }));
+
+      await act(async () => {
+        result.current.handleBlendChange(null, "Kinrin");
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      const blendBody = JSON.parse((global.fetch as any).mock.calls[0][1].body);
+      expect(blendBody).toMatchObject({ name: "Kinrin", brand: { id: "brand-1" }, region: { id: "region-1" } });
+      const noteBody = JSON.parse((global.fetch as any).mock.calls[1][1].body);
+      expect(noteBody.blend_id).toBe("new-blend-id");
+    });
+
+    it("should report a blend that no longer exists", async () => {
+      (global.fetch as any).mockResolvedValue({
+        ok: false,
+        status: 404,
+        json: () => Promise.resolve({ error: "Blend not found" }),
+      });
+
+      const { result } = renderHook(() => useTastingForm({ initialData: mockExistingNote }));
+
+      await act(async () => {
+        result.current.handleBlendChange("blend-2", "Sayaka", "brand-1", "Ippodo", "region-1", "Uji");
+      });
+
+      await act(async () => {
+        const mockEvent = { preventDefault: vi.fn() } as any;
+        await result.current.handleSubmit(mockEvent);
+      });
+
+      expect(result.current.apiError).toBe("Blend not found");
+    });
   });
 
   describe("State Management", () => {
@@ -3,7 +3,25 @@
  */
 
 import { useCallback, useEffect, useState } from "react";
-import type { TastingNoteResponseDTO } from "../../types";
+import {
+  BLEND_GRADES,
+  BREW_METHODS,
+  CULTIVAR_NAME_PATTERN,
+  DEFAULT_CURRENCY,
+  HARVESTS,
+  MAX_CULTIVARS_PER_BLEND,
+  MAX_TAGS_PER_NOTE,
+  SUPPORTED_CURRENCIES,
+} from "../../lib/constants";
+import type { BlendGrade, BrewMethod, Harvest, SupportedCurrency } from "../../lib/constants";
+import { toIsoDate } from "../../lib/helpers/date";
+import type {
+  BlendNameSuggestionDTO,
+  CatalogNameSuggestionDTO,
+  CreateBlendSuggestionsDTO,
+  SimilarNamesErrorResponseDTO,
+  TastingNoteResponseDTO,
+} from "../../types";
 import type { TastingFormErrors, TastingFormProps, TastingNoteFormViewModel } from "./types";
 
 /**
@@ -18,6 +36,13 @@ function initializeFormData(initialData?: TastingNoteResponseDTO): TastingNoteFo
       blendName: initialData.blend.name,
       regionId: initialData.blend.region.id,
       regionName: initialData.blend.region.name,
+      grade: BLEND_GRADES.includes(initialData.blend.grade as BlendGrade)
+        ? (initialData.blend.grade as BlendGrade)
+        : null,
+      cultivars: initialData.blend.cultivars.join(", "),
+      harvest: HARVESTS.includes(initialData.blend.harvest as Harvest) ? (initialData.blend.harvest as Harvest) : null,
+      isOrganic: initialData.blend.is_organic,
+      isJasCertified: initialData.blend.is_jas_certified,
       overallRating: initialData.overall_rating,
       umami: initialData.umami,
       bitter: initialData.bitter,
@@ -25,8 +50,22 @@ function initializeFormData(initialData?: TastingNoteResponseDTO): TastingNoteFo
       foam: initialData.foam,
       notesKoicha: initialData.notes_koicha,
       notesMilk: initialData.notes_milk,
-      pricePln: initialData.price_pln,
+      brewMethod: BREW_METHODS.includes(initialData.brew_method as BrewMethod)
+        ? (initialData.brew_method as BrewMethod)
+        : null,
+      powderGrams: initialData.powder_grams,
+      waterMl: initialData.water_ml,
+      waterTempC: initialData.water_temp_c,
+      whiskType: initialData.whisk_type,
+      milkType: initialData.milk_type,
+      priceAmount: initialData.price_amount,
+      priceCurrency: SUPPORTED_CURRENCIES.includes(initialData.price_currency as SupportedCurrency)
+        ? (initialData.price_currency as SupportedCurrency)
+        : DEFAULT_CURRENCY,
+      packageGrams: initialData.package_grams,
       purchaseSource: initialData.purchase_source,
+      tastedAt: initialData.tasted_at,
+      tags: initialData.tags.map((tag) => tag.name),
     };
   }
 
@@ -37,6 +76,11 @@ function initializeFormData(initialData?: TastingNoteResponseDTO): TastingNoteFo
     blendName: "",
     regionId: null,
     regionName: "",
+    grade: null,
+    cultivars: "",
+    harvest: null,
+    isOrganic: false,
+    isJasCertified: false,
     overallRating: 0,
     umami: null,
     bitter: null,
@@ -44,11 +88,31 @@ function initializeFormData(initialData?: TastingNoteResponseDTO): TastingNoteFo
     foam: null,
     notesKoicha: null,
     notesMilk: null,
-    pricePln: null,
+    brewMethod: null,
+    powderGrams: null,
+    waterMl: null,
+    waterTempC: null,
+    whiskType: null,
+    milkType: null,
+    priceAmount: null,
+    priceCurrency: DEFAULT_CURRENCY,
+    packageGrams: null,
     purchaseSource: null,
+    tastedAt: toIsoDate(new Date()),
+    tags: [],
   };
 }
 
+/**
+ * Splits the comma-separated cultivars input into names
+ */
+function parseCultivars(value: string): string[] {
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
 /**
  * Validates form data according to DTO constraints
  */
@@ -74,6 +138,18 @@ function validateFormData(data: TastingNoteFormViewModel): TastingFormErrors {
     errors.regionName = "Region name must not exceed 255 characters";
   }
 
+  // Blend details are only sent for a new blend
+  if (!data.blendId) {
+    const cultivars = parseCultivars(data.cultivars);
+    if (cultivars.length > MAX_CULTIVARS_PER_BLEND) {
+      errors.cultivars = `At most ${MAX_CULTIVARS_PER_BLEND} cultivars are allowed`;
+    } else if (cultivars.some((name) => name.length > 100)) {
+      errors.cultivars = "Cultivar names must not exceed 100 characters";
+    } else if (cultivars.some((name) => !CULTIVAR_NAME_PATTERN.test(name))) {
+      errors.cultivars = "Cultivar names may only contain letters, digits, spaces, periods, apostrophes and hyphens";
+    }
+  }
+
   if (data.overallRating < 1 || data.overallRating > 5) {
     errors.overallRating = "Overall rating is required (1-5 stars)";
   }
@@ -104,14 +180,53 @@ function validateFormData(data: TastingNoteFormViewModel): TastingFormErrors {
     errors.notesMilk = "Notes with Milk must not exceed 1000 characters";
   }
 
-  if (data.pricePln !== null && data.pricePln < 0) {
-    errors.pricePln = "Price must be a non-negative number";
+  if (data.powderGrams !== null && (data.powderGrams < 0.1 || data.powderGrams > 50)) {
+    errors.powderGrams = "Powder must be between 0.1 and 50 grams";
+  } else if (data.powderGrams !== null && Number(data.powderGrams.toFixed(1)) !== data.powderGrams) {
+    errors.powderGrams = "Powder can have at most one decimal place";
+  }
+
+  if (data.waterMl !== null && (!Number.isInteger(data.waterMl) || data.waterMl < 1 || data.waterMl > 1000)) {
+    errors.waterMl = "Water must be a whole number between 1 and 1000 ml";
+  }
+
+  if (
+    data.waterTempC !== null &&
+    (!Number.isInteger(data.waterTempC) || data.waterTempC < 0 || data.waterTempC > 100)
+  ) {
+    errors.waterTempC = "Water temperature must be a whole number between 0 and 100 °C";
+  }
+
+  if (data.whiskType && data.whiskType.length > 100) {
+    errors.whiskType = "Whisk type must not exceed 100 characters";
+  }
+
+  if (data.milkType && data.milkType.length > 100) {
+    errors.milkType = "Milk type must not exceed 100 characters";
+  }
+
+  if (data.priceAmount !== null && data.priceAmount < 0) {
+    errors.priceAmount = "Price must be a non-negative number";
+  }
+
+  if (data.packageGrams !== null && (!Number.isInteger(data.packageGrams) || data.packageGrams <= 0)) {
+    errors.packageGrams = "Package size must be a positive whole number of grams";
   }
 
   if (data.purchaseSource && data.purchaseSource.length > 500) {
     errors.purchaseSource = "Purchase source must not exceed 500 characters";
   }
 
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(data.tastedAt)) {
+    errors.tastedAt = "Tasting date is required";
+  } else if (data.tastedAt > toIsoDate(new Date())) {
+    errors.tastedAt = "Tasting date must not be in the future";
+  }
+
+  if (data.tags.length > MAX_TAGS_PER_NOTE) {
+    errors.tags = `At most ${MAX_TAGS_PER_NOTE} tags are allowed`;
+  }
+
   return errors;
 }
 
@@ -128,6 +243,7 @@ export function useTastingForm(props: TastingFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [apiError, setApiError] = useState<string | null>(null);
   const [isDirty, setIsDirty] = useState(false);
+  const [nameSuggestions, setNameSuggestions] = useState<CreateBlendSuggestionsDTO | null>(null);
 
   // Handle input changes
   const handleInputChange = useCallback(
@@ -233,11 +349,46 @@ export function useTastingForm(props: TastingFormProps) {
     [errors.blendName, formData.blendId, formData.blendName]
   );
 
+  // Use an existing brand, region or blend suggested instead of a new name
+  // Unlike picking from the inputs, this keeps the other names the user typed
+  const applyNameSuggestion = useCallback(
+    (kind: keyof CreateBlendSuggestionsDTO, suggestion: CatalogNameSuggestionDTO | BlendNameSuggestionDTO) => {
+      setFormData((prev) => {
+        if (kind === "brands") {
+          return { ...prev, brandId: suggestion.id, brandName: suggestion.name };
+        }
+        if (kind === "regions") {
+          return { ...prev, regionId: suggestion.id, regionName: suggestion.name };
+        }
+        const blend = suggestion as BlendNameSuggestionDTO;
+        return {
+          ...prev,
+          blendId: blend.id,
+          blendName: blend.name,
+          brandId: blend.brand.id,
+          brandName: blend.brand.name,
+          regionId: blend.region.id,
+          regionName: blend.region.name,
+        };
+      });
+      setIsDirty(true);
+      // A chosen blend settles the brand and region too
+      setNameSuggestions((prev) => {
+        if (!prev || kind === "blends") return null;
+        const remaining = { ...prev, [kind]: [] };
+        return remaining.brands.length + remaining.regions.length + remaining.blends.length > 0 ? remaining : null;
+      });
+    },
+    []
+  );
+
   // Handle form submission
+  // allowSimilar creates the typed names even though similar ones exist ("did you mean" declined)
   const handleSubmit = useCallback(
-    async (e: React.FormEvent) => {
-      e.preventDefault();
+    async (e?: React.FormEvent, options: { allowSimilar?: boolean } = {}) => {
+      e?.preventDefault();
       setApiError(null);
+      setNameSuggestions(null);
 
       // Validate form data
       const validationErrors = validateFormData(formData);
@@ -249,14 +400,66 @@ export function useTastingForm(props: TastingFormProps) {
       setIsSubmitting(true);
 
       try {
+        // Step 1: Resolve the blend
+        // If blend is selected from list (has ID), use it directly
+        let blendId = formData.blendId;
+
+        if (!blendId) {
+          // Blend doesn't exist, need to create it
+          const blendResponse = await fetch("/api/blends", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({
+              name: formData.blendName,
+              brand: formData.brandId
+                ? {
+                    id: formData.brandId,
+                  }
+                : {
+                    name: formData.brandName,
+                  },
+              region: formData.regionId
+                ? {
+                    id: formData.regionId,
+                  }
+                : {
+                    name: formData.regionName || null,
+                  },
+              grade: formData.grade,
+              cultivars: parseCultivars(formData.cultivars),
+              harvest: formData.harvest,
+              is_organic: formData.isOrganic || formData.isJasCertified,
+              is_jas_certified: formData.isJasCertified,
+              ...(options.allowSimilar && { allow_similar: true }),
+            }),
+          });
+
+          if (!blendResponse.ok) {
+            const errorData = await blendResponse.json();
+            // Names close to existing ones: let the user pick one before creating anything
+            if (blendResponse.status === 409 && errorData.suggestions) {
+              setNameSuggestions((errorData as SimilarNamesErrorResponseDTO).suggestions);
+              return;
+            }
+            setApiError(errorData.error || "Failed to create blend. Please try again.");
+            return;
+          }
+
+          const blend = await blendResponse.json();
+          blendId = blend.id;
+        }
+
         if (isEditMode) {
-          // Update existing tasting note
+          // Step 2: Update existing tasting note, re-assigning it when another blend was chosen
           const response = await fetch(`/api/tasting-notes/${initialData.id}`, {
             method: "PATCH",
             headers: {
               "Content-Type": "application/json",
             },
             body: JSON.stringify({
+              ...(blendId !== initialData.blend.id && { blend_id: blendId }),
               overall_rating: formData.overallRating,
               umami: formData.umami,
               bitter: formData.bitter,
@@ -264,8 +467,18 @@ export function useTastingForm(props: TastingFormProps) {
               foam: formData.foam,
               notes_koicha: formData.notesKoicha,
               notes_milk: formData.notesMilk,
-              price_pln: formData.pricePln,
+              brew_method: formData.brewMethod,
+              powder_grams: formData.powderGrams,
+              water_ml: formData.waterMl,
+              water_temp_c: formData.waterTempC,
+              whisk_type: formData.whiskType,
+              milk_type: formData.milkType,
+              price_amount: formData.priceAmount,
+              price_currency: formData.priceAmount !== null ? formData.priceCurrency : null,
+              package_grams: formData.priceAmount !== null ? formData.packageGrams : null,
               purchase_source: formData.purchaseSource,
+              tasted_at: formData.tastedAt,
+              tags: formData.tags,
             }),
           });
 
@@ -283,7 +496,9 @@ export function useTastingForm(props: TastingFormProps) {
               }
               return;
             } else if (response.status === 404) {
-              setApiError("Tasting note not found");
+              const errorData = await response.json();
+              // The chosen blend may have been merged away meanwhile
+              setApiError(errorData.error === "Blend not found" ? "Blend not found" : "Tasting note not found");
               return;
             } else {
               setApiError("An unexpected error occurred. Please try again.");
@@ -296,46 +511,6 @@ export function useTastingForm(props: TastingFormProps) {
           // Use replace() to force a full page reload and prevent caching issues
           window.location.replace(`/tastings/${initialData.id}`);
         } else {
-          // Step 1: Create or find blend
-          // If blend is selected from list (has ID), use it directly
-          let blendId = formData.blendId;
-
-          if (!blendId) {
-            // Blend doesn't exist, need to create it
-            const blendResponse = await fetch("/api/blends", {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                name: formData.blendName,
-                brand: formData.brandId
-                  ? {
-                      id: formData.brandId,
-                    }
-                  : {
-                      name: formData.brandName,
-                    },
-                region: formData.regionId
-                  ? {
-                      id: formData.regionId,
-                    }
-                  : {
-                      name: formData.regionName || null,
-                    },
-              }),
-            });
-
-            if (!blendResponse.ok) {
-              const errorData = await blendResponse.json();
-              setApiError(errorData.error || "Failed to create blend. Please try again.");
-              return;
-            }
-
-            const blend = await blendResponse.json();
-            blendId = blend.id;
-          }
-
           // Step 2: Create tasting note
           const noteResponse = await fetch("/api/tasting-notes", {
             method: "POST",
@@ -351,8 +526,18 @@ export function useTastingForm(props: TastingFormProps) {
               foam: formData.foam,
               notes_koicha: formData.notesKoicha,
               notes_milk: formData.notesMilk,
-              price_pln: formData.pricePln,
+              brew_method: formData.brewMethod,
+              powder_grams: formData.powderGrams,
+              water_ml: formData.waterMl,
+              water_temp_c: formData.waterTempC,
+              whisk_type: formData.whiskType,
+              milk_type: formData.milkType,
+              price_amount: formData.priceAmount,
+              price_currency: formData.priceAmount !== null ? formData.priceCurrency : null,
+              package_grams: formData.priceAmount !== null ? formData.packageGrams : null,
               purchase_source: formData.purchaseSource,
+              tasted_at: formData.tastedAt,
+              tags: formData.tags,
             }),
           });
 
@@ -403,6 +588,9 @@ export function useTastingForm(props: TastingFormProps) {
     return () => window.removeEventListener("beforeunload", handleBeforeUnload);
   }, [isDirty, isSubmitting]);
 
+  // Create the typed names after all, ignoring the suggestions
+  const createWithNewNames = useCallback(() => handleSubmit(undefined, { allowSimilar: true }), [handleSubmit]);
+
   return {
     formData,
     errors,
@@ -414,5 +602,8 @@ export function useTastingForm(props: TastingFormProps) {
     handleRegionChange,
     handleBlendChange,
     handleSubmit,
+    nameSuggestions,
+    applyNameSuggestion,
+    createWithNewNames,
   };
 }
@@ -1,3 +1,10 @@
+import type {
+  CatalogStatsResponseDTO,
+  CommunityBlendRatingDTO,
+  SharedTastingNoteEntity,
+  StatsResponseDTO,
+} from "../types";
+
 export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
 
 export interface Database {
@@ -20,25 +27,58 @@ export interface Database {
   };
   public: {
     Tables: {
+      admin_users: {
+        Row: {
+          created_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       blends: {
         Row: {
           brand_id: string;
           created_at: string;
+          created_by: string | null;
+          cultivars: string[];
+          grade: string | null;
+          harvest: string | null;
           id: string;
+          is_jas_certified: boolean;
+          is_organic: boolean;
           name: string;
           region_id: string;
         };
         Insert: {
           brand_id: string;
           created_at?: string;
+          created_by?: string | null;
+          cultivars?: string[];
+          grade?: string | null;
+          harvest?: string | null;
           id?: string;
+          is_jas_certified?: boolean;
+          is_organic?: boolean;
           name: string;
           region_id: string;
         };
         Update: {
           brand_id?: string;
           created_at?: string;
+          created_by?: string | null;
+          cultivars?: string[];
+          grade?: string | null;
+          harvest?: string | null;
           id?: string;
+          is_jas_certified?: boolean;
+          is_organic?: boolean;
           name?: string;
           region_id?: string;
         };
@@ -61,23 +101,140 @@ export interface Database {
       };
       brands: {
         Row: {
+          country: string | null;
           created_at: string;
+          created_by: string | null;
+          description: string | null;
           id: string;
+          logo_url: string | null;
           name: string;
+          website_url: string | null;
         };
         Insert: {
+          country?: string | null;
           created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
           id?: string;
+          logo_url?: string | null;
           name: string;
+          website_url?: string | null;
         };
         Update: {
+          country?: string | null;
           created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
           id?: string;
+          logo_url?: string | null;
           name?: string;
+          website_url?: string | null;
+        };
+        Relationships: [];
+      };
+      catalog_merges: {
+        Row: {
+          details: Json;
+          id: string;
+          kind: string;
+          merged_at: string;
+          merged_by: string | null;
+          source_id: string;
+          source_name: string;
+          target_id: string;
+          target_name: string;
+        };
+        Insert: {
+          details?: Json;
+          id?: string;
+          kind: string;
+          merged_at?: string;
+          merged_by?: string | null;
+          source_id: string;
+          source_name: string;
+          target_id: string;
+          target_name: string;
+        };
+        Update: {
+          details?: Json;
+          id?: string;
+          kind?: string;
+          merged_at?: string;
+          merged_by?: string | null;
+          source_id?: string;
+          source_name?: string;
+          target_id?: string;
+          target_name?: string;
+        };
+        Relationships: [];
+      };
+      currency_rates: {
+        Row: {
+          currency: string;
+          rate_to_pln: number;
+          updated_at: string;
+        };
+        Insert: {
+          currency: string;
+          rate_to_pln: number;
+          updated_at?: string;
+        };
+        Update: {
+          currency?: string;
+          rate_to_pln?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      filter_presets: {
+        Row: {
+          created_at: string;
+          filters: Json;
+          id: string;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          filters?: Json;
+          id?: string;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          filters?: Json;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
         };
         Relationships: [];
       };
       regions: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          name: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          name: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          name?: string;
+        };
+        Relationships: [];
+      };
+      tags: {
         Row: {
           created_at: string;
           id: string;
@@ -95,54 +252,179 @@ export interface Database {
         };
         Relationships: [];
       };
+      tasting_note_photos: {
+        Row: {
+          caption: string | null;
+          content_type: string;
+          created_at: string;
+          id: string;
+          kind: string;
+          size_bytes: number;
+          storage_path: string;
+          tasting_note_id: string;
+          user_id: string;
+        };
+        Insert: {
+          caption?: string | null;
+          content_type: string;
+          created_at?: string;
+          id?: string;
+          kind?: string;
+          size_bytes: number;
+          storage_path: string;
+          tasting_note_id: string;
+          user_id: string;
+        };
+        Update: {
+          caption?: string | null;
+          content_type?: string;
+          created_at?: string;
+          id?: string;
+          kind?: string;
+          size_bytes?: number;
+          storage_path?: string;
+          tasting_note_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "tasting_note_photos_tasting_note_id_fkey";
+            columns: ["tasting_note_id"];
+            isOneToOne: false;
+            referencedRelation: "tasting_notes";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      tasting_note_tags: {
+        Row: {
+          created_at: string;
+          tag_id: string;
+          tasting_note_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          tag_id: string;
+          tasting_note_id: string;
+        };
+        Update: {
+          created_at?: string;
+          tag_id?: string;
+          tasting_note_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "tasting_note_tags_tag_id_fkey";
+            columns: ["tag_id"];
+            isOneToOne: false;
+            referencedRelation: "tags";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "tasting_note_tags_tasting_note_id_fkey";
+            columns: ["tasting_note_id"];
+            isOneToOne: false;
+            referencedRelation: "tasting_notes";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       tasting_notes: {
         Row: {
           bitter: number | null;
           blend_id: string;
+          blend_name: string;
+          brand_name: string;
+          brew_method: string | null;
           created_at: string;
           foam: number | null;
           id: string;
+          is_public: boolean;
+          milk_type: string | null;
           notes_koicha: string | null;
           notes_milk: string | null;
           overall_rating: number;
-          price_pln: number | null;
+          package_grams: number | null;
+          price_amount: number | null;
+          price_currency: string | null;
+          powder_grams: number | null;
+          price_per_100g_pln: number | null;
           purchase_source: string | null;
+          search_vector: unknown;
+          share_token: string | null;
           sweet: number | null;
+          tasted_at: string;
           umami: number | null;
           updated_at: string;
           user_id: string;
+          value_ratio: number | null;
+          water_ml: number | null;
+          water_temp_c: number | null;
+          whisk_type: string | null;
         };
         Insert: {
           bitter?: number | null;
           blend_id: string;
+          blend_name?: string;
+          brand_name?: string;
+          brew_method?: string | null;
           created_at?: string;
           foam?: number | null;
           id?: string;
+          is_public?: boolean;
+          milk_type?: string | null;
           notes_koicha?: string | null;
           notes_milk?: string | null;
           overall_rating: number;
-          price_pln?: number | null;
+          package_grams?: number | null;
+          price_amount?: number | null;
+          price_currency?: string | null;
+          powder_grams?: number | null;
+          price_per_100g_pln?: number | null;
           purchase_source?: string | null;
+          search_vector?: unknown;
+          share_token?: string | null;
           sweet?: number | null;
+          tasted_at?: string;
           umami?: number | null;
           updated_at?: string;
           user_id: string;
+          value_ratio?: number | null;
+          water_ml?: number | null;
+          water_temp_c?: number | null;
+          whisk_type?: string | null;
         };
         Update: {
           bitter?: number | null;
           blend_id?: string;
+          blend_name?: string;
+          brand_name?: string;
+          brew_method?: string | null;
           created_at?: string;
           foam?: number | null;
           id?: string;
+          is_public?: boolean;
+          milk_type?: string | null;
           notes_koicha?: string | null;
           notes_milk?: string | null;
           overall_rating?: number;
-          price_pln?: number | null;
+          package_grams?: number | null;
+          price_amount?: number | null;
+          price_currency?: string | null;
+          powder_grams?: number | null;
+          price_per_100g_pln?: number | null;
           purchase_source?: string | null;
+          search_vector?: unknown;
+          share_token?: string | null;
           sweet?: number | null;
+          tasted_at?: string;
           umami?: number | null;
           updated_at?: string;
           user_id?: string;
+          value_ratio?: number | null;
+          water_ml?: number | null;
+          water_temp_c?: number | null;
+          whisk_type?: string | null;
         };
         Relationships: [
           {
@@ -152,11 +434,48 @@ export interface Database {
             referencedRelation: "blends";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "tasting_notes_price_currency_fkey";
+            columns: ["price_currency"];
+            isOneToOne: false;
+            referencedRelation: "currency_rates";
+            referencedColumns: ["currency"];
+          },
         ];
       };
+      user_settings: {
+        Row: {
+          created_at: string;
+          share_community_ratings: boolean;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          share_community_ratings?: boolean;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          share_community_ratings?: boolean;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: Record<never, never>;
     Functions: {
+      build_tasting_note_search_vector: {
+        Args: {
+          p_blend_id: string;
+          p_notes_koicha: string;
+          p_notes_milk: string;
+          p_purchase_source: string;
+        };
+        Returns: unknown;
+      };
       citext: {
         Args: { "": boolean } | { "": string } | { "": unknown };
         Returns: string;
@@ -181,6 +500,104 @@ export interface Database {
         Args: { "": string };
         Returns: string;
       };
+      compute_price_per_100g_pln: {
+        Args: {
+          p_amount: number;
+          p_currency: string;
+          p_package_grams: number;
+        };
+        Returns: number;
+      };
+      find_catalog_duplicates: {
+        Args: {
+          p_kind: string;
+          p_threshold?: number;
+        };
+        Returns: {
+          context: string | null;
+          first_id: string;
+          first_name: string;
+          first_usage: number;
+          score: number;
+          second_id: string;
+          second_name: string;
+          second_usage: number;
+        }[];
+      };
+      find_similar_catalog_names: {
+        Args: {
+          p_brand_id?: string;
+          p_kind: string;
+          p_limit?: number;
+          p_name: string;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          score: number;
+        }[];
+      };
+      get_catalog_tasting_stats: {
+        Args: {
+          p_blend_id?: string;
+          p_brand_id?: string;
+        };
+        Returns: CatalogStatsResponseDTO; // jsonb document built to match the DTO
+      };
+      get_community_blend_rating: {
+        Args: {
+          p_blend_id: string;
+        };
+        Returns: Omit<CommunityBlendRatingDTO, "is_contributing">; // jsonb document, consent is added by the service
+      };
+      get_shared_tasting_note: {
+        Args: {
+          p_token: string;
+        };
+        Returns: SharedTastingNoteEntity | null; // jsonb document built to match the tasting note select
+      };
+      get_shared_tasting_note_photo: {
+        Args: {
+          p_photo_id: string;
+          p_token: string;
+        };
+        Returns: {
+          content_type: string;
+          storage_path: string;
+        }[];
+      };
+      get_tasting_stats: {
+        Args: Record<PropertyKey, never>;
+        Returns: StatsResponseDTO; // jsonb document built to match the DTO
+      };
+      is_admin: {
+        Args: Record<PropertyKey, never>;
+        Returns: boolean;
+      };
+      is_shared_photo_object: {
+        Args: {
+          p_name: string;
+        };
+        Returns: boolean;
+      };
+      merge_catalog_entities: {
+        Args: {
+          p_kind: string;
+          p_source_id: string;
+          p_target_id: string;
+        };
+        Returns: {
+          details: Json;
+          id: string;
+          kind: string;
+          merged_at: string;
+          merged_by: string | null;
+          source_id: string;
+          source_name: string;
+          target_id: string;
+          target_name: string;
+        };
+      };
     };
     Enums: Record<never, never>;
     CompositeTypes: Record<never, never>;
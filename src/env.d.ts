@@ -17,6 +17,8 @@ declare global {
 interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
+  readonly PHOTO_STORAGE?: "supabase" | "local";
+  readonly PHOTO_STORAGE_DIR?: string;
 }
 
 interface ImportMeta {
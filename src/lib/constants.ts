@@ -0,0 +1,172 @@
+/**
+ * Shared application constants
+ * Used by both API routes and client components to keep limits in sync
+ */
+
+/**
+ * Minimum number of tasting notes required for a comparison
+ */
+export const MIN_COMPARE_NOTES = 2;
+
+/**
+ * Maximum number of tasting notes that can be compared at once
+ */
+export const MAX_COMPARE_NOTES = 6;
+
+/**
+ * Currencies a price can be recorded in
+ * Must match the rows seeded in the currency_rates table
+ */
+export const SUPPORTED_CURRENCIES = ["PLN", "EUR", "USD", "JPY"] as const;
+
+export type SupportedCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+/**
+ * Currency assumed when a price is given without one
+ */
+export const DEFAULT_CURRENCY: SupportedCurrency = "PLN";
+
+/**
+ * Package size assumed when a price is given without one (price quoted per 100g)
+ */
+export const DEFAULT_PACKAGE_GRAMS = 100;
+
+/**
+ * Preparation methods a tasting can be recorded with
+ * Must match the check constraint on tasting_notes.brew_method
+ */
+export const BREW_METHODS = ["usucha", "koicha", "latte", "other"] as const;
+
+export type BrewMethod = (typeof BREW_METHODS)[number];
+
+/**
+ * Display labels for preparation methods
+ */
+export const BREW_METHOD_LABELS: Record<BrewMethod, string> = {
+  usucha: "Usucha (thin tea)",
+  koicha: "Koicha (thick tea)",
+  latte: "Latte",
+  other: "Other",
+};
+
+/**
+ * Sensory scores of a tasting note (1-5, optional)
+ * Each can be narrowed with a min_/max_ range filter on the tasting notes list
+ */
+export const SENSORY_ATTRIBUTES = ["umami", "bitter", "sweet", "foam"] as const;
+
+export type SensoryAttribute = (typeof SENSORY_ATTRIBUTES)[number];
+
+/**
+ * Maximum number of flavor tags attached to a single tasting note
+ */
+export const MAX_TAGS_PER_NOTE = 20;
+
+/**
+ * What a tasting note photo shows
+ * Must match the check constraint on tasting_note_photos.kind
+ */
+export const PHOTO_KINDS = ["tin", "powder", "foam", "other"] as const;
+
+export type PhotoKind = (typeof PHOTO_KINDS)[number];
+
+/**
+ * Display labels for photo kinds
+ */
+export const PHOTO_KIND_LABELS: Record<PhotoKind, string> = {
+  tin: "Tin",
+  powder: "Powder color",
+  foam: "Bowl foam",
+  other: "Other",
+};
+
+/**
+ * Image types accepted for photo uploads
+ * Must match the check constraint on tasting_note_photos.content_type and the storage bucket
+ */
+export const PHOTO_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+
+/**
+ * Maximum size of a single uploaded photo (5 MiB)
+ */
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Maximum number of photos attached to a single tasting note
+ */
+export const MAX_PHOTOS_PER_NOTE = 10;
+
+/**
+ * Maximum number of saved filter presets per user
+ */
+export const MAX_FILTER_PRESETS = 50;
+
+/**
+ * Fewest consenting tasters a blend needs before its community averages are shown
+ * Keep in sync with get_community_blend_rating in supabase/migrations
+ */
+export const COMMUNITY_MIN_TASTERS = 3;
+
+/**
+ * Catalog entries admins can merge when they are duplicates
+ * Must match the check constraint on catalog_merges.kind
+ */
+export const CATALOG_KINDS = ["brand", "region", "blend"] as const;
+
+export type CatalogKind = (typeof CATALOG_KINDS)[number];
+
+/**
+ * Display labels for catalog kinds
+ */
+export const CATALOG_KIND_LABELS: Record<CatalogKind, string> = {
+  brand: "Brands",
+  region: "Regions",
+  blend: "Blends",
+};
+
+/**
+ * Grades a blend can be sold as
+ * Must match the check constraint on blends.grade
+ */
+export const BLEND_GRADES = ["ceremonial", "premium", "culinary"] as const;
+
+export type BlendGrade = (typeof BLEND_GRADES)[number];
+
+/**
+ * Display labels for blend grades
+ */
+export const BLEND_GRADE_LABELS: Record<BlendGrade, string> = {
+  ceremonial: "Ceremonial",
+  premium: "Premium",
+  culinary: "Culinary",
+};
+
+/**
+ * Harvests (flushes) the leaves of a blend can come from
+ * Must match the check constraint on blends.harvest
+ */
+export const HARVESTS = ["first_flush", "second_flush", "third_flush", "autumn_flush"] as const;
+
+export type Harvest = (typeof HARVESTS)[number];
+
+/**
+ * Display labels for harvests
+ */
+export const HARVEST_LABELS: Record<Harvest, string> = {
+  first_flush: "First flush (ichibancha)",
+  second_flush: "Second flush (nibancha)",
+  third_flush: "Third flush (sanbancha)",
+  autumn_flush: "Autumn flush (akibancha)",
+};
+
+/**
+ * Maximum number of cultivars recorded for a single blend
+ * Keep in sync with the check constraint on blends.cultivars
+ */
+export const MAX_CULTIVARS_PER_BLEND = 10;
+
+/**
+ * Characters allowed in a cultivar name: letters, digits, spaces, periods, apostrophes and hyphens
+ * Commas, quotes and braces are excluded because the cultivar filter is sent to PostgREST as an array literal
+ */
+export const CULTIVAR_NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} .'-]*$/u;
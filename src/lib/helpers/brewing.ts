@@ -0,0 +1,47 @@
+import { BREW_METHOD_LABELS } from "../constants";
+import type { BrewMethod } from "../constants";
+import type { TastingNoteResponseDTO } from "../../types";
+
+type NotePreparation = Pick<
+  TastingNoteResponseDTO,
+  "brew_method" | "powder_grams" | "water_ml" | "water_temp_c" | "whisk_type" | "milk_type"
+>;
+
+/**
+ * A single labelled preparation parameter, formatted for display
+ */
+export interface PreparationDetail {
+  label: string;
+  value: string | null; // null when not recorded
+}
+
+/**
+ * Formats a preparation method, e.g. "Koicha (thick tea)"
+ * Unknown values are returned as-is
+ */
+export function formatBrewMethod(method: string | null): string | null {
+  if (method === null) {
+    return null;
+  }
+
+  return BREW_METHOD_LABELS[method as BrewMethod] ?? method;
+}
+
+/**
+ * Formats every preparation parameter of a note, always in the same order
+ * so the result can be lined up across notes (e.g. comparison rows)
+ *
+ * @example
+ * formatPreparation(note).filter((detail) => detail.value !== null)
+ * // [{ label: "Method", value: "Usucha (thin tea)" }, { label: "Water", value: "70 ml" }]
+ */
+export function formatPreparation(note: NotePreparation): PreparationDetail[] {
+  return [
+    { label: "Method", value: formatBrewMethod(note.brew_method) },
+    { label: "Powder", value: note.powder_grams !== null ? `${note.powder_grams} g` : null },
+    { label: "Water", value: note.water_ml !== null ? `${note.water_ml} ml` : null },
+    { label: "Water Temperature", value: note.water_temp_c !== null ? `${note.water_temp_c} °C` : null },
+    { label: "Whisk", value: note.whisk_type },
+    { label: "Milk", value: note.milk_type },
+  ];
+}
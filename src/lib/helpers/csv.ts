@@ -0,0 +1,134 @@
+/**
+ * Value types that can be written to a CSV cell
+ */
+type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Leading characters that make spreadsheet applications evaluate a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Escapes a single value for use as a CSV cell (RFC 4180)
+ * Wraps the value in quotes when it contains a delimiter, quote or line break.
+ * Text starting with a formula character (=, +, -, @, tab or CR) is prefixed with an apostrophe
+ * so spreadsheets show it as text instead of running it; numbers are written as-is.
+ *
+ * @param value - Cell value, null and undefined become empty cells
+ * @returns Escaped cell content
+ *
+ * @example
+ * // Returns: "\"Rich, creamy\""
+ * escapeCsvValue("Rich, creamy");
+ * // Returns: "'=1+1"
+ * escapeCsvValue("=1+1");
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Serialises a list of values into a single CSV line terminated with CRLF
+ *
+ * @param values - Cell values in column order
+ * @returns CSV line including the trailing line break
+ *
+ * @example
+ * // Returns: "Ippodo,Sayaka,5\r\n"
+ * toCsvLine(["Ippodo", "Sayaka", 5]);
+ */
+export function toCsvLine(values: CsvValue[]): string {
+  return `${values.map(escapeCsvValue).join(",")}\r\n`;
+}
+
+/**
+ * Reverts the formula protection added by escapeCsvValue, so exported files can be re-imported as-is
+ *
+ * @param cell - Parsed cell content
+ * @returns Cell content without the protecting apostrophe
+ *
+ * @example
+ * // Returns: "-grassy"
+ * unescapeCsvFormula("'-grassy");
+ */
+export function unescapeCsvFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180)
+ * Supports quoted cells with embedded delimiters, quotes and line breaks,
+ * CRLF or LF line endings and a leading byte order mark. Blank lines are skipped.
+ *
+ * @param text - Raw CSV content
+ * @returns Array of rows, each an array of cell strings
+ * @throws Error if a quoted cell is not terminated
+ *
+ * @example
+ * // Returns: [["brand_name", "notes_koicha"], ["Ippodo", "Rich, creamy"]]
+ * parseCsv('brand_name,notes_koicha\nIppodo,"Rich, creamy"');
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    // Skip blank lines (a single empty cell)
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,105 @@
+import type { TastingNotesQueryDTO } from "../../types";
+
+/**
+ * Position after the last row of a cursor page
+ * Keyed on the sort column values plus the id tie-breaker, and bound to the sorting it was issued for
+ */
+export interface ListCursor {
+  sort_by: NonNullable<TastingNotesQueryDTO["sort_by"]>;
+  sort_order: NonNullable<TastingNotesQueryDTO["sort_order"]>;
+  secondary_sort_by: NonNullable<TastingNotesQueryDTO["secondary_sort_by"]> | null;
+  secondary_sort_order: NonNullable<TastingNotesQueryDTO["secondary_sort_order"]> | null;
+  values: (string | number | null)[]; // One per sort key, primary first
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Longest accepted string sort value (blend names are limited to 200 characters)
+ */
+const MAX_SORT_VALUE_LENGTH = 200;
+
+const isSortOrder = (value: unknown) => value === "asc" || value === "desc";
+
+const isSortValue = (value: unknown) =>
+  value === null ||
+  (typeof value === "string" && value.length <= MAX_SORT_VALUE_LENGTH) ||
+  (typeof value === "number" && Number.isFinite(value));
+
+/**
+ * Encodes a cursor as an opaque url-safe string
+ * The JSON is UTF-8 encoded first, since name sort values may contain any character
+ */
+export function encodeListCursor(cursor: ListCursor): string {
+  const json = JSON.stringify([
+    cursor.sort_by,
+    cursor.sort_order,
+    cursor.secondary_sort_by,
+    cursor.secondary_sort_order,
+    cursor.values,
+    cursor.id,
+  ]);
+  const binary = Array.from(new TextEncoder().encode(json), (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decodes a cursor produced by encodeListCursor
+ *
+ * @returns The cursor, or null if the string is not a valid cursor
+ */
+export function decodeListCursor(encoded: string): ListCursor | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    const json = new TextDecoder("utf-8", { fatal: true }).decode(
+      Uint8Array.from(binary, (char) => char.charCodeAt(0))
+    );
+    const parsed: unknown = JSON.parse(json);
+
+    if (!Array.isArray(parsed) || parsed.length !== 6) {
+      return null;
+    }
+
+    const [sortBy, sortOrder, secondarySortBy, secondarySortOrder, values, id] = parsed;
+    const hasSecondary = secondarySortBy !== null;
+    const isValid =
+      typeof sortBy === "string" &&
+      isSortOrder(sortOrder) &&
+      (hasSecondary
+        ? typeof secondarySortBy === "string" && isSortOrder(secondarySortOrder)
+        : secondarySortOrder === null) &&
+      Array.isArray(values) &&
+      values.length === (hasSecondary ? 2 : 1) &&
+      values.every(isSortValue) &&
+      typeof id === "string" &&
+      UUID_PATTERN.test(id);
+
+    return isValid
+      ? {
+          sort_by: sortBy as ListCursor["sort_by"],
+          sort_order: sortOrder,
+          secondary_sort_by: secondarySortBy,
+          secondary_sort_order: secondarySortOrder,
+          values,
+          id,
+        }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a cursor was issued for the sorting of a list query (defaults applied)
+ */
+export function cursorMatchesSorting(cursor: ListCursor, query: TastingNotesQueryDTO): boolean {
+  const secondarySortBy = query.secondary_sort_by ?? null;
+
+  return (
+    cursor.sort_by === (query.sort_by ?? "created_at") &&
+    cursor.sort_order === (query.sort_order ?? "desc") &&
+    cursor.secondary_sort_by === secondarySortBy &&
+    cursor.secondary_sort_order === (secondarySortBy ? (query.secondary_sort_order ?? "desc") : null)
+  );
+}
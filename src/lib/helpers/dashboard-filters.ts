@@ -0,0 +1,149 @@
+import { SENSORY_ATTRIBUTES } from "../constants";
+import { tastingNotesQuerySchema } from "../validators/tasting-notes.validator";
+import type { TastingNotesFiltersDTO, TastingNotesQueryDTO } from "../../types";
+
+/**
+ * Filters and sorting shown in the dashboard URL, in query string order
+ */
+const FILTER_PARAM_KEYS = [
+  "q",
+  "brand_ids",
+  "region_ids",
+  "tag_ids",
+  "grade",
+  "cultivar",
+  "min_rating",
+  "min_price",
+  "max_price",
+  "min_umami",
+  "max_umami",
+  "min_bitter",
+  "max_bitter",
+  "min_sweet",
+  "max_sweet",
+  "min_foam",
+  "max_foam",
+  "has_notes_koicha",
+  "has_notes_milk",
+  "from",
+  "to",
+  "sort_by",
+  "sort_order",
+  "secondary_sort_by",
+  "secondary_sort_order",
+] as const;
+
+/**
+ * Dashboard sorting when none is chosen (left out of the URL)
+ */
+export const DEFAULT_SORT = { sort_by: "created_at", sort_order: "desc" } as const;
+
+/**
+ * Serialises dashboard filters into query parameters for the tasting notes API
+ * Shared by the list request and the export download link
+ */
+export function buildTastingNotesSearchParams(filters: TastingNotesQueryDTO): URLSearchParams {
+  const params = new URLSearchParams();
+
+  // Add pagination
+  if (filters.page) params.append("page", filters.page.toString());
+  if (filters.limit) params.append("limit", filters.limit.toString());
+  if (filters.cursor !== null && filters.cursor !== undefined) params.append("cursor", filters.cursor);
+
+  // Add search
+  if (filters.q) params.append("q", filters.q);
+
+  // Add filters
+  if (filters.brand_ids?.length) params.append("brand_ids", filters.brand_ids.join(","));
+  if (filters.region_ids?.length) params.append("region_ids", filters.region_ids.join(","));
+  if (filters.tag_ids?.length) params.append("tag_ids", filters.tag_ids.join(","));
+  if (filters.grade) params.append("grade", filters.grade);
+  if (filters.cultivar) params.append("cultivar", filters.cultivar);
+  if (filters.min_rating) params.append("min_rating", filters.min_rating.toString());
+  if (filters.min_price !== null && filters.min_price !== undefined) {
+    params.append("min_price", filters.min_price.toString());
+  }
+  if (filters.max_price !== null && filters.max_price !== undefined) {
+    params.append("max_price", filters.max_price.toString());
+  }
+  for (const attribute of SENSORY_ATTRIBUTES) {
+    const min = filters[`min_${attribute}`];
+    const max = filters[`max_${attribute}`];
+    if (min) params.append(`min_${attribute}`, min.toString());
+    if (max) params.append(`max_${attribute}`, max.toString());
+  }
+  if (filters.has_notes_koicha !== null && filters.has_notes_koicha !== undefined) {
+    params.append("has_notes_koicha", String(filters.has_notes_koicha));
+  }
+  if (filters.has_notes_milk !== null && filters.has_notes_milk !== undefined) {
+    params.append("has_notes_milk", String(filters.has_notes_milk));
+  }
+  if (filters.from) params.append("from", filters.from);
+  if (filters.to) params.append("to", filters.to);
+
+  // Add sorting
+  if (filters.sort_by) params.append("sort_by", filters.sort_by);
+  if (filters.sort_order) params.append("sort_order", filters.sort_order);
+  if (filters.secondary_sort_by) {
+    params.append("secondary_sort_by", filters.secondary_sort_by);
+    if (filters.secondary_sort_order) params.append("secondary_sort_order", filters.secondary_sort_order);
+  }
+
+  return params;
+}
+
+/**
+ * Reads dashboard filters from a URL query string (the format written by buildTastingNotesSearchParams)
+ * Invalid parameters are ignored individually, so a bookmarked URL still loads after a filter is retired
+ */
+export function parseDashboardFilters(params: URLSearchParams): TastingNotesFiltersDTO {
+  const filters: TastingNotesFiltersDTO = {};
+
+  for (const key of FILTER_PARAM_KEYS) {
+    const value = params.get(key);
+    if (value === null) {
+      continue;
+    }
+
+    const result = tastingNotesQuerySchema.shape[key].safeParse(value);
+    if (result.success && result.data !== null && result.data !== undefined) {
+      Object.assign(filters, { [key]: result.data });
+    }
+  }
+
+  return filters;
+}
+
+/**
+ * Extracts the filters and sorting from dashboard filters, dropping pagination and empty values
+ * Used for the dashboard URL and for filter presets
+ */
+export function toTastingNotesFilters(filters: TastingNotesQueryDTO): TastingNotesFiltersDTO {
+  const result: TastingNotesFiltersDTO = {};
+
+  for (const key of FILTER_PARAM_KEYS) {
+    const value = filters[key];
+    if (value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0)) {
+      Object.assign(result, { [key]: value });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Builds the dashboard URL query string for the filters (default sorting is left out)
+ */
+export function buildDashboardQueryString(filters: TastingNotesQueryDTO): string {
+  const params = buildTastingNotesSearchParams(toTastingNotesFilters(filters));
+
+  if (
+    (filters.sort_by ?? DEFAULT_SORT.sort_by) === DEFAULT_SORT.sort_by &&
+    (filters.sort_order ?? DEFAULT_SORT.sort_order) === DEFAULT_SORT.sort_order
+  ) {
+    params.delete("sort_by");
+    params.delete("sort_order");
+  }
+
+  return params.toString();
+}
@@ -0,0 +1,53 @@
+/**
+ * Helpers for calendar dates stored as YYYY-MM-DD (e.g. tasting dates)
+ * These are days on the user's calendar, so they are read and written in local time:
+ * new Date("2026-10-19") would be UTC midnight and show as the previous day west of UTC
+ */
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ */
+export function toIsoDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD string as local midnight
+ */
+export function parseIsoDate(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Formats a YYYY-MM-DD string for display (e.g. "Oct 19, 2026", or "October 19, 2026" in long form)
+ */
+export function formatIsoDate(value: string, month: "short" | "long" = "short"): string {
+  return parseIsoDate(value).toLocaleDateString("en-US", { year: "numeric", month, day: "numeric" });
+}
+
+/**
+ * Lists the weeks of a month for a calendar grid, Monday first
+ * Days outside the month are null, so every week has seven cells
+ *
+ * @param year - Full year
+ * @param monthIndex - Month, 0-based
+ * @returns Weeks of YYYY-MM-DD strings (or null padding)
+ */
+export function getMonthWeeks(year: number, monthIndex: number): (string | null)[][] {
+  const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+  const leadingBlanks = (new Date(year, monthIndex, 1).getDay() + 6) % 7;
+
+  const cells: (string | null)[] = Array.from({ length: leadingBlanks }, () => null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(toIsoDate(new Date(year, monthIndex, day)));
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  return Array.from({ length: cells.length / 7 }, (_, week) => cells.slice(week * 7, week * 7 + 7));
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CURRENCY, DEFAULT_PACKAGE_GRAMS } from "../constants";
+import { withPriceDefaults } from "./price";
+
+/**
+ * Unit tests for the price defaults applied when a note gets a price
+ */
+describe("withPriceDefaults", () => {
+  it("should default the currency and package size of a priced note", () => {
+    expect(withPriceDefaults({ price_amount: 24.9, price_currency: null, package_grams: null })).toEqual({
+      price_amount: 24.9,
+      price_currency: DEFAULT_CURRENCY,
+      package_grams: DEFAULT_PACKAGE_GRAMS,
+    });
+  });
+
+  it("should keep a currency and package size that are already set", () => {
+    expect(withPriceDefaults({ price_amount: 3240, price_currency: "JPY", package_grams: null })).toEqual({
+      price_amount: 3240,
+      price_currency: "JPY",
+      package_grams: DEFAULT_PACKAGE_GRAMS,
+    });
+    expect(withPriceDefaults({ price_amount: 3240, price_currency: null, package_grams: 30 })).toEqual({
+      price_amount: 3240,
+      price_currency: DEFAULT_CURRENCY,
+      package_grams: 30,
+    });
+  });
+
+  it("should leave a note without a price unchanged", () => {
+    expect(withPriceDefaults({ price_amount: null, price_currency: null, package_grams: null })).toEqual({
+      price_amount: null,
+      price_currency: null,
+      package_grams: null,
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import type { TastingNoteResponseDTO } from "../../types";
+import { DEFAULT_CURRENCY, DEFAULT_PACKAGE_GRAMS } from "../constants";
+
+type NotePrice = Pick<TastingNoteResponseDTO, "price_amount" | "price_currency" | "package_grams">;
+
+/**
+ * Formats an amount in the given currency, e.g. "¥3,240" or "€24.90"
+ * Falls back to "<amount> <code>" for codes Intl does not recognise
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+}
+
+/**
+ * Formats the price paid for a note's package, e.g. "¥3,240 / 30g"
+ *
+ * @returns Formatted price, or null if the note has no price
+ */
+export function formatNotePrice(note: NotePrice): string | null {
+  if (note.price_amount === null) {
+    return null;
+  }
+
+  const amount = formatMoney(note.price_amount, note.price_currency ?? "PLN");
+  return note.package_grams !== null ? `${amount} / ${note.package_grams}g` : amount;
+}
+
+/**
+ * Fills in the currency and package size of a priced note, as a new note gets them
+ * A note without a price is returned unchanged
+ */
+export function withPriceDefaults(price: NotePrice): NotePrice {
+  if (price.price_amount === null) {
+    return price;
+  }
+
+  return {
+    price_amount: price.price_amount,
+    price_currency: price.price_currency ?? DEFAULT_CURRENCY,
+    package_grams: price.package_grams ?? DEFAULT_PACKAGE_GRAMS,
+  };
+}
+
+/**
+ * Formats a normalised price per 100g, e.g. "48.60 PLN / 100g"
+ *
+ * @returns Formatted price, or null if the note has no price
+ */
+export function formatPricePer100g(pricePer100gPln: number | null): string | null {
+  return pricePer100gPln !== null ? `${pricePer100gPln.toFixed(2)} PLN / 100g` : null;
+}
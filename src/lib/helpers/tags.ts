@@ -0,0 +1,17 @@
+import type { NestedTagDTO, TastingNoteResponseDTO } from "../../types";
+
+/**
+ * Finds the flavor tags that every given note carries
+ *
+ * @returns Shared tags sorted by name, or an empty list for fewer than two notes
+ */
+export function getSharedTags(notes: Pick<TastingNoteResponseDTO, "tags">[]): NestedTagDTO[] {
+  if (notes.length < 2) {
+    return [];
+  }
+
+  const [first, ...rest] = notes;
+  return first.tags
+    .filter((tag) => rest.every((note) => note.tags.some((other) => other.id === tag.id)))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -1,5 +1,13 @@
 import type { SupabaseClient } from "../../db/supabase.client";
-import type { BlendResponseDTO, BlendsListResponseDTO, BlendsQueryDTO, CreateBlendDTO } from "../../types";
+import type {
+  BlendResponseDTO,
+  BlendsListResponseDTO,
+  BlendsQueryDTO,
+  CatalogNameSuggestionDTO,
+  CreateBlendDTO,
+  CreateBlendSuggestionsDTO,
+  UpdateBlendDTO,
+} from "../../types";
 
 /**
  * Error types for blend creation
@@ -12,6 +20,42 @@ type CreateBlendError =
 
 type CreateBlendResult = { success: true; data: BlendResponseDTO } | { success: false; error: CreateBlendError };
 
+/**
+ * Error types for blend updates
+ */
+type UpdateBlendError =
+  | { type: "not_found" }
+  | { type: "forbidden" }
+  | { type: "region_not_found" }
+  | { type: "duplicate_blend" }
+  | { type: "invalid_certification" }
+  | { type: "database_error"; message: string };
+
+type UpdateBlendResult = { success: true; data: BlendResponseDTO } | { success: false; error: UpdateBlendError };
+
+/**
+ * Select clause for blends with their details and nested brand and region
+ */
+const BLEND_SELECT = `
+  id,
+  name,
+  created_at,
+  grade,
+  cultivars,
+  harvest,
+  is_organic,
+  is_jas_certified,
+  brand:brands!inner (id, name),
+  region:regions!inner (id, name)
+`;
+
+/**
+ * Postgres error codes for constraint violations
+ */
+const UNIQUE_VIOLATION = "23505";
+const FOREIGN_KEY_VIOLATION = "23503";
+const CHECK_VIOLATION = "23514";
+
 /**
  * Creates a new blend with flexible brand/region resolution
  * Can reference existing entities by ID or create new ones by name
@@ -181,6 +225,11 @@ export async function createBlend(supabase: SupabaseClient, data: CreateBlendDTO
         name: data.name,
         brand_id: brandId,
         region_id: regionId,
+        grade: data.grade ?? null,
+        cultivars: data.cultivars ?? [],
+        harvest: data.harvest ?? null,
+        is_organic: data.is_organic ?? false,
+        is_jas_certified: data.is_jas_certified ?? false,
       })
       .select("id")
       .single();
@@ -195,21 +244,7 @@ export async function createBlend(supabase: SupabaseClient, data: CreateBlendDTO
     // Step 5: Fetch complete blend with nested brand and region
     const { data: completeBlend, error: fetchError } = await supabase
       .from("blends")
-      .select(
-        `
-        id,
-        name,
-        created_at,
-        brand:brands!inner (
-          id,
-          name
-        ),
-        region:regions!inner (
-          id,
-          name
-        )
-      `
-      )
+      .select(BLEND_SELECT)
       .eq("id", newBlend.id)
       .single();
 
@@ -234,6 +269,128 @@ export async function createBlend(supabase: SupabaseClient, data: CreateBlendDTO
   }
 }
 
+/**
+ * Lists existing brands, regions or blends whose names are close to (but not exactly) the given name
+ * Matching runs in the database via the find_similar_catalog_names RPC function (trigram similarity)
+ *
+ * @throws Error if the RPC call fails
+ */
+async function findSimilarCatalogNames(
+  supabase: SupabaseClient,
+  kind: "brand" | "region" | "blend",
+  name: string,
+  brandId?: string
+): Promise<CatalogNameSuggestionDTO[]> {
+  const { data, error } = await supabase.rpc("find_similar_catalog_names", {
+    p_kind: kind,
+    p_name: name,
+    ...(brandId && { p_brand_id: brandId }),
+  });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to find similar ${kind} names: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({ id: row.id, name: row.name, score: Number(row.score) }));
+}
+
+/**
+ * Looks up a brand or region by its exact name (case-insensitive via CITEXT)
+ *
+ * @throws Error if database query fails
+ */
+async function findCatalogIdByName(
+  supabase: SupabaseClient,
+  table: "brands" | "regions",
+  name: string
+): Promise<string | null> {
+  const { data, error } = await supabase.from(table).select("id").eq("name", name).limit(1).maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to look up ${table}: ${error.message}`);
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * Finds existing names close to those of a blend about to be created ("did you mean")
+ * Brands and regions given by a name that does not exist yet are checked against all brands or regions;
+ * the blend name is checked against the blends of its brand when that brand exists
+ *
+ * @param supabase - Supabase client instance
+ * @param data - Validated blend data from request
+ * @returns Suggestions per kind, most similar first (all empty when nothing is close)
+ * @throws Error if a database query fails
+ *
+ * @example
+ * const suggestions = await findSimilarBlendNames(supabase, {
+ *   name: "Sayaka",
+ *   brand: { name: "Ipodo" },
+ *   region: { id: "region-uuid" }
+ * });
+ * // suggestions.brands[0].name === "Ippodo"
+ */
+export async function findSimilarBlendNames(
+  supabase: SupabaseClient,
+  data: CreateBlendDTO
+): Promise<CreateBlendSuggestionsDTO> {
+  const suggestions: CreateBlendSuggestionsDTO = { brands: [], regions: [], blends: [] };
+
+  // Brand: an exact match is reused by createBlend, so only new names are checked
+  let brandId = data.brand.id ?? null;
+
+  if (!brandId && data.brand.name) {
+    brandId = await findCatalogIdByName(supabase, "brands", data.brand.name);
+
+    if (!brandId) {
+      suggestions.brands = await findSimilarCatalogNames(supabase, "brand", data.brand.name);
+    }
+  }
+
+  // Region: same as the brand
+  if (!data.region.id && data.region.name) {
+    const regionId = await findCatalogIdByName(supabase, "regions", data.region.name);
+
+    if (!regionId) {
+      suggestions.regions = await findSimilarCatalogNames(supabase, "region", data.region.name);
+    }
+  }
+
+  // Blend: only within an existing brand (a new brand has no blends yet)
+  if (brandId) {
+    const similarBlends = await findSimilarCatalogNames(supabase, "blend", data.name, brandId);
+
+    if (similarBlends.length > 0) {
+      const { data: blends, error } = await supabase
+        .from("blends")
+        .select("id, brand:brands!inner (id, name), region:regions!inner (id, name)")
+        .in(
+          "id",
+          similarBlends.map((blend) => blend.id)
+        );
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error("Database query failed:", error);
+        throw new Error(`Failed to fetch similar blends: ${error.message}`);
+      }
+
+      // Keep the ranking of the similarity search
+      suggestions.blends = similarBlends.flatMap((blend) => {
+        const details = blends?.find((row) => row.id === blend.id);
+        return details ? [{ ...blend, brand: details.brand, region: details.region }] : [];
+      });
+    }
+  }
+
+  return suggestions;
+}
+
 /**
  * Retrieves a paginated list of all blends with optional filtering and search
  * Blends are public global data, accessible without authentication
@@ -248,33 +405,19 @@ export async function createBlend(supabase: SupabaseClient, data: CreateBlendDTO
  *   page: 1,
  *   limit: 20,
  *   brand_id: '550e8400-e29b-41d4-a716-446655440000',
- *   search: 'ceremonial'
+ *   grade: 'ceremonial',
+ *   search: 'sayaka'
  * });
  */
 export async function listBlends(supabase: SupabaseClient, query: BlendsQueryDTO): Promise<BlendsListResponseDTO> {
-  const { page, limit, brand_id, region_id, search } = query;
+  const { page, limit, brand_id, region_id, grade, cultivar, search } = query;
 
   // Handle nullish values
   const effectivePage = page ?? 1;
   const effectiveLimit = limit ?? 20;
 
   // Build base query with nested brand and region
-  let dbQuery = supabase.from("blends").select(
-    `
-      id,
-      name,
-      created_at,
-      brand:brands!inner (
-        id,
-        name
-      ),
-      region:regions!inner (
-        id,
-        name
-      )
-    `,
-    { count: "exact" }
-  );
+  let dbQuery = supabase.from("blends").select(BLEND_SELECT, { count: "exact" });
 
   // Apply brand filter if provided
   if (brand_id) {
@@ -286,6 +429,16 @@ export async function listBlends(supabase: SupabaseClient, query: BlendsQueryDTO
     dbQuery = dbQuery.eq("region_id", region_id);
   }
 
+  // Apply grade filter if provided
+  if (grade) {
+    dbQuery = dbQuery.eq("grade", grade);
+  }
+
+  // Apply cultivar filter if provided (case-insensitive via CITEXT, backed by the GIN index)
+  if (cultivar) {
+    dbQuery = dbQuery.contains("cultivars", [cultivar]);
+  }
+
   // Apply search filter if provided (case-insensitive substring match)
   if (search && search.trim()) {
     dbQuery = dbQuery.ilike("name", `%${search.trim()}%`);
@@ -343,20 +496,7 @@ export async function listBlends(supabase: SupabaseClient, query: BlendsQueryDTO
  */
 export async function getBlendById(supabase: SupabaseClient, id: string): Promise<BlendResponseDTO | null> {
   // Execute query with nested joins for brand and region
-  const { data, error } = await supabase
-    .from("blends")
-    .select(
-      `
-      id,
-      name,
-      created_at,
-      brand:brands!inner (id, name),
-      region:regions!inner (id, name)
-    `
-    )
-    .eq("id", id)
-    .limit(1)
-    .maybeSingle();
+  const { data, error } = await supabase.from("blends").select(BLEND_SELECT).eq("id", id).limit(1).maybeSingle();
 
   // Handle database errors
   if (error) {
@@ -368,3 +508,164 @@ export async function getBlendById(supabase: SupabaseClient, id: string): Promis
   // Return blend entity or null if not found
   return data;
 }
+
+/**
+ * Renames a blend, moves it to another region and/or changes its details
+ * Only the user who created the blend or an admin may edit it;
+ * tasting notes pick up the new name and region through database triggers
+ *
+ * @param supabase - Supabase client instance
+ * @param id - UUID of the blend
+ * @param data - Validated changes (name, region_id and/or details)
+ * @returns Result object with either the updated blend or an error
+ *
+ * @example
+ * const result = await updateBlend(supabase, blendId, { region_id: "region-uuid" });
+ */
+export async function updateBlend(
+  supabase: SupabaseClient,
+  id: string,
+  data: UpdateBlendDTO
+): Promise<UpdateBlendResult> {
+  const { data: existing, error: lookupError } = await supabase
+    .from("blends")
+    .select("id")
+    .eq("id", id)
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) {
+    return { success: false, error: { type: "database_error", message: lookupError.message } };
+  }
+
+  if (!existing) {
+    return { success: false, error: { type: "not_found" } };
+  }
+
+  const { data: blend, error } = await supabase
+    .from("blends")
+    .update(data)
+    .eq("id", id)
+    .select(BLEND_SELECT)
+    .maybeSingle();
+
+  // Blend names are unique per brand
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: { type: "duplicate_blend" } };
+  }
+
+  if (error?.code === FOREIGN_KEY_VIOLATION) {
+    return { success: false, error: { type: "region_not_found" } };
+  }
+
+  // Only blends_jas_certified_is_organic can fail here; the other checks are enforced by the validator
+  if (error?.code === CHECK_VIOLATION) {
+    return { success: false, error: { type: "invalid_certification" } };
+  }
+
+  if (error) {
+    return { success: false, error: { type: "database_error", message: error.message } };
+  }
+
+  // RLS (update policy: creator or admin) hides the row from users who may not edit it
+  if (!blend) {
+    return { success: false, error: { type: "forbidden" } };
+  }
+
+  return { success: true, data: blend };
+}
+
+/**
+ * Looks up a blend by its name together with its brand and region names
+ * Matching is case-insensitive via CITEXT
+ *
+ * @param supabase - Supabase client instance
+ * @param names - Blend, brand and region names
+ * @returns Blend ID if found, null otherwise
+ * @throws Error if database query fails
+ *
+ * @example
+ * const blendId = await findBlendIdByNames(supabase, {
+ *   blendName: 'Sayaka',
+ *   brandName: 'Ippodo',
+ *   regionName: 'Uji'
+ * });
+ */
+export async function findBlendIdByNames(
+  supabase: SupabaseClient,
+  names: { blendName: string; brandName: string; regionName: string }
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("blends")
+    .select("id, brand:brands!inner (name), region:regions!inner (name)")
+    .eq("name", names.blendName)
+    .eq("brand.name", names.brandName)
+    .eq("region.name", names.regionName)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to look up blend: ${error.message}`);
+  }
+
+  return data?.id ?? null;
+}
+
+/**
+ * Resolves a blend by brand/region/blend names, creating any missing entities
+ * Reuses an existing blend instead of failing with duplicate_blend, so it is
+ * safe to call repeatedly with the same names (e.g. during bulk import)
+ *
+ * @param supabase - Supabase client instance
+ * @param names - Blend, brand and region names
+ * @returns Result object with the blend ID and whether it was newly created
+ *
+ * @example
+ * const result = await findOrCreateBlend(supabase, {
+ *   blendName: 'Sayaka',
+ *   brandName: 'Ippodo',
+ *   regionName: 'Uji'
+ * });
+ */
+export async function findOrCreateBlend(
+  supabase: SupabaseClient,
+  names: { blendName: string; brandName: string; regionName: string }
+): Promise<{ success: true; data: { id: string; created: boolean } } | { success: false; error: CreateBlendError }> {
+  try {
+    const existingId = await findBlendIdByNames(supabase, names);
+
+    if (existingId) {
+      return { success: true, data: { id: existingId, created: false } };
+    }
+
+    const result = await createBlend(supabase, {
+      name: names.blendName,
+      brand: { name: names.brandName },
+      region: { name: names.regionName },
+    });
+
+    if (result.success) {
+      return { success: true, data: { id: result.data.id, created: true } };
+    }
+
+    // Another request created the same blend in the meantime
+    if (result.error.type === "duplicate_blend") {
+      const concurrentId = await findBlendIdByNames(supabase, names);
+      if (concurrentId) {
+        return { success: true, data: { id: concurrentId, created: false } };
+      }
+    }
+
+    return result;
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        type: "database_error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
+  }
+}
@@ -1,5 +1,26 @@
 import type { SupabaseClient } from "../../db/supabase.client";
-import type { BrandResponseDTO, BrandsListResponseDTO, BrandsQueryDTO } from "../../types";
+import type { BrandResponseDTO, BrandsListResponseDTO, BrandsQueryDTO, UpdateBrandDTO } from "../../types";
+
+/**
+ * Error types for brand updates
+ */
+type UpdateBrandError =
+  | { type: "not_found" }
+  | { type: "forbidden" }
+  | { type: "duplicate_name" }
+  | { type: "database_error"; message: string };
+
+type UpdateBrandResult = { success: true; data: BrandResponseDTO } | { success: false; error: UpdateBrandError };
+
+/**
+ * Select clause for brand rows (the creator is not exposed)
+ */
+const BRAND_SELECT = "id, name, country, website_url, description, logo_url, created_at";
+
+/**
+ * Postgres error code for unique constraint violations
+ */
+const UNIQUE_VIOLATION = "23505";
 
 /**
  * Retrieves a single brand by its UUID
@@ -18,7 +39,7 @@ import type { BrandResponseDTO, BrandsListResponseDTO, BrandsQueryDTO } from "..
  */
 export async function getBrandById(supabase: SupabaseClient, id: string): Promise<BrandResponseDTO | null> {
   // Execute query with .single() to get exactly one row
-  const { data, error } = await supabase.from("brands").select("*").eq("id", id).limit(1).maybeSingle();
+  const { data, error } = await supabase.from("brands").select(BRAND_SELECT).eq("id", id).limit(1).maybeSingle();
 
   // Handle database errors
   if (error) {
@@ -55,7 +76,7 @@ export async function listBrands(supabase: SupabaseClient, query: BrandsQueryDTO
   const effectiveLimit = limit ?? 20;
 
   // Build base query
-  let dbQuery = supabase.from("brands").select("*", { count: "exact" });
+  let dbQuery = supabase.from("brands").select(BRAND_SELECT, { count: "exact" });
 
   // Apply search filter if provided (case-insensitive substring match)
   if (search && search.trim()) {
@@ -96,3 +117,59 @@ export async function listBrands(supabase: SupabaseClient, query: BrandsQueryDTO
     },
   };
 }
+
+/**
+ * Corrects a brand: renames it (e.g. to fix a misspelling) and/or changes its metadata
+ * Brands are shared, so only the user who created the brand or an admin may edit it;
+ * tasting notes pick up a new name through database triggers
+ *
+ * @param supabase - Supabase client instance
+ * @param id - UUID of the brand
+ * @param data - Validated changes (name and/or metadata)
+ * @returns Result object with either the updated brand or an error
+ *
+ * @example
+ * const result = await updateBrand(supabase, brandId, { name: "Ippodo Tea", country: "Japan" });
+ */
+export async function updateBrand(
+  supabase: SupabaseClient,
+  id: string,
+  data: UpdateBrandDTO
+): Promise<UpdateBrandResult> {
+  const { data: existing, error: lookupError } = await supabase
+    .from("brands")
+    .select("id")
+    .eq("id", id)
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) {
+    return { success: false, error: { type: "database_error", message: lookupError.message } };
+  }
+
+  if (!existing) {
+    return { success: false, error: { type: "not_found" } };
+  }
+
+  const { data: brand, error } = await supabase
+    .from("brands")
+    .update(data)
+    .eq("id", id)
+    .select(BRAND_SELECT)
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: { type: "duplicate_name" } };
+  }
+
+  if (error) {
+    return { success: false, error: { type: "database_error", message: error.message } };
+  }
+
+  // RLS (update policy: creator or admin) hides the row from users who may not edit it
+  if (!brand) {
+    return { success: false, error: { type: "forbidden" } };
+  }
+
+  return { success: true, data: brand };
+}
@@ -0,0 +1,202 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json } from "../../db/database.types";
+import { MAX_FILTER_PRESETS } from "../constants";
+import type {
+  CreateFilterPresetDTO,
+  FilterPresetEntity,
+  FilterPresetResponseDTO,
+  TastingNotesFiltersDTO,
+  UpdateFilterPresetDTO,
+} from "../../types";
+
+/**
+ * Error types for saving filter presets
+ */
+type FilterPresetError =
+  | { type: "not_found" }
+  | { type: "duplicate_name" }
+  | { type: "limit_reached" }
+  | { type: "database_error"; message: string };
+
+type FilterPresetResult =
+  | { success: true; data: FilterPresetResponseDTO }
+  | { success: false; error: FilterPresetError };
+
+/**
+ * Select clause for preset rows (the owner is implied)
+ */
+const FILTER_PRESET_SELECT = "id, name, filters, created_at, updated_at";
+
+/**
+ * Postgres error code for unique constraint violations
+ */
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Transforms a preset row into the response DTO
+ * Filters are validated before they are stored, so the JSON is typed as-is
+ */
+function toFilterPresetResponseDTO(row: Omit<FilterPresetEntity, "user_id">): FilterPresetResponseDTO {
+  return {
+    id: row.id,
+    name: row.name,
+    filters: row.filters as TastingNotesFiltersDTO,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Retrieves the user's saved filter presets, sorted by name
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @returns All presets of the user
+ * @throws Error if database query fails
+ *
+ * @example
+ * const presets = await listFilterPresets(supabase, userId);
+ */
+export async function listFilterPresets(supabase: SupabaseClient, userId: string): Promise<FilterPresetResponseDTO[]> {
+  const { data, error } = await supabase
+    .from("filter_presets")
+    .select(FILTER_PRESET_SELECT)
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch filter presets: ${error.message}`);
+  }
+
+  return (data || []).map(toFilterPresetResponseDTO);
+}
+
+/**
+ * Saves a named filter preset for the user
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param data - Validated preset name and filters
+ * @returns Result object with either the created preset or an error
+ *
+ * @example
+ * const result = await createFilterPreset(supabase, userId, {
+ *   name: 'Uji 4+ stars, best value',
+ *   filters: { region_ids: ['uuid'], min_rating: 4, sort_by: 'value', sort_order: 'desc' }
+ * });
+ */
+export async function createFilterPreset(
+  supabase: SupabaseClient,
+  userId: string,
+  data: CreateFilterPresetDTO
+): Promise<FilterPresetResult> {
+  // Step 1: Enforce the per-user limit
+  const { count, error: countError } = await supabase
+    .from("filter_presets")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (countError) {
+    return { success: false, error: { type: "database_error", message: countError.message } };
+  }
+
+  if ((count ?? 0) >= MAX_FILTER_PRESETS) {
+    return { success: false, error: { type: "limit_reached" } };
+  }
+
+  // Step 2: Insert (the unique constraint rejects duplicate names, case-insensitively)
+  const { data: row, error } = await supabase
+    .from("filter_presets")
+    .insert({ user_id: userId, name: data.name, filters: data.filters as Json })
+    .select(FILTER_PRESET_SELECT)
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: { type: "duplicate_name" } };
+  }
+
+  if (error || !row) {
+    return {
+      success: false,
+      error: { type: "database_error", message: error?.message || "Failed to create filter preset" },
+    };
+  }
+
+  return { success: true, data: toFilterPresetResponseDTO(row) };
+}
+
+/**
+ * Renames a filter preset and/or replaces its filters
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param id - UUID of the preset
+ * @param data - Validated fields to change
+ * @returns Result object with either the updated preset or an error
+ *
+ * @example
+ * const result = await updateFilterPreset(supabase, userId, presetId, { name: 'Weekday usucha' });
+ */
+export async function updateFilterPreset(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  data: UpdateFilterPresetDTO
+): Promise<FilterPresetResult> {
+  const { data: row, error } = await supabase
+    .from("filter_presets")
+    .update({
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.filters !== undefined && { filters: data.filters as Json }),
+    })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select(FILTER_PRESET_SELECT)
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: { type: "duplicate_name" } };
+  }
+
+  if (error) {
+    return { success: false, error: { type: "database_error", message: error.message } };
+  }
+
+  if (!row) {
+    return { success: false, error: { type: "not_found" } };
+  }
+
+  return { success: true, data: toFilterPresetResponseDTO(row) };
+}
+
+/**
+ * Deletes a filter preset owned by the user
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param id - UUID of the preset
+ * @returns True if the preset was deleted, false if not found
+ * @throws Error if database operation fails
+ *
+ * @example
+ * const deleted = await deleteFilterPreset(supabase, userId, presetId);
+ */
+export async function deleteFilterPreset(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("filter_presets")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to delete filter preset: ${error.message}`);
+  }
+
+  return data !== null;
+}
@@ -0,0 +1,170 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { CatalogKind } from "../constants";
+import type {
+  CatalogMergeEntity,
+  CatalogMergeResponseDTO,
+  DuplicateCandidateDTO,
+  MergeCatalogEntitiesDTO,
+} from "../../types";
+
+/**
+ * Error types for merging catalog entries
+ */
+type MergeCatalogError =
+  | { type: "forbidden" }
+  | { type: "not_found" }
+  | { type: "same_entity" }
+  | { type: "database_error"; message: string };
+
+type MergeCatalogResult =
+  | { success: true; data: CatalogMergeResponseDTO }
+  | { success: false; error: MergeCatalogError };
+
+/**
+ * Postgres error codes raised by the moderation functions
+ */
+const INSUFFICIENT_PRIVILEGE = "42501";
+const NO_DATA_FOUND = "P0002";
+const SELF_MERGE = "CM001"; // Custom code, raised when the source and target are the same entry
+
+/**
+ * Maximum number of merges shown in the audit trail
+ */
+const MERGE_HISTORY_LIMIT = 50;
+
+/**
+ * Transforms an audit row into the response DTO
+ * Kind and details are written by merge_catalog_entities only, so the JSON is typed as-is
+ */
+function toCatalogMergeResponseDTO(row: CatalogMergeEntity): CatalogMergeResponseDTO {
+  return {
+    ...row,
+    kind: row.kind as CatalogKind,
+    details: row.details as CatalogMergeResponseDTO["details"],
+  };
+}
+
+/**
+ * Checks whether the current user may moderate the catalog
+ * Admins are granted by an operator in the admin_users table, which only the is_admin RPC reads
+ *
+ * @param supabase - Supabase client instance (authenticated as the user to check)
+ * @returns True when the user is an admin
+ * @throws Error if the RPC call fails
+ *
+ * @example
+ * if (!(await isAdmin(supabase))) return forbidden();
+ */
+export async function isAdmin(supabase: SupabaseClient): Promise<boolean> {
+  const { data, error } = await supabase.rpc("is_admin");
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to check admin role: ${error.message}`);
+  }
+
+  return data === true;
+}
+
+/**
+ * Lists pairs of brands, regions or blends whose names are similar enough to be duplicates
+ * Matching runs in the database via the find_catalog_duplicates RPC function (trigram similarity)
+ *
+ * @param supabase - Supabase client instance (authenticated as an admin)
+ * @param kind - Which catalog entries to compare
+ * @returns Likely duplicate pairs, most similar first
+ * @throws Error if the RPC call fails, including when the user is not an admin
+ *
+ * @example
+ * const pairs = await findDuplicateCandidates(supabase, "brand");
+ */
+export async function findDuplicateCandidates(
+  supabase: SupabaseClient,
+  kind: CatalogKind
+): Promise<DuplicateCandidateDTO[]> {
+  const { data, error } = await supabase.rpc("find_catalog_duplicates", { p_kind: kind });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to find duplicate candidates: ${error.message}`);
+  }
+
+  return (data ?? []).map((row) => ({
+    first: { id: row.first_id, name: row.first_name, usage: Number(row.first_usage) },
+    second: { id: row.second_id, name: row.second_name, usage: Number(row.second_usage) },
+    context: row.context,
+    score: Number(row.score),
+  }));
+}
+
+/**
+ * Merges a duplicate brand, region or blend into another and records it in the audit trail
+ * Re-pointing every reference and deleting the source runs in a single transaction
+ * via the merge_catalog_entities RPC function
+ *
+ * @param supabase - Supabase client instance (authenticated as an admin)
+ * @param data - Validated kind, source (merged away) and target (kept) of the merge
+ * @returns Result object with either the audit entry of the merge or an error
+ *
+ * @example
+ * const result = await mergeCatalogEntities(supabase, { kind: "brand", source_id, target_id });
+ * if (result.success) console.log(result.data.details.blends_moved);
+ */
+export async function mergeCatalogEntities(
+  supabase: SupabaseClient,
+  data: MergeCatalogEntitiesDTO
+): Promise<MergeCatalogResult> {
+  const { data: merge, error } = await supabase.rpc("merge_catalog_entities", {
+    p_kind: data.kind,
+    p_source_id: data.source_id,
+    p_target_id: data.target_id,
+  });
+
+  if (error?.code === INSUFFICIENT_PRIVILEGE) {
+    return { success: false, error: { type: "forbidden" } };
+  }
+
+  if (error?.code === NO_DATA_FOUND) {
+    return { success: false, error: { type: "not_found" } };
+  }
+
+  if (error?.code === SELF_MERGE) {
+    return { success: false, error: { type: "same_entity" } };
+  }
+
+  if (error) {
+    return { success: false, error: { type: "database_error", message: error.message } };
+  }
+
+  // The function returns the inserted catalog_merges row
+  return { success: true, data: toCatalogMergeResponseDTO(merge) };
+}
+
+/**
+ * Retrieves the most recent catalog merges, newest first
+ * Only admins can read the audit trail under rls; others get an empty list
+ *
+ * @param supabase - Supabase client instance (authenticated as an admin)
+ * @returns Up to the 50 latest merges
+ * @throws Error if database query fails
+ *
+ * @example
+ * const merges = await listCatalogMerges(supabase);
+ */
+export async function listCatalogMerges(supabase: SupabaseClient): Promise<CatalogMergeResponseDTO[]> {
+  const { data, error } = await supabase
+    .from("catalog_merges")
+    .select("*")
+    .order("merged_at", { ascending: false })
+    .limit(MERGE_HISTORY_LIMIT);
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch catalog merges: ${error.message}`);
+  }
+
+  return (data ?? []).map(toCatalogMergeResponseDTO);
+}
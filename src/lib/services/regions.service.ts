@@ -1,5 +1,26 @@
 import type { SupabaseClient } from "../../db/supabase.client";
-import type { RegionResponseDTO, RegionsListResponseDTO, RegionsQueryDTO } from "../../types";
+import type { RegionResponseDTO, RegionsListResponseDTO, RegionsQueryDTO, UpdateRegionDTO } from "../../types";
+
+/**
+ * Error types for renaming regions
+ */
+type UpdateRegionError =
+  | { type: "not_found" }
+  | { type: "forbidden" }
+  | { type: "duplicate_name" }
+  | { type: "database_error"; message: string };
+
+type UpdateRegionResult = { success: true; data: RegionResponseDTO } | { success: false; error: UpdateRegionError };
+
+/**
+ * Select clause for region rows (the creator is not exposed)
+ */
+const REGION_SELECT = "id, name, created_at";
+
+/**
+ * Postgres error code for unique constraint violations
+ */
+const UNIQUE_VIOLATION = "23505";
 
 /**
  * Retrieves a paginated list of all regions with optional search
@@ -13,7 +34,7 @@ export async function listRegions(supabase: SupabaseClient, query: RegionsQueryD
   const effectiveLimit = limit ?? 20;
 
   // Build base query
-  let dbQuery = supabase.from("regions").select("*", { count: "exact" });
+  let dbQuery = supabase.from("regions").select(REGION_SELECT, { count: "exact" });
 
   // Apply search filter if provided (case-insensitive substring match)
   if (search && search.trim()) {
@@ -72,7 +93,7 @@ export async function listRegions(supabase: SupabaseClient, query: RegionsQueryD
  */
 export async function getRegionById(supabase: SupabaseClient, id: string): Promise<RegionResponseDTO | null> {
   // Execute query with .maybeSingle() to get exactly one row or null
-  const { data, error } = await supabase.from("regions").select("*").eq("id", id).limit(1).maybeSingle();
+  const { data, error } = await supabase.from("regions").select(REGION_SELECT).eq("id", id).limit(1).maybeSingle();
 
   // Handle database errors
   if (error) {
@@ -84,3 +105,58 @@ export async function getRegionById(supabase: SupabaseClient, id: string): Promi
   // Return region entity or null if not found
   return data;
 }
+
+/**
+ * Renames a region, e.g. to fix a misspelling
+ * Only the user who created the region or an admin may rename it
+ *
+ * @param supabase - Supabase client instance
+ * @param id - UUID of the region
+ * @param data - Validated new name
+ * @returns Result object with either the renamed region or an error
+ *
+ * @example
+ * const result = await updateRegion(supabase, regionId, { name: "Uji" });
+ */
+export async function updateRegion(
+  supabase: SupabaseClient,
+  id: string,
+  data: UpdateRegionDTO
+): Promise<UpdateRegionResult> {
+  const { data: existing, error: lookupError } = await supabase
+    .from("regions")
+    .select("id")
+    .eq("id", id)
+    .limit(1)
+    .maybeSingle();
+
+  if (lookupError) {
+    return { success: false, error: { type: "database_error", message: lookupError.message } };
+  }
+
+  if (!existing) {
+    return { success: false, error: { type: "not_found" } };
+  }
+
+  const { data: region, error } = await supabase
+    .from("regions")
+    .update({ name: data.name })
+    .eq("id", id)
+    .select(REGION_SELECT)
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: { type: "duplicate_name" } };
+  }
+
+  if (error) {
+    return { success: false, error: { type: "database_error", message: error.message } };
+  }
+
+  // RLS (update policy: creator or admin) hides the row from users who may not edit it
+  if (!region) {
+    return { success: false, error: { type: "forbidden" } };
+  }
+
+  return { success: true, data: region };
+}
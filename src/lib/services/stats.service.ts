@@ -0,0 +1,101 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { CatalogStatsResponseDTO, CommunityBlendRatingDTO, StatsResponseDTO } from "../../types";
+import { getUserSettings } from "./user-settings.service";
+
+/**
+ * Retrieves aggregated tasting statistics for the authenticated user
+ * Aggregation runs in the database via the get_tasting_stats RPC function,
+ * so only the summary is transferred regardless of journal size
+ *
+ * @param supabase - Supabase client instance (authenticated as the user; the function reads auth.uid())
+ * @returns Statistics over all of the user's tasting notes
+ * @throws Error if the RPC call fails
+ *
+ * @example
+ * const stats = await getTastingStats(supabase);
+ * const bestBrand = stats.by_brand[0];
+ */
+export async function getTastingStats(supabase: SupabaseClient): Promise<StatsResponseDTO> {
+  const { data, error } = await supabase.rpc("get_tasting_stats");
+
+  // Handle database errors
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch tasting stats: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Retrieves the authenticated user's tasting timeline and statistics for a single blend or brand
+ * Aggregation runs in the database via the get_catalog_tasting_stats RPC function
+ *
+ * @param supabase - Supabase client instance (authenticated as the user; the function reads auth.uid())
+ * @param scope - Either the blend or the brand the notes must belong to
+ * @returns Statistics and timeline over the user's matching tasting notes
+ * @throws Error if the RPC call fails
+ *
+ * @example
+ * const stats = await getCatalogTastingStats(supabase, { blendId });
+ * const latestRating = stats.timeline.at(-1)?.overall_rating;
+ */
+export async function getCatalogTastingStats(
+  supabase: SupabaseClient,
+  scope: { blendId: string } | { brandId: string }
+): Promise<CatalogStatsResponseDTO> {
+  const { data, error } = await supabase.rpc("get_catalog_tasting_stats", {
+    ...("blendId" in scope ? { p_blend_id: scope.blendId } : { p_brand_id: scope.brandId }),
+  });
+
+  // Handle database errors
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch catalog tasting stats: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Retrieves the anonymised community ratings of a blend
+ * Aggregation runs in the security definer get_community_blend_rating function,
+ * which only reads notes of users who opted in and returns aggregates only
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user (to report whether they contribute)
+ * @param blendId - UUID of the blend
+ * @returns Community averages and taster count; averages are null below COMMUNITY_MIN_TASTERS tasters
+ * @throws Error if the RPC call or the settings lookup fails
+ *
+ * @example
+ * const community = await getCommunityBlendRating(supabase, userId, blendId);
+ * if (community.average_rating !== null) {
+ *   // Show it next to the user's own rating
+ * }
+ */
+export async function getCommunityBlendRating(
+  supabase: SupabaseClient,
+  userId: string,
+  blendId: string
+): Promise<CommunityBlendRatingDTO> {
+  const [{ data, error }, settings] = await Promise.all([
+    supabase.rpc("get_community_blend_rating", { p_blend_id: blendId }),
+    getUserSettings(supabase, userId),
+  ]);
+
+  // Handle database errors
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch community blend rating: ${error.message}`);
+  }
+
+  // The function builds every field except the requesting user's consent
+  return {
+    ...data,
+    is_contributing: settings.share_community_ratings,
+  };
+}
@@ -0,0 +1,109 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { NestedTagDTO, TagsListResponseDTO, TagsQueryDTO } from "../../types";
+
+/**
+ * Retrieves a paginated list of all tags with optional search
+ * Tags are public global data, accessible without authentication
+ *
+ * @param supabase - Supabase client instance
+ * @param query - Query parameters for filtering and pagination
+ * @returns Paginated list of tags with metadata
+ * @throws Error if database query fails
+ *
+ * @example
+ * const result = await listTags(supabase, {
+ *   page: 1,
+ *   limit: 20,
+ *   search: 'gra'
+ * });
+ */
+export async function listTags(supabase: SupabaseClient, query: TagsQueryDTO): Promise<TagsListResponseDTO> {
+  const { page, limit, search } = query;
+
+  // Handle nullish values
+  const effectivePage = page ?? 1;
+  const effectiveLimit = limit ?? 20;
+
+  // Build base query
+  let dbQuery = supabase.from("tags").select("*", { count: "exact" });
+
+  // Apply search filter if provided (case-insensitive substring match)
+  if (search && search.trim()) {
+    dbQuery = dbQuery.ilike("name", `%${search.trim()}%`);
+  }
+
+  // Apply sorting (alphabetical by name for tags)
+  dbQuery = dbQuery.order("name", { ascending: true });
+
+  // Apply pagination
+  const offset = (effectivePage - 1) * effectiveLimit;
+  dbQuery = dbQuery.range(offset, offset + effectiveLimit - 1);
+
+  // Execute query
+  const { data, error, count } = await dbQuery;
+
+  // Handle database errors
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    return {
+      data: [],
+      pagination: {
+        total: count || 0,
+        page: effectivePage,
+        limit: effectiveLimit,
+      },
+    };
+  }
+
+  // Return paginated response (no transformation needed - direct mapping)
+  return {
+    data: data || [],
+    pagination: {
+      total: count || 0,
+      page: effectivePage,
+      limit: effectiveLimit,
+    },
+  };
+}
+
+/**
+ * Resolves tag names to tags, creating the ones that do not exist yet
+ * Names are matched case-insensitively (CITEXT), so "Grassy" reuses "grassy"
+ *
+ * @param supabase - Supabase client instance
+ * @param names - Validated, de-duplicated tag names
+ * @returns Tags for every given name
+ * @throws Error if database operation fails
+ *
+ * @example
+ * const tags = await findOrCreateTags(supabase, ['grassy', 'nutty']);
+ */
+export async function findOrCreateTags(supabase: SupabaseClient, names: string[]): Promise<NestedTagDTO[]> {
+  if (names.length === 0) {
+    return [];
+  }
+
+  // Create missing tags (existing names are left untouched, also under concurrent inserts)
+  const { error: insertError } = await supabase.from("tags").upsert(
+    names.map((name) => ({ name })),
+    { onConflict: "name", ignoreDuplicates: true }
+  );
+
+  if (insertError) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", insertError);
+    throw new Error(`Failed to create tags: ${insertError.message}`);
+  }
+
+  // Fetch every requested tag, whether it was just created or already existed
+  const { data, error } = await supabase.from("tags").select("id, name").in("name", names); // CITEXT handles case-insensitivity
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch tags: ${error.message}`);
+  }
+
+  return data || [];
+}
@@ -0,0 +1,316 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { PhotoStorage } from "../storage/photo-storage";
+import type { CreateTastingNotePhotoDTO, TastingNotePhotoDTO, TastingNotePhotoEntity } from "../../types";
+
+/**
+ * Photo row fields needed to build a response DTO
+ */
+type PhotoRow = Pick<
+  TastingNotePhotoEntity,
+  "id" | "tasting_note_id" | "kind" | "caption" | "content_type" | "size_bytes" | "created_at"
+>;
+
+/**
+ * Select clause for photo rows, also used when embedding photos in tasting notes
+ */
+export const PHOTO_SELECT = "id, tasting_note_id, kind, caption, content_type, size_bytes, created_at";
+
+/**
+ * File extensions used in storage paths, by content type
+ */
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/**
+ * Validated upload: file bytes plus their content type
+ */
+export interface PhotoUpload {
+  data: ArrayBuffer;
+  contentType: string;
+}
+
+/**
+ * Transforms a photo row into the response DTO
+ * Photos are served through the API, which checks ownership before reading the file
+ *
+ * @param row - Photo row
+ * @returns Photo DTO with its URL
+ */
+export function toTastingNotePhotoDTO(row: PhotoRow): TastingNotePhotoDTO {
+  return {
+    id: row.id,
+    kind: row.kind,
+    caption: row.caption,
+    content_type: row.content_type,
+    size_bytes: row.size_bytes,
+    url: `/api/tasting-notes/${row.tasting_note_id}/photos/${row.id}`,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Retrieves the photos of a tasting note owned by the user, in upload order
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param noteId - UUID of the tasting note
+ * @returns Photos of the note, or null if the note doesn't exist or belongs to another user
+ * @throws Error if database query fails
+ *
+ * @example
+ * const photos = await listTastingNotePhotos(supabase, userId, noteId);
+ * if (photos && photos.length >= MAX_PHOTOS_PER_NOTE) {
+ *   console.log('Photo limit reached');
+ * }
+ */
+export async function listTastingNotePhotos(
+  supabase: SupabaseClient,
+  userId: string,
+  noteId: string
+): Promise<TastingNotePhotoDTO[] | null> {
+  // Verify note ownership first, so an unknown note is distinguishable from a note without photos
+  const { data: note, error: noteError } = await supabase
+    .from("tasting_notes")
+    .select("id")
+    .eq("id", noteId)
+    .eq("user_id", userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (noteError) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", noteError);
+    throw new Error(`Failed to fetch tasting note: ${noteError.message}`);
+  }
+
+  if (!note) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tasting_note_photos")
+    .select(PHOTO_SELECT)
+    .eq("tasting_note_id", noteId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch photos: ${error.message}`);
+  }
+
+  return (data || []).map(toTastingNotePhotoDTO);
+}
+
+/**
+ * Stores an uploaded photo and attaches it to a tasting note
+ * The file is written first; if recording the row fails, the file is removed again
+ *
+ * @param supabase - Supabase client instance
+ * @param storage - Photo storage backend
+ * @param userId - UUID of the authenticated user
+ * @param noteId - UUID of a tasting note owned by the user (RLS rejects other notes)
+ * @param upload - Validated file bytes and content type
+ * @param data - Validated photo metadata
+ * @returns The attached photo
+ * @throws Error if storing the file or recording the photo fails
+ *
+ * @example
+ * const photo = await addTastingNotePhoto(supabase, storage, userId, noteId,
+ *   { data: await file.arrayBuffer(), contentType: 'image/jpeg' },
+ *   { kind: 'foam', caption: 'Fine microfoam after 20s' }
+ * );
+ */
+export async function addTastingNotePhoto(
+  supabase: SupabaseClient,
+  storage: PhotoStorage,
+  userId: string,
+  noteId: string,
+  upload: PhotoUpload,
+  data: CreateTastingNotePhotoDTO
+): Promise<TastingNotePhotoDTO> {
+  const id = crypto.randomUUID();
+  const storagePath = `${userId}/${noteId}/${id}.${PHOTO_EXTENSIONS[upload.contentType] ?? "bin"}`;
+
+  // Step 1: Store the file
+  await storage.upload(storagePath, upload.data, upload.contentType);
+
+  // Step 2: Record the photo
+  const { data: row, error } = await supabase
+    .from("tasting_note_photos")
+    .insert({
+      id,
+      tasting_note_id: noteId,
+      user_id: userId,
+      storage_path: storagePath,
+      kind: data.kind ?? "other",
+      caption: data.caption ?? null,
+      content_type: upload.contentType,
+      size_bytes: upload.data.byteLength,
+    })
+    .select(PHOTO_SELECT)
+    .single();
+
+  if (error || !row) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    await storage.remove([storagePath]).catch(() => undefined);
+    throw new Error(`Failed to save photo: ${error?.message ?? "no row returned"}`);
+  }
+
+  return toTastingNotePhotoDTO(row);
+}
+
+/**
+ * Reads the file of a photo owned by the user
+ *
+ * @param supabase - Supabase client instance
+ * @param storage - Photo storage backend
+ * @param userId - UUID of the authenticated user
+ * @param noteId - UUID of the tasting note the photo belongs to
+ * @param photoId - UUID of the photo
+ * @returns File bytes and content type, or null if the photo or its file doesn't exist
+ * @throws Error if database query or reading the file fails
+ *
+ * @example
+ * const file = await getTastingNotePhotoFile(supabase, storage, userId, noteId, photoId);
+ * if (file) {
+ *   return new Response(file.data, { headers: { 'Content-Type': file.contentType } });
+ * }
+ */
+export async function getTastingNotePhotoFile(
+  supabase: SupabaseClient,
+  storage: PhotoStorage,
+  userId: string,
+  noteId: string,
+  photoId: string
+): Promise<PhotoUpload | null> {
+  const { data: row, error } = await supabase
+    .from("tasting_note_photos")
+    .select("storage_path, content_type")
+    .eq("id", photoId)
+    .eq("tasting_note_id", noteId)
+    .eq("user_id", userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch photo: ${error.message}`);
+  }
+
+  if (!row) {
+    return null;
+  }
+
+  const file = await storage.download(row.storage_path);
+
+  return file ? { data: file, contentType: row.content_type } : null;
+}
+
+/**
+ * Detaches a photo from a tasting note and deletes its file
+ * A file that cannot be removed is logged and left behind; the photo is gone either way
+ *
+ * @param supabase - Supabase client instance
+ * @param storage - Photo storage backend
+ * @param userId - UUID of the authenticated user
+ * @param noteId - UUID of the tasting note the photo belongs to
+ * @param photoId - UUID of the photo
+ * @returns True if photo was deleted, false if not found
+ * @throws Error if database operation fails
+ *
+ * @example
+ * const deleted = await deleteTastingNotePhoto(supabase, storage, userId, noteId, photoId);
+ */
+export async function deleteTastingNotePhoto(
+  supabase: SupabaseClient,
+  storage: PhotoStorage,
+  userId: string,
+  noteId: string,
+  photoId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("tasting_note_photos")
+    .delete()
+    .eq("id", photoId)
+    .eq("tasting_note_id", noteId)
+    .eq("user_id", userId)
+    .select("storage_path")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete photo: ${error.message}`);
+  }
+
+  if (!data) {
+    return false;
+  }
+
+  await removePhotoFiles(storage, [data.storage_path]);
+  return true;
+}
+
+/**
+ * Deletes stored photo files after their rows are gone
+ * Failures are logged rather than thrown, since the rows can no longer be restored
+ *
+ * @param storage - Photo storage backend
+ * @param paths - Storage paths of the removed photos
+ */
+export async function removePhotoFiles(storage: PhotoStorage, paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return;
+  }
+
+  try {
+    await storage.remove(paths);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Failed to remove photo files:", error);
+  }
+}
+
+/**
+ * Reads the file of a photo attached to a shared tasting note
+ * Works without authentication - the lookup goes through the get_shared_tasting_note_photo function,
+ * and the storage policy only exposes files of shared notes
+ *
+ * @param supabase - Supabase client instance (may be anonymous)
+ * @param storage - Photo storage backend
+ * @param token - Share token of the note
+ * @param photoId - UUID of the photo
+ * @returns File bytes and content type, or null if the photo, its file or the share link doesn't exist
+ * @throws Error if database query or reading the file fails
+ *
+ * @example
+ * const file = await getSharedPhotoFile(supabase, storage, token, photoId);
+ */
+export async function getSharedPhotoFile(
+  supabase: SupabaseClient,
+  storage: PhotoStorage,
+  token: string,
+  photoId: string
+): Promise<PhotoUpload | null> {
+  const { data: row, error } = await supabase
+    .rpc("get_shared_tasting_note_photo", { p_token: token, p_photo_id: photoId })
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch photo: ${error.message}`);
+  }
+
+  if (!row) {
+    return null;
+  }
+
+  const file = await storage.download(row.storage_path);
+
+  return file ? { data: file, contentType: row.content_type } : null;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import type { SupabaseClient } from "../../db/supabase.client";
+import { MAX_IMPORT_ROWS } from "../validators/import-tasting-notes.validator";
+import { importTastingNotes } from "./tasting-notes-import.service";
+
+/**
+ * Unit tests for the import row limit
+ * Rows without columns fail validation, so no request reaches the (absent) Supabase client
+ */
+describe("importTastingNotes", () => {
+  const supabase = {} as SupabaseClient;
+  const content = (rows: number) => JSON.stringify(Array.from({ length: rows }, () => ({})));
+
+  it("should accept exactly the maximum number of rows", async () => {
+    const result = await importTastingNotes(supabase, "user-1", {
+      format: "json",
+      content: content(MAX_IMPORT_ROWS),
+      dry_run: true,
+    });
+
+    expect(result).toMatchObject({ success: true, data: { total: MAX_IMPORT_ROWS, invalid: MAX_IMPORT_ROWS } });
+  });
+
+  it("should reject more rows than the maximum", async () => {
+    const result = await importTastingNotes(supabase, "user-1", {
+      format: "json",
+      content: content(MAX_IMPORT_ROWS + 1),
+      dry_run: false,
+    });
+
+    expect(result).toEqual({ success: false, error: { type: "too_many_rows", limit: MAX_IMPORT_ROWS } });
+  });
+});
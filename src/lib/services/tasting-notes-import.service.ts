@@ -0,0 +1,323 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { ImportRowResultDTO, ImportTastingNotesDTO, ImportTastingNotesResponseDTO } from "../../types";
+import { parseCsv, unescapeCsvFormula } from "../helpers/csv";
+import { formatZodErrors } from "../helpers/format-error";
+import { importTastingNoteRowSchema, MAX_IMPORT_ROWS } from "../validators/import-tasting-notes.validator";
+import type { ImportTastingNoteRowInput } from "../validators/import-tasting-notes.validator";
+import { findBlendIdByNames, findOrCreateBlend } from "./blends.service";
+import { createTastingNote } from "./tasting-notes.service";
+
+/**
+ * Error types for tasting notes import
+ */
+type ImportTastingNotesError =
+  | { type: "parse_error"; message: string }
+  | { type: "no_rows" }
+  | { type: "too_many_rows"; limit: number };
+
+type ImportTastingNotesResult =
+  | { success: true; data: ImportTastingNotesResponseDTO }
+  | { success: false; error: ImportTastingNotesError };
+
+/**
+ * Accepted column names (after normalisation) for each import field
+ * The first alias matches the export column names, so exports can be re-imported
+ */
+const COLUMN_ALIASES: Record<keyof ImportTastingNoteRowInput, string[]> = {
+  brand_name: ["brand_name", "brand"],
+  blend_name: ["blend_name", "blend"],
+  region_name: ["region_name", "region"],
+  overall_rating: ["overall_rating", "rating", "overall"],
+  umami: ["umami"],
+  bitter: ["bitter"],
+  sweet: ["sweet"],
+  foam: ["foam", "foam_quality"],
+  notes_koicha: ["notes_koicha", "koicha"],
+  notes_milk: ["notes_milk", "notes_with_milk", "milk"],
+  brew_method: ["brew_method", "method", "preparation"],
+  powder_grams: ["powder_grams", "powder"],
+  water_ml: ["water_ml", "water"],
+  water_temp_c: ["water_temp_c", "water_temperature", "temperature", "temp"],
+  whisk_type: ["whisk_type", "whisk"],
+  milk_type: ["milk_type"],
+  // Legacy price_pln exports were already per 100g in PLN, which matches the defaults
+  price_amount: ["price_amount", "price", "amount", "price_pln", "price_per_100g"],
+  price_currency: ["price_currency", "currency"],
+  package_grams: ["package_grams", "grams", "package_size"],
+  purchase_source: ["purchase_source", "source"],
+  tasted_at: ["tasted_at", "tasting_date", "date"],
+  tags: ["tags", "flavor_tags"],
+};
+
+const NUMERIC_FIELDS = new Set<keyof ImportTastingNoteRowInput>([
+  "overall_rating",
+  "umami",
+  "bitter",
+  "sweet",
+  "foam",
+  "powder_grams",
+  "water_ml",
+  "water_temp_c",
+  "price_amount",
+  "package_grams",
+]);
+
+/**
+ * Normalises a column name: lowercase, non-alphanumerics collapsed to underscores
+ */
+function normalizeColumnName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Parses raw import content into a list of records keyed by column name
+ *
+ * @throws Error if the content is not valid CSV/JSON or has an unexpected shape
+ */
+function parseImportContent(format: ImportTastingNotesDTO["format"], content: string): Record<string, unknown>[] {
+  if (format === "csv") {
+    const [header, ...rows] = parseCsv(content);
+
+    if (!header) {
+      return [];
+    }
+
+    return rows.map((cells) =>
+      Object.fromEntries(header.map((column, index) => [column, unescapeCsvFormula(cells[index] ?? "")]))
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("Invalid JSON");
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error("JSON content must be an array of objects");
+  }
+
+  return parsed.map((item) => {
+    if (typeof item !== "object" || item === null || Array.isArray(item)) {
+      return {};
+    }
+
+    // Flatten nested API shape (blend.brand.name etc.) into flat columns
+    const record = { ...(item as Record<string, unknown>) };
+    const blend = record.blend;
+    if (typeof blend === "object" && blend !== null) {
+      const nested = blend as { name?: unknown; brand?: { name?: unknown }; region?: { name?: unknown } };
+      record.blend = nested.name;
+      record.brand ??= nested.brand?.name;
+      record.region ??= nested.region?.name;
+    }
+    return record;
+  });
+}
+
+/**
+ * Maps a raw record onto import row fields, coercing spreadsheet values
+ * Empty strings become null, numeric strings become numbers, currency codes are
+ * uppercased and tag lists ("grassy; nutty") are split. Values that cannot be coerced are passed through unchanged so validation
+ * reports them.
+ */
+function mapImportRecord(record: Record<string, unknown>): Record<string, unknown> {
+  const normalized = new Map(Object.entries(record).map(([key, value]) => [normalizeColumnName(key), value]));
+  const mapped: Record<string, unknown> = {};
+
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [keyof ImportTastingNoteRowInput, string[]][]) {
+    const alias = aliases.find((name) => normalized.has(name));
+    if (alias === undefined) {
+      continue;
+    }
+
+    let value = normalized.get(alias);
+
+    if (typeof value === "string") {
+      value = value.trim() === "" ? null : value;
+    }
+
+    if (NUMERIC_FIELDS.has(field) && typeof value === "string") {
+      const numeric = Number(value.trim().replace(",", "."));
+      value = Number.isNaN(numeric) ? value : numeric;
+    }
+
+    if (field === "price_currency" && typeof value === "string") {
+      value = value.trim().toUpperCase();
+    }
+
+    // Exports join tags with "; ", hand-written files often use commas
+    if (field === "tags") {
+      value = typeof value === "string" ? value.split(/[;,]/).filter((name) => name.trim() !== "") : (value ?? []);
+    }
+
+    // Spreadsheets often export dates with a time; the tasting date is the day part
+    if (field === "tasted_at" && typeof value === "string" && /^\d{4}-\d{2}-\d{2}[T ]/.test(value.trim())) {
+      value = value.trim().slice(0, 10);
+    }
+
+    if (field === "brew_method" && typeof value === "string") {
+      value = value.trim().toLowerCase();
+    }
+
+    mapped[field] = value;
+  }
+
+  return mapped;
+}
+
+/**
+ * Builds a case-insensitive cache key for a blend identified by names
+ */
+function getBlendKey(row: ImportTastingNoteRowInput): string {
+  return [row.brand_name, row.region_name, row.blend_name].map((name) => name.toLowerCase()).join("|");
+}
+
+/**
+ * Imports tasting notes from CSV or JSON content for a specific user
+ * Each row is validated with the tasting note rules and its blend is resolved by
+ * brand/region/blend names. In dry-run mode nothing is written and the result is a
+ * preview; otherwise valid rows are imported (creating missing brands, regions and
+ * blends) and invalid rows are skipped.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param data - Validated import request
+ * @returns Result object with per-row outcomes or a content-level error
+ *
+ * @example
+ * const result = await importTastingNotes(supabase, userId, {
+ *   format: 'csv',
+ *   content: 'brand,blend,region,rating\nIppodo,Sayaka,Uji,5',
+ *   dry_run: true
+ * });
+ */
+export async function importTastingNotes(
+  supabase: SupabaseClient,
+  userId: string,
+  data: ImportTastingNotesDTO
+): Promise<ImportTastingNotesResult> {
+  const dryRun = data.dry_run ?? true;
+
+  // Step 1: Parse content into records
+  let records: Record<string, unknown>[];
+  try {
+    records = parseImportContent(data.format, data.content);
+  } catch (error) {
+    return {
+      success: false,
+      error: { type: "parse_error", message: error instanceof Error ? error.message : "Could not parse content" },
+    };
+  }
+
+  if (records.length === 0) {
+    return { success: false, error: { type: "no_rows" } };
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    return { success: false, error: { type: "too_many_rows", limit: MAX_IMPORT_ROWS } };
+  }
+
+  // Step 2: Map and validate every row
+  const validatedRows = records.map((record) => importTastingNoteRowSchema.safeParse(mapImportRecord(record)));
+
+  // Step 3: Resolve blends (lookup only for dry runs, find-or-create otherwise)
+  const blendCache = new Map<string, { id: string | null; isNew: boolean; error: string | null }>();
+  const rows: ImportRowResultDTO[] = [];
+
+  for (const [index, result] of validatedRows.entries()) {
+    const rowNumber = index + 1;
+
+    if (!result.success) {
+      const raw = mapImportRecord(records[index]);
+      rows.push({
+        row: rowNumber,
+        status: "invalid",
+        brand_name: typeof raw.brand_name === "string" ? raw.brand_name : null,
+        blend_name: typeof raw.blend_name === "string" ? raw.blend_name : null,
+        region_name: typeof raw.region_name === "string" ? raw.region_name : null,
+        overall_rating: typeof raw.overall_rating === "number" ? raw.overall_rating : null,
+        is_new_blend: null,
+        note_id: null,
+        errors: formatZodErrors(result.error),
+      });
+      continue;
+    }
+
+    const { brand_name, blend_name, region_name, ...note } = result.data;
+    const key = getBlendKey(result.data);
+    let blend = blendCache.get(key);
+
+    if (!blend) {
+      const names = { blendName: blend_name, brandName: brand_name, regionName: region_name };
+
+      if (dryRun) {
+        try {
+          const id = await findBlendIdByNames(supabase, names);
+          blend = { id, isNew: id === null, error: null };
+        } catch (error) {
+          blend = { id: null, isNew: false, error: error instanceof Error ? error.message : "Unknown error" };
+        }
+      } else {
+        const resolved = await findOrCreateBlend(supabase, names);
+        blend = resolved.success
+          ? { id: resolved.data.id, isNew: resolved.data.created, error: null }
+          : { id: null, isNew: false, error: "Could not resolve blend" };
+      }
+
+      blendCache.set(key, blend);
+    }
+
+    const rowResult: ImportRowResultDTO = {
+      row: rowNumber,
+      status: "valid",
+      brand_name,
+      blend_name,
+      region_name,
+      overall_rating: note.overall_rating,
+      is_new_blend: blend.isNew,
+      note_id: null,
+      errors: [],
+    };
+
+    if (blend.error) {
+      rowResult.status = "failed";
+      rowResult.errors = [{ field: "blend_name", message: blend.error }];
+    } else if (!dryRun && blend.id) {
+      // Step 4: Create the tasting note
+      try {
+        const created = await createTastingNote(supabase, userId, { ...note, blend_id: blend.id });
+        if (created) {
+          rowResult.status = "imported";
+          rowResult.note_id = created.id;
+        } else {
+          rowResult.status = "failed";
+          rowResult.errors = [{ field: "blend_name", message: "Blend not found" }];
+        }
+      } catch (error) {
+        rowResult.status = "failed";
+        rowResult.errors = [{ field: "", message: error instanceof Error ? error.message : "Unknown error" }];
+      }
+    }
+
+    rows.push(rowResult);
+  }
+
+  return {
+    success: true,
+    data: {
+      dry_run: dryRun,
+      total: rows.length,
+      // Rows that passed validation and did not fail while resolving the blend or inserting the note
+      valid: rows.filter((row) => row.status === "valid" || row.status === "imported").length,
+      invalid: rows.filter((row) => row.status === "invalid").length,
+      imported: rows.filter((row) => row.status === "imported").length,
+      rows,
+    },
+  };
+}
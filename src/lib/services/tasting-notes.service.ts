@@ -1,41 +1,356 @@
 import type { SupabaseClient } from "../../db/supabase.client";
+import { DEFAULT_CURRENCY, DEFAULT_PACKAGE_GRAMS, SENSORY_ATTRIBUTES } from "../constants";
+import { cursorMatchesSorting, decodeListCursor, encodeListCursor, type ListCursor } from "../helpers/cursor";
+import { withPriceDefaults } from "../helpers/price";
+import type { PhotoStorage } from "../storage/photo-storage";
+import { findOrCreateTags } from "./tags.service";
+import { removePhotoFiles, toTastingNotePhotoDTO } from "./tasting-note-photos.service";
 import type {
   CreateTastingNoteDTO,
-  NestedBlendDTO,
+  SharedTastingNoteDTO,
+  SharedTastingNoteEntity,
   TastingNoteEntity,
+  TastingNoteExportRowDTO,
   TastingNoteResponseDTO,
+  TastingNotesCursorListResponseDTO,
   TastingNotesListResponseDTO,
   TastingNotesQueryDTO,
   TastingNoteUpdate,
+  TastingNoteWithRelationsEntity,
   UpdateTastingNoteDTO,
 } from "../../types";
 
 /**
- * Database result type from Supabase query with nested relations
- * Matches the exact structure returned by the select query
- * Note: Uses alias 'blend' instead of table name 'blends' for semantic correctness
+ * Error types for tasting note updates
  */
-type DatabaseTastingNoteResult = TastingNoteEntity & {
-  blend: NestedBlendDTO;
-};
+type UpdateTastingNoteError = { type: "not_found" } | { type: "blend_not_found" };
+
+type UpdateTastingNoteResult =
+  | { success: true; data: TastingNoteResponseDTO }
+  | { success: false; error: UpdateTastingNoteError };
 
 /**
- * Transforms a database result row into a TastingNoteResponseDTO
+ * Select clause for tasting notes with nested relations
+ * Using aliases to match API response structure (blend, brand, region)
+ * tag_filter embeds the join table separately, so filtering by tag does not hide the note's other tags
+ */
+const TASTING_NOTE_SELECT = `
+      *,
+      blend:blends!inner (
+        id,
+        name,
+        grade,
+        cultivars,
+        harvest,
+        is_organic,
+        is_jas_certified,
+        brand:brands!inner (
+          id,
+          name
+        ),
+        region:regions!inner (
+          id,
+          name
+        )
+      ),
+      tags (
+        id,
+        name
+      ),
+      tag_filter:tasting_note_tags (
+        tag_id
+      ),
+      photos:tasting_note_photos (
+        id,
+        tasting_note_id,
+        kind,
+        caption,
+        content_type,
+        size_bytes,
+        created_at
+      )
+    `;
+
+/**
+ * Maps API sort keys to tasting_notes columns
+ */
+const SORT_COLUMNS = {
+  created_at: "created_at",
+  tasted_at: "tasted_at",
+  updated_at: "updated_at",
+  overall_rating: "overall_rating",
+  value: "value_ratio",
+  umami: "umami",
+  bitter: "bitter",
+  sweet: "sweet",
+  foam: "foam",
+  price_pln: "price_per_100g_pln",
+  blend_name: "blend_name",
+  brand_name: "brand_name",
+} as const;
+
+/**
+ * Sort column and direction of a list query
+ */
+interface SortKey {
+  column: (typeof SORT_COLUMNS)[keyof typeof SORT_COLUMNS];
+  ascending: boolean;
+}
+
+/**
+ * Resolves the sort keys of a list query: the primary key, then the secondary key if one is set
+ *
+ * @param query - Sorting parameters (defaults: created_at desc, no secondary key)
+ * @returns Sort keys in order, without the id tie-breaker
+ */
+function getSortKeys(
+  query: Pick<TastingNotesQueryDTO, "sort_by" | "sort_order" | "secondary_sort_by" | "secondary_sort_order">
+): SortKey[] {
+  const keys: SortKey[] = [
+    { column: SORT_COLUMNS[query.sort_by ?? "created_at"], ascending: query.sort_order === "asc" },
+  ];
+
+  if (query.secondary_sort_by) {
+    keys.push({ column: SORT_COLUMNS[query.secondary_sort_by], ascending: query.secondary_sort_order === "asc" });
+  }
+
+  return keys;
+}
+
+/**
+ * Number of rows fetched per database round trip when exporting
+ */
+const EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Random bytes per share token (encoded as 24 url-safe base64 characters)
+ */
+const SHARE_TOKEN_BYTES = 18;
+
+/**
+ * Builds a user-scoped tasting notes query with search, filters and sorting applied
+ * Shared by the paginated list and the export so both return the same rows
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param query - Search, filter and sorting parameters
+ * @param withCount - Whether to request an exact total count
+ * @returns Supabase query builder ready for pagination
+ */
+function buildTastingNotesQuery(
+  supabase: SupabaseClient,
+  userId: string,
+  query: Omit<TastingNotesQueryDTO, "page" | "limit" | "cursor">,
+  withCount: boolean
+) {
+  const {
+    q,
+    brand_ids,
+    region_ids,
+    tag_ids,
+    grade,
+    cultivar,
+    min_rating,
+    min_price,
+    max_price,
+    has_notes_koicha,
+    has_notes_milk,
+    from,
+    to,
+  } = query;
+
+  let dbQuery = supabase
+    .from("tasting_notes")
+    .select(TASTING_NOTE_SELECT, withCount ? { count: "exact" } : undefined)
+    .eq("user_id", userId);
+
+  // Apply full-text search if provided (backed by the search_vector GIN index)
+  if (q) {
+    dbQuery = dbQuery.textSearch("search_vector", q, { type: "websearch", config: "simple" });
+  }
+
+  // Apply brand filter if provided
+  if (brand_ids && brand_ids.length > 0) {
+    dbQuery = dbQuery.in("blend.brand_id", brand_ids);
+  }
+
+  // Apply region filter if provided
+  if (region_ids && region_ids.length > 0) {
+    dbQuery = dbQuery.in("blend.region_id", region_ids);
+  }
+
+  // Apply blend grade and cultivar filters if provided (cultivars match case-insensitively via CITEXT)
+  if (grade) {
+    dbQuery = dbQuery.eq("blend.grade", grade);
+  }
+
+  if (cultivar) {
+    dbQuery = dbQuery.contains("blend.cultivars", [cultivar]);
+  }
+
+  // Apply tag filter if provided (notes with any of the tags; the null check turns the embed into a row filter)
+  if (tag_ids && tag_ids.length > 0) {
+    dbQuery = dbQuery.in("tag_filter.tag_id", tag_ids).not("tag_filter", "is", null);
+  }
+
+  // Apply minimum rating filter if provided
+  if (min_rating !== undefined && min_rating !== null) {
+    dbQuery = dbQuery.gte("overall_rating", min_rating);
+  }
+
+  // Apply price range filter if provided (notes without a price are excluded)
+  if (min_price !== undefined && min_price !== null) {
+    dbQuery = dbQuery.gte("price_per_100g_pln", min_price);
+  }
+
+  if (max_price !== undefined && max_price !== null) {
+    dbQuery = dbQuery.lte("price_per_100g_pln", max_price);
+  }
+
+  // Apply tasting date range if provided (inclusive)
+  if (from) {
+    dbQuery = dbQuery.gte("tasted_at", from);
+  }
+
+  if (to) {
+    dbQuery = dbQuery.lte("tasted_at", to);
+  }
+
+  // Apply sensory score ranges if provided (notes without the score are excluded)
+  for (const attribute of SENSORY_ATTRIBUTES) {
+    const min = query[`min_${attribute}`];
+    const max = query[`max_${attribute}`];
+
+    if (min !== undefined && min !== null) {
+      dbQuery = dbQuery.gte(attribute, min);
+    }
+
+    if (max !== undefined && max !== null) {
+      dbQuery = dbQuery.lte(attribute, max);
+    }
+  }
+
+  // Apply written-notes filters if provided (empty text counts as no notes)
+  for (const [column, hasNotes] of [
+    ["notes_koicha", has_notes_koicha],
+    ["notes_milk", has_notes_milk],
+  ] as const) {
+    if (hasNotes === true) {
+      dbQuery = dbQuery.not(column, "is", null).neq(column, "");
+    } else if (hasNotes === false) {
+      dbQuery = dbQuery.or(`${column}.is.null,${column}.eq.""`);
+    }
+  }
+
+  // Apply sorting (notes missing a sort value, e.g. unpriced or unscored, always go last;
+  // id as tie-breaker keeps batches stable)
+  for (const key of getSortKeys(query)) {
+    dbQuery = dbQuery.order(key.column, { ascending: key.ascending, nullsFirst: false });
+  }
+
+  return dbQuery.order("id", { ascending: true });
+}
+
+/**
+ * Quotes a value for a PostgREST filter, escaping backslashes and double quotes
+ * Names may contain commas, dots and parentheses, which are only literal inside quotes
+ */
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Builds the PostgREST filter selecting the rows after a cursor position
+ * Mirrors the list ordering: each sort key in its direction with nulls last, then id ascending.
+ * A row comes later if it ties on the leading keys and is after the cursor on the next one;
+ * past a non-null value that means a further value or null, while a null value has nothing after it
+ *
+ * @param keys - Sort keys of the list
+ * @param cursor - Position of the last row of the previous page
+ * @returns Filter for .or()
+ */
+function buildCursorFilter(keys: SortKey[], cursor: ListCursor): string {
+  const terms: string[] = [];
+  const ties: string[] = [];
+
+  keys.forEach(({ column, ascending }, index) => {
+    const value = cursor.values[index];
+
+    if (value === null) {
+      ties.push(`${column}.is.null`);
+      return;
+    }
+
+    const after = `or(${column}.${ascending ? "gt" : "lt"}.${quoteFilterValue(value)},${column}.is.null)`;
+    terms.push(ties.length > 0 ? `and(${[...ties, after].join(",")})` : after);
+    ties.push(`${column}.eq.${quoteFilterValue(value)}`);
+  });
+
+  terms.push(`and(${[...ties, `id.gt.${cursor.id}`].join(",")})`);
+  return terms.join(",");
+}
+
+/**
+ * Retrieves the best (highest) rating-per-PLN ratio across all of a user's notes
+ * Used as the reference point when normalising value scores
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @returns Highest value ratio, or null if the user has no priced notes
+ * @throws Error if database query fails
+ */
+async function getMaxValueRatio(supabase: SupabaseClient, userId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("tasting_notes")
+    .select("value_ratio")
+    .eq("user_id", userId)
+    .not("value_ratio", "is", null)
+    .order("value_ratio", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch value ratio: ${error.message}`);
+  }
+
+  return data?.value_ratio ?? null;
+}
+
+/**
+ * Normalises a note's value ratio to a 0-100 score against the user's best ratio
+ *
+ * @param valueRatio - Overall rating per PLN of the note
+ * @param maxValueRatio - Best ratio across the user's notes
+ * @returns Rounded score (100 = best value in the journal), or null without a price
+ */
+function toValueScore(valueRatio: number | null, maxValueRatio: number | null): number | null {
+  if (valueRatio === null || !maxValueRatio) {
+    return null;
+  }
+
+  return Math.round((valueRatio / maxValueRatio) * 100);
+}
+
+/**
+ * Transforms a shared tasting note document into a SharedTastingNoteDTO
  * Restructures the nested relations to match the API response format
  *
  * @param row - Raw database result with nested relations
- * @returns Formatted tasting note response DTO
+ * @returns Formatted shared tasting note DTO
  * @throws Error if blend data is missing (should not happen with proper foreign keys)
  */
-function transformToTastingNoteResponseDTO(row: DatabaseTastingNoteResult): TastingNoteResponseDTO {
+function transformToSharedTastingNoteDTO(row: SharedTastingNoteEntity): SharedTastingNoteDTO {
   if (!row.blend) {
     throw new Error(`Blend data missing for tasting note ${row.id}`);
   }
 
   return {
     id: row.id,
-    user_id: row.user_id,
     blend: row.blend,
+    tags: [...row.tags].sort((a, b) => a.name.localeCompare(b.name)),
+    photos: [...row.photos].sort((a, b) => a.created_at.localeCompare(b.created_at)).map(toTastingNotePhotoDTO),
     overall_rating: row.overall_rating,
     umami: row.umami,
     bitter: row.bitter,
@@ -43,16 +358,97 @@ function transformToTastingNoteResponseDTO(row: DatabaseTastingNoteResult): Tast
     foam: row.foam,
     notes_koicha: row.notes_koicha,
     notes_milk: row.notes_milk,
-    price_pln: row.price_pln,
+    brew_method: row.brew_method,
+    powder_grams: row.powder_grams,
+    water_ml: row.water_ml,
+    water_temp_c: row.water_temp_c,
+    whisk_type: row.whisk_type,
+    milk_type: row.milk_type,
+    price_amount: row.price_amount,
+    price_currency: row.price_currency,
+    package_grams: row.package_grams,
     purchase_source: row.purchase_source,
+    is_public: row.is_public,
+    share_token: row.share_token,
+    tasted_at: row.tasted_at,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
 }
 
+/**
+ * Transforms a database result row into a TastingNoteResponseDTO
+ * Adds the owner and the price-derived fields to the shared fields
+ *
+ * @param row - Raw database result with nested relations
+ * @param maxValueRatio - Best value ratio across the user's notes, used for the value score
+ * @returns Formatted tasting note response DTO
+ * @throws Error if blend data is missing (should not happen with proper foreign keys)
+ */
+function transformToTastingNoteResponseDTO(
+  row: TastingNoteWithRelationsEntity,
+  maxValueRatio: number | null
+): TastingNoteResponseDTO {
+  return {
+    ...transformToSharedTastingNoteDTO(row),
+    user_id: row.user_id,
+    price_per_100g_pln: row.price_per_100g_pln,
+    value_score: toValueScore(row.value_ratio, maxValueRatio),
+  };
+}
+
+/**
+ * Generates an unguessable share token (url-safe base64 without padding)
+ */
+function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_TOKEN_BYTES));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+/**
+ * Replaces the tags of a tasting note, creating tags that do not exist yet
+ * Links to tags no longer listed are removed; existing links are kept
+ * New links are added before stale ones are removed, so a failure never leaves the note with fewer tags
+ *
+ * @param supabase - Supabase client instance
+ * @param noteId - UUID of the tasting note (RLS ensures user ownership)
+ * @param names - Validated, de-duplicated tag names (empty array removes all tags)
+ * @throws Error if database operation fails
+ */
+async function replaceTastingNoteTags(supabase: SupabaseClient, noteId: string, names: string[]): Promise<void> {
+  const tags = await findOrCreateTags(supabase, names);
+  const tagIds = tags.map((tag) => tag.id);
+
+  // Add links for new tags (links that already exist are left untouched)
+  if (tagIds.length > 0) {
+    const { error: insertError } = await supabase.from("tasting_note_tags").upsert(
+      tagIds.map((tagId) => ({ tasting_note_id: noteId, tag_id: tagId })),
+      { onConflict: "tasting_note_id,tag_id", ignoreDuplicates: true }
+    );
+
+    if (insertError) {
+      throw new Error(`Failed to update tasting note tags: ${insertError.message}`);
+    }
+  }
+
+  // Remove links to tags that are no longer listed
+  let deleteQuery = supabase.from("tasting_note_tags").delete().eq("tasting_note_id", noteId);
+  if (tagIds.length > 0) {
+    deleteQuery = deleteQuery.not("tag_id", "in", `(${tagIds.join(",")})`);
+  }
+
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    throw new Error(`Failed to update tasting note tags: ${deleteError.message}`);
+  }
+}
+
 /**
  * Retrieves a paginated list of tasting notes for a specific user
- * with optional filtering and sorting
+ * with optional full-text search, filtering and sorting
  *
  * @param supabase - Supabase client instance
  * @param userId - UUID of the authenticated user
@@ -64,6 +460,7 @@ function transformToTastingNoteResponseDTO(row: DatabaseTastingNoteResult): Tast
  * const result = await listTastingNotes(supabase, userId, {
  *   page: 1,
  *   limit: 20,
+ *   q: 'nutty uji',
  *   brand_ids: ['uuid1', 'uuid2'],
  *   min_rating: 4,
  *   sort_by: 'overall_rating',
@@ -75,55 +472,20 @@ export async function listTastingNotes(
   userId: string,
   query: TastingNotesQueryDTO
 ): Promise<TastingNotesListResponseDTO> {
-  const { page, limit, brand_ids, region_ids, min_rating, sort_by = "created_at", sort_order = "desc" } = query;
+  const { page, limit, ...filters } = query;
 
   // Handle nullish values
   const effectivePage = page ?? 1;
   const effectiveLimit = limit ?? 20;
 
-  // Build base query with nested relations
-  // Using aliases to match API response structure (blend, brand, region)
-  const selectClause = `
-      *,
-      blend:blends!inner (
-        id,
-        name,
-        brand:brands!inner (
-          id,
-          name
-        ),
-        region:regions!inner (
-          id,
-          name
-        )
-      )
-    `;
-  let dbQuery = supabase.from("tasting_notes").select(selectClause, { count: "exact" }).eq("user_id", userId);
-
-  // Apply brand filter if provided
-  if (brand_ids && brand_ids.length > 0) {
-    dbQuery = dbQuery.in("blend.brand_id", brand_ids);
-  }
-
-  // Apply region filter if provided
-  if (region_ids && region_ids.length > 0) {
-    dbQuery = dbQuery.in("blend.region_id", region_ids);
-  }
-
-  // Apply minimum rating filter if provided
-  if (min_rating !== undefined && min_rating !== null) {
-    dbQuery = dbQuery.gte("overall_rating", min_rating);
-  }
-
-  // Apply sorting
-  dbQuery = dbQuery.order(sort_by ?? "created_at", { ascending: sort_order === "asc" });
+  let dbQuery = buildTastingNotesQuery(supabase, userId, filters, true);
 
   // Apply pagination
   const offset = (effectivePage - 1) * effectiveLimit;
   dbQuery = dbQuery.range(offset, offset + effectiveLimit - 1);
 
-  // Execute query
-  const { data, error, count } = await dbQuery;
+  // Execute query alongside the value score reference
+  const [{ data, error, count }, maxValueRatio] = await Promise.all([dbQuery, getMaxValueRatio(supabase, userId)]);
 
   // Handle database errors
   if (error) {
@@ -152,7 +514,7 @@ export async function listTastingNotes(
   }
 
   // Transform database results to DTOs
-  const transformedData = data.map(transformToTastingNoteResponseDTO);
+  const transformedData = data.map((row) => transformToTastingNoteResponseDTO(row, maxValueRatio));
 
   // Return paginated response
   return {
@@ -165,6 +527,79 @@ export async function listTastingNotes(
   };
 }
 
+/**
+ * Retrieves a page of tasting notes after an opaque cursor (keyset pagination)
+ * Accepts the same search, filters and sorting as listTastingNotes, but pages stay stable
+ * while notes are added and no total count is computed
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param query - Query parameters; cursor is a previous next_cursor, or empty for the first page
+ * @returns Page of tasting notes with the cursor of the next page (null on the last page)
+ * @throws Error if the cursor is invalid or does not match the sorting, or if database query fails
+ *
+ * @example
+ * const first = await listTastingNotesByCursor(supabase, userId, { cursor: '', limit: 12 });
+ * const second = await listTastingNotesByCursor(supabase, userId, {
+ *   cursor: first.pagination.next_cursor,
+ *   limit: 12
+ * });
+ */
+export async function listTastingNotesByCursor(
+  supabase: SupabaseClient,
+  userId: string,
+  query: TastingNotesQueryDTO
+): Promise<TastingNotesCursorListResponseDTO> {
+  const { limit, cursor, ...filters } = query;
+
+  const effectiveLimit = limit ?? 20;
+  const sortKeys = getSortKeys(filters);
+
+  let dbQuery = buildTastingNotesQuery(supabase, userId, filters, false);
+
+  if (cursor) {
+    const position = decodeListCursor(cursor);
+    if (!position || !cursorMatchesSorting(position, filters)) {
+      throw new Error("Invalid cursor for the requested sorting");
+    }
+    dbQuery = dbQuery.or(buildCursorFilter(sortKeys, position));
+  }
+
+  // Fetch one extra row to find out whether another page follows
+  const [{ data, error }, maxValueRatio] = await Promise.all([
+    dbQuery.limit(effectiveLimit + 1),
+    getMaxValueRatio(supabase, userId),
+  ]);
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch tasting notes: ${error.message}`);
+  }
+
+  const rows = data || [];
+  const pageRows = rows.slice(0, effectiveLimit);
+  const lastRow = pageRows.at(-1);
+
+  return {
+    data: pageRows.map((row) => transformToTastingNoteResponseDTO(row, maxValueRatio)),
+    pagination: {
+      limit: effectiveLimit,
+      next_cursor:
+        rows.length > effectiveLimit && lastRow
+          ? encodeListCursor({
+              sort_by: filters.sort_by ?? "created_at",
+              sort_order: filters.sort_order ?? "desc",
+              secondary_sort_by: filters.secondary_sort_by ?? null,
+              secondary_sort_order: filters.secondary_sort_by ? (filters.secondary_sort_order ?? "desc") : null,
+              values: sortKeys.map((key) => lastRow[key.column]),
+              id: lastRow.id,
+            })
+          : null,
+    },
+  };
+}
+
 /**
  * Retrieves a single tasting note by its ID for a specific user
  *
@@ -188,23 +623,7 @@ export async function getTastingNoteById(
   // Build query with nested relations (same structure as list)
   const { data, error } = await supabase
     .from("tasting_notes")
-    .select(
-      `
-      *,
-      blend:blends!inner (
-        id,
-        name,
-        brand:brands!inner (
-          id,
-          name
-        ),
-        region:regions!inner (
-          id,
-          name
-        )
-      )
-    `
-    )
+    .select(TASTING_NOTE_SELECT)
     .eq("id", id)
     .eq("user_id", userId)
     .limit(1)
@@ -223,7 +642,7 @@ export async function getTastingNoteById(
   }
 
   // Transform database result to DTO
-  return transformToTastingNoteResponseDTO(data);
+  return transformToTastingNoteResponseDTO(data, await getMaxValueRatio(supabase, userId));
 }
 
 /**
@@ -234,14 +653,15 @@ export async function getTastingNoteById(
  * @param userId - UUID of the authenticated user
  * @param data - Validated tasting note data from request
  * @returns Newly created tasting note with nested relations, or null if blend not found
- * @throws Error if database operation fails
+ * @throws Error if database operation fails (a note whose tags could not be attached is not kept)
  *
  * @example
  * const note = await createTastingNote(supabase, userId, {
  *   blend_id: '123e4567-e89b-12d3-a456-426614174000',
  *   overall_rating: 5,
  *   umami: 5,
- *   notes_koicha: 'Rich and creamy'
+ *   notes_koicha: 'Rich and creamy',
+ *   tags: ['grassy', 'nutty']
  * });
  */
 export async function createTastingNote(
@@ -261,7 +681,8 @@ export async function createTastingNote(
     return null; // Blend not found
   }
 
-  // Step 2: Create tasting note
+  // Step 2: Create tasting note (normalised price is derived by a database trigger)
+  const hasPrice = data.price_amount !== undefined && data.price_amount !== null;
   const { data: tastingNote, error } = await supabase
     .from("tasting_notes")
     .insert({
@@ -274,8 +695,19 @@ export async function createTastingNote(
       foam: data.foam ?? null,
       notes_koicha: data.notes_koicha ?? null,
       notes_milk: data.notes_milk ?? null,
-      price_pln: data.price_pln ?? null,
+      brew_method: data.brew_method ?? null,
+      powder_grams: data.powder_grams ?? null,
+      water_ml: data.water_ml ?? null,
+      water_temp_c: data.water_temp_c ?? null,
+      whisk_type: data.whisk_type ?? null,
+      milk_type: data.milk_type ?? null,
+      // Currency and package size default only when a price is given
+      price_amount: data.price_amount ?? null,
+      price_currency: hasPrice ? (data.price_currency ?? DEFAULT_CURRENCY) : null,
+      package_grams: hasPrice ? (data.package_grams ?? DEFAULT_PACKAGE_GRAMS) : null,
       purchase_source: data.purchase_source ?? null,
+      // The database defaults the tasting date to today
+      ...(data.tasted_at && { tasted_at: data.tasted_at }),
     })
     .select()
     .single();
@@ -284,7 +716,17 @@ export async function createTastingNote(
     throw new Error(`Failed to create tasting note: ${error?.message || "Unknown error"}`);
   }
 
-  // Step 3: Fetch with complete nested relations
+  // Step 3: Attach tags; the note is removed again if that fails, so no untagged note is left behind
+  if (data.tags && data.tags.length > 0) {
+    try {
+      await replaceTastingNoteTags(supabase, tastingNote.id, data.tags);
+    } catch (tagError) {
+      await supabase.from("tasting_notes").delete().eq("id", tastingNote.id).eq("user_id", userId);
+      throw tagError;
+    }
+  }
+
+  // Step 4: Fetch with complete nested relations
   const createdNote = await getTastingNoteById(supabase, userId, tastingNote.id);
 
   if (!createdNote) {
@@ -297,17 +739,20 @@ export async function createTastingNote(
 /**
  * Updates an existing tasting note owned by the authenticated user
  * Only updates fields that are provided in the data object
- * Cannot update blend_id, user_id, created_at (immutable)
+ * Tags, when provided, replace all tags of the note
+ * blend_id re-assigns a mislabelled note to another blend, which must exist (as on creation);
+ * the copied blend/brand names and the search vector follow via database triggers
+ * Cannot update user_id, created_at (immutable)
  *
  * @param supabase - Supabase client instance
  * @param userId - UUID of the authenticated user
  * @param id - UUID of the tasting note to update
  * @param data - Partial tasting note data with fields to update
- * @returns Updated tasting note with nested relations, or null if not found/unauthorized
+ * @returns Result object with either the updated note (with nested relations) or an error
  * @throws Error if database operation fails
  *
  * @example
- * const note = await updateTastingNote(supabase, userId, noteId, {
+ * const result = await updateTastingNote(supabase, userId, noteId, {
  *   overall_rating: 4,
  *   notes_koicha: 'Updated notes'
  * });
@@ -317,10 +762,29 @@ export async function updateTastingNote(
   userId: string,
   id: string,
   data: UpdateTastingNoteDTO
-): Promise<TastingNoteResponseDTO | null> {
+): Promise<UpdateTastingNoteResult> {
+  // Verify the new blend exists before re-assigning the note
+  if (data.blend_id !== undefined) {
+    const { data: blendExists, error: blendError } = await supabase
+      .from("blends")
+      .select("id")
+      .eq("id", data.blend_id)
+      .limit(1)
+      .maybeSingle();
+
+    if (blendError) {
+      throw new Error(`Failed to update tasting note: ${blendError.message}`);
+    }
+
+    if (!blendExists) {
+      return { success: false, error: { type: "blend_not_found" } };
+    }
+  }
+
   // Build update object with only provided fields
   const updateData: Partial<TastingNoteUpdate> = {};
 
+  if (data.blend_id !== undefined) updateData.blend_id = data.blend_id;
   if (data.overall_rating !== undefined) updateData.overall_rating = data.overall_rating;
   if (data.umami !== undefined) updateData.umami = data.umami;
   if (data.bitter !== undefined) updateData.bitter = data.bitter;
@@ -328,47 +792,122 @@ export async function updateTastingNote(
   if (data.foam !== undefined) updateData.foam = data.foam;
   if (data.notes_koicha !== undefined) updateData.notes_koicha = data.notes_koicha;
   if (data.notes_milk !== undefined) updateData.notes_milk = data.notes_milk;
-  if (data.price_pln !== undefined) updateData.price_pln = data.price_pln;
+  if (data.brew_method !== undefined) updateData.brew_method = data.brew_method;
+  if (data.powder_grams !== undefined) updateData.powder_grams = data.powder_grams;
+  if (data.water_ml !== undefined) updateData.water_ml = data.water_ml;
+  if (data.water_temp_c !== undefined) updateData.water_temp_c = data.water_temp_c;
+  if (data.whisk_type !== undefined) updateData.whisk_type = data.whisk_type;
+  if (data.milk_type !== undefined) updateData.milk_type = data.milk_type;
+  if (data.price_amount !== undefined) updateData.price_amount = data.price_amount;
+  if (data.price_currency !== undefined) updateData.price_currency = data.price_currency;
+  if (data.package_grams !== undefined) updateData.package_grams = data.package_grams;
   if (data.purchase_source !== undefined) updateData.purchase_source = data.purchase_source;
+  if (data.tasted_at !== undefined) updateData.tasted_at = data.tasted_at;
 
-  // Update tasting note (RLS ensures user ownership)
-  const { data: updatedNote, error } = await supabase
-    .from("tasting_notes")
-    .update(updateData)
-    .eq("id", id)
-    .eq("user_id", userId)
-    .select()
-    .maybeSingle();
+  // A price added to a note without currency or package size gets the defaults used on create
+  if (data.price_amount !== undefined && data.price_amount !== null) {
+    let stored: Pick<TastingNoteEntity, "price_currency" | "package_grams"> = {
+      price_currency: null,
+      package_grams: null,
+    };
+
+    if (data.price_currency === undefined || data.package_grams === undefined) {
+      const { data: note, error: noteError } = await supabase
+        .from("tasting_notes")
+        .select("price_currency, package_grams")
+        .eq("id", id)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (noteError) {
+        throw new Error(`Failed to update tasting note: ${noteError.message}`);
+      }
+
+      if (!note) {
+        return { success: false, error: { type: "not_found" } };
+      }
+
+      stored = note;
+    }
+
+    const price = withPriceDefaults({
+      price_amount: data.price_amount,
+      price_currency: data.price_currency !== undefined ? data.price_currency : stored.price_currency,
+      package_grams: data.package_grams !== undefined ? data.package_grams : stored.package_grams,
+    });
+    updateData.price_currency = price.price_currency;
+    updateData.package_grams = price.package_grams;
+  }
+
+  // Update tasting note (RLS ensures user ownership); a tags-only update just checks ownership
+  const hasFieldUpdates = Object.keys(updateData).length > 0;
+  const { data: updatedNote, error } = hasFieldUpdates
+    ? await supabase
+        .from("tasting_notes")
+        .update(updateData)
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select("id")
+        .maybeSingle()
+    : await supabase.from("tasting_notes").select("id").eq("id", id).eq("user_id", userId).maybeSingle();
 
   if (error) {
     throw new Error(`Failed to update tasting note: ${error.message}`);
   }
 
   if (!updatedNote) {
-    return null; // Note not found or doesn't belong to user
+    return { success: false, error: { type: "not_found" } }; // Note not found or doesn't belong to user
+  }
+
+  // Replace tags if provided
+  if (data.tags !== undefined) {
+    await replaceTastingNoteTags(supabase, id, data.tags);
   }
 
   // Fetch with complete nested relations
-  return await getTastingNoteById(supabase, userId, id);
+  const note = await getTastingNoteById(supabase, userId, id);
+
+  if (!note) {
+    throw new Error("Failed to fetch updated tasting note");
+  }
+
+  return { success: true, data: note };
 }
 
 /**
  * Deletes an existing tasting note owned by the authenticated user
- * Permanently removes the note from the database
+ * Permanently removes the note from the database, along with its stored photo files
  *
  * @param supabase - Supabase client instance
  * @param userId - UUID of the authenticated user
  * @param id - UUID of the tasting note to delete
+ * @param storage - Photo storage backend holding the note's photo files
  * @returns True if note was deleted, false if not found/unauthorized
  * @throws Error if database operation fails
  *
  * @example
- * const deleted = await deleteTastingNote(supabase, userId, noteId);
+ * const deleted = await deleteTastingNote(supabase, userId, noteId, storage);
  * if (deleted) {
  *   console.log('Note deleted successfully');
  * }
  */
-export async function deleteTastingNote(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+export async function deleteTastingNote(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  storage: PhotoStorage
+): Promise<boolean> {
+  // Collect photo files first - the photo rows are removed together with the note
+  const { data: photos, error: photosError } = await supabase
+    .from("tasting_note_photos")
+    .select("storage_path")
+    .eq("tasting_note_id", id)
+    .eq("user_id", userId);
+
+  if (photosError) {
+    throw new Error(`Failed to delete tasting note: ${photosError.message}`);
+  }
+
   // Delete tasting note (RLS ensures user ownership)
   const { data, error } = await supabase
     .from("tasting_notes")
@@ -382,27 +921,139 @@ export async function deleteTastingNote(supabase: SupabaseClient, userId: string
     throw new Error(`Failed to delete tasting note: ${error.message}`);
   }
 
-  // Return true if a row was deleted, false if not found
-  return data !== null;
+  // Return false if not found
+  if (data === null) {
+    return false;
+  }
+
+  await removePhotoFiles(
+    storage,
+    (photos || []).map((photo) => photo.storage_path)
+  );
+  return true;
+}
+
+/**
+ * Creates or revokes the public share link of a tasting note owned by the authenticated user
+ * Sharing an already shared note keeps its token; revoking clears it, so old links stop working
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param id - UUID of the tasting note
+ * @param isPublic - True to share the note, false to revoke the link
+ * @returns Sharing state of the note, or null if not found/unauthorized
+ * @throws Error if database operation fails
+ *
+ * @example
+ * const sharing = await setTastingNoteSharing(supabase, userId, noteId, true);
+ * if (sharing) {
+ *   console.log(`Shared at /s/${sharing.share_token}`);
+ * }
+ */
+export async function setTastingNoteSharing(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  isPublic: boolean
+): Promise<Pick<TastingNoteEntity, "is_public" | "share_token"> | null> {
+  // Look up the current token (RLS ensures user ownership)
+  const { data: existing, error: fetchError } = await supabase
+    .from("tasting_notes")
+    .select("share_token")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (fetchError) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", fetchError);
+    throw new Error(`Failed to fetch tasting note: ${fetchError.message}`);
+  }
+
+  if (!existing) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("tasting_notes")
+    .update(
+      isPublic
+        ? { is_public: true, share_token: existing.share_token ?? generateShareToken() }
+        : { is_public: false, share_token: null }
+    )
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("is_public, share_token")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update tasting note sharing: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Retrieves a shared tasting note by its share token
+ * Works without authentication - reads go through the get_shared_tasting_note function,
+ * since RLS only lets owners read their notes; it returns nothing for private or revoked notes
+ * Photo URLs point at the public share route; the owner, the price per 100g (based on the owner's
+ * currency rates) and the value score (relative to the owner's other notes) are left out
+ *
+ * @param supabase - Supabase client instance (may be anonymous)
+ * @param token - Share token from the link
+ * @returns Shared tasting note, or null if the link does not exist or was revoked
+ * @throws Error if database query fails
+ *
+ * @example
+ * const note = await getSharedTastingNote(supabase, token);
+ * if (!note) {
+ *   return new Response('Not found', { status: 404 });
+ * }
+ */
+export async function getSharedTastingNote(
+  supabase: SupabaseClient,
+  token: string
+): Promise<SharedTastingNoteDTO | null> {
+  const { data, error } = await supabase.rpc("get_shared_tasting_note", { p_token: token });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch shared tasting note: ${error.message}`);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const note = transformToSharedTastingNoteDTO(data);
+
+  return {
+    ...note,
+    photos: note.photos.map((photo) => ({ ...photo, url: `/api/shared/${token}/photos/${photo.id}` })),
+  };
 }
 
 /**
- * Retrieves exactly two specific tasting notes by their IDs for comparison
+ * Retrieves specific tasting notes by their IDs for comparison
  * Used for the side-by-side comparison feature
  *
  * @param supabase - Supabase client instance
  * @param userId - UUID of the authenticated user
- * @param ids - Array of exactly 2 UUIDs to retrieve
- * @returns Array of exactly 2 tasting notes in requested order, or null if not all found
+ * @param ids - Array of unique UUIDs to retrieve
+ * @returns Array of tasting notes in requested order, or null if not all found
  * @throws Error if database query fails
  *
  * @example
  * const notes = await selectTastingNotes(supabase, userId, [
  *   '123e4567-e89b-12d3-a456-426614174000',
- *   '223e4567-e89b-12d3-a456-426614174001'
+ *   '223e4567-e89b-12d3-a456-426614174001',
+ *   '323e4567-e89b-12d3-a456-426614174002'
  * ]);
  * if (notes) {
- *   console.log('Compare', notes[0].blend.name, 'vs', notes[1].blend.name);
+ *   console.log('Comparing', notes.map((note) => note.blend.name).join(' vs '));
  * }
  */
 export async function selectTastingNotes(
@@ -413,23 +1064,7 @@ export async function selectTastingNotes(
   // Query with nested relations (same structure as getTastingNoteById)
   const { data, error } = await supabase
     .from("tasting_notes")
-    .select(
-      `
-      *,
-      blend:blends!inner (
-        id,
-        name,
-        brand:brands!inner (
-          id,
-          name
-        ),
-        region:regions!inner (
-          id,
-          name
-        )
-      )
-    `
-    )
+    .select(TASTING_NOTE_SELECT)
     .in("id", ids)
     .eq("user_id", userId);
 
@@ -440,21 +1075,111 @@ export async function selectTastingNotes(
     throw new Error(`Failed to select tasting notes: ${error.message}`);
   }
 
-  // Check if we got exactly 2 notes (both must exist and belong to user)
-  if (!data || data.length !== 2) {
+  // Check if we got every requested note (all must exist and belong to user)
+  if (!data || data.length !== ids.length) {
     return null;
   }
 
   // Sort results to match requested order (preserve order of IDs array)
   const sortedData = ids
     .map((id) => data.find((note) => note.id === id))
-    .filter((note): note is DatabaseTastingNoteResult => note !== undefined);
+    .filter((note): note is TastingNoteWithRelationsEntity => note !== undefined);
 
-  // Verify we still have exactly 2 notes after sorting
-  if (sortedData.length !== 2) {
+  // Verify we still have every requested note after sorting
+  if (sortedData.length !== ids.length) {
     return null;
   }
 
   // Transform database results to DTOs
-  return sortedData.map(transformToTastingNoteResponseDTO);
+  const maxValueRatio = await getMaxValueRatio(supabase, userId);
+  return sortedData.map((row) => transformToTastingNoteResponseDTO(row, maxValueRatio));
+}
+
+/**
+ * Flattens a tasting note into a single-level export row
+ *
+ * @param note - Tasting note response DTO with nested relations
+ * @returns Export row with brand, blend and region names inlined
+ */
+function transformToExportRowDTO(note: TastingNoteResponseDTO): TastingNoteExportRowDTO {
+  return {
+    id: note.id,
+    brand_name: note.blend.brand.name,
+    blend_name: note.blend.name,
+    region_name: note.blend.region.name,
+    tags: note.tags.map((tag) => tag.name).join("; "),
+    overall_rating: note.overall_rating,
+    umami: note.umami,
+    bitter: note.bitter,
+    sweet: note.sweet,
+    foam: note.foam,
+    notes_koicha: note.notes_koicha,
+    notes_milk: note.notes_milk,
+    brew_method: note.brew_method,
+    powder_grams: note.powder_grams,
+    water_ml: note.water_ml,
+    water_temp_c: note.water_temp_c,
+    whisk_type: note.whisk_type,
+    milk_type: note.milk_type,
+    price_amount: note.price_amount,
+    price_currency: note.price_currency,
+    package_grams: note.package_grams,
+    price_per_100g_pln: note.price_per_100g_pln,
+    purchase_source: note.purchase_source,
+    tasted_at: note.tasted_at,
+    created_at: note.created_at,
+    updated_at: note.updated_at,
+  };
+}
+
+/**
+ * Streams every tasting note of a user matching the given filters as flattened export rows
+ * Fetches in batches so large journals are never loaded into memory at once
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param query - Search, filter and sorting parameters (same as the list endpoint)
+ * @returns Async iterator yielding export rows in the requested order
+ * @throws Error if a database query fails
+ *
+ * @example
+ * for await (const row of exportTastingNotes(supabase, userId, { min_rating: 4 })) {
+ *   console.log(row.brand_name, row.blend_name);
+ * }
+ */
+export async function* exportTastingNotes(
+  supabase: SupabaseClient,
+  userId: string,
+  query: Omit<TastingNotesQueryDTO, "page" | "limit">
+): AsyncGenerator<TastingNoteExportRowDTO> {
+  let offset = 0;
+
+  while (true) {
+    const { data, error } = await buildTastingNotesQuery(supabase, userId, query, false).range(
+      offset,
+      offset + EXPORT_BATCH_SIZE - 1
+    );
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error("Database query failed:", error);
+      throw new Error(`Failed to export tasting notes: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      return;
+    }
+
+    for (const row of data) {
+      // Value score is not part of the export, so no reference ratio is needed
+      yield transformToExportRowDTO(transformToTastingNoteResponseDTO(row, null));
+    }
+
+    // A short batch means there are no more rows
+    if (data.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+
+    offset += EXPORT_BATCH_SIZE;
+  }
 }
@@ -0,0 +1,69 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { UpdateUserSettingsDTO, UserSettingsResponseDTO } from "../../types";
+
+/**
+ * Settings of users who never saved any
+ */
+const DEFAULT_USER_SETTINGS: UserSettingsResponseDTO = {
+  share_community_ratings: false,
+};
+
+/**
+ * Retrieves the user's settings, falling back to the defaults when none were saved
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @returns The user's settings
+ * @throws Error if database query fails
+ *
+ * @example
+ * const { share_community_ratings } = await getUserSettings(supabase, userId);
+ */
+export async function getUserSettings(supabase: SupabaseClient, userId: string): Promise<UserSettingsResponseDTO> {
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select("share_community_ratings")
+    .eq("user_id", userId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to fetch user settings: ${error.message}`);
+  }
+
+  return data ?? DEFAULT_USER_SETTINGS;
+}
+
+/**
+ * Changes the user's settings, creating the settings row on first use
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - UUID of the authenticated user
+ * @param data - Validated settings to change
+ * @returns The user's settings after the change
+ * @throws Error if database query fails
+ *
+ * @example
+ * await updateUserSettings(supabase, userId, { share_community_ratings: true });
+ */
+export async function updateUserSettings(
+  supabase: SupabaseClient,
+  userId: string,
+  data: UpdateUserSettingsDTO
+): Promise<UserSettingsResponseDTO> {
+  const { data: settings, error } = await supabase
+    .from("user_settings")
+    .upsert({ user_id: userId, ...data }, { onConflict: "user_id" })
+    .select("share_community_ratings")
+    .single();
+
+  if (error || !settings) {
+    // eslint-disable-next-line no-console
+    console.error("Database query failed:", error);
+    throw new Error(`Failed to update user settings: ${error?.message ?? "no row returned"}`);
+  }
+
+  return settings;
+}
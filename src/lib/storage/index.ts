@@ -0,0 +1,23 @@
+import { PHOTO_STORAGE, PHOTO_STORAGE_DIR } from "astro:env/server";
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { PhotoStorage } from "./photo-storage";
+import { createSupabasePhotoStorage } from "./supabase-photo-storage";
+
+export type { PhotoStorage } from "./photo-storage";
+
+/**
+ * Returns the photo storage configured by PHOTO_STORAGE ("supabase" by default, "local" for dev/tests)
+ * The local adapter is imported lazily so node:fs never ends up in the production worker bundle
+ *
+ * @param supabase - Supabase client of the current request
+ * @returns Configured photo storage
+ */
+export async function getPhotoStorage(supabase: SupabaseClient): Promise<PhotoStorage> {
+  if (PHOTO_STORAGE === "local") {
+    const { createLocalPhotoStorage } = await import("./local-photo-storage");
+    return createLocalPhotoStorage(PHOTO_STORAGE_DIR);
+  }
+
+  return createSupabasePhotoStorage(supabase);
+}
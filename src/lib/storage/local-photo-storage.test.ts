@@ -0,0 +1,61 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createLocalPhotoStorage } from "./local-photo-storage";
+
+/**
+ * Unit tests for the local filesystem photo storage
+ * Runs against a temporary directory that is removed after each test
+ */
+describe("createLocalPhotoStorage", () => {
+  let rootDir: string;
+
+  const bytes = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+  const text = (data: ArrayBuffer | null) => (data ? new TextDecoder().decode(data) : null);
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "photos-"));
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should store and read back a file in nested folders", async () => {
+    const storage = createLocalPhotoStorage(rootDir);
+
+    await storage.upload("user-1/note-1/photo-1.jpg", bytes("matcha"), "image/jpeg");
+
+    expect(text(await storage.download("user-1/note-1/photo-1.jpg"))).toBe("matcha");
+  });
+
+  it("should return null for a missing file", async () => {
+    const storage = createLocalPhotoStorage(rootDir);
+
+    expect(await storage.download("user-1/note-1/missing.jpg")).toBeNull();
+  });
+
+  it("should not overwrite an existing file", async () => {
+    const storage = createLocalPhotoStorage(rootDir);
+    await storage.upload("user-1/note-1/photo-1.jpg", bytes("first"), "image/jpeg");
+
+    await expect(storage.upload("user-1/note-1/photo-1.jpg", bytes("second"), "image/jpeg")).rejects.toThrow();
+    expect(text(await storage.download("user-1/note-1/photo-1.jpg"))).toBe("first");
+  });
+
+  it("should remove files and ignore paths without a file", async () => {
+    const storage = createLocalPhotoStorage(rootDir);
+    await storage.upload("user-1/note-1/photo-1.jpg", bytes("matcha"), "image/jpeg");
+
+    await storage.remove(["user-1/note-1/photo-1.jpg", "user-1/note-1/missing.jpg"]);
+
+    expect(await storage.download("user-1/note-1/photo-1.jpg")).toBeNull();
+  });
+
+  it("should reject paths outside the root directory", async () => {
+    const storage = createLocalPhotoStorage(rootDir);
+
+    await expect(storage.upload("../outside.jpg", bytes("matcha"), "image/jpeg")).rejects.toThrow("Invalid photo path");
+  });
+});
@@ -0,0 +1,65 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join, resolve, sep } from "node:path";
+
+import type { PhotoStorage } from "./photo-storage";
+
+/**
+ * Resolves a storage path inside the root directory
+ * Rejects paths that would escape it (e.g. '../secrets')
+ */
+function resolveInside(rootDir: string, path: string): string {
+  const root = resolve(rootDir);
+  const target = resolve(join(root, path));
+
+  if (!target.startsWith(root + sep)) {
+    throw new Error(`Invalid photo path: ${path}`);
+  }
+
+  return target;
+}
+
+/**
+ * Checks whether an error is Node's "no such file or directory"
+ */
+function isNotFound(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "ENOENT";
+}
+
+/**
+ * Creates a photo storage that keeps files on the local filesystem
+ * For development and tests only - files are not protected by storage policies,
+ * so access control relies entirely on the API checking the photo rows first
+ *
+ * @param rootDir - Directory files are written to (created on first upload)
+ * @returns Photo storage for dev/tests
+ *
+ * @example
+ * const storage = createLocalPhotoStorage('.storage/photos');
+ * const bytes = await storage.download(`${userId}/${noteId}/${photoId}.jpg`);
+ */
+export function createLocalPhotoStorage(rootDir: string): PhotoStorage {
+  return {
+    async upload(path, data) {
+      const target = resolveInside(rootDir, path);
+      await mkdir(dirname(target), { recursive: true });
+      // "wx" fails if the file exists, matching Supabase's upsert: false
+      await writeFile(target, new Uint8Array(data), { flag: "wx" });
+    },
+
+    async download(path) {
+      try {
+        const file = await readFile(resolveInside(rootDir, path));
+        return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async remove(paths) {
+      await Promise.all(paths.map((path) => rm(resolveInside(rootDir, path), { force: true })));
+    },
+  };
+}
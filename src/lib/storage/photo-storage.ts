@@ -0,0 +1,31 @@
+/**
+ * Storage backend for tasting note photo files
+ * Photo metadata lives in the tasting_note_photos table; implementations only store the bytes,
+ * addressed by the row's storage_path ('<user_id>/<tasting_note_id>/<photo_id>.<ext>')
+ */
+export interface PhotoStorage {
+  /**
+   * Stores a file, failing if the path is already taken
+   * @throws Error if the file cannot be stored
+   */
+  upload(path: string, data: ArrayBuffer, contentType: string): Promise<void>;
+
+  /**
+   * Reads a file back
+   * @returns File contents, or null if there is no file at the path
+   * @throws Error if the storage backend fails
+   */
+  download(path: string): Promise<ArrayBuffer | null>;
+
+  /**
+   * Deletes files; paths without a file are ignored
+   * @throws Error if the storage backend fails
+   */
+  remove(paths: string[]): Promise<void>;
+}
+
+/**
+ * Name of the Supabase Storage bucket holding photo files
+ * Created by the tasting_note_photos migration
+ */
+export const PHOTO_BUCKET = "tasting-note-photos";
@@ -0,0 +1,73 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import { PHOTO_BUCKET, type PhotoStorage } from "./photo-storage";
+
+/**
+ * Checks whether a storage error is a missing object
+ * Depending on the Storage API version it comes back as a 404 response or as a 400 response
+ * with statusCode "404"; objects hidden by storage policies are reported the same way
+ */
+function isNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (("status" in error && error.status === 404) || ("statusCode" in error && error.statusCode === "404"))
+  );
+}
+
+/**
+ * Creates a photo storage backed by the private Supabase Storage bucket
+ * Uses the request's Supabase client, so storage policies only allow access to the user's own folder
+ *
+ * @param supabase - Supabase client instance
+ * @returns Photo storage for production use
+ *
+ * @example
+ * const storage = createSupabasePhotoStorage(supabase);
+ * await storage.upload(`${userId}/${noteId}/${photoId}.jpg`, bytes, 'image/jpeg');
+ */
+export function createSupabasePhotoStorage(supabase: SupabaseClient): PhotoStorage {
+  const bucket = () => supabase.storage.from(PHOTO_BUCKET);
+
+  return {
+    async upload(path, data, contentType) {
+      const { error } = await bucket().upload(path, data, { contentType, upsert: false });
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error("Storage operation failed:", error);
+        throw new Error(`Failed to upload photo: ${error.message}`);
+      }
+    },
+
+    async download(path) {
+      const { data, error } = await bucket().download(path);
+
+      if (error) {
+        // Missing objects come back as errors; treat them as "not found" like the other reads
+        if (isNotFound(error)) {
+          return null;
+        }
+
+        // eslint-disable-next-line no-console
+        console.error("Storage operation failed:", error);
+        throw new Error(`Failed to download photo: ${error.message}`);
+      }
+
+      return data.arrayBuffer();
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) {
+        return;
+      }
+
+      const { error } = await bucket().remove(paths);
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error("Storage operation failed:", error);
+        throw new Error(`Failed to remove photos: ${error.message}`);
+      }
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { blendGradeSchema, cultivarSchema } from "./create-blend.validator";
 import { paginationQuerySchema } from "./pagination.validator";
 
 /**
@@ -9,6 +10,8 @@ export const blendsQuerySchema = z.object({
   ...paginationQuerySchema.shape,
   brand_id: z.string().uuid("Invalid brand UUID format").nullable().optional(),
   region_id: z.string().uuid("Invalid region UUID format").nullable().optional(),
+  grade: blendGradeSchema.nullable().optional(),
+  cultivar: cultivarSchema.nullable().optional(),
   search: z.string().max(255).trim().nullable().optional(),
 });
 
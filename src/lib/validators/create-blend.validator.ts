@@ -1,6 +1,53 @@
 import { z } from "zod";
+import { BLEND_GRADES, CULTIVAR_NAME_PATTERN, HARVESTS, MAX_CULTIVARS_PER_BLEND } from "../constants";
 import { uuidSchema } from "./uuid.validator";
 
+/**
+ * Schema for the grade of a blend
+ */
+export const blendGradeSchema = z.enum(BLEND_GRADES, {
+  errorMap: () => ({ message: `must be one of: ${BLEND_GRADES.join(", ")}` }),
+});
+
+/**
+ * Schema for the harvest (flush) of a blend
+ */
+export const harvestSchema = z.enum(HARVESTS, {
+  errorMap: () => ({ message: `must be one of: ${HARVESTS.join(", ")}` }),
+});
+
+/**
+ * Schema for a single cultivar name (e.g. "Okumidori")
+ * Restricted to a safe character set since names are also used as the cultivar filter value
+ */
+export const cultivarSchema = z
+  .string()
+  .trim()
+  .min(1, "must not be empty")
+  .max(100, "must be at most 100 characters")
+  .regex(CULTIVAR_NAME_PATTERN, "may only contain letters, digits, spaces, periods, apostrophes and hyphens");
+
+/**
+ * Cultivar names of a blend, de-duplicated case-insensitively (the first spelling is kept)
+ */
+export const cultivarsSchema = z
+  .array(cultivarSchema)
+  .max(MAX_CULTIVARS_PER_BLEND, `must contain at most ${MAX_CULTIVARS_PER_BLEND} cultivars`)
+  .transform((names) =>
+    names.filter((name, index) => names.findIndex((other) => other.toLowerCase() === name.toLowerCase()) === index)
+  );
+
+/**
+ * Optional details of a blend, shared by blend creation and updates
+ */
+export const blendDetailsShape = {
+  grade: blendGradeSchema.nullable().optional(),
+  cultivars: cultivarsSchema.optional(),
+  harvest: harvestSchema.nullable().optional(),
+  is_organic: z.boolean().optional(),
+  is_jas_certified: z.boolean().optional(), // JAS organic certification, implies is_organic
+};
+
 /**
  * Validation schema for creating a new blend
  * Enforces XOR logic: brand and region must have either ID or name, not both
@@ -42,10 +89,17 @@ const regionSchema = z
     }
   );
 
-export const createBlendSchema = z.object({
-  name: z.string().min(1, "must be at least 1 character").max(200).trim(),
-  brand: brandSchema,
-  region: regionSchema,
-});
+export const createBlendSchema = z
+  .object({
+    name: z.string().min(1, "must be at least 1 character").max(200).trim(),
+    brand: brandSchema,
+    region: regionSchema,
+    ...blendDetailsShape,
+    allow_similar: z.boolean().optional(), // Skip the "did you mean" check after the user declined the suggestions
+  })
+  .refine((data) => !data.is_jas_certified || data.is_organic, {
+    message: "requires is_organic",
+    path: ["is_jas_certified"],
+  });
 
 export type CreateBlendSchema = z.infer<typeof createBlendSchema>;
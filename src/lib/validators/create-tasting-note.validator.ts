@@ -1,6 +1,39 @@
 import { z } from "zod";
+import { BREW_METHODS, MAX_TAGS_PER_NOTE, SUPPORTED_CURRENCIES } from "../constants";
+import { dateSchema } from "./date.validator";
 import { uuidSchema } from "./uuid.validator";
 
+/**
+ * Supported price currency (rates are kept in the currency_rates table)
+ */
+export const priceCurrencySchema = z.enum(SUPPORTED_CURRENCIES, {
+  errorMap: () => ({ message: `must be one of: ${SUPPORTED_CURRENCIES.join(", ")}` }),
+});
+
+/**
+ * Preparation method (must match the check constraint on tasting_notes.brew_method)
+ */
+export const brewMethodSchema = z.enum(BREW_METHODS, {
+  errorMap: () => ({ message: `must be one of: ${BREW_METHODS.join(", ")}` }),
+});
+
+/**
+ * Flavor tag names, normalised to trimmed lowercase and de-duplicated
+ */
+export const tagNamesSchema = z
+  .array(z.string().trim().toLowerCase().min(1, "must not be empty").max(50, "must be at most 50 characters"))
+  .max(MAX_TAGS_PER_NOTE, `must contain at most ${MAX_TAGS_PER_NOTE} tags`)
+  .transform((names) => [...new Set(names)]);
+
+/**
+ * Day of the tasting; may not be in the future
+ * Compared against tomorrow in UTC, so users in time zones ahead of UTC can record today's tasting
+ */
+export const tastedAtSchema = dateSchema.refine((value) => {
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return value <= tomorrow;
+}, "must not be in the future");
+
 export const createTastingNoteSchema = z.object({
   // Required fields
   blend_id: uuidSchema,
@@ -16,9 +49,29 @@ export const createTastingNoteSchema = z.object({
   notes_koicha: z.string().max(5000).nullable().optional(),
   notes_milk: z.string().max(5000).nullable().optional(),
 
+  // Optional preparation parameters
+  brew_method: brewMethodSchema.nullable().optional(),
+  powder_grams: z
+    .number()
+    .min(0.1)
+    .max(50)
+    .multipleOf(0.1, "must have at most one decimal place") // Stored as numeric(4, 1)
+    .nullable()
+    .optional(),
+  water_ml: z.number().int().min(1).max(1000).nullable().optional(),
+  water_temp_c: z.number().int().min(0).max(100).nullable().optional(),
+  whisk_type: z.string().max(100).nullable().optional(),
+  milk_type: z.string().max(100).nullable().optional(),
+
   // Optional metadata
-  price_pln: z.number().int().nonnegative().nullable().optional(),
+  tasted_at: tastedAtSchema.nullable().optional(), // Defaults to today
+  price_amount: z.number().nonnegative().max(1_000_000).nullable().optional(),
+  price_currency: priceCurrencySchema.nullable().optional(),
+  package_grams: z.number().int().positive().max(10_000).nullable().optional(),
   purchase_source: z.string().max(500).nullable().optional(),
+
+  // Optional flavor tags (by name)
+  tags: tagNamesSchema.optional(),
 });
 
 export type CreateTastingNoteSchema = z.infer<typeof createTastingNoteSchema>;
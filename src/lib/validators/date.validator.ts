@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+/**
+ * Checks that a YYYY-MM-DD string names a real calendar day (rejects e.g. 2026-02-30)
+ */
+function isCalendarDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Calendar date validation schema (YYYY-MM-DD, without a time)
+ */
+export const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date in YYYY-MM-DD format")
+  .refine(isCalendarDate, "must be a valid date");
+
+/**
+ * Inferred type from the date validation schema
+ */
+export type DateInput = z.infer<typeof dateSchema>;
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { tastingNotesQuerySchema } from "./tasting-notes.validator";
+
+/**
+ * Validation schema for tasting notes export query parameters
+ * Reuses the list filters and sorting, drops pagination and adds the output format
+ */
+export const exportTastingNotesQuerySchema = tastingNotesQuerySchema
+  .omit({ page: true, limit: true, cursor: true })
+  .extend({
+    format: z
+      .enum(["csv", "json"], {
+        errorMap: () => ({ message: "must be one of: csv, json" }),
+      })
+      .nullable()
+      .optional()
+      .transform((val) => val ?? "csv"),
+  });
+
+/**
+ * Inferred type from the validation schema
+ */
+export type ExportTastingNotesQueryInput = z.infer<typeof exportTastingNotesQuerySchema>;
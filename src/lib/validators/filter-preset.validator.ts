@@ -0,0 +1,94 @@
+import { z } from "zod";
+
+import { blendGradeSchema, cultivarSchema } from "./create-blend.validator";
+import { RANGE_FILTERS, sortOrderSchema, tastingNotesSortBySchema } from "./tasting-notes.validator";
+import { dateSchema } from "./date.validator";
+import { uuidSchema } from "./uuid.validator";
+
+/**
+ * Schema for a sensory score bound stored in a preset (1-5, inclusive)
+ */
+const sensoryBoundSchema = z.number().int().min(1).max(5).nullable().optional();
+
+/**
+ * Schema for the filters stored in a preset
+ * Same filters and sorting as the tasting notes list, as JSON values instead of query strings
+ */
+const presetFiltersSchema = z
+  .object({
+    q: z.string().trim().max(200, "must be at most 200 characters").nullable().optional(),
+    brand_ids: z.array(uuidSchema).max(100).nullable().optional(),
+    region_ids: z.array(uuidSchema).max(100).nullable().optional(),
+    tag_ids: z.array(uuidSchema).max(100).nullable().optional(),
+    grade: blendGradeSchema.nullable().optional(),
+    cultivar: cultivarSchema.nullable().optional(),
+    min_rating: z.number().int().min(1).max(5).nullable().optional(),
+    min_price: z.number().int().min(0).nullable().optional(),
+    max_price: z.number().int().min(0).nullable().optional(),
+    min_umami: sensoryBoundSchema,
+    max_umami: sensoryBoundSchema,
+    min_bitter: sensoryBoundSchema,
+    max_bitter: sensoryBoundSchema,
+    min_sweet: sensoryBoundSchema,
+    max_sweet: sensoryBoundSchema,
+    min_foam: sensoryBoundSchema,
+    max_foam: sensoryBoundSchema,
+    has_notes_koicha: z.boolean().nullable().optional(),
+    has_notes_milk: z.boolean().nullable().optional(),
+    from: dateSchema.nullable().optional(),
+    to: dateSchema.nullable().optional(),
+    sort_by: tastingNotesSortBySchema.nullable().optional(),
+    sort_order: sortOrderSchema.nullable().optional(),
+    secondary_sort_by: tastingNotesSortBySchema.nullable().optional(),
+    secondary_sort_order: sortOrderSchema.nullable().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    for (const field of RANGE_FILTERS) {
+      const min = data[`min_${field}`];
+      const max = data[`max_${field}`];
+      if (min !== null && min !== undefined && max !== null && max !== undefined && min > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `min_${field} must not be greater than max_${field}`,
+          path: [`min_${field}`],
+        });
+      }
+    }
+
+    if (data.from && data.to && data.from > data.to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "from must not be after to", path: ["from"] });
+    }
+  });
+
+const presetNameSchema = z
+  .string()
+  .trim()
+  .min(1, "must be at least 1 character")
+  .max(100, "must be at most 100 characters");
+
+/**
+ * Validation schema for creating a filter preset
+ */
+export const createFilterPresetSchema = z.object({
+  name: presetNameSchema,
+  filters: presetFiltersSchema,
+});
+
+/**
+ * Validation schema for updating a filter preset (rename and/or replace its filters)
+ */
+export const updateFilterPresetSchema = z
+  .object({
+    name: presetNameSchema.optional(),
+    filters: presetFiltersSchema.optional(),
+  })
+  .refine((data) => data.name !== undefined || data.filters !== undefined, {
+    message: "At least one field must be provided for update",
+  });
+
+/**
+ * Inferred types from the validation schemas
+ */
+export type CreateFilterPresetInput = z.infer<typeof createFilterPresetSchema>;
+export type UpdateFilterPresetInput = z.infer<typeof updateFilterPresetSchema>;
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+import { createTastingNoteSchema } from "./create-tasting-note.validator";
+
+/**
+ * Maximum number of data rows accepted in a single import
+ * Rows are imported one by one within a single request: a row costs up to 8 Supabase requests
+ * (blend check, insert, tags, reload) plus up to 9 when its blend has to be created, and Cloudflare
+ * Workers allows 1000 subrequests per invocation
+ */
+export const MAX_IMPORT_ROWS = 50;
+
+/**
+ * Maximum size of the import content in characters (~2 MB)
+ */
+export const MAX_IMPORT_CONTENT_LENGTH = 2_000_000;
+
+/**
+ * Validation schema for the bulk import request body
+ */
+export const importTastingNotesSchema = z.object({
+  format: z.enum(["csv", "json"], {
+    errorMap: () => ({ message: "must be one of: csv, json" }),
+  }),
+  content: z
+    .string()
+    .min(1, "must not be empty")
+    .max(MAX_IMPORT_CONTENT_LENGTH, `must be at most ${MAX_IMPORT_CONTENT_LENGTH} characters`),
+  dry_run: z.boolean().optional().default(true),
+});
+
+// Missing and empty names report the same message
+const requiredName = { required_error: "is required", invalid_type_error: "is required" };
+
+/**
+ * Validation schema for a single imported row
+ * Same rules as creating a tasting note, but the blend is given by names
+ * and resolved (or created) during the import
+ */
+export const importTastingNoteRowSchema = createTastingNoteSchema.omit({ blend_id: true }).extend({
+  brand_name: z.string(requiredName).trim().min(1, "is required").max(100),
+  blend_name: z.string(requiredName).trim().min(1, "is required").max(200),
+  region_name: z.string(requiredName).trim().min(1, "is required").max(100),
+});
+
+export type ImportTastingNotesInput = z.infer<typeof importTastingNotesSchema>;
+export type ImportTastingNoteRowInput = z.infer<typeof importTastingNoteRowSchema>;
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+import { CATALOG_KINDS } from "../constants";
+import { uuidSchema } from "./uuid.validator";
+
+/**
+ * Schema for the kind of catalog entries to moderate
+ */
+export const catalogKindSchema = z.enum(CATALOG_KINDS, {
+  errorMap: () => ({ message: `must be one of: ${CATALOG_KINDS.join(", ")}` }),
+});
+
+/**
+ * Validation schema for listing likely duplicates (query parameters)
+ */
+export const duplicateCandidatesQuerySchema = z.object({
+  kind: catalogKindSchema,
+});
+
+/**
+ * Validation schema for merging a duplicate catalog entry into another
+ */
+export const mergeCatalogEntitiesSchema = z
+  .object({
+    kind: catalogKindSchema,
+    source_id: uuidSchema,
+    target_id: uuidSchema,
+  })
+  .strict() // Reject any fields not explicitly defined
+  .refine((data) => data.source_id !== data.target_id, {
+    message: "must differ from source_id",
+    path: ["target_id"],
+  });
+
+export type DuplicateCandidatesQuery = z.infer<typeof duplicateCandidatesQuerySchema>;
+export type MergeCatalogEntitiesInput = z.infer<typeof mergeCatalogEntitiesSchema>;
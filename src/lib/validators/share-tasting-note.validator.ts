@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+/**
+ * Validation schema for creating or revoking a share link
+ */
+export const shareTastingNoteSchema = z.object({
+  is_public: z.boolean({ required_error: "is required", invalid_type_error: "must be a boolean" }),
+});
+
+/**
+ * Share token from a /s/:token link (24 url-safe base64 characters)
+ * Rejecting malformed tokens early avoids a database round trip
+ */
+export const shareTokenSchema = z.string().regex(/^[A-Za-z0-9_-]{24}$/, "Invalid share token format");
+
+export type ShareTastingNoteInput = z.infer<typeof shareTastingNoteSchema>;
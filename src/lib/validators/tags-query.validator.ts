@@ -0,0 +1,13 @@
+import { z } from "zod";
+import { paginationQuerySchema } from "./pagination.validator";
+
+/**
+ * Zod schema for validating query parameters when listing tags
+ * Ensures pagination and search parameters are valid before processing
+ */
+export const tagsQuerySchema = z.object({
+  ...paginationQuerySchema.shape,
+  search: z.string().max(255).trim().optional(),
+});
+
+export type TagsQuery = z.infer<typeof tagsQuerySchema>;
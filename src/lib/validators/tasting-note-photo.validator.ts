@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+import { MAX_PHOTO_BYTES, PHOTO_CONTENT_TYPES, PHOTO_KINDS } from "../constants";
+
+/**
+ * What the photo shows (must match the check constraint on tasting_note_photos.kind)
+ */
+export const photoKindSchema = z.enum(PHOTO_KINDS, {
+  errorMap: () => ({ message: `must be one of: ${PHOTO_KINDS.join(", ")}` }),
+});
+
+/**
+ * Validation schema for the multipart photo upload
+ * Form fields arrive as strings; empty fields are treated as not provided
+ */
+export const createTastingNotePhotoSchema = z.object({
+  file: z
+    .instanceof(File, { message: "is required" })
+    .refine((file) => file.size > 0, "must not be empty")
+    .refine((file) => file.size <= MAX_PHOTO_BYTES, `must be at most ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`)
+    .refine(
+      (file) => (PHOTO_CONTENT_TYPES as readonly string[]).includes(file.type),
+      `must be one of: ${PHOTO_CONTENT_TYPES.join(", ")}`
+    ),
+  kind: z.preprocess((value) => (value === "" ? null : value), photoKindSchema.nullable().optional()),
+  caption: z.preprocess(
+    (value) => (typeof value === "string" && value.trim() === "" ? null : value),
+    z.string().trim().max(200, "must be at most 200 characters").nullable().optional()
+  ),
+});
+
+export type CreateTastingNotePhotoInput = z.infer<typeof createTastingNotePhotoSchema>;
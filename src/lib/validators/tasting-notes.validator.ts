@@ -1,5 +1,10 @@
 import { z } from "zod";
 
+import { SENSORY_ATTRIBUTES } from "../constants";
+import { decodeListCursor } from "../helpers/cursor";
+import type { TastingNotesFiltersDTO } from "../../types";
+import { blendGradeSchema, cultivarSchema } from "./create-blend.validator";
+import { dateSchema } from "./date.validator";
 import { paginationQuerySchema } from "./pagination.validator";
 
 /**
@@ -16,19 +21,102 @@ const commaSeparatedUuidsSchema = z
   .transform((val) => val.split(",").filter(Boolean))
   .pipe(z.array(uuidSchema).min(1, "At least one UUID is required"));
 
+/**
+ * Schema for a sensory score bound (1-5, inclusive)
+ */
+const sensoryBoundSchema = z.coerce
+  .number({ invalid_type_error: "must be a number" })
+  .int("must be an integer")
+  .min(1, "must be at least 1")
+  .max(5, "must be at most 5")
+  .nullable()
+  .optional();
+
+/**
+ * Schema for a "true"/"false" query flag
+ */
+const booleanFlagSchema = z
+  .enum(["true", "false"], {
+    errorMap: () => ({ message: "must be one of: true, false" }),
+  })
+  .transform((val) => val === "true")
+  .nullable()
+  .optional();
+
+/**
+ * Range filters given as min_/max_ pairs
+ */
+export const RANGE_FILTERS = ["price", ...SENSORY_ATTRIBUTES] as const;
+
+/**
+ * Sort keys accepted by the tasting notes list (also stored in filter presets)
+ */
+export const tastingNotesSortBySchema = z.enum(
+  [
+    "created_at",
+    "tasted_at",
+    "updated_at",
+    "overall_rating",
+    "value",
+    "umami",
+    "bitter",
+    "sweet",
+    "foam",
+    "price_pln",
+    "blend_name",
+    "brand_name",
+  ],
+  {
+    errorMap: () => ({
+      message:
+        "must be one of: created_at, tasted_at, updated_at, overall_rating, value, umami, bitter, sweet, foam, price_pln, blend_name, brand_name",
+    }),
+  }
+);
+
+/**
+ * Sort directions accepted by the tasting notes list
+ */
+export const sortOrderSchema = z.enum(["asc", "desc"], {
+  errorMap: () => ({ message: "must be one of: asc, desc" }),
+});
+
 /**
  * Validation schema for tasting notes list query parameters
- * Validates pagination, filtering, and sorting parameters
+ * Validates pagination, search, filtering, and sorting parameters
  */
 export const tastingNotesQuerySchema = z.object({
   // Pagination parameters
   ...paginationQuerySchema.shape,
 
+  // Cursor pagination (empty string requests the first page in cursor mode)
+  cursor: z
+    .string()
+    .max(3000, "must be at most 3000 characters")
+    .refine((val) => val === "" || decodeListCursor(val) !== null, "is not a valid cursor")
+    .nullable()
+    .optional(),
+
+  // Search parameter (empty string is treated as no search)
+  q: z
+    .string()
+    .trim()
+    .max(200, "must be at most 200 characters")
+    .transform((val) => val || null)
+    .nullable()
+    .optional(),
+
   // Filter parameters
   brand_ids: commaSeparatedUuidsSchema.nullable().optional(),
 
   region_ids: commaSeparatedUuidsSchema.nullable().optional(),
 
+  tag_ids: commaSeparatedUuidsSchema.nullable().optional(),
+
+  grade: blendGradeSchema.nullable().optional(),
+
+  cultivar: cultivarSchema.nullable().optional(),
+
   min_rating: z.coerce
     .number({ invalid_type_error: "must be a number" })
     .int("must be an integer")
@@ -37,26 +125,74 @@ export const tastingNotesQuerySchema = z.object({
     .nullable()
     .optional(),
 
-  // Sorting parameters
-  sort_by: z
-    .enum(["created_at", "updated_at", "overall_rating"], {
-      errorMap: () => ({
-        message: "must be one of: created_at, updated_at, overall_rating",
-      }),
-    })
+  min_price: z.coerce
+    .number({ invalid_type_error: "must be a number" })
+    .int("must be an integer")
+    .min(0, "must be at least 0")
     .nullable()
-    .optional()
-    .default("created_at"),
+    .optional(),
 
-  sort_order: z
-    .enum(["asc", "desc"], {
-      errorMap: () => ({ message: "must be one of: asc, desc" }),
-    })
+  max_price: z.coerce
+    .number({ invalid_type_error: "must be a number" })
+    .int("must be an integer")
+    .min(0, "must be at least 0")
     .nullable()
-    .optional()
-    .default("desc"),
+    .optional(),
+
+  // Sensory score ranges (notes without the score are excluded once a bound is set)
+  min_umami: sensoryBoundSchema,
+  max_umami: sensoryBoundSchema,
+  min_bitter: sensoryBoundSchema,
+  max_bitter: sensoryBoundSchema,
+  min_sweet: sensoryBoundSchema,
+  max_sweet: sensoryBoundSchema,
+  min_foam: sensoryBoundSchema,
+  max_foam: sensoryBoundSchema,
+
+  // Whether koicha / milk notes were written
+  has_notes_koicha: booleanFlagSchema,
+
+  has_notes_milk: booleanFlagSchema,
+
+  // Tasting date range (inclusive, YYYY-MM-DD)
+  from: dateSchema.nullable().optional(),
+
+  to: dateSchema.nullable().optional(),
+
+  // Sorting parameters
+  sort_by: tastingNotesSortBySchema.nullable().optional().default("created_at"),
+
+  sort_order: sortOrderSchema.nullable().optional().default("desc"),
+
+  // Secondary sorting for notes tied on sort_by (without it, ties are ordered by id only)
+  secondary_sort_by: tastingNotesSortBySchema.nullable().optional(),
+
+  secondary_sort_order: sortOrderSchema.nullable().optional(),
 });
 
+/**
+ * Finds the first range filter (price, sensory scores or tasting dates) whose minimum is greater than its maximum
+ * Checked by the routes after validation, since the schema is also used field by field
+ *
+ * @param filters - Validated filters
+ * @returns Error message in the "field: message" format, or null if all ranges are valid
+ */
+export function findInvertedRange(filters: TastingNotesFiltersDTO): string | null {
+  for (const field of RANGE_FILTERS) {
+    const min = filters[`min_${field}`];
+    const max = filters[`max_${field}`];
+    if (min !== null && min !== undefined && max !== null && max !== undefined && min > max) {
+      return `min_${field}: must not be greater than max_${field}`;
+    }
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return "from: must not be after to";
+  }
+
+  return null;
+}
+
 /**
  * Inferred type from the validation schema
  */
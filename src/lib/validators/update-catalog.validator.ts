@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { blendDetailsShape } from "./create-blend.validator";
+import { uuidSchema } from "./uuid.validator";
+
+/**
+ * Validation schemas for correcting brands, regions and blends
+ * Name limits match blend creation (create-blend.validator)
+ */
+
+/**
+ * Schema for an optional link (website or logo); empty text clears it
+ */
+const optionalUrlSchema = z
+  .string()
+  .trim()
+  .max(500, "must be at most 500 characters")
+  .refine((val) => val === "" || /^https?:\/\/\S+$/i.test(val), "must be an http(s) URL")
+  .transform((val) => val || null)
+  .nullable()
+  .optional();
+
+/**
+ * Schema for optional free text; empty text clears it
+ */
+const optionalTextSchema = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max, `must be at most ${max} characters`)
+    .transform((val) => val || null)
+    .nullable()
+    .optional();
+
+export const updateBrandSchema = z
+  .object({
+    name: z.string().trim().min(1, "must be at least 1 character").max(100).optional(),
+    country: optionalTextSchema(100),
+    website_url: optionalUrlSchema,
+    description: optionalTextSchema(2000),
+    logo_url: optionalUrlSchema,
+  })
+  .strict() // Reject any fields not explicitly defined
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update",
+  });
+
+export const updateRegionSchema = z
+  .object({
+    name: z.string().trim().min(1, "must be at least 1 character").max(100),
+  })
+  .strict(); // Reject any fields not explicitly defined
+
+export const updateBlendSchema = z
+  .object({
+    name: z.string().trim().min(1, "must be at least 1 character").max(200).optional(),
+    region_id: uuidSchema.optional(),
+    ...blendDetailsShape,
+  })
+  .strict() // Reject any fields not explicitly defined (brand_id cannot be changed here)
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update",
+  })
+  .refine((data) => !(data.is_jas_certified === true && data.is_organic === false), {
+    message: "requires is_organic",
+    path: ["is_jas_certified"],
+  });
+
+export type UpdateBrandSchema = z.infer<typeof updateBrandSchema>;
+export type UpdateRegionSchema = z.infer<typeof updateRegionSchema>;
+export type UpdateBlendSchema = z.infer<typeof updateBlendSchema>;
@@ -1,7 +1,12 @@
 import { z } from "zod";
+import { brewMethodSchema, priceCurrencySchema, tagNamesSchema, tastedAtSchema } from "./create-tasting-note.validator";
+import { uuidSchema } from "./uuid.validator";
 
 export const updateTastingNoteSchema = z
   .object({
+    // Optional re-assignment to another (existing) blend
+    blend_id: uuidSchema.optional(),
+
     // Optional rating fields
     overall_rating: z.number().int().min(1).max(5).optional(),
     umami: z.number().int().min(1).max(5).nullable().optional(),
@@ -13,9 +18,29 @@ export const updateTastingNoteSchema = z
     notes_koicha: z.string().max(5000).nullable().optional(),
     notes_milk: z.string().max(5000).nullable().optional(),
 
+    // Optional preparation parameters
+    brew_method: brewMethodSchema.nullable().optional(),
+    powder_grams: z
+      .number()
+      .min(0.1)
+      .max(50)
+      .multipleOf(0.1, "must have at most one decimal place") // Stored as numeric(4, 1)
+      .nullable()
+      .optional(),
+    water_ml: z.number().int().min(1).max(1000).nullable().optional(),
+    water_temp_c: z.number().int().min(0).max(100).nullable().optional(),
+    whisk_type: z.string().max(100).nullable().optional(),
+    milk_type: z.string().max(100).nullable().optional(),
+
     // Optional metadata
-    price_pln: z.number().int().nonnegative().nullable().optional(),
+    tasted_at: tastedAtSchema.optional(),
+    price_amount: z.number().nonnegative().max(1_000_000).nullable().optional(),
+    price_currency: priceCurrencySchema.nullable().optional(),
+    package_grams: z.number().int().positive().max(10_000).nullable().optional(),
     purchase_source: z.string().max(500).nullable().optional(),
+
+    // Optional flavor tags (replaces all tags of the note)
+    tags: tagNamesSchema.optional(),
   })
   .strict() // Reject any fields not explicitly defined
   .refine((data) => Object.keys(data).length > 0, {
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+/**
+ * Validation schema for changing the user's settings
+ */
+export const updateUserSettingsSchema = z
+  .object({
+    share_community_ratings: z.boolean({ invalid_type_error: "must be a boolean" }).optional(),
+  })
+  .strict() // Reject any fields not explicitly defined
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update",
+  });
+
+export type UpdateUserSettingsInput = z.infer<typeof updateUserSettingsSchema>;
@@ -18,6 +18,9 @@ const PUBLIC_PATHS = [
   "/api/auth/logout",
 ];
 
+// Public path prefixes - shared tasting notes are readable by anyone with the link
+const PUBLIC_PATH_PREFIXES = ["/s/", "/api/shared/"];
+
 export const onRequest = defineMiddleware(async ({ locals, cookies, url, request, redirect }, next) => {
   // Create Supabase client with proper cookie handling
   const supabase = createSupabaseServerInstance({
@@ -44,7 +47,8 @@ export const onRequest = defineMiddleware(async ({ locals, cookies, url, request
   }
 
   // Handle redirects based on authentication state
-  const isPublicPath = PUBLIC_PATHS.includes(url.pathname);
+  const isPublicPath =
+    PUBLIC_PATHS.includes(url.pathname) || PUBLIC_PATH_PREFIXES.some((prefix) => url.pathname.startsWith(prefix));
 
   // Redirect authenticated users away from auth pages to dashboard
   if (user && (url.pathname === "/login" || url.pathname === "/register" || url.pathname === "/reset-password")) {
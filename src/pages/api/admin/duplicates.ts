@@ -0,0 +1,89 @@
+import type { APIRoute } from "astro";
+
+import { formatZodError } from "../../../lib/helpers/format-error";
+import { findDuplicateCandidates, isAdmin } from "../../../lib/services/moderation.service";
+import { duplicateCandidatesQuerySchema } from "../../../lib/validators/moderation.validator";
+import type { DuplicateCandidatesResponseDTO, ErrorResponseDTO } from "../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * GET /api/admin/duplicates?kind=brand|region|blend
+ * Returns pairs of catalog entries with similar names that are likely duplicates (admins only)
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user may moderate the catalog
+    if (!(await isAdmin(supabase))) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Forbidden - Admin role required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate query parameters
+    const url = new URL(request.url);
+    const validationResult = duplicateCandidatesQuerySchema.safeParse({
+      kind: url.searchParams.get("kind") ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: `Invalid query parameters: ${formatZodError(validationResult.error)}`,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { kind } = validationResult.data;
+    const response: DuplicateCandidatesResponseDTO = {
+      kind,
+      data: await findDuplicateCandidates(supabase, kind),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
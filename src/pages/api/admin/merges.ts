@@ -0,0 +1,198 @@
+import type { APIRoute } from "astro";
+
+import { formatZodErrors } from "../../../lib/helpers/format-error";
+import { isAdmin, listCatalogMerges, mergeCatalogEntities } from "../../../lib/services/moderation.service";
+import { mergeCatalogEntitiesSchema } from "../../../lib/validators/moderation.validator";
+import type { CatalogMergesResponseDTO, ErrorResponseDTO } from "../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * GET /api/admin/merges
+ * Returns the audit trail of catalog merges, newest first (admins only)
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user may moderate the catalog
+    if (!(await isAdmin(supabase))) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Forbidden - Admin role required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const response: CatalogMergesResponseDTO = {
+      data: await listCatalogMerges(supabase),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/admin/merges
+ * Merges a duplicate brand, region or blend into another (admins only)
+ * All references to the source are re-pointed to the target in one transaction,
+ * the source is deleted and the merge is recorded in the audit trail
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body with Zod schema
+    const validationResult = mergeCatalogEntitiesSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Validation failed",
+        details: formatZodErrors(validationResult.error),
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Call service layer to merge (the database function checks the admin role)
+    const result = await mergeCatalogEntities(supabase, validationResult.data);
+
+    // Handle service layer result
+    if (!result.success) {
+      switch (result.error.type) {
+        case "forbidden": {
+          const forbiddenErrorResponse: ErrorResponseDTO = {
+            error: "Forbidden - Admin role required",
+          };
+          return new Response(JSON.stringify(forbiddenErrorResponse), {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "not_found": {
+          const notFoundErrorResponse: ErrorResponseDTO = {
+            error: `Source or target ${validationResult.data.kind} not found`,
+          };
+          return new Response(JSON.stringify(notFoundErrorResponse), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "same_entity": {
+          const sameEntityErrorResponse: ErrorResponseDTO = {
+            error: "Cannot merge an entry into itself",
+          };
+          return new Response(JSON.stringify(sameEntityErrorResponse), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "database_error": {
+          // eslint-disable-next-line no-console
+          console.error("Database error:", result.error);
+          const dbErrorResponse: ErrorResponseDTO = {
+            error: "Internal server error",
+          };
+          return new Response(JSON.stringify(dbErrorResponse), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      }
+    }
+
+    return new Response(JSON.stringify(result.data), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,8 +1,8 @@
 import { formatZodError, formatZodErrors } from "@/lib/helpers/format-error";
-import { createBlend, listBlends } from "@/lib/services/blends.service";
+import { createBlend, findSimilarBlendNames, listBlends } from "@/lib/services/blends.service";
 import { blendsQuerySchema } from "@/lib/validators/blends-query.validator";
 import { createBlendSchema } from "@/lib/validators/create-blend.validator";
-import type { ErrorResponseDTO } from "@/types";
+import type { ErrorResponseDTO, SimilarNamesErrorResponseDTO } from "@/types";
 import type { APIRoute } from "astro";
 
 export const prerender = false;
@@ -10,6 +10,7 @@ export const prerender = false;
 /**
  * GET /api/blends
  * Retrieves a paginated list of all blends with optional filtering and search
+ * Filters: brand_id, region_id, grade and cultivar (case-insensitive)
  * Public endpoint - no authentication required
  */
 export const GET: APIRoute = async ({ request, locals }) => {
@@ -30,6 +31,8 @@ export const GET: APIRoute = async ({ request, locals }) => {
     const limitParam = url.searchParams.get("limit");
     const brandIdParam = url.searchParams.get("brand_id");
     const regionIdParam = url.searchParams.get("region_id");
+    const gradeParam = url.searchParams.get("grade");
+    const cultivarParam = url.searchParams.get("cultivar");
     const searchParam = url.searchParams.get("search");
 
     // Validate and parse query parameters
@@ -38,6 +41,8 @@ export const GET: APIRoute = async ({ request, locals }) => {
       limit: limitParam,
       brand_id: brandIdParam,
       region_id: regionIdParam,
+      grade: gradeParam,
+      cultivar: cultivarParam,
       search: searchParam,
     });
 
@@ -73,6 +78,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
 /**
  * POST /api/blends
  * Creates a new blend with flexible brand/region resolution
+ * Names close to existing ones are answered with 409 and suggestions unless allow_similar is set
  * Requires authentication
  */
 export const POST: APIRoute = async ({ request, locals }) => {
@@ -132,6 +138,22 @@ export const POST: APIRoute = async ({ request, locals }) => {
 
     const validatedData = validationResult.data;
 
+    // Guard clause: Suggest existing entries before creating names close to them
+    if (!validatedData.allow_similar) {
+      const suggestions = await findSimilarBlendNames(supabase, validatedData);
+
+      if (suggestions.brands.length > 0 || suggestions.regions.length > 0 || suggestions.blends.length > 0) {
+        const similarErrorResponse: SimilarNamesErrorResponseDTO = {
+          error: "Similar names already exist",
+          suggestions,
+        };
+        return new Response(JSON.stringify(similarErrorResponse), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+    }
+
     // Call service layer to create blend
     const result = await createBlend(supabase, validatedData);
 
@@ -0,0 +1,86 @@
+import type { APIRoute } from "astro";
+
+import { formatZodError } from "../../../../lib/helpers/format-error";
+import { getBlendById } from "../../../../lib/services/blends.service";
+import { getCommunityBlendRating } from "../../../../lib/services/stats.service";
+import { uuidSchema } from "../../../../lib/validators/uuid.validator";
+import type { ErrorResponseDTO } from "../../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * GET /api/blends/:id/community
+ * Returns the anonymised community ratings of a blend, aggregated over users who opted in
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Guard clause: Validate UUID format
+    const validationResult = uuidSchema.safeParse(params.id);
+
+    if (!validationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: formatZodError(validationResult.error),
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Guard clause: Check if blend exists
+    const blend = await getBlendById(supabase, validationResult.data);
+
+    if (!blend) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Blend not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Fetch aggregates from service layer
+    const community = await getCommunityBlendRating(supabase, user.id, blend.id);
+
+    return new Response(JSON.stringify(community), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,181 @@
+import type { APIRoute } from "astro";
+
+import { MAX_FILTER_PRESETS } from "../../lib/constants";
+import { formatZodErrors } from "../../lib/helpers/format-error";
+import { createFilterPreset, listFilterPresets } from "../../lib/services/filter-presets.service";
+import { createFilterPresetSchema } from "../../lib/validators/filter-preset.validator";
+import type { ErrorResponseDTO, FilterPresetsResponseDTO } from "../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * GET /api/filter-presets
+ * Retrieves the saved dashboard filter presets of the authenticated user, sorted by name
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const response: FilterPresetsResponseDTO = {
+      data: await listFilterPresets(supabase, user.id),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/filter-presets
+ * Saves the given dashboard filters under a name for the authenticated user
+ * Names are unique per user; duplicates return 409
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body with Zod schema
+    const validationResult = createFilterPresetSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const details = formatZodErrors(validationResult.error);
+      const errorResponse: ErrorResponseDTO = {
+        error: "Validation failed",
+        details,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Call service layer to save the preset
+    const result = await createFilterPreset(supabase, user.id, validationResult.data);
+
+    // Handle service layer result
+    if (!result.success) {
+      switch (result.error.type) {
+        case "duplicate_name": {
+          const duplicateErrorResponse: ErrorResponseDTO = {
+            error: "A filter preset with this name already exists",
+          };
+          return new Response(JSON.stringify(duplicateErrorResponse), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "limit_reached": {
+          const limitErrorResponse: ErrorResponseDTO = {
+            error: `At most ${MAX_FILTER_PRESETS} filter presets can be saved`,
+          };
+          return new Response(JSON.stringify(limitErrorResponse), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "not_found":
+        case "database_error": {
+          // eslint-disable-next-line no-console
+          console.error("Database error:", result.error);
+          const dbErrorResponse: ErrorResponseDTO = {
+            error: "Internal server error",
+          };
+          return new Response(JSON.stringify(dbErrorResponse), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      }
+    }
+
+    return new Response(JSON.stringify(result.data), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,213 @@
+import type { APIRoute } from "astro";
+
+import { formatZodErrors } from "../../../lib/helpers/format-error";
+import { deleteFilterPreset, updateFilterPreset } from "../../../lib/services/filter-presets.service";
+import { updateFilterPresetSchema } from "../../../lib/validators/filter-preset.validator";
+import { uuidSchema } from "../../../lib/validators/uuid.validator";
+import type { ErrorResponseDTO } from "../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * PATCH /api/filter-presets/:id
+ * Renames a filter preset and/or replaces its filters
+ * Renaming to a name already in use returns 409
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate UUID format
+    const idValidationResult = uuidSchema.safeParse(params.id);
+
+    if (!idValidationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid filter preset ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body with Zod schema
+    const validationResult = updateFilterPresetSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const details = formatZodErrors(validationResult.error);
+      const errorResponse: ErrorResponseDTO = {
+        error: "Validation failed",
+        details,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Call service layer to update the preset
+    const result = await updateFilterPreset(supabase, user.id, idValidationResult.data, validationResult.data);
+
+    // Handle service layer result
+    if (!result.success) {
+      switch (result.error.type) {
+        case "not_found": {
+          const notFoundResponse: ErrorResponseDTO = {
+            error: "Filter preset not found",
+          };
+          return new Response(JSON.stringify(notFoundResponse), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "duplicate_name": {
+          const duplicateErrorResponse: ErrorResponseDTO = {
+            error: "A filter preset with this name already exists",
+          };
+          return new Response(JSON.stringify(duplicateErrorResponse), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "limit_reached":
+        case "database_error": {
+          // eslint-disable-next-line no-console
+          console.error("Database error:", result.error);
+          const dbErrorResponse: ErrorResponseDTO = {
+            error: "Internal server error",
+          };
+          return new Response(JSON.stringify(dbErrorResponse), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      }
+    }
+
+    return new Response(JSON.stringify(result.data), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/filter-presets/:id
+ * Deletes a filter preset owned by the authenticated user
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate UUID format
+    const idValidationResult = uuidSchema.safeParse(params.id);
+
+    if (!idValidationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid filter preset ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const deleted = await deleteFilterPreset(supabase, user.id, idValidationResult.data);
+
+    if (!deleted) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Filter preset not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Return 204 No Content on successful deletion
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
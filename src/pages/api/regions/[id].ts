@@ -1,5 +1,6 @@
-import { formatZodError } from "@/lib/helpers/format-error";
-import { getRegionById } from "@/lib/services/regions.service";
+import { formatZodError, formatZodErrors } from "@/lib/helpers/format-error";
+import { getRegionById, updateRegion } from "@/lib/services/regions.service";
+import { updateRegionSchema } from "@/lib/validators/update-catalog.validator";
 import { uuidSchema } from "@/lib/validators/uuid.validator";
 import type { ErrorResponseDTO } from "@/types";
 import type { APIRoute } from "astro";
@@ -73,3 +74,144 @@ export const GET: APIRoute = async ({ params, locals }) => {
     });
   }
 };
+
+/**
+ * PATCH /api/regions/:id
+ * Renames a region, e.g. to fix a misspelling; a name already in use returns 409
+ * Requires authentication; only the creator of the region or an admin may edit it
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Guard clause: Validate UUID format
+    const idValidationResult = uuidSchema.safeParse(params.id);
+
+    if (!idValidationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: formatZodError(idValidationResult.error),
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body with Zod schema
+    const validationResult = updateRegionSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const details = formatZodErrors(validationResult.error);
+      const errorResponse: ErrorResponseDTO = {
+        error: "Validation failed",
+        details,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Call service layer to update the region
+    const result = await updateRegion(supabase, idValidationResult.data, validationResult.data);
+
+    // Handle service layer result
+    if (!result.success) {
+      switch (result.error.type) {
+        case "not_found": {
+          const notFoundResponse: ErrorResponseDTO = {
+            error: "Region not found",
+          };
+          return new Response(JSON.stringify(notFoundResponse), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "forbidden": {
+          const forbiddenResponse: ErrorResponseDTO = {
+            error: "Forbidden - Only the creator or an admin can edit this region",
+          };
+          return new Response(JSON.stringify(forbiddenResponse), {
+            status: 403,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "duplicate_name": {
+          const duplicateErrorResponse: ErrorResponseDTO = {
+            error: "A region with this name already exists",
+          };
+          return new Response(JSON.stringify(duplicateErrorResponse), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "database_error": {
+          // eslint-disable-next-line no-console
+          console.error("Database error:", result.error.message);
+          const dbErrorResponse: ErrorResponseDTO = {
+            error: "Internal server error",
+          };
+          return new Response(JSON.stringify(dbErrorResponse), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      }
+    }
+
+    // Happy path: Return the updated region
+    return new Response(JSON.stringify(result.data), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
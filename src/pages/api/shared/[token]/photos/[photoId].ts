@@ -0,0 +1,84 @@
+import type { APIRoute } from "astro";
+
+import { getSharedPhotoFile } from "../../../../../lib/services/tasting-note-photos.service";
+import { getPhotoStorage } from "../../../../../lib/storage";
+import { shareTokenSchema } from "../../../../../lib/validators/share-tasting-note.validator";
+import { uuidSchema } from "../../../../../lib/validators/uuid.validator";
+import type { ErrorResponseDTO } from "../../../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * GET /api/shared/:token/photos/:photoId
+ * Serves the image file of a photo attached to a shared tasting note
+ * Does NOT require authentication - the share token grants read access
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate token and UUID formats
+    const tokenResult = shareTokenSchema.safeParse(params.token);
+    const photoIdResult = uuidSchema.safeParse(params.photoId);
+
+    if (!tokenResult.success || !photoIdResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid share token or photo ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const file = await getSharedPhotoFile(
+      supabase,
+      await getPhotoStorage(supabase),
+      tokenResult.data,
+      photoIdResult.data
+    );
+
+    if (!file) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Photo not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Not cached publicly, so revoking the link takes effect immediately
+    return new Response(file.data, {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "Cache-Control": "private, no-cache",
+      },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,52 @@
+import { getTastingStats } from "@/lib/services/stats.service";
+import type { APIRoute } from "astro";
+import type { ErrorResponseDTO } from "../../types";
+
+export const prerender = false;
+
+/**
+ * GET /api/stats
+ * Returns aggregated statistics over the authenticated user's tasting notes
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    const { supabase, user } = locals;
+
+    // Check authentication
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Fetch aggregates from service layer
+    const stats = await getTastingStats(supabase);
+
+    return new Response(JSON.stringify(stats), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
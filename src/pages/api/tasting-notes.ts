@@ -1,10 +1,15 @@
 import type { APIRoute } from "astro";
 
+import { cursorMatchesSorting, decodeListCursor } from "../../lib/helpers/cursor";
 import { formatZodError, formatZodErrors } from "../../lib/helpers/format-error";
 // Import service for POST handler (used when database is ready)
-import { createTastingNote, listTastingNotes } from "../../lib/services/tasting-notes.service";
+import {
+  createTastingNote,
+  listTastingNotes,
+  listTastingNotesByCursor,
+} from "../../lib/services/tasting-notes.service";
 import { createTastingNoteSchema } from "../../lib/validators/create-tasting-note.validator";
-import { tastingNotesQuerySchema } from "../../lib/validators/tasting-notes.validator";
+import { findInvertedRange, tastingNotesQuerySchema } from "../../lib/validators/tasting-notes.validator";
 import type { ErrorResponseDTO } from "../../types";
 
 // Disable prerendering for this API route (server-side only)
@@ -13,7 +18,11 @@ export const prerender = false;
 /**
  * GET /api/tasting-notes
  * Retrieves a paginated list of tasting notes for the authenticated user
- * with optional filtering by brand, region, and rating, plus sorting options
+ * with optional full-text search, filtering by brand, region, blend grade and cultivar, tag, rating, price,
+ * sensory scores, written notes and tasting date,
+ * plus sorting options
+ * Pages by number (page/limit, with a total count) or, when a cursor parameter is present, by cursor
+ * (cursor/limit, returning next_cursor; an empty cursor requests the first page)
  */
 export const GET: APIRoute = async ({ request, locals }) => {
   try {
@@ -46,11 +55,32 @@ export const GET: APIRoute = async ({ request, locals }) => {
     const queryParams = {
       page: url.searchParams.get("page"),
       limit: url.searchParams.get("limit"),
+      cursor: url.searchParams.get("cursor"),
+      q: url.searchParams.get("q"),
       brand_ids: url.searchParams.get("brand_ids"),
       region_ids: url.searchParams.get("region_ids"),
+      tag_ids: url.searchParams.get("tag_ids"),
+      grade: url.searchParams.get("grade"),
+      cultivar: url.searchParams.get("cultivar"),
       min_rating: url.searchParams.get("min_rating"),
+      min_price: url.searchParams.get("min_price"),
+      max_price: url.searchParams.get("max_price"),
+      min_umami: url.searchParams.get("min_umami"),
+      max_umami: url.searchParams.get("max_umami"),
+      min_bitter: url.searchParams.get("min_bitter"),
+      max_bitter: url.searchParams.get("max_bitter"),
+      min_sweet: url.searchParams.get("min_sweet"),
+      max_sweet: url.searchParams.get("max_sweet"),
+      min_foam: url.searchParams.get("min_foam"),
+      max_foam: url.searchParams.get("max_foam"),
+      has_notes_koicha: url.searchParams.get("has_notes_koicha"),
+      has_notes_milk: url.searchParams.get("has_notes_milk"),
+      from: url.searchParams.get("from"),
+      to: url.searchParams.get("to"),
       sort_by: url.searchParams.get("sort_by"),
       sort_order: url.searchParams.get("sort_order"),
+      secondary_sort_by: url.searchParams.get("secondary_sort_by"),
+      secondary_sort_order: url.searchParams.get("secondary_sort_order"),
     };
 
     // Validate query parameters with Zod schema
@@ -67,8 +97,64 @@ export const GET: APIRoute = async ({ request, locals }) => {
       });
     }
 
+    // Validate price and sensory range bounds
+    const invertedRange = findInvertedRange(validationResult.data);
+    if (invertedRange) {
+      const errorResponse: ErrorResponseDTO = {
+        error: `Invalid query parameters: ${invertedRange}`,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // The secondary sort key only orders ties, so it must differ from the primary one
+    const { sort_by, secondary_sort_by } = validationResult.data;
+    if (secondary_sort_by && secondary_sort_by === (sort_by ?? "created_at")) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid query parameters: secondary_sort_by: must differ from sort_by",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     const validatedQuery = validationResult.data;
 
+    // Cursor mode: a cursor replaces the page number and is only valid for the sorting it was issued for
+    const { cursor, page } = validatedQuery;
+    if (cursor !== null && cursor !== undefined) {
+      if (page) {
+        const errorResponse: ErrorResponseDTO = {
+          error: "Invalid query parameters: page: cannot be combined with cursor",
+        };
+        return new Response(JSON.stringify(errorResponse), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const position = cursor ? decodeListCursor(cursor) : null;
+      if (position && !cursorMatchesSorting(position, validatedQuery)) {
+        const errorResponse: ErrorResponseDTO = {
+          error: "Invalid query parameters: cursor: does not match the sorting parameters",
+        };
+        return new Response(JSON.stringify(errorResponse), {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      const cursorResult = await listTastingNotesByCursor(supabase, user.id, validatedQuery);
+
+      return new Response(JSON.stringify(cursorResult), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     const result = await listTastingNotes(supabase, user.id, validatedQuery);
 
     // Return successful response
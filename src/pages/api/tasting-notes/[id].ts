@@ -2,6 +2,7 @@ import type { APIRoute } from "astro";
 
 import { formatZodErrors } from "../../../lib/helpers/format-error";
 import { deleteTastingNote, getTastingNoteById, updateTastingNote } from "../../../lib/services/tasting-notes.service";
+import { getPhotoStorage } from "../../../lib/storage";
 import { updateTastingNoteSchema } from "../../../lib/validators/update-tasting-note.validator";
 import { uuidSchema } from "../../../lib/validators/uuid.validator";
 import type { ErrorResponseDTO } from "../../../types";
@@ -100,6 +101,7 @@ export const GET: APIRoute = async ({ params, locals }) => {
  * PATCH /api/tasting-notes/:id
  * Updates an existing tasting note owned by the authenticated user
  * Supports partial updates - only provided fields are modified
+ * blend_id re-assigns the note to another blend; an unknown blend returns 404
  */
 export const PATCH: APIRoute = async ({ params, request, locals }) => {
   try {
@@ -187,20 +189,35 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
     const validatedData = validationResult.data;
 
     // Call service layer to update tasting note
-    const note = await updateTastingNote(supabase, user.id, validatedId, validatedData);
-
-    // Handle case where note doesn't exist or doesn't belong to user
-    if (!note) {
-      const errorResponse: ErrorResponseDTO = {
-        error: "Tasting note not found",
-      };
-      return new Response(JSON.stringify(errorResponse), {
-        status: 404,
-        headers: { "Content-Type": "application/json" },
-      });
+    const result = await updateTastingNote(supabase, user.id, validatedId, validatedData);
+
+    // Handle service layer result
+    if (!result.success) {
+      switch (result.error.type) {
+        // Note doesn't exist or doesn't belong to user
+        case "not_found": {
+          const notFoundResponse: ErrorResponseDTO = {
+            error: "Tasting note not found",
+          };
+          return new Response(JSON.stringify(notFoundResponse), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+
+        case "blend_not_found": {
+          const blendErrorResponse: ErrorResponseDTO = {
+            error: "Blend not found",
+          };
+          return new Response(JSON.stringify(blendErrorResponse), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      }
     }
 
-    return new Response(JSON.stringify(note), {
+    return new Response(JSON.stringify(result.data), {
       status: 200,
       headers: { "Content-Type": "application/json" },
     });
@@ -221,7 +238,7 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
 
 /**
  * DELETE /api/tasting-notes/:id
- * Permanently deletes a tasting note owned by the authenticated user
+ * Permanently deletes a tasting note owned by the authenticated user, including its photos
  */
 export const DELETE: APIRoute = async ({ params, locals }) => {
   try {
@@ -277,8 +294,8 @@ export const DELETE: APIRoute = async ({ params, locals }) => {
 
     const validatedId = idValidationResult.data;
 
-    // Call service layer to delete tasting note
-    const deleted = await deleteTastingNote(supabase, user.id, validatedId);
+    // Call service layer to delete tasting note (and its photo files)
+    const deleted = await deleteTastingNote(supabase, user.id, validatedId, await getPhotoStorage(supabase));
 
     // Handle case where note doesn't exist or doesn't belong to user
     if (!deleted) {
@@ -0,0 +1,176 @@
+import type { APIRoute } from "astro";
+
+import {
+  deleteTastingNotePhoto,
+  getTastingNotePhotoFile,
+} from "../../../../../lib/services/tasting-note-photos.service";
+import { getPhotoStorage } from "../../../../../lib/storage";
+import { uuidSchema } from "../../../../../lib/validators/uuid.validator";
+import type { ErrorResponseDTO } from "../../../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * GET /api/tasting-notes/:id/photos/:photoId
+ * Serves the image file of a photo owned by the authenticated user
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate UUID formats
+    const noteIdResult = uuidSchema.safeParse(params.id);
+    const photoIdResult = uuidSchema.safeParse(params.photoId);
+
+    if (!noteIdResult.success || !photoIdResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid tasting note or photo ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const file = await getTastingNotePhotoFile(
+      supabase,
+      await getPhotoStorage(supabase),
+      user.id,
+      noteIdResult.data,
+      photoIdResult.data
+    );
+
+    if (!file) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Photo not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Photos never change once uploaded, but are private to the user
+    return new Response(file.data, {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "Cache-Control": "private, max-age=86400, immutable",
+      },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/tasting-notes/:id/photos/:photoId
+ * Removes a photo and its file from a tasting note owned by the authenticated user
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate UUID formats
+    const noteIdResult = uuidSchema.safeParse(params.id);
+    const photoIdResult = uuidSchema.safeParse(params.photoId);
+
+    if (!noteIdResult.success || !photoIdResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid tasting note or photo ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const deleted = await deleteTastingNotePhoto(
+      supabase,
+      await getPhotoStorage(supabase),
+      user.id,
+      noteIdResult.data,
+      photoIdResult.data
+    );
+
+    if (!deleted) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Photo not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Return 204 No Content on successful deletion
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,220 @@
+import type { APIRoute } from "astro";
+
+import { MAX_PHOTOS_PER_NOTE } from "../../../../../lib/constants";
+import { formatZodErrors } from "../../../../../lib/helpers/format-error";
+import { addTastingNotePhoto, listTastingNotePhotos } from "../../../../../lib/services/tasting-note-photos.service";
+import { getPhotoStorage } from "../../../../../lib/storage";
+import { createTastingNotePhotoSchema } from "../../../../../lib/validators/tasting-note-photo.validator";
+import { uuidSchema } from "../../../../../lib/validators/uuid.validator";
+import type { ErrorResponseDTO, TastingNotePhotosResponseDTO } from "../../../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * GET /api/tasting-notes/:id/photos
+ * Lists the photos of a tasting note owned by the authenticated user, in upload order
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate UUID format
+    const idValidationResult = uuidSchema.safeParse(params.id);
+
+    if (!idValidationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid tasting note ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const photos = await listTastingNotePhotos(supabase, user.id, idValidationResult.data);
+
+    if (!photos) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Tasting note not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const response: TastingNotePhotosResponseDTO = { data: photos };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/tasting-notes/:id/photos
+ * Uploads a photo (multipart/form-data: file, optional kind and caption)
+ * and attaches it to a tasting note owned by the authenticated user
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate UUID format
+    const idValidationResult = uuidSchema.safeParse(params.id);
+
+    if (!idValidationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid tasting note ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const validatedId = idValidationResult.data;
+
+    // Parse multipart body
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid multipart/form-data in request body",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate file and metadata with Zod schema
+    const validationResult = createTastingNotePhotoSchema.safeParse({
+      file: formData.get("file"),
+      kind: formData.get("kind"),
+      caption: formData.get("caption"),
+    });
+
+    if (!validationResult.success) {
+      const details = formatZodErrors(validationResult.error);
+      const errorResponse: ErrorResponseDTO = {
+        error: "Validation failed",
+        details,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Verify note ownership and the per-note photo limit
+    const existingPhotos = await listTastingNotePhotos(supabase, user.id, validatedId);
+
+    if (!existingPhotos) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Tasting note not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (existingPhotos.length >= MAX_PHOTOS_PER_NOTE) {
+      const errorResponse: ErrorResponseDTO = {
+        error: `A tasting note can have at most ${MAX_PHOTOS_PER_NOTE} photos`,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { file, kind, caption } = validationResult.data;
+
+    // Call service layer to store the file and record the photo
+    const photo = await addTastingNotePhoto(
+      supabase,
+      await getPhotoStorage(supabase),
+      user.id,
+      validatedId,
+      { data: await file.arrayBuffer(), contentType: file.type },
+      { kind, caption }
+    );
+
+    return new Response(JSON.stringify(photo), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
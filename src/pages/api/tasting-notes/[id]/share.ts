@@ -0,0 +1,126 @@
+import type { APIRoute } from "astro";
+
+import { formatZodErrors } from "../../../../lib/helpers/format-error";
+import { setTastingNoteSharing } from "../../../../lib/services/tasting-notes.service";
+import { shareTastingNoteSchema } from "../../../../lib/validators/share-tasting-note.validator";
+import { uuidSchema } from "../../../../lib/validators/uuid.validator";
+import type { ErrorResponseDTO, ShareTastingNoteResponseDTO } from "../../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * POST /api/tasting-notes/:id/share
+ * Creates ({ is_public: true }) or revokes ({ is_public: false }) the public share link
+ * of a tasting note owned by the authenticated user
+ */
+export const POST: APIRoute = async ({ params, request, locals, url }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate UUID format
+    const idValidationResult = uuidSchema.safeParse(params.id);
+
+    if (!idValidationResult.success) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid tasting note ID format",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body with Zod schema
+    const validationResult = shareTastingNoteSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const details = formatZodErrors(validationResult.error);
+      const errorResponse: ErrorResponseDTO = {
+        error: "Validation failed",
+        details,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Call service layer to create or revoke the link
+    const sharing = await setTastingNoteSharing(
+      supabase,
+      user.id,
+      idValidationResult.data,
+      validationResult.data.is_public
+    );
+
+    // Handle case where note doesn't exist or doesn't belong to user
+    if (!sharing) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Tasting note not found",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const response: ShareTastingNoteResponseDTO = {
+      is_public: sharing.is_public,
+      share_token: sharing.share_token,
+      share_url: sharing.share_token ? `${url.origin}/s/${sharing.share_token}` : null,
+    };
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
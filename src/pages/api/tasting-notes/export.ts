@@ -0,0 +1,206 @@
+import type { APIRoute } from "astro";
+
+import { toCsvLine } from "../../../lib/helpers/csv";
+import { formatZodError } from "../../../lib/helpers/format-error";
+import { exportTastingNotes } from "../../../lib/services/tasting-notes.service";
+import { exportTastingNotesQuerySchema } from "../../../lib/validators/export-tasting-notes.validator";
+import { findInvertedRange } from "../../../lib/validators/tasting-notes.validator";
+import type { ErrorResponseDTO, TastingNoteExportRowDTO } from "../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * Column order of the CSV export
+ */
+const CSV_COLUMNS: (keyof TastingNoteExportRowDTO)[] = [
+  "id",
+  "brand_name",
+  "blend_name",
+  "region_name",
+  "tags",
+  "overall_rating",
+  "umami",
+  "bitter",
+  "sweet",
+  "foam",
+  "notes_koicha",
+  "notes_milk",
+  "brew_method",
+  "powder_grams",
+  "water_ml",
+  "water_temp_c",
+  "whisk_type",
+  "milk_type",
+  "price_amount",
+  "price_currency",
+  "package_grams",
+  "price_per_100g_pln",
+  "purchase_source",
+  "tasted_at",
+  "created_at",
+  "updated_at",
+];
+
+/**
+ * GET /api/tasting-notes/export
+ * Streams every tasting note of the authenticated user as a CSV or JSON download
+ * Accepts the same search, filter and sorting parameters as GET /api/tasting-notes
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Extract and parse query parameters from URL
+    const url = new URL(request.url);
+    const queryParams = {
+      format: url.searchParams.get("format"),
+      q: url.searchParams.get("q"),
+      brand_ids: url.searchParams.get("brand_ids"),
+      region_ids: url.searchParams.get("region_ids"),
+      tag_ids: url.searchParams.get("tag_ids"),
+      grade: url.searchParams.get("grade"),
+      cultivar: url.searchParams.get("cultivar"),
+      min_rating: url.searchParams.get("min_rating"),
+      min_price: url.searchParams.get("min_price"),
+      max_price: url.searchParams.get("max_price"),
+      min_umami: url.searchParams.get("min_umami"),
+      max_umami: url.searchParams.get("max_umami"),
+      min_bitter: url.searchParams.get("min_bitter"),
+      max_bitter: url.searchParams.get("max_bitter"),
+      min_sweet: url.searchParams.get("min_sweet"),
+      max_sweet: url.searchParams.get("max_sweet"),
+      min_foam: url.searchParams.get("min_foam"),
+      max_foam: url.searchParams.get("max_foam"),
+      has_notes_koicha: url.searchParams.get("has_notes_koicha"),
+      has_notes_milk: url.searchParams.get("has_notes_milk"),
+      from: url.searchParams.get("from"),
+      to: url.searchParams.get("to"),
+      sort_by: url.searchParams.get("sort_by"),
+      sort_order: url.searchParams.get("sort_order"),
+      secondary_sort_by: url.searchParams.get("secondary_sort_by"),
+      secondary_sort_order: url.searchParams.get("secondary_sort_order"),
+    };
+
+    // Validate query parameters with Zod schema
+    const validationResult = exportTastingNotesQuerySchema.safeParse(queryParams);
+
+    if (!validationResult.success) {
+      const errorMessage = formatZodError(validationResult.error);
+      const errorResponse: ErrorResponseDTO = {
+        error: `Invalid query parameters: ${errorMessage}`,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate price and sensory range bounds
+    const invertedRange = findInvertedRange(validationResult.data);
+    if (invertedRange) {
+      const errorResponse: ErrorResponseDTO = {
+        error: `Invalid query parameters: ${invertedRange}`,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // The secondary sort key only orders ties, so it must differ from the primary one
+    const { sort_by, secondary_sort_by } = validationResult.data;
+    if (secondary_sort_by && secondary_sort_by === (sort_by ?? "created_at")) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid query parameters: secondary_sort_by: must differ from sort_by",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { format, ...filters } = validationResult.data;
+
+    // Fetch the first row before responding so database errors still produce a 500
+    const rows = exportTastingNotes(supabase, user.id, filters);
+    const first = await rows.next();
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          if (format === "csv") {
+            controller.enqueue(encoder.encode(toCsvLine(CSV_COLUMNS)));
+            if (!first.done) {
+              controller.enqueue(encoder.encode(toCsvLine(CSV_COLUMNS.map((column) => first.value[column]))));
+            }
+            for await (const row of rows) {
+              controller.enqueue(encoder.encode(toCsvLine(CSV_COLUMNS.map((column) => row[column]))));
+            }
+          } else {
+            controller.enqueue(encoder.encode("["));
+            if (!first.done) {
+              controller.enqueue(encoder.encode(`\n${JSON.stringify(first.value)}`));
+            }
+            for await (const row of rows) {
+              controller.enqueue(encoder.encode(`,\n${JSON.stringify(row)}`));
+            }
+            controller.enqueue(encoder.encode("\n]\n"));
+          }
+          controller.close();
+        } catch (error) {
+          // Headers are already sent, so abort the stream instead of returning an error response
+          // eslint-disable-next-line no-console
+          console.error("Export stream error:", error);
+          controller.error(error);
+        }
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    const filename = `sipstory-tasting-notes-${date}.${format}`;
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
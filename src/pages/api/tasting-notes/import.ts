@@ -0,0 +1,113 @@
+import type { APIRoute } from "astro";
+
+import { formatZodErrors } from "../../../lib/helpers/format-error";
+import { importTastingNotes } from "../../../lib/services/tasting-notes-import.service";
+import { importTastingNotesSchema } from "../../../lib/validators/import-tasting-notes.validator";
+import type { ErrorResponseDTO } from "../../../types";
+
+// Disable prerendering for this API route (server-side only)
+export const prerender = false;
+
+/**
+ * POST /api/tasting-notes/import
+ * Bulk imports tasting notes from CSV or JSON content for the authenticated user
+ * Defaults to a dry run that returns a per-row preview without writing anything
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Extract Supabase client from middleware
+    const { supabase, user } = locals;
+
+    if (!supabase) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Database client not available",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Check if user is authenticated
+    if (!user) {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Unauthorized - Authentication required",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponseDTO = {
+        error: "Invalid JSON in request body",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body with Zod schema
+    const validationResult = importTastingNotesSchema.safeParse(requestBody);
+
+    if (!validationResult.success) {
+      const details = formatZodErrors(validationResult.error);
+      const errorResponse: ErrorResponseDTO = {
+        error: "Validation failed",
+        details,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Call service layer to preview or run the import
+    const result = await importTastingNotes(supabase, user.id, validationResult.data);
+
+    // Handle content-level errors
+    if (!result.success) {
+      let message: string;
+      switch (result.error.type) {
+        case "parse_error":
+          message = `Could not parse ${validationResult.data.format.toUpperCase()} content: ${result.error.message}`;
+          break;
+        case "no_rows":
+          message = "No rows found to import";
+          break;
+        case "too_many_rows":
+          message = `Too many rows - at most ${result.error.limit} rows can be imported at once`;
+          break;
+      }
+      const errorResponse: ErrorResponseDTO = {
+        error: message,
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify(result.data), {
+      status: result.data.dry_run ? 200 : 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    // Log error server-side (with context for debugging)
+    // eslint-disable-next-line no-console
+    console.error("API route error:", error);
+    const errorResponse: ErrorResponseDTO = {
+      error: "Internal server error",
+    };
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
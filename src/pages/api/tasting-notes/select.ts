@@ -1,3 +1,4 @@
+import { MAX_COMPARE_NOTES, MIN_COMPARE_NOTES } from "@/lib/constants";
 import { selectTastingNotes } from "@/lib/services/tasting-notes.service";
 import { uuidSchema } from "@/lib/validators/uuid.validator";
 import type { APIRoute } from "astro";
@@ -7,7 +8,7 @@ export const prerender = false;
 
 /**
  * GET /api/tasting-notes/select
- * Retrieves exactly two specific tasting notes by their UUIDs for comparison
+ * Retrieves between 2 and MAX_COMPARE_NOTES specific tasting notes by their UUIDs for comparison
  */
 export const GET: APIRoute = async ({ request, locals }) => {
   try {
@@ -49,9 +50,22 @@ export const GET: APIRoute = async ({ request, locals }) => {
     // Parse comma-separated IDs
     const ids = idsParam.split(",").map((id) => id.trim());
 
-    // Validate exactly 2 IDs
-    if (ids.length !== 2) {
-      return new Response(JSON.stringify({ error: "Exactly 2 tasting note IDs are required" }), {
+    // Validate number of IDs
+    if (ids.length < MIN_COMPARE_NOTES || ids.length > MAX_COMPARE_NOTES) {
+      return new Response(
+        JSON.stringify({
+          error: `Between ${MIN_COMPARE_NOTES} and ${MAX_COMPARE_NOTES} tasting note IDs are required`,
+        }),
+        {
+          status: 400,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Validate IDs are unique
+    if (new Set(ids).size !== ids.length) {
+      return new Response(JSON.stringify({ error: "Duplicate tasting note IDs are not allowed" }), {
         status: 400,
         headers: { "Content-Type": "application/json" },
       });
@@ -74,15 +88,15 @@ export const GET: APIRoute = async ({ request, locals }) => {
     // Fetch tasting notes from service layer
     const notes = await selectTastingNotes(supabase, user.id, validatedIds);
 
-    // Return 404 if one or both notes not found or don't belong to user
-    if (!notes || notes.length !== 2) {
+    // Return 404 if any note is not found or doesn't belong to user
+    if (!notes || notes.length !== validatedIds.length) {
       return new Response(JSON.stringify({ error: "One or more tasting notes not found" }), {
         status: 404,
         headers: { "Content-Type": "application/json" },
       });
     }
 
-    // Return successful response with both notes
+    // Return successful response with all requested notes
     return new Response(
       JSON.stringify({
         notes,
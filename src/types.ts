@@ -7,6 +7,7 @@
  */
 
 import type { Tables, TablesInsert, TablesUpdate } from "./db/database.types";
+import type { CatalogKind } from "./lib/constants";
 
 // ============================================================================
 // Entity Type Aliases (for cleaner references)
@@ -16,6 +17,35 @@ export type BrandEntity = Tables<"brands">;
 export type RegionEntity = Tables<"regions">;
 export type BlendEntity = Tables<"blends">;
 export type TastingNoteEntity = Tables<"tasting_notes">;
+export type TagEntity = Tables<"tags">;
+export type TastingNotePhotoEntity = Tables<"tasting_note_photos">;
+export type FilterPresetEntity = Tables<"filter_presets">;
+export type UserSettingsEntity = Tables<"user_settings">;
+export type CatalogMergeEntity = Tables<"catalog_merges">;
+
+/**
+ * Tasting note row with its nested relations
+ * Matches the tasting note select of the service layer
+ * Note: Uses alias 'blend' instead of table name 'blends' for semantic correctness
+ */
+export type TastingNoteWithRelationsEntity = TastingNoteEntity & {
+  blend: NestedBlendDTO;
+  tags: NestedTagDTO[];
+  tag_filter: { tag_id: string }[];
+  photos: Pick<
+    TastingNotePhotoEntity,
+    "id" | "tasting_note_id" | "kind" | "caption" | "content_type" | "size_bytes" | "created_at"
+  >[];
+};
+
+/**
+ * Document built by get_shared_tasting_note
+ * Leaves out the owner and the columns derived from their private data (currency rates, other notes)
+ */
+export type SharedTastingNoteEntity = Omit<
+  TastingNoteWithRelationsEntity,
+  "user_id" | "value_ratio" | "price_per_100g_pln" | "blend_name" | "brand_name"
+>;
 
 // ============================================================================
 // Nested Object Types (reusable across DTOs)
@@ -39,11 +69,40 @@ export interface NestedRegionDTO {
   name: string;
 }
 
+/**
+ * Nested tag object used in tasting note responses
+ * Contains only id and name for lightweight responses
+ */
+export interface NestedTagDTO {
+  id: string;
+  name: string;
+}
+
+/**
+ * Photo attached to a tasting note
+ * Metadata only; the image itself is served from `url`
+ */
+export interface TastingNotePhotoDTO {
+  id: string;
+  kind: string; // tin, powder, foam or other
+  caption: string | null;
+  content_type: string;
+  size_bytes: number;
+  url: string; // GET /api/tasting-notes/:id/photos/:photoId
+  created_at: string;
+}
+
+/**
+ * Grade, cultivars, harvest and certifications of a blend
+ * grade is one of BLEND_GRADES and harvest one of HARVESTS (null when unknown)
+ */
+export type BlendDetailsDTO = Pick<BlendEntity, "grade" | "cultivars" | "harvest" | "is_organic" | "is_jas_certified">;
+
 /**
  * Nested blend object used in tasting note responses
- * Contains blend data with nested brand and region
+ * Contains blend data and details with nested brand and region
  */
-export interface NestedBlendDTO {
+export interface NestedBlendDTO extends BlendDetailsDTO {
   id: string;
   name: string;
   brand: NestedBrandDTO;
@@ -56,15 +115,50 @@ export interface NestedBlendDTO {
 
 /**
  * Brand response DTO
- * Direct mapping from brands entity
+ * Brands entity (with country, website, description and logo) without the creator
  */
-export type BrandResponseDTO = BrandEntity;
+export type BrandResponseDTO = Omit<BrandEntity, "created_by">;
 
 /**
  * Region response DTO
- * Direct mapping from regions entity
+ * Regions entity without the creator
+ */
+export type RegionResponseDTO = Omit<RegionEntity, "created_by">;
+
+/**
+ * Tag response DTO
+ * Direct mapping from tags entity
+ */
+export type TagResponseDTO = TagEntity;
+
+/**
+ * Filter preset response DTO
+ * Entity without the owner, with the stored filters typed
+ */
+export type FilterPresetResponseDTO = Omit<FilterPresetEntity, "user_id" | "filters"> & {
+  filters: TastingNotesFiltersDTO;
+};
+
+/**
+ * User settings response DTO
+ * Users without a stored row get the defaults (not contributing to community ratings)
+ */
+export type UserSettingsResponseDTO = Pick<UserSettingsEntity, "share_community_ratings">;
+
+/**
+ * Catalog merge response DTO (one entry of the moderation audit trail)
+ * Names are as they were at merge time; the source entry no longer exists
  */
-export type RegionResponseDTO = RegionEntity;
+export type CatalogMergeResponseDTO = Omit<CatalogMergeEntity, "kind" | "details"> & {
+  kind: CatalogKind;
+  details: {
+    blends_moved: number; // Blends re-pointed to the target brand or region
+    blends_merged: number; // Source brand blends folded into a same-named target brand blend
+    notes_moved: number; // Tasting notes re-pointed to another blend
+    presets_updated: number; // Saved dashboard filters that referred to the source
+    merged_blends: { source_id: string; target_id: string }[]; // The blends counted in blends_merged
+  };
+};
 
 // ============================================================================
 // Response DTOs - Nested Resources
@@ -72,9 +166,9 @@ export type RegionResponseDTO = RegionEntity;
 
 /**
  * Blend response DTO with nested brand and region
- * Represents a blend with its associated brand and region of origin
+ * Represents a blend and its details with its associated brand and region of origin
  */
-export interface BlendResponseDTO {
+export interface BlendResponseDTO extends BlendDetailsDTO {
   id: string;
   name: string;
   created_at: string;
@@ -90,6 +184,8 @@ export interface TastingNoteResponseDTO {
   id: string;
   user_id: string;
   blend: NestedBlendDTO;
+  tags: NestedTagDTO[]; // Sorted by name
+  photos: TastingNotePhotoDTO[]; // In upload order
   overall_rating: number;
   umami: number | null;
   bitter: number | null;
@@ -97,12 +193,31 @@ export interface TastingNoteResponseDTO {
   foam: number | null;
   notes_koicha: string | null;
   notes_milk: string | null;
-  price_pln: number | null;
+  brew_method: string | null; // usucha, koicha, latte or other
+  powder_grams: number | null;
+  water_ml: number | null;
+  water_temp_c: number | null;
+  whisk_type: string | null;
+  milk_type: string | null;
+  price_amount: number | null; // Price actually paid, in price_currency
+  price_currency: string | null; // ISO 4217 code
+  package_grams: number | null; // Package size the price refers to
+  price_per_100g_pln: number | null; // Normalised using the local currency rates table
+  value_score: number | null; // 0-100, rating per PLN relative to the user's best value note; null without a price
   purchase_source: string | null;
-  created_at: string;
+  is_public: boolean;
+  share_token: string | null; // Set while the note is shared, used in /s/:token
+  tasted_at: string; // YYYY-MM-DD, day of the tasting (user-editable)
+  created_at: string; // When the note was written
   updated_at: string;
 }
 
+/**
+ * Response DTO for a tasting note opened through its share link (/s/:token)
+ * Does not identify the owner and has no price normalisation or value score
+ */
+export type SharedTastingNoteDTO = Omit<TastingNoteResponseDTO, "user_id" | "price_per_100g_pln" | "value_score">;
+
 // ============================================================================
 // Command Models - Create Operations
 // ============================================================================
@@ -110,8 +225,9 @@ export interface TastingNoteResponseDTO {
 /**
  * Command model for creating a new blend
  * Can reference existing entities by ID or create new ones by name
+ * Blend details are optional (unknown grade/harvest, no cultivars, not certified)
  */
-export interface CreateBlendDTO {
+export interface CreateBlendDTO extends Partial<BlendDetailsDTO> {
   name: string;
   brand: {
     id?: string | null;
@@ -121,6 +237,7 @@ export interface CreateBlendDTO {
     id?: string | null;
     name?: string | null;
   };
+  allow_similar?: boolean; // Create new brands, regions and blends even when similar names exist
 }
 
 /**
@@ -143,9 +260,69 @@ export interface CreateTastingNoteDTO {
   notes_koicha?: string | null;
   notes_milk?: string | null;
 
+  // Optional preparation parameters
+  brew_method?: string | null; // usucha, koicha, latte or other
+  powder_grams?: number | null; // 0.1-50
+  water_ml?: number | null; // 1-1000
+  water_temp_c?: number | null; // 0-100
+  whisk_type?: string | null;
+  milk_type?: string | null;
+
   // Optional metadata
-  price_pln?: number | null; // Full zloty
+  tasted_at?: string | null; // YYYY-MM-DD, defaults to today; not in the future
+  price_amount?: number | null; // Price paid for the package
+  price_currency?: string | null; // ISO 4217 code, defaults to PLN when a price is given
+  package_grams?: number | null; // Defaults to 100 when a price is given
   purchase_source?: string | null;
+
+  // Optional flavor tags, by name (missing tags are created)
+  tags?: string[];
+}
+
+/**
+ * Command model for attaching a photo to a tasting note
+ * Sent as multipart/form-data fields next to the `file` part
+ */
+export interface CreateTastingNotePhotoDTO {
+  kind?: string | null; // tin, powder, foam or other (defaults to other)
+  caption?: string | null; // max 200 characters
+}
+
+/**
+ * Command model for sharing a tasting note via a public link
+ * true creates a link (keeping an existing one), false revokes it
+ */
+export interface ShareTastingNoteDTO {
+  is_public: boolean;
+}
+
+/**
+ * Command model for saving the current dashboard filters under a name
+ * Names are unique per user (case-insensitive)
+ */
+export interface CreateFilterPresetDTO {
+  name: string;
+  filters: TastingNotesFiltersDTO;
+}
+
+/**
+ * Command model for bulk importing tasting notes
+ * Content is parsed server-side; dry runs validate and resolve blends without writing
+ */
+export interface ImportTastingNotesDTO {
+  format: "csv" | "json";
+  content: string;
+  dry_run?: boolean;
+}
+
+/**
+ * Command model for merging a duplicate catalog entry into another (admins only)
+ * Every reference to the source is re-pointed to the target and the source is deleted
+ */
+export interface MergeCatalogEntitiesDTO {
+  kind: CatalogKind;
+  source_id: string;
+  target_id: string;
 }
 
 // ============================================================================
@@ -155,13 +332,58 @@ export interface CreateTastingNoteDTO {
 /**
  * Command model for updating an existing tasting note
  * Partial update - only provided fields will be updated
- * Brand/blend/region cannot be changed via this model
- * Derived from TastingNoteEntity but excludes immutable fields
+ * blend_id re-assigns the note to another existing blend (brand and region follow the blend)
+ * Sharing is changed via ShareTastingNoteDTO
+ * Derived from TastingNoteEntity but excludes immutable and database-managed fields
  */
 export type UpdateTastingNoteDTO = Partial<
-  Omit<TastingNoteEntity, "id" | "user_id" | "blend_id" | "created_at" | "updated_at">
+  Omit<
+    TastingNoteEntity,
+    | "id"
+    | "user_id"
+    | "created_at"
+    | "updated_at"
+    | "search_vector"
+    | "blend_name"
+    | "brand_name"
+    | "price_per_100g_pln"
+    | "value_ratio"
+    | "is_public"
+    | "share_token"
+  >
+> & {
+  tags?: string[]; // Replaces all tags of the note, by name (missing tags are created)
+};
+
+/**
+ * Command model for renaming a filter preset and/or replacing its filters
+ */
+export type UpdateFilterPresetDTO = Partial<CreateFilterPresetDTO>;
+
+/**
+ * Command model for correcting a brand (its creator or an admin only)
+ * Partial update - rename it and/or change its country, website, description and logo
+ */
+export type UpdateBrandDTO = Partial<
+  Pick<BrandEntity, "name" | "country" | "website_url" | "description" | "logo_url">
 >;
 
+/**
+ * Command model for renaming a region (its creator or an admin only)
+ */
+export type UpdateRegionDTO = Pick<RegionEntity, "name">;
+
+/**
+ * Command model for correcting a blend (its creator or an admin only)
+ * Partial update - rename it, move it to another region and/or change its details; the brand is fixed
+ */
+export type UpdateBlendDTO = Partial<Pick<BlendEntity, "name" | "region_id"> & BlendDetailsDTO>;
+
+/**
+ * Command model for changing the user's settings
+ */
+export type UpdateUserSettingsDTO = Partial<UserSettingsResponseDTO>;
+
 // ============================================================================
 // Pagination Types
 // ============================================================================
@@ -191,6 +413,24 @@ export interface PaginatedResponseDTO<T> {
   pagination: PaginationMetaDTO;
 }
 
+/**
+ * Pagination metadata for cursor-based list responses
+ * next_cursor is null on the last page
+ */
+export interface CursorPaginationMetaDTO {
+  limit: number;
+  next_cursor: string | null;
+}
+
+/**
+ * Cursor-paginated response wrapper
+ * Pages stay stable while rows are added, and no total count is computed
+ */
+export interface CursorPaginatedResponseDTO<T> {
+  data: T[];
+  pagination: CursorPaginationMetaDTO;
+}
+
 // ============================================================================
 // List Response DTOs
 // ============================================================================
@@ -200,6 +440,11 @@ export interface PaginatedResponseDTO<T> {
  */
 export type TastingNotesListResponseDTO = PaginatedResponseDTO<TastingNoteResponseDTO>;
 
+/**
+ * Cursor-paginated list of tasting notes
+ */
+export type TastingNotesCursorListResponseDTO = CursorPaginatedResponseDTO<TastingNoteResponseDTO>;
+
 /**
  * Paginated list of brands
  */
@@ -210,21 +455,256 @@ export type BrandsListResponseDTO = PaginatedResponseDTO<BrandResponseDTO>;
  */
 export type RegionsListResponseDTO = PaginatedResponseDTO<RegionResponseDTO>;
 
+/**
+ * Paginated list of tags
+ */
+export type TagsListResponseDTO = PaginatedResponseDTO<TagResponseDTO>;
+
+/**
+ * Response DTO for POST /api/tasting-notes/:id/share
+ * share_url is absolute, ready to copy; both are null once the link is revoked
+ */
+export interface ShareTastingNoteResponseDTO {
+  is_public: boolean;
+  share_token: string | null;
+  share_url: string | null;
+}
+
+/**
+ * Response DTO for GET /api/tasting-notes/:id/photos
+ * Not paginated - a note has at most MAX_PHOTOS_PER_NOTE photos
+ */
+export interface TastingNotePhotosResponseDTO {
+  data: TastingNotePhotoDTO[];
+}
+
 /**
  * Paginated list of blends
  */
 export type BlendsListResponseDTO = PaginatedResponseDTO<BlendResponseDTO>;
 
+/**
+ * Response DTO for GET /api/filter-presets
+ * Not paginated - a user has at most MAX_FILTER_PRESETS presets, sorted by name
+ */
+export interface FilterPresetsResponseDTO {
+  data: FilterPresetResponseDTO[];
+}
+
 // ============================================================================
 // Special Response DTOs
 // ============================================================================
 
 /**
- * Response for listing two tasting notes by ids
- * Always contains exactly 2 notes
+ * Response for listing tasting notes by ids for comparison
+ * Contains between 2 and MAX_COMPARE_NOTES notes, in requested order
  */
 export interface SelectNotesResponseDTO {
-  notes: [TastingNoteResponseDTO, TastingNoteResponseDTO];
+  notes: TastingNoteResponseDTO[];
+}
+
+/**
+ * Flattened tasting note row used by the CSV/JSON export
+ * Nested blend, brand and region are inlined as names
+ */
+export interface TastingNoteExportRowDTO {
+  id: string;
+  brand_name: string;
+  blend_name: string;
+  region_name: string;
+  tags: string; // Tag names joined with "; "
+  overall_rating: number;
+  umami: number | null;
+  bitter: number | null;
+  sweet: number | null;
+  foam: number | null;
+  notes_koicha: string | null;
+  notes_milk: string | null;
+  brew_method: string | null;
+  powder_grams: number | null;
+  water_ml: number | null;
+  water_temp_c: number | null;
+  whisk_type: string | null;
+  milk_type: string | null;
+  price_amount: number | null;
+  price_currency: string | null;
+  package_grams: number | null;
+  price_per_100g_pln: number | null;
+  purchase_source: string | null;
+  tasted_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Outcome of a single imported row
+ * Row numbers are 1-based and refer to data rows (CSV header excluded)
+ */
+export interface ImportRowResultDTO {
+  row: number;
+  status: "valid" | "invalid" | "imported" | "failed";
+  brand_name: string | null;
+  blend_name: string | null;
+  region_name: string | null;
+  overall_rating: number | null;
+  is_new_blend: boolean | null; // Whether the blend will be / was created by the import
+  note_id: string | null; // Set once the row has been imported
+  errors: ValidationErrorDTO[];
+}
+
+/**
+ * Response for a bulk import (dry run preview or committed import)
+ */
+export interface ImportTastingNotesResponseDTO {
+  dry_run: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  imported: number;
+  rows: ImportRowResultDTO[];
+}
+
+/**
+ * Average rating for a single brand, region or blend in the user's journal
+ * rating_stddev is the population standard deviation (lower means more consistent)
+ */
+export interface StatsGroupDTO {
+  id: string;
+  name: string;
+  note_count: number;
+  average_rating: number;
+  rating_stddev: number;
+  min_rating: number;
+  max_rating: number;
+}
+
+/**
+ * Response for personal tasting statistics
+ * Averages are rounded to 2 decimal places and null when nothing was rated
+ */
+export interface StatsResponseDTO {
+  total_notes: number;
+  average_rating: number | null;
+  by_brand: StatsGroupDTO[]; // Sorted by average rating, best first
+  by_region: StatsGroupDTO[]; // Sorted by average rating, best first
+  rating_distribution: { rating: number; count: number }[]; // Always ratings 1-5
+  sensory_profile: {
+    umami: number | null;
+    bitter: number | null;
+    sweet: number | null;
+    foam: number | null;
+  };
+  notes_per_month: { month: string; count: number }[]; // Month of tasting as YYYY-MM, oldest first
+  price_rating: {
+    sample_size: number; // Number of notes with a price
+    correlation: number | null; // Pearson coefficient, null with fewer than 2 priced notes
+    points: { price_per_100g_pln: number; overall_rating: number }[];
+  };
+}
+
+/**
+ * Response for the user's statistics over a single blend or brand
+ * Averages are rounded to 2 decimal places and null when nothing was rated
+ */
+export interface CatalogStatsResponseDTO {
+  total_notes: number;
+  average_rating: number | null;
+  sensory_profile: StatsResponseDTO["sensory_profile"];
+  latest_price: {
+    price_amount: number;
+    price_currency: string;
+    package_grams: number | null;
+    price_per_100g_pln: number;
+    tasted_at: string; // YYYY-MM-DD of the most recent priced tasting
+  } | null; // null when no note has a price
+  by_blend: StatsGroupDTO[]; // Sorted by average rating, best first; a single entry on a blend
+  timeline: CatalogTimelineEntryDTO[]; // Oldest tasting first
+}
+
+/**
+ * Anonymised ratings of a blend across all users who share their ratings with the community
+ * Averages weigh every taster equally and are null below COMMUNITY_MIN_TASTERS tasters
+ */
+export interface CommunityBlendRatingDTO {
+  blend_id: string;
+  taster_count: number;
+  average_rating: number | null;
+  sensory_profile: StatsResponseDTO["sensory_profile"];
+  is_contributing: boolean; // Whether the requesting user's own ratings are included
+}
+
+/**
+ * A single tasting note on a blend or brand timeline
+ */
+export interface CatalogTimelineEntryDTO {
+  id: string;
+  tasted_at: string; // YYYY-MM-DD
+  overall_rating: number;
+  blend_id: string;
+  blend_name: string;
+  price_per_100g_pln: number | null;
+}
+
+/**
+ * A pair of catalog entries that are likely duplicates of each other
+ * Usage counts blends for brands and regions and tasting notes (of all users) for blends
+ */
+export interface DuplicateCandidateDTO {
+  first: DuplicateCandidateEntryDTO;
+  second: DuplicateCandidateEntryDTO;
+  context: string | null; // Brand name for blends, which are only compared within a brand
+  score: number; // Trigram similarity of the names, 0-1
+}
+
+/**
+ * One side of a likely duplicate pair
+ */
+export interface DuplicateCandidateEntryDTO {
+  id: string;
+  name: string;
+  usage: number;
+}
+
+/**
+ * Response for the likely duplicates of one catalog kind, most similar first
+ */
+export interface DuplicateCandidatesResponseDTO {
+  kind: CatalogKind;
+  data: DuplicateCandidateDTO[];
+}
+
+/**
+ * Response for the moderation audit trail, newest merge first
+ */
+export interface CatalogMergesResponseDTO {
+  data: CatalogMergeResponseDTO[];
+}
+
+/**
+ * An existing catalog entry whose name is close to a name about to be created
+ */
+export interface CatalogNameSuggestionDTO {
+  id: string;
+  name: string;
+  score: number; // Trigram similarity of the names, 0-1
+}
+
+/**
+ * An existing blend whose name is close to the blend about to be created, with its brand and region
+ */
+export interface BlendNameSuggestionDTO extends CatalogNameSuggestionDTO {
+  brand: NestedBrandDTO;
+  region: NestedRegionDTO;
+}
+
+/**
+ * Existing names close to those of a blend about to be created, most similar first
+ * Brands and regions are only checked when given by name; blends only within an existing brand
+ */
+export interface CreateBlendSuggestionsDTO {
+  brands: CatalogNameSuggestionDTO[];
+  regions: CatalogNameSuggestionDTO[];
+  blends: BlendNameSuggestionDTO[];
 }
 
 // ============================================================================
@@ -235,11 +715,64 @@ export interface SelectNotesResponseDTO {
  * Query parameters for listing tasting notes with filters and sorting
  */
 export interface TastingNotesQueryDTO extends PaginationQueryDTO {
+  cursor?: string | null; // Opaque next_cursor from a previous page; "" starts cursor mode, excludes page
+  q?: string | null; // Full-text search over notes, purchase source and blend/brand/region names
   brand_ids?: string[] | null; // Array of brand UUIDs
   region_ids?: string[] | null; // Array of region UUIDs
+  tag_ids?: string[] | null; // Array of tag UUIDs, matches notes with any of the tags
+  grade?: string | null; // One of BLEND_GRADES, grade of the note's blend
+  cultivar?: string | null; // Case-insensitive cultivar name, blends containing it
   min_rating?: number | null; // 1-5
-  sort_by?: "created_at" | "updated_at" | "overall_rating" | null;
+  min_price?: number | null; // Normalised PLN per 100g, inclusive
+  max_price?: number | null; // Normalised PLN per 100g, inclusive
+  min_umami?: number | null; // 1-5, inclusive; sensory ranges exclude notes without the score
+  max_umami?: number | null;
+  min_bitter?: number | null;
+  max_bitter?: number | null;
+  min_sweet?: number | null;
+  max_sweet?: number | null;
+  min_foam?: number | null;
+  max_foam?: number | null;
+  has_notes_koicha?: boolean | null; // true: koicha notes written, false: none
+  has_notes_milk?: boolean | null; // true: milk notes written, false: none
+  from?: string | null; // YYYY-MM-DD, tasted on or after
+  to?: string | null; // YYYY-MM-DD, tasted on or before
+  sort_by?: TastingNotesSortKey | null; // Notes without a value for the key (e.g. unpriced for "value") go last
   sort_order?: "asc" | "desc" | null;
+  secondary_sort_by?: TastingNotesSortKey | null; // Orders notes tied on sort_by; must differ from it
+  secondary_sort_order?: "asc" | "desc" | null;
+}
+
+/**
+ * Sort keys of the tasting notes list
+ * "value" is rating per price, "price_pln" the normalised price per 100g
+ */
+export type TastingNotesSortKey =
+  | "created_at"
+  | "tasted_at"
+  | "updated_at"
+  | "overall_rating"
+  | "value"
+  | "umami"
+  | "bitter"
+  | "sweet"
+  | "foam"
+  | "price_pln"
+  | "blend_name"
+  | "brand_name";
+
+/**
+ * Filters and sorting of the tasting notes list, without pagination
+ * Stored in filter presets and mirrored in the dashboard URL
+ */
+export type TastingNotesFiltersDTO = Omit<TastingNotesQueryDTO, "page" | "limit" | "cursor">;
+
+/**
+ * Query parameters for exporting tasting notes
+ * Accepts the same filters and sorting as the list endpoint, without pagination
+ */
+export interface TastingNotesExportQueryDTO extends TastingNotesFiltersDTO {
+  format: "csv" | "json";
 }
 
 /**
@@ -256,21 +789,30 @@ export interface RegionsQueryDTO extends PaginationQueryDTO {
   search?: string;
 }
 
+/**
+ * Query parameters for listing tags with search
+ */
+export interface TagsQueryDTO extends PaginationQueryDTO {
+  search?: string;
+}
+
 /**
  * Query parameters for listing blends with filters and search
  */
 export interface BlendsQueryDTO extends PaginationQueryDTO {
   brand_id?: string | null;
   region_id?: string | null;
+  grade?: string | null; // One of BLEND_GRADES
+  cultivar?: string | null; // Case-insensitive cultivar name, blends containing it
   search?: string | null;
 }
 
 /**
  * Query parameters for selecting tasting notes
- * Expects exactly 2 comma-separated UUIDs
+ * Expects 2 to MAX_COMPARE_NOTES comma-separated, unique UUIDs
  */
 export interface SelectNotesQueryDTO {
-  ids: string; // Comma-separated UUIDs, e.g., "uuid1,uuid2"
+  ids: string; // Comma-separated UUIDs, e.g., "uuid1,uuid2,uuid3"
 }
 
 // ============================================================================
@@ -293,6 +835,14 @@ export interface ErrorResponseDTO {
   details?: ValidationErrorDTO[];
 }
 
+/**
+ * Error response when a blend would create names close to existing ones (409)
+ * Resend with allow_similar to create them anyway
+ */
+export interface SimilarNamesErrorResponseDTO extends ErrorResponseDTO {
+  suggestions: CreateBlendSuggestionsDTO;
+}
+
 // ============================================================================
 // Database Insert/Update Type Aliases
 // ============================================================================
@@ -309,6 +859,24 @@ export type BrandInsert = TablesInsert<"brands">;
  */
 export type RegionInsert = TablesInsert<"regions">;
 
+/**
+ * Type for inserting a new tag into the database
+ * Derived from database schema Insert type
+ */
+export type TagInsert = TablesInsert<"tags">;
+
+/**
+ * Type for inserting a new tasting note photo into the database
+ * Derived from database schema Insert type
+ */
+export type TastingNotePhotoInsert = TablesInsert<"tasting_note_photos">;
+
+/**
+ * Type for inserting a new filter preset into the database
+ * Derived from database schema Insert type
+ */
+export type FilterPresetInsert = TablesInsert<"filter_presets">;
+
 /**
  * Type for inserting a new blend into the database
  * Derived from database schema Insert type
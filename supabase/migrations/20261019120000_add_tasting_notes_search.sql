@@ -0,0 +1,118 @@
+-- migration: add full-text search to tasting_notes
+-- purpose: allow users to search their journal by notes, purchase source and blend/brand/region names
+-- affected: table 'tasting_notes' (new column 'search_vector'), new trigger functions on
+--           'tasting_notes', 'blends', 'brands', 'regions'
+-- considerations:
+--   - generated columns cannot reference other tables, so the vector is maintained by triggers
+--   - the 'simple' configuration is used because notes mix english, polish and japanese terms
+--   - names are weighted highest (a), tasting notes next (b), purchase source lowest (c)
+--   - renaming a blend, brand or region refreshes the vectors of every affected tasting note
+--   - refreshing the vector alone must not bump updated_at
+
+-- add search vector column
+alter table tasting_notes add column search_vector tsvector;
+
+-- function: build the search vector for a single tasting note
+-- rationale: single source of truth for both the row trigger and catalog rename triggers
+create or replace function build_tasting_note_search_vector(
+    p_blend_id uuid,
+    p_notes_koicha text,
+    p_notes_milk text,
+    p_purchase_source text
+)
+returns tsvector as $$
+    select
+        setweight(to_tsvector('simple', coalesce(b.name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(br.name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(r.name, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(p_notes_koicha, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(p_notes_milk, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(p_purchase_source, '')), 'C')
+    from blends b
+    join brands br on br.id = b.brand_id
+    join regions r on r.id = b.region_id
+    where b.id = p_blend_id;
+$$ language sql stable;
+
+-- trigger function: keep search_vector in sync with the tasting note row
+create or replace function update_tasting_notes_search_vector()
+returns trigger as $$
+begin
+    new.search_vector = build_tasting_note_search_vector(
+        new.blend_id,
+        new.notes_koicha,
+        new.notes_milk,
+        new.purchase_source
+    );
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger update_tasting_notes_search_vector
+before insert or update of blend_id, notes_koicha, notes_milk, purchase_source on tasting_notes
+for each row
+execute function update_tasting_notes_search_vector();
+
+-- trigger function: refresh vectors of tasting notes affected by a catalog rename
+-- rationale: security definer is required because the notes may belong to other users (rls)
+create or replace function refresh_tasting_notes_search_vector_for_catalog()
+returns trigger
+security definer
+set search_path = public
+as $$
+begin
+    update tasting_notes tn
+    set search_vector = build_tasting_note_search_vector(
+        tn.blend_id,
+        tn.notes_koicha,
+        tn.notes_milk,
+        tn.purchase_source
+    )
+    where tn.blend_id in (
+        select b.id
+        from blends b
+        where (tg_table_name = 'blends' and b.id = new.id)
+           or (tg_table_name = 'brands' and b.brand_id = new.id)
+           or (tg_table_name = 'regions' and b.region_id = new.id)
+    );
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger refresh_search_vector_on_blend_change
+after update of name, brand_id, region_id on blends
+for each row
+execute function refresh_tasting_notes_search_vector_for_catalog();
+
+create trigger refresh_search_vector_on_brand_rename
+after update of name on brands
+for each row
+execute function refresh_tasting_notes_search_vector_for_catalog();
+
+create trigger refresh_search_vector_on_region_rename
+after update of name on regions
+for each row
+execute function refresh_tasting_notes_search_vector_for_catalog();
+
+-- restrict the updated_at trigger to real content changes
+-- rationale: catalog renames rewrite search_vector on many notes and must not change their timestamps
+drop trigger update_tasting_notes_updated_at on tasting_notes;
+
+create trigger update_tasting_notes_updated_at
+before update on tasting_notes
+for each row
+when (
+    (to_jsonb(old) - 'search_vector' - 'updated_at') is distinct from
+    (to_jsonb(new) - 'search_vector' - 'updated_at')
+)
+execute function update_updated_at_column();
+
+-- backfill existing rows
+update tasting_notes
+set search_vector = build_tasting_note_search_vector(blend_id, notes_koicha, notes_milk, purchase_source);
+
+-- index: full-text search over tasting notes
+-- rationale: gin index makes tsvector matching fast regardless of journal size
+-- query pattern: select * from tasting_notes where user_id = ? and search_vector @@ websearch_to_tsquery('simple', ?)
+create index idx_tasting_notes_search_vector
+on tasting_notes using gin (search_vector);
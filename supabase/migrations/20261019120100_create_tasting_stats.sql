@@ -0,0 +1,116 @@
+-- migration: add personal tasting statistics
+-- purpose: aggregate a user's tasting notes server-side for the /stats page
+-- affected: new function 'get_tasting_stats'
+-- considerations:
+--   - security invoker, so the existing rls policies on tasting_notes still apply
+--   - the notes are those of auth.uid(); the function takes no user id, since the select policy on
+--     tasting_notes does not yet limit reads to the owner and a caller-supplied id would expose
+--     other users' aggregates
+--   - a single round trip returns every aggregate as one jsonb document
+--   - averages are rounded to 2 decimal places; empty groups yield null rather than 0
+--   - the price/rating correlation is null with fewer than 2 priced notes or no variance
+
+-- function: aggregate tasting statistics for a single user
+-- rationale: computing aggregates in postgres avoids transferring every note to the server
+create or replace function get_tasting_stats()
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+    with user_notes as (
+        select
+            tn.*,
+            b.brand_id,
+            b.region_id,
+            br.name as brand_name,
+            r.name as region_name
+        from tasting_notes tn
+        join blends b on b.id = tn.blend_id
+        join brands br on br.id = b.brand_id
+        join regions r on r.id = b.region_id
+        where tn.user_id = auth.uid()
+    ),
+    priced_notes as (
+        select price_pln, overall_rating
+        from user_notes
+        where price_pln is not null
+    )
+    select jsonb_build_object(
+        'total_notes', (select count(*) from user_notes),
+        'average_rating', (select round(avg(overall_rating), 2) from user_notes),
+        -- brands ordered by average rating, then by volume so consistent producers surface first
+        'by_brand', coalesce((
+            select jsonb_agg(row_to_json(s) order by s.average_rating desc, s.note_count desc, s.name)
+            from (
+                select
+                    brand_id as id,
+                    brand_name as name,
+                    count(*) as note_count,
+                    round(avg(overall_rating), 2) as average_rating,
+                    round(stddev_pop(overall_rating), 2) as rating_stddev,
+                    min(overall_rating) as min_rating,
+                    max(overall_rating) as max_rating
+                from user_notes
+                group by brand_id, brand_name
+            ) s
+        ), '[]'::jsonb),
+        'by_region', coalesce((
+            select jsonb_agg(row_to_json(s) order by s.average_rating desc, s.note_count desc, s.name)
+            from (
+                select
+                    region_id as id,
+                    region_name as name,
+                    count(*) as note_count,
+                    round(avg(overall_rating), 2) as average_rating,
+                    round(stddev_pop(overall_rating), 2) as rating_stddev,
+                    min(overall_rating) as min_rating,
+                    max(overall_rating) as max_rating
+                from user_notes
+                group by region_id, region_name
+            ) s
+        ), '[]'::jsonb),
+        -- every rating from 1 to 5 is listed, including those with zero notes
+        'rating_distribution', (
+            select jsonb_agg(jsonb_build_object('rating', s.rating, 'count', s.count) order by s.rating)
+            from (
+                select g.rating, count(n.id) as count
+                from generate_series(1, 5) as g(rating)
+                left join user_notes n on n.overall_rating = g.rating
+                group by g.rating
+            ) s
+        ),
+        'sensory_profile', (
+            select jsonb_build_object(
+                'umami', round(avg(umami), 2),
+                'bitter', round(avg(bitter), 2),
+                'sweet', round(avg(sweet), 2),
+                'foam', round(avg(foam), 2)
+            )
+            from user_notes
+        ),
+        'notes_per_month', coalesce((
+            select jsonb_agg(jsonb_build_object('month', s.month, 'count', s.count) order by s.month)
+            from (
+                select to_char(date_trunc('month', created_at), 'YYYY-MM') as month, count(*) as count
+                from user_notes
+                group by 1
+            ) s
+        ), '[]'::jsonb),
+        'price_rating', (
+            select jsonb_build_object(
+                'sample_size', count(*),
+                'correlation', round(corr(price_pln, overall_rating)::numeric, 3),
+                'points', coalesce(
+                    jsonb_agg(jsonb_build_object('price_pln', price_pln, 'overall_rating', overall_rating)),
+                    '[]'::jsonb
+                )
+            )
+            from priced_notes
+        )
+    );
+$$;
+
+-- allow authenticated users to call the function (it only aggregates their own notes)
+grant execute on function get_tasting_stats() to authenticated;
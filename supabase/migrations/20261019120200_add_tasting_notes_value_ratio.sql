@@ -0,0 +1,27 @@
+-- migration: add value-for-money ratio to tasting_notes
+-- purpose: allow sorting and scoring notes by overall rating per PLN
+-- affected: table 'tasting_notes' (new generated column 'value_ratio'), new indexes
+-- considerations:
+--   - price_pln is stored per 100g, so the ratio is stars per PLN per 100g
+--   - notes without a price (or priced at 0) have no ratio and sort last
+--   - the 0-100 value score is normalised in the service layer against the user's best ratio,
+--     because normalising in the column would require rewriting every note on each change
+--   - a stored generated column keeps the ratio sortable and indexable without triggers
+
+-- add generated value ratio column
+alter table tasting_notes
+add column value_ratio numeric generated always as (
+    case when price_pln > 0 then overall_rating::numeric / price_pln end
+) stored;
+
+-- index: user-scoped sorting by value for money
+-- rationale: optimize the dashboard "best value" sort and the per-user best ratio lookup
+-- query pattern: select * from tasting_notes where user_id = ? order by value_ratio desc nulls last
+create index idx_tasting_notes_user_value
+on tasting_notes (user_id, value_ratio desc nulls last);
+
+-- index: user-scoped price range filtering
+-- rationale: optimize filtering notes within a budget
+-- query pattern: select * from tasting_notes where user_id = ? and price_pln between ? and ?
+create index idx_tasting_notes_user_price
+on tasting_notes (user_id, price_pln);
@@ -0,0 +1,270 @@
+-- migration: replace pln-only pricing with multi-currency pricing
+-- purpose: record the price actually paid (any supported currency, any package size)
+--          and derive a comparable price per 100g in PLN
+-- affected: new table 'currency_rates'; table 'tasting_notes' (new columns 'price_amount',
+--           'price_currency', 'package_grams', 'price_per_100g_pln'; dropped column 'price_pln';
+--           'value_ratio' becomes trigger-maintained); function 'get_tasting_stats'
+-- considerations:
+--   - conversion uses the locally maintained currency_rates table; there is no live fx lookup
+--   - rates are edited by an operator (sql editor or seed), so no write policies are granted
+--   - existing price_pln values were already per 100g in pln and are migrated as such
+--   - a missing package size means the price is quoted per 100g
+--   - changing a rate refreshes the normalised price of every note in that currency
+--   - value_ratio can no longer be a generated column because it depends on the converted
+--     price, which needs a lookup in another table
+
+-- create currency_rates table
+create table currency_rates (
+    currency text primary key check (currency ~ '^[A-Z]{3}$'),
+    -- how many pln one unit of the currency is worth
+    rate_to_pln numeric(14, 6) not null check (rate_to_pln > 0),
+    updated_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table currency_rates enable row level security;
+
+-- policy: allow public read access to currency rates for all users (anon role)
+-- rationale: rates are global reference data
+create policy "allow_anon_select_currency_rates"
+on currency_rates
+for select
+to anon
+using (true);
+
+-- policy: allow read access to currency rates for authenticated users
+-- rationale: users see which currencies are supported when logging a price
+create policy "allow_authenticated_select_currency_rates"
+on currency_rates
+for select
+to authenticated
+using (true);
+
+-- seed default rates (adjust locally as needed)
+-- note: keep in sync with SUPPORTED_CURRENCIES in src/lib/constants.ts
+insert into currency_rates (currency, rate_to_pln) values
+    ('PLN', 1),
+    ('EUR', 4.30),
+    ('USD', 4.00),
+    ('JPY', 0.027);
+
+-- function: convert a price to pln per 100g
+-- rationale: single source of truth for the row trigger and the rate refresh trigger
+create or replace function compute_price_per_100g_pln(
+    p_amount numeric,
+    p_currency text,
+    p_package_grams integer
+)
+returns numeric as $$
+    select round(p_amount * cr.rate_to_pln * 100 / coalesce(p_package_grams, 100), 2)
+    from currency_rates cr
+    where cr.currency = coalesce(p_currency, 'PLN');
+$$ language sql stable;
+
+-- add pricing columns
+alter table tasting_notes
+    add column price_amount numeric(12, 2) check (price_amount is null or price_amount >= 0),
+    add column price_currency text references currency_rates (currency) on update cascade on delete restrict,
+    add column package_grams integer check (package_grams is null or package_grams > 0),
+    add column price_per_100g_pln numeric(12, 2);
+
+-- migrate existing prices without touching updated_at
+-- rationale: this is a data migration, not a user edit
+alter table tasting_notes disable trigger update_tasting_notes_updated_at;
+
+update tasting_notes
+set price_amount = price_pln,
+    price_currency = 'PLN',
+    package_grams = 100
+where price_pln is not null;
+
+-- replace the generated value ratio with a trigger-maintained column
+drop index idx_tasting_notes_user_value;
+alter table tasting_notes drop column value_ratio;
+alter table tasting_notes drop column price_pln;
+alter table tasting_notes add column value_ratio numeric;
+
+update tasting_notes
+set price_per_100g_pln = compute_price_per_100g_pln(price_amount, price_currency, package_grams)
+where price_amount is not null;
+
+update tasting_notes
+set value_ratio = overall_rating::numeric / price_per_100g_pln
+where price_per_100g_pln > 0;
+
+alter table tasting_notes enable trigger update_tasting_notes_updated_at;
+
+-- trigger function: keep normalised price and value ratio in sync with the tasting note row
+create or replace function update_tasting_notes_pricing()
+returns trigger as $$
+begin
+    new.price_per_100g_pln = case
+        when new.price_amount is null then null
+        else compute_price_per_100g_pln(new.price_amount, new.price_currency, new.package_grams)
+    end;
+    new.value_ratio = case
+        when new.price_per_100g_pln > 0 then new.overall_rating::numeric / new.price_per_100g_pln
+    end;
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger update_tasting_notes_pricing
+before insert or update of overall_rating, price_amount, price_currency, package_grams on tasting_notes
+for each row
+execute function update_tasting_notes_pricing();
+
+-- trigger function: refresh normalised prices after a rate change
+-- rationale: security definer is required because the notes belong to many users (rls)
+create or replace function refresh_tasting_notes_pricing_for_rate()
+returns trigger
+security definer
+set search_path = public
+as $$
+begin
+    update tasting_notes tn
+    set price_per_100g_pln = compute_price_per_100g_pln(tn.price_amount, tn.price_currency, tn.package_grams)
+    where tn.price_currency = new.currency
+      and tn.price_amount is not null;
+
+    update tasting_notes tn
+    set value_ratio = case
+        when tn.price_per_100g_pln > 0 then tn.overall_rating::numeric / tn.price_per_100g_pln
+    end
+    where tn.price_currency = new.currency;
+
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger refresh_pricing_on_rate_change
+after update of rate_to_pln on currency_rates
+for each row
+execute function refresh_tasting_notes_pricing_for_rate();
+
+-- restrict the updated_at trigger to real content changes
+-- rationale: rate changes rewrite derived prices on many notes and must not change their timestamps
+drop trigger update_tasting_notes_updated_at on tasting_notes;
+
+create trigger update_tasting_notes_updated_at
+before update on tasting_notes
+for each row
+when (
+    (to_jsonb(old) - 'search_vector' - 'price_per_100g_pln' - 'value_ratio' - 'updated_at') is distinct from
+    (to_jsonb(new) - 'search_vector' - 'price_per_100g_pln' - 'value_ratio' - 'updated_at')
+)
+execute function update_updated_at_column();
+
+-- index: user-scoped sorting by value for money
+-- query pattern: select * from tasting_notes where user_id = ? order by value_ratio desc nulls last
+create index idx_tasting_notes_user_value
+on tasting_notes (user_id, value_ratio desc nulls last);
+
+-- index: user-scoped price range filtering on the normalised price
+-- query pattern: select * from tasting_notes where user_id = ? and price_per_100g_pln between ? and ?
+create index idx_tasting_notes_user_price
+on tasting_notes (user_id, price_per_100g_pln);
+
+-- recreate stats function against the normalised price
+-- rationale: price_pln no longer exists; correlation is computed on pln per 100g so currencies are comparable
+create or replace function get_tasting_stats()
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+    with user_notes as (
+        select
+            tn.*,
+            b.brand_id,
+            b.region_id,
+            br.name as brand_name,
+            r.name as region_name
+        from tasting_notes tn
+        join blends b on b.id = tn.blend_id
+        join brands br on br.id = b.brand_id
+        join regions r on r.id = b.region_id
+        where tn.user_id = auth.uid()
+    ),
+    priced_notes as (
+        select price_per_100g_pln, overall_rating
+        from user_notes
+        where price_per_100g_pln is not null
+    )
+    select jsonb_build_object(
+        'total_notes', (select count(*) from user_notes),
+        'average_rating', (select round(avg(overall_rating), 2) from user_notes),
+        -- brands ordered by average rating, then by volume so consistent producers surface first
+        'by_brand', coalesce((
+            select jsonb_agg(row_to_json(s) order by s.average_rating desc, s.note_count desc, s.name)
+            from (
+                select
+                    brand_id as id,
+                    brand_name as name,
+                    count(*) as note_count,
+                    round(avg(overall_rating), 2) as average_rating,
+                    round(stddev_pop(overall_rating), 2) as rating_stddev,
+                    min(overall_rating) as min_rating,
+                    max(overall_rating) as max_rating
+                from user_notes
+                group by brand_id, brand_name
+            ) s
+        ), '[]'::jsonb),
+        'by_region', coalesce((
+            select jsonb_agg(row_to_json(s) order by s.average_rating desc, s.note_count desc, s.name)
+            from (
+                select
+                    region_id as id,
+                    region_name as name,
+                    count(*) as note_count,
+                    round(avg(overall_rating), 2) as average_rating,
+                    round(stddev_pop(overall_rating), 2) as rating_stddev,
+                    min(overall_rating) as min_rating,
+                    max(overall_rating) as max_rating
+                from user_notes
+                group by region_id, region_name
+            ) s
+        ), '[]'::jsonb),
+        -- every rating from 1 to 5 is listed, including those with zero notes
+        'rating_distribution', (
+            select jsonb_agg(jsonb_build_object('rating', s.rating, 'count', s.count) order by s.rating)
+            from (
+                select g.rating, count(n.id) as count
+                from generate_series(1, 5) as g(rating)
+                left join user_notes n on n.overall_rating = g.rating
+                group by g.rating
+            ) s
+        ),
+        'sensory_profile', (
+            select jsonb_build_object(
+                'umami', round(avg(umami), 2),
+                'bitter', round(avg(bitter), 2),
+                'sweet', round(avg(sweet), 2),
+                'foam', round(avg(foam), 2)
+            )
+            from user_notes
+        ),
+        'notes_per_month', coalesce((
+            select jsonb_agg(jsonb_build_object('month', s.month, 'count', s.count) order by s.month)
+            from (
+                select to_char(date_trunc('month', created_at), 'YYYY-MM') as month, count(*) as count
+                from user_notes
+                group by 1
+            ) s
+        ), '[]'::jsonb),
+        'price_rating', (
+            select jsonb_build_object(
+                'sample_size', count(*),
+                'correlation', round(corr(price_per_100g_pln, overall_rating)::numeric, 3),
+                'points', coalesce(
+                    jsonb_agg(
+                        jsonb_build_object('price_per_100g_pln', price_per_100g_pln, 'overall_rating', overall_rating)
+                    ),
+                    '[]'::jsonb
+                )
+            )
+            from priced_notes
+        )
+    );
+$$;
@@ -0,0 +1,18 @@
+-- migration: add brewing parameters to tasting_notes
+-- purpose: record how the matcha was prepared so notes on the same blend can be reconciled
+-- affected: table 'tasting_notes' (new columns 'brew_method', 'powder_grams', 'water_ml',
+--           'water_temp_c', 'whisk_type', 'milk_type')
+-- considerations:
+--   - all parameters are optional; existing notes keep null values
+--   - brew_method is a closed set kept in sync with BREW_METHODS in src/lib/constants.ts
+--   - whisk and milk types are free text because the range of equipment and milks is open-ended
+--   - ranges are generous sanity limits, not brewing advice
+
+alter table tasting_notes
+    add column brew_method text check (brew_method is null or brew_method in ('usucha', 'koicha', 'latte', 'other')),
+    -- powder dose in grams, one decimal place (e.g. 1.5g for usucha, 4g for koicha)
+    add column powder_grams numeric(4, 1) check (powder_grams is null or (powder_grams > 0 and powder_grams <= 50)),
+    add column water_ml integer check (water_ml is null or (water_ml > 0 and water_ml <= 1000)),
+    add column water_temp_c smallint check (water_temp_c is null or water_temp_c between 0 and 100),
+    add column whisk_type text check (whisk_type is null or char_length(whisk_type) <= 100),
+    add column milk_type text check (milk_type is null or char_length(milk_type) <= 100);
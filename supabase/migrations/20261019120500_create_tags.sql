@@ -0,0 +1,93 @@
+-- migration: add free-form flavor tags
+-- purpose: describe tastings with descriptors ("grassy", "nutty", "seaweed") beyond the four numeric axes
+-- affected: new tables 'tags' and 'tasting_note_tags'
+-- considerations:
+--   - tags are global reference data (like brands), so everyone shares one vocabulary for autocomplete
+--   - uses citext for case-insensitive unique tag names
+--   - the join table inherits visibility from tasting_notes: a tag link is visible whenever its note is
+--   - only the owner of a note can attach or detach its tags
+--   - deleting a note removes its tag links; tags themselves are kept for reuse
+
+-- create tags table
+create table tags (
+    id uuid primary key default gen_random_uuid(),
+    name citext unique not null check (char_length(name) between 1 and 50),
+    created_at timestamptz not null default now()
+);
+
+-- enable row level security
+alter table tags enable row level security;
+
+-- policy: allow public read access to tags for all users (anon role)
+-- rationale: tags are global reference data needed for autocomplete
+create policy "allow_anon_select_tags"
+on tags
+for select
+to anon
+using (true);
+
+-- policy: allow public read access to tags for authenticated users
+-- rationale: authenticated users need to view tags when creating/editing tasting notes
+create policy "allow_authenticated_select_tags"
+on tags
+for select
+to authenticated
+using (true);
+
+-- policy: allow authenticated users to insert new tags
+-- rationale: users can coin new descriptors while writing a tasting note
+-- note: case-insensitive uniqueness is enforced by citext unique constraint
+create policy "allow_authenticated_insert_tags"
+on tags
+for insert
+to authenticated
+with check (auth.role() = 'authenticated');
+
+-- create tasting_note_tags join table
+create table tasting_note_tags (
+    tasting_note_id uuid not null references tasting_notes(id) on delete cascade,
+    tag_id uuid not null references tags(id) on delete cascade,
+    created_at timestamptz not null default now(),
+    primary key (tasting_note_id, tag_id)
+);
+
+-- enable row level security
+alter table tasting_note_tags enable row level security;
+
+-- policy: allow read access to tag links of visible tasting notes (anon role)
+-- rationale: the subquery is itself filtered by the tasting_notes select policies
+create policy "allow_anon_select_tasting_note_tags"
+on tasting_note_tags
+for select
+to anon
+using (exists (select 1 from tasting_notes tn where tn.id = tasting_note_id));
+
+-- policy: allow read access to tag links of visible tasting notes (authenticated role)
+-- rationale: the subquery is itself filtered by the tasting_notes select policies
+create policy "allow_authenticated_select_tasting_note_tags"
+on tasting_note_tags
+for select
+to authenticated
+using (exists (select 1 from tasting_notes tn where tn.id = tasting_note_id));
+
+-- policy: allow users to tag only their own tasting notes
+-- rationale: users can only modify their own data
+create policy "allow_authenticated_insert_own_tasting_note_tags"
+on tasting_note_tags
+for insert
+to authenticated
+with check (exists (select 1 from tasting_notes tn where tn.id = tasting_note_id and tn.user_id = auth.uid()));
+
+-- policy: allow users to untag only their own tasting notes
+-- rationale: users can only modify their own data
+create policy "allow_authenticated_delete_own_tasting_note_tags"
+on tasting_note_tags
+for delete
+to authenticated
+using (exists (select 1 from tasting_notes tn where tn.id = tasting_note_id and tn.user_id = auth.uid()));
+
+-- index: tag-based filtering of tasting notes
+-- query pattern: select tasting_note_id from tasting_note_tags where tag_id in (?)
+-- note: lookups by tasting_note_id are served by the primary key
+create index idx_tasting_note_tags_tag_id
+on tasting_note_tags (tag_id);
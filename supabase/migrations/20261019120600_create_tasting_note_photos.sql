@@ -0,0 +1,91 @@
+-- migration: add photo attachments to tasting notes
+-- purpose: keep photos of the tin, the powder color and the bowl foam next to a tasting note
+-- affected: new table 'tasting_note_photos', new storage bucket 'tasting-note-photos'
+-- considerations:
+--   - the table only stores metadata; file bytes live in a storage backend (supabase storage in production,
+--     the local filesystem in dev/tests), addressed by storage_path
+--   - storage paths are '<user_id>/<tasting_note_id>/<photo_id>.<ext>' so storage policies can check ownership
+--     from the first path segment
+--   - photo rows inherit visibility from tasting_notes, like tag links; only the note owner can add or remove photos
+--   - deleting a note removes its photo rows; the application removes the stored files
+
+-- create tasting_note_photos table
+create table tasting_note_photos (
+    id uuid primary key default gen_random_uuid(),
+    tasting_note_id uuid not null references tasting_notes(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    storage_path text unique not null,
+    kind text not null default 'other' check (kind in ('tin', 'powder', 'foam', 'other')),
+    caption text check (char_length(caption) <= 200),
+    content_type text not null check (content_type in ('image/jpeg', 'image/png', 'image/webp')),
+    size_bytes integer not null check (size_bytes > 0),
+    created_at timestamptz not null default now()
+);
+
+-- index for loading a note's photos in upload order
+create index idx_tasting_note_photos_note_id on tasting_note_photos(tasting_note_id, created_at);
+
+-- enable row level security
+alter table tasting_note_photos enable row level security;
+
+-- policy: allow read access to photos of visible tasting notes (anon role)
+-- rationale: the subquery is itself filtered by the tasting_notes select policies
+create policy "allow_anon_select_tasting_note_photos"
+on tasting_note_photos
+for select
+to anon
+using (exists (select 1 from tasting_notes tn where tn.id = tasting_note_id));
+
+-- policy: allow read access to photos of visible tasting notes (authenticated role)
+-- rationale: the subquery is itself filtered by the tasting_notes select policies
+create policy "allow_authenticated_select_tasting_note_photos"
+on tasting_note_photos
+for select
+to authenticated
+using (exists (select 1 from tasting_notes tn where tn.id = tasting_note_id));
+
+-- policy: allow users to attach photos only to their own tasting notes
+-- rationale: users can only modify their own data
+create policy "allow_authenticated_insert_own_tasting_note_photos"
+on tasting_note_photos
+for insert
+to authenticated
+with check (
+    user_id = auth.uid()
+    and exists (select 1 from tasting_notes tn where tn.id = tasting_note_id and tn.user_id = auth.uid())
+);
+
+-- policy: allow users to remove photos only from their own tasting notes
+-- rationale: users can only modify their own data
+create policy "allow_authenticated_delete_own_tasting_note_photos"
+on tasting_note_photos
+for delete
+to authenticated
+using (user_id = auth.uid());
+
+-- create private storage bucket for photo files (5 MiB, images only)
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('tasting-note-photos', 'tasting-note-photos', false, 5242880, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do nothing;
+
+-- policy: allow users to read only files in their own folder
+-- rationale: photos are served through the api, which reads them with the owner's session
+create policy "allow_authenticated_select_own_photo_objects"
+on storage.objects
+for select
+to authenticated
+using (bucket_id = 'tasting-note-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- policy: allow users to upload only into their own folder
+create policy "allow_authenticated_insert_own_photo_objects"
+on storage.objects
+for insert
+to authenticated
+with check (bucket_id = 'tasting-note-photos' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- policy: allow users to delete only files in their own folder
+create policy "allow_authenticated_delete_own_photo_objects"
+on storage.objects
+for delete
+to authenticated
+using (bucket_id = 'tasting-note-photos' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,42 @@
+-- migration: add opt-in public share links for tasting notes
+-- purpose: let users share a single tasting note read-only via an unguessable link
+-- affected: table 'tasting_notes' (new columns 'is_public', 'share_token'),
+--           policy 'allow_anon_select_tasting_notes' (replaced), new storage policy for shared photo files
+-- considerations:
+--   - sharing is opt-in per note; existing notes stay private
+--   - share tokens are generated by the application (24 url-safe characters, 144 random bits)
+--   - revoking a link clears the token, so re-sharing later produces a new link and old links stay dead
+--   - anon users could previously read every tasting note; now they can only read shared ones.
+--     tag links and photo rows follow automatically, since their policies check note visibility
+
+alter table tasting_notes
+    add column is_public boolean not null default false,
+    add column share_token text unique check (share_token is null or share_token ~ '^[A-Za-z0-9_-]{24}$'),
+    add constraint tasting_notes_public_requires_token check (not is_public or share_token is not null);
+
+-- replace the world-readable anon policy
+drop policy "allow_anon_select_tasting_notes" on tasting_notes;
+
+-- policy: allow anonymous read access to shared tasting notes only
+-- rationale: the share page looks notes up by token; private notes must not be readable without a session
+create policy "allow_anon_select_shared_tasting_notes"
+on tasting_notes
+for select
+to anon
+using (is_public and share_token is not null);
+
+-- policy: allow anyone to read photo files of shared tasting notes
+-- rationale: the share page serves photos without the owner's session
+create policy "allow_public_select_shared_photo_objects"
+on storage.objects
+for select
+to anon, authenticated
+using (
+    bucket_id = 'tasting-note-photos'
+    and exists (
+        select 1
+        from public.tasting_note_photos p
+        join public.tasting_notes tn on tn.id = p.tasting_note_id
+        where p.storage_path = name and tn.is_public
+    )
+);
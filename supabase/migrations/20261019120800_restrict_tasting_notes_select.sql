@@ -0,0 +1,124 @@
+-- migration: restrict tasting note reads to their owners
+-- purpose: stop the anon key (or any signed-in user) from reading other users' private journals
+-- affected: policies on 'tasting_notes', 'tasting_note_tags', 'tasting_note_photos' and storage.objects,
+--           new functions 'get_shared_tasting_note', 'get_shared_tasting_note_photo', 'is_shared_photo_object'
+-- considerations:
+--   - select on tasting_notes is now scoped to auth.uid() = user_id; anon has no direct read access at all
+--   - the service layer keeps its explicit user_id filters as defense in depth
+--   - tag links and photo rows already inherit visibility from tasting_notes, so they become owner-only too
+--   - the only cross-user access left is public share links, which go through the security definer
+--     functions below; each takes the share token and returns nothing for private or revoked notes
+--   - the functions pin search_path and are executable by anon and authenticated only
+
+-- replace the permissive select policies
+drop policy "allow_authenticated_select_tasting_notes" on tasting_notes;
+drop policy "allow_anon_select_shared_tasting_notes" on tasting_notes;
+
+-- policy: allow users to read only their own tasting notes
+-- rationale: tasting notes are a private journal; sharing goes through get_shared_tasting_note
+create policy "allow_authenticated_select_own_tasting_notes"
+on tasting_notes
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- anon can no longer see any tasting note, so these policies never match; drop them to make that explicit
+drop policy "allow_anon_select_tasting_note_tags" on tasting_note_tags;
+drop policy "allow_anon_select_tasting_note_photos" on tasting_note_photos;
+
+-- function: read a shared tasting note by its share token
+-- rationale: returns the same shape as the api's tasting note select (blend with brand and region,
+-- tags, photos) so the service layer can reuse its transform; search_vector is internal, and the
+-- owner and the columns derived from their private data (currency rates, other notes) are left out
+create or replace function get_shared_tasting_note(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select (
+        to_jsonb(tn) - array['search_vector', 'user_id', 'value_ratio', 'price_per_100g_pln']
+    ) || jsonb_build_object(
+        'blend', jsonb_build_object(
+            'id', b.id,
+            'name', b.name,
+            'brand', jsonb_build_object('id', br.id, 'name', br.name),
+            'region', jsonb_build_object('id', r.id, 'name', r.name)
+        ),
+        'tags', coalesce((
+            select jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name) order by t.name)
+            from tasting_note_tags tnt
+            join tags t on t.id = tnt.tag_id
+            where tnt.tasting_note_id = tn.id
+        ), '[]'::jsonb),
+        'tag_filter', '[]'::jsonb,
+        'photos', coalesce((
+            select jsonb_agg(jsonb_build_object(
+                'id', p.id,
+                'tasting_note_id', p.tasting_note_id,
+                'kind', p.kind,
+                'caption', p.caption,
+                'content_type', p.content_type,
+                'size_bytes', p.size_bytes,
+                'created_at', p.created_at
+            ) order by p.created_at)
+            from tasting_note_photos p
+            where p.tasting_note_id = tn.id
+        ), '[]'::jsonb)
+    )
+    from tasting_notes tn
+    join blends b on b.id = tn.blend_id
+    join brands br on br.id = b.brand_id
+    join regions r on r.id = b.region_id
+    where tn.share_token = p_token and tn.is_public;
+$$;
+
+-- function: look up a photo of a shared tasting note
+-- rationale: the share page serves photo files without the owner's session
+create or replace function get_shared_tasting_note_photo(p_token text, p_photo_id uuid)
+returns table (storage_path text, content_type text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select p.storage_path, p.content_type
+    from tasting_note_photos p
+    join tasting_notes tn on tn.id = p.tasting_note_id
+    where p.id = p_photo_id and tn.share_token = p_token and tn.is_public;
+$$;
+
+-- function: check whether a storage object is a photo of a shared tasting note
+-- rationale: storage policies run as the caller, who can no longer see other users' notes
+create or replace function is_shared_photo_object(p_name text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (
+        select 1
+        from tasting_note_photos p
+        join tasting_notes tn on tn.id = p.tasting_note_id
+        where p.storage_path = p_name and tn.is_public
+    );
+$$;
+
+revoke execute on function get_shared_tasting_note(text) from public;
+revoke execute on function get_shared_tasting_note_photo(text, uuid) from public;
+revoke execute on function is_shared_photo_object(text) from public;
+grant execute on function get_shared_tasting_note(text) to anon, authenticated;
+grant execute on function get_shared_tasting_note_photo(text, uuid) to anon, authenticated;
+grant execute on function is_shared_photo_object(text) to anon, authenticated;
+
+-- replace the shared photo storage policy, which relied on reading tasting_notes directly
+drop policy "allow_public_select_shared_photo_objects" on storage.objects;
+
+-- policy: allow anyone to read photo files of shared tasting notes
+create policy "allow_public_select_shared_photo_objects"
+on storage.objects
+for select
+to anon, authenticated
+using (bucket_id = 'tasting-note-photos' and public.is_shared_photo_object(name));
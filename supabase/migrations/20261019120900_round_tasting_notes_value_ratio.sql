@@ -0,0 +1,12 @@
+-- migration: store value ratios at a fixed scale
+-- purpose: make value ratios exact in api responses so they can serve as cursor positions
+-- affected: column 'tasting_notes.value_ratio'
+-- considerations:
+--   - cursor pagination compares the last row's sort value for equality; an unbounded numeric such as
+--     0.0333333333333333333 does not survive a round trip through a javascript number, which would skip
+--     or repeat rows tied on value at a page boundary
+--   - eight decimal places keep value scores unchanged in practice and fit a double exactly
+--   - the pricing triggers assign into the column, so new values are rounded by the column type
+
+alter table tasting_notes
+    alter column value_ratio type numeric(12, 8) using round(value_ratio, 8);
@@ -0,0 +1,58 @@
+-- migration: create filter_presets table
+-- purpose: let users save named dashboard filter combinations (e.g. "uji 4+ stars, best value")
+-- affected: new table 'filter_presets'
+-- considerations:
+--   - filters are stored as a jsonb object with the list endpoint's filter and sort parameters;
+--     the api validates its shape, the database only requires an object
+--   - preset names are unique per user, case-insensitively
+--   - presets are private: every policy is scoped to the owner
+
+-- create filter_presets table
+create table filter_presets (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name citext not null check (char_length(name) between 1 and 100),
+    filters jsonb not null default '{}'::jsonb check (jsonb_typeof(filters) = 'object'),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    unique (user_id, name)
+);
+
+-- keep updated_at current (reuses the tasting_notes trigger function)
+create trigger update_filter_presets_updated_at
+before update on filter_presets
+for each row
+execute function update_updated_at_column();
+
+-- enable row level security
+alter table filter_presets enable row level security;
+
+-- policy: allow users to read only their own presets
+-- rationale: presets are personal dashboard settings
+create policy "allow_authenticated_select_own_filter_presets"
+on filter_presets
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- policy: allow users to create presets only for themselves
+create policy "allow_authenticated_insert_own_filter_presets"
+on filter_presets
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+-- policy: allow users to update only their own presets
+create policy "allow_authenticated_update_own_filter_presets"
+on filter_presets
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- policy: allow users to delete only their own presets
+create policy "allow_authenticated_delete_own_filter_presets"
+on filter_presets
+for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -0,0 +1,113 @@
+-- migration: support sorting tasting notes by sensory scores, price and blend/brand name
+-- purpose: let users order their journal by any score, the normalised price or the catalog names
+-- affected: table 'tasting_notes' (new columns 'blend_name', 'brand_name'), new trigger functions on
+--           'tasting_notes', 'blends', 'brands', new indexes on 'tasting_notes'
+-- considerations:
+--   - postgrest cannot order or page the parent rows by embedded columns, so the names are copied onto
+--     the note and kept in sync by triggers (the same approach as search_vector)
+--   - names keep the citext type of the catalog, so sorting and cursor comparisons are case-insensitive
+--   - renaming a blend or brand, or moving a blend to another brand, refreshes every affected note
+--   - refreshing the copied names alone must not bump updated_at
+--   - the api always sorts with nulls last, so each sensory index matches the common descending order
+
+-- add sort columns
+alter table tasting_notes
+    add column blend_name citext,
+    add column brand_name citext;
+
+-- trigger function: copy the blend and brand names onto the tasting note row
+create or replace function update_tasting_notes_catalog_names()
+returns trigger as $$
+begin
+    select b.name, br.name
+    into new.blend_name, new.brand_name
+    from blends b
+    join brands br on br.id = b.brand_id
+    where b.id = new.blend_id;
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger update_tasting_notes_catalog_names
+before insert or update of blend_id on tasting_notes
+for each row
+execute function update_tasting_notes_catalog_names();
+
+-- trigger function: refresh names of tasting notes affected by a catalog rename
+-- rationale: security definer is required because the notes may belong to other users (rls)
+create or replace function refresh_tasting_notes_catalog_names()
+returns trigger
+security definer
+set search_path = public
+as $$
+begin
+    update tasting_notes tn
+    set blend_name = b.name,
+        brand_name = br.name
+    from blends b
+    join brands br on br.id = b.brand_id
+    where tn.blend_id = b.id
+      and ((tg_table_name = 'blends' and b.id = new.id)
+        or (tg_table_name = 'brands' and b.brand_id = new.id));
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger refresh_catalog_names_on_blend_change
+after update of name, brand_id on blends
+for each row
+execute function refresh_tasting_notes_catalog_names();
+
+create trigger refresh_catalog_names_on_brand_rename
+after update of name on brands
+for each row
+execute function refresh_tasting_notes_catalog_names();
+
+-- restrict the updated_at trigger to real content changes
+-- rationale: catalog renames rewrite the copied names on many notes and must not change their timestamps
+drop trigger update_tasting_notes_updated_at on tasting_notes;
+
+create trigger update_tasting_notes_updated_at
+before update on tasting_notes
+for each row
+when (
+    (to_jsonb(old) - 'search_vector' - 'price_per_100g_pln' - 'value_ratio' - 'blend_name' - 'brand_name' - 'updated_at')
+    is distinct from
+    (to_jsonb(new) - 'search_vector' - 'price_per_100g_pln' - 'value_ratio' - 'blend_name' - 'brand_name' - 'updated_at')
+)
+execute function update_updated_at_column();
+
+-- backfill existing rows (the updated_at trigger above ignores the copied names)
+update tasting_notes tn
+set blend_name = b.name,
+    brand_name = br.name
+from blends b
+join brands br on br.id = b.brand_id
+where tn.blend_id = b.id;
+
+alter table tasting_notes
+    alter column blend_name set not null,
+    alter column brand_name set not null;
+
+-- index: user-scoped sorting by sensory scores
+-- rationale: "most umami-forward first" and friends; notes without the score go last
+-- query pattern: select * from tasting_notes where user_id = ? order by umami desc nulls last, id
+create index idx_tasting_notes_user_umami
+on tasting_notes (user_id, umami desc nulls last, id);
+
+create index idx_tasting_notes_user_bitter
+on tasting_notes (user_id, bitter desc nulls last, id);
+
+create index idx_tasting_notes_user_sweet
+on tasting_notes (user_id, sweet desc nulls last, id);
+
+create index idx_tasting_notes_user_foam
+on tasting_notes (user_id, foam desc nulls last, id);
+
+-- index: user-scoped sorting by blend and brand name
+-- query pattern: select * from tasting_notes where user_id = ? order by blend_name asc, id
+create index idx_tasting_notes_user_blend_name
+on tasting_notes (user_id, blend_name, id);
+
+create index idx_tasting_notes_user_brand_name
+on tasting_notes (user_id, brand_name, id);
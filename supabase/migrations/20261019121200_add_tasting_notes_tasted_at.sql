@@ -0,0 +1,146 @@
+-- migration: add the tasting date to tasting_notes
+-- purpose: record when a tasting happened, separately from when the note was written
+-- affected: table 'tasting_notes' (new column 'tasted_at'), new index on 'tasting_notes',
+--           function 'get_tasting_stats' (recreated)
+-- considerations:
+--   - created_at is the insert time, so notes written later or imported from another journal carry the
+--     wrong date; tasted_at is user-editable and defaults to the day the note is written
+--   - a plain date without a time zone: the day the user tasted the tea, as shown on their calendar
+--   - existing notes are backfilled with the day they were created
+--   - future dates are rejected by the api rather than a check constraint, since "today" depends on
+--     the user's time zone
+--   - stats count notes per month of tasting, like the calendar
+
+-- add tasting date column
+alter table tasting_notes add column tasted_at date;
+
+-- backfill existing notes without touching updated_at
+-- rationale: this is a data migration, not a user edit
+alter table tasting_notes disable trigger update_tasting_notes_updated_at;
+
+update tasting_notes
+set tasted_at = created_at::date;
+
+alter table tasting_notes enable trigger update_tasting_notes_updated_at;
+
+alter table tasting_notes
+    alter column tasted_at set default current_date,
+    alter column tasted_at set not null;
+
+-- index: user-scoped date range filtering and sorting by tasting date
+-- rationale: serves both the dashboard date filters and the month calendar
+-- query pattern: select * from tasting_notes where user_id = ? and tasted_at between ? and ? order by tasted_at desc, id
+create index idx_tasting_notes_user_tasted_at
+on tasting_notes (user_id, tasted_at desc, id);
+
+-- recreate the stats document with notes per month of tasting
+-- rationale: an imported journal would otherwise land in the month of the import; the note columns are
+-- listed since tasting_notes.brand_name (sorting migration) clashes with the joined brand name
+create or replace function get_tasting_stats()
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+    with user_notes as (
+        select
+            tn.id,
+            tn.overall_rating,
+            tn.umami,
+            tn.bitter,
+            tn.sweet,
+            tn.foam,
+            tn.price_per_100g_pln,
+            tn.tasted_at,
+            b.brand_id,
+            b.region_id,
+            br.name as brand_name,
+            r.name as region_name
+        from tasting_notes tn
+        join blends b on b.id = tn.blend_id
+        join brands br on br.id = b.brand_id
+        join regions r on r.id = b.region_id
+        where tn.user_id = auth.uid()
+    ),
+    priced_notes as (
+        select price_per_100g_pln, overall_rating
+        from user_notes
+        where price_per_100g_pln is not null
+    )
+    select jsonb_build_object(
+        'total_notes', (select count(*) from user_notes),
+        'average_rating', (select round(avg(overall_rating), 2) from user_notes),
+        -- brands ordered by average rating, then by volume so consistent producers surface first
+        'by_brand', coalesce((
+            select jsonb_agg(row_to_json(s) order by s.average_rating desc, s.note_count desc, s.name)
+            from (
+                select
+                    brand_id as id,
+                    brand_name as name,
+                    count(*) as note_count,
+                    round(avg(overall_rating), 2) as average_rating,
+                    round(stddev_pop(overall_rating), 2) as rating_stddev,
+                    min(overall_rating) as min_rating,
+                    max(overall_rating) as max_rating
+                from user_notes
+                group by brand_id, brand_name
+            ) s
+        ), '[]'::jsonb),
+        'by_region', coalesce((
+            select jsonb_agg(row_to_json(s) order by s.average_rating desc, s.note_count desc, s.name)
+            from (
+                select
+                    region_id as id,
+                    region_name as name,
+                    count(*) as note_count,
+                    round(avg(overall_rating), 2) as average_rating,
+                    round(stddev_pop(overall_rating), 2) as rating_stddev,
+                    min(overall_rating) as min_rating,
+                    max(overall_rating) as max_rating
+                from user_notes
+                group by region_id, region_name
+            ) s
+        ), '[]'::jsonb),
+        -- every rating from 1 to 5 is listed, including those with zero notes
+        'rating_distribution', (
+            select jsonb_agg(jsonb_build_object('rating', s.rating, 'count', s.count) order by s.rating)
+            from (
+                select g.rating, count(n.id) as count
+                from generate_series(1, 5) as g(rating)
+                left join user_notes n on n.overall_rating = g.rating
+                group by g.rating
+            ) s
+        ),
+        'sensory_profile', (
+            select jsonb_build_object(
+                'umami', round(avg(umami), 2),
+                'bitter', round(avg(bitter), 2),
+                'sweet', round(avg(sweet), 2),
+                'foam', round(avg(foam), 2)
+            )
+            from user_notes
+        ),
+        'notes_per_month', coalesce((
+            select jsonb_agg(jsonb_build_object('month', s.month, 'count', s.count) order by s.month)
+            from (
+                select to_char(tasted_at, 'YYYY-MM') as month, count(*) as count
+                from user_notes
+                group by 1
+            ) s
+        ), '[]'::jsonb),
+        'price_rating', (
+            select jsonb_build_object(
+                'sample_size', count(*),
+                'correlation', round(corr(price_per_100g_pln, overall_rating)::numeric, 3),
+                'points', coalesce(
+                    jsonb_agg(
+                        jsonb_build_object('price_per_100g_pln', price_per_100g_pln, 'overall_rating', overall_rating)
+                    ),
+                    '[]'::jsonb
+                )
+            )
+            from priced_notes
+        )
+    );
+$$;
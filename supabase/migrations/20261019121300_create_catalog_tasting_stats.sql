@@ -0,0 +1,83 @@
+-- migration: add per-blend and per-brand tasting statistics
+-- purpose: aggregate a user's tasting notes of one blend or one brand for the /blends/[id] and /brands/[id] pages
+-- affected: new function 'get_catalog_tasting_stats'
+-- considerations:
+--   - security invoker, so the existing rls policies on tasting_notes still apply
+--   - the notes are those of auth.uid(), mirroring get_tasting_stats; the function takes no user id
+--   - exactly one of p_blend_id and p_brand_id is expected; the service layer picks one
+--   - the timeline is ordered by tasting date, so a blend can be followed across harvests
+--   - the latest price is that of the most recently tasted priced note
+--   - blend lookups reuse idx_tasting_notes_user_blend_rating; a user's notes of one blend are few
+
+-- function: aggregate one user's tasting notes of a blend or a brand
+-- rationale: a single round trip returns the timeline and every aggregate as one jsonb document
+create or replace function get_catalog_tasting_stats(
+    p_blend_id uuid default null,
+    p_brand_id uuid default null
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+    with catalog_notes as (
+        select tn.*
+        from tasting_notes tn
+        join blends b on b.id = tn.blend_id
+        where tn.user_id = auth.uid()
+          and (p_blend_id is null or tn.blend_id = p_blend_id)
+          and (p_brand_id is null or b.brand_id = p_brand_id)
+    ),
+    latest_priced_note as (
+        select price_amount, price_currency, package_grams, price_per_100g_pln, tasted_at
+        from catalog_notes
+        where price_per_100g_pln is not null
+        order by tasted_at desc, created_at desc
+        limit 1
+    )
+    select jsonb_build_object(
+        'total_notes', (select count(*) from catalog_notes),
+        'average_rating', (select round(avg(overall_rating), 2) from catalog_notes),
+        'sensory_profile', (
+            select jsonb_build_object(
+                'umami', round(avg(umami), 2),
+                'bitter', round(avg(bitter), 2),
+                'sweet', round(avg(sweet), 2),
+                'foam', round(avg(foam), 2)
+            )
+            from catalog_notes
+        ),
+        'latest_price', (select row_to_json(p)::jsonb from latest_priced_note p),
+        -- blends ordered like the stats page groups: by average rating, then by volume
+        'by_blend', coalesce((
+            select jsonb_agg(row_to_json(s) order by s.average_rating desc, s.note_count desc, s.name)
+            from (
+                select
+                    blend_id as id,
+                    blend_name as name,
+                    count(*) as note_count,
+                    round(avg(overall_rating), 2) as average_rating,
+                    round(stddev_pop(overall_rating), 2) as rating_stddev,
+                    min(overall_rating) as min_rating,
+                    max(overall_rating) as max_rating
+                from catalog_notes
+                group by blend_id, blend_name
+            ) s
+        ), '[]'::jsonb),
+        'timeline', coalesce((
+            select jsonb_agg(
+                jsonb_build_object(
+                    'id', id,
+                    'tasted_at', tasted_at,
+                    'overall_rating', overall_rating,
+                    'blend_id', blend_id,
+                    'blend_name', blend_name,
+                    'price_per_100g_pln', price_per_100g_pln
+                )
+                order by tasted_at, created_at
+            )
+            from catalog_notes
+        ), '[]'::jsonb)
+    );
+$$;
@@ -0,0 +1,105 @@
+-- migration: add opt-in community ratings for blends
+-- purpose: show the anonymised average rating and sensory profile of a blend across consenting users
+-- affected: new table 'user_settings', new function 'get_community_blend_rating'
+-- considerations:
+--   - contributing is opt-in per user; users without a settings row do not contribute
+--   - tasting notes stay owner-only under rls; the security definer function below is the only
+--     cross-user read and returns aggregates only, never notes, user ids or free text
+--   - every taster counts once: their notes of the blend are averaged before averaging across tasters,
+--     so a prolific taster does not outweigh the others
+--   - averages are withheld below 3 tasters, so no single taster's ratings can be read back
+--   - anyone signed in may read the aggregates, whether or not they contribute themselves
+
+-- create user_settings table
+create table user_settings (
+    user_id uuid primary key references auth.users(id) on delete cascade,
+    share_community_ratings boolean not null default false,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+-- keep updated_at current (reuses the tasting_notes trigger function)
+create trigger update_user_settings_updated_at
+before update on user_settings
+for each row
+execute function update_updated_at_column();
+
+-- enable row level security
+alter table user_settings enable row level security;
+
+-- policy: allow users to read only their own settings
+create policy "allow_authenticated_select_own_user_settings"
+on user_settings
+for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- policy: allow users to create only their own settings
+create policy "allow_authenticated_insert_own_user_settings"
+on user_settings
+for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+-- policy: allow users to update only their own settings
+create policy "allow_authenticated_update_own_user_settings"
+on user_settings
+for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- function: aggregate the ratings of a blend across consenting users
+-- rationale: security definer reads past the owner-only rls on tasting_notes; only aggregates leave it
+create or replace function get_community_blend_rating(p_blend_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    with taster_averages as (
+        select
+            tn.user_id,
+            avg(tn.overall_rating) as overall_rating,
+            avg(tn.umami) as umami,
+            avg(tn.bitter) as bitter,
+            avg(tn.sweet) as sweet,
+            avg(tn.foam) as foam
+        from tasting_notes tn
+        join user_settings us on us.user_id = tn.user_id and us.share_community_ratings
+        where tn.blend_id = p_blend_id
+        group by tn.user_id
+    ),
+    community as (
+        select
+            count(*) as taster_count,
+            -- avg skips unscored attributes, so each attribute needs 3 tasters who scored it
+            count(umami) as umami_count,
+            count(bitter) as bitter_count,
+            count(sweet) as sweet_count,
+            count(foam) as foam_count,
+            round(avg(overall_rating), 2) as average_rating,
+            round(avg(umami), 2) as umami,
+            round(avg(bitter), 2) as bitter,
+            round(avg(sweet), 2) as sweet,
+            round(avg(foam), 2) as foam
+        from taster_averages
+    )
+    select jsonb_build_object(
+        'blend_id', p_blend_id,
+        'taster_count', c.taster_count,
+        'average_rating', case when c.taster_count >= 3 then c.average_rating end,
+        'sensory_profile', jsonb_build_object(
+            'umami', case when c.umami_count >= 3 then c.umami end,
+            'bitter', case when c.bitter_count >= 3 then c.bitter end,
+            'sweet', case when c.sweet_count >= 3 then c.sweet end,
+            'foam', case when c.foam_count >= 3 then c.foam end
+        )
+    )
+    from community c;
+$$;
+
+-- supabase grants execute on new functions to anon explicitly, so revoking from public is not enough
+revoke execute on function get_community_blend_rating(uuid) from public, anon;
+grant execute on function get_community_blend_rating(uuid) to authenticated;
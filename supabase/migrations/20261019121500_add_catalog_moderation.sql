@@ -0,0 +1,358 @@
+-- migration: add admin moderation of duplicate brands, regions and blends
+-- purpose: let admins find near-duplicate catalog entries (e.g. "Ippodo" vs "Ippodo Tea") and merge them
+-- affected: extension 'pg_trgm'; new tables 'admin_users', 'catalog_merges'; new trigram indexes on
+--           'brands', 'regions';
+--           new functions 'is_admin', 'find_catalog_duplicates', 'merge_catalog_entities';
+--           triggers 'update_tasting_notes_updated_at', 'update_filter_presets_updated_at' (recreated)
+-- considerations:
+--   - admins are granted by an operator (sql editor or seed), so admin_users has no policies at all;
+--     the app asks is_admin() instead of reading the table
+--   - citext only catches case differences, so candidates are scored with trigram similarity and
+--     word similarity (which catches a name contained in a longer one, e.g. "Uji" in "Uji, Kyoto")
+--   - brand and region pairs are prefiltered with the trigram operators (backed by gin indexes), so only
+--     likely pairs are scored instead of every pair in the catalog; the operator thresholds are set to
+--     the requested threshold for the duration of the call, so the prefilter never drops a candidate
+--   - blends are only compared within the same brand; merging brands brings other candidates together
+--   - a merge re-points every reference and deletes the source in a single function call, i.e. one
+--     transaction: blends.brand_id / region_id, tasting_notes.blend_id and the ids saved in filter presets
+--   - merging brands whose blends share a name merges those blends as well (unique per brand)
+--   - copied names and search vectors follow through the existing catalog triggers;
+--     re-pointed notes and presets keep their updated_at, since a merge is not a user edit: the merge sets
+--     the transaction-local 'app.catalog_merge' setting, which the updated_at triggers skip (altering the
+--     triggers instead would lock both tables for every user until the merge commits)
+--   - every merge is recorded in catalog_merges with the names at merge time; ids carry no foreign keys
+--     because the source no longer exists and the target may be merged away later; blends merged as part
+--     of a brand merge are listed in its details
+--   - merging an entry into itself raises the custom sqlstate 'CM001', so the app can tell it apart from
+--     other invalid parameters ('22023')
+--   - the functions are security definer because tasting notes and presets are owner-only under rls;
+--     each checks is_admin() first
+
+-- enable trigram matching for duplicate detection
+create extension if not exists pg_trgm;
+
+-- index: trigram lookups of brand names
+-- query pattern: select * from brands where name::text % ? or name::text <% ? or name::text %> ?
+create index idx_brands_name_trgm
+on brands using gin ((name::text) gin_trgm_ops);
+
+-- index: trigram lookups of region names
+create index idx_regions_name_trgm
+on regions using gin ((name::text) gin_trgm_ops);
+
+-- create admin_users table
+create table admin_users (
+    user_id uuid primary key references auth.users(id) on delete cascade,
+    created_at timestamptz not null default now()
+);
+
+-- enable row level security (no policies: only security definer functions read it)
+alter table admin_users enable row level security;
+
+-- create catalog_merges table (audit trail)
+create table catalog_merges (
+    id uuid primary key default gen_random_uuid(),
+    kind text not null check (kind in ('brand', 'region', 'blend')),
+    source_id uuid not null,
+    source_name text not null,
+    target_id uuid not null,
+    target_name text not null,
+    merged_by uuid references auth.users(id) on delete set null,
+    merged_at timestamptz not null default now(),
+    -- counts of re-pointed references, e.g. {"blends_moved": 3, "notes_moved": 12}, and the
+    -- source/target ids of blends merged along with a brand
+    details jsonb not null default '{}'::jsonb
+);
+
+-- enable row level security
+alter table catalog_merges enable row level security;
+
+-- function: check whether the current user is an admin
+-- rationale: admin_users is not readable through the api, so the check runs as definer
+create or replace function is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from admin_users where user_id = auth.uid());
+$$;
+
+-- policy: allow admins to read the merge audit trail
+-- rationale: merges are only recorded by merge_catalog_entities, so there are no write policies
+create policy "allow_admin_select_catalog_merges"
+on catalog_merges
+for select
+to authenticated
+using (is_admin());
+
+-- function: list likely duplicate brands, regions or blends
+-- rationale: usage counts span every user's notes, which rls hides from the caller
+create or replace function find_catalog_duplicates(p_kind text, p_threshold real default 0.6)
+returns table (
+    first_id uuid,
+    first_name text,
+    first_usage bigint,
+    second_id uuid,
+    second_name text,
+    second_usage bigint,
+    context text,
+    score real
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+-- restores the operator thresholds changed below when the function returns
+set pg_trgm.similarity_threshold = 0.3
+set pg_trgm.word_similarity_threshold = 0.6
+as $$
+begin
+    if not is_admin() then
+        raise exception 'only admins can moderate the catalog' using errcode = '42501';
+    end if;
+
+    -- % matches on similarity, <% and %> on word similarity in either direction: together they hold
+    -- exactly the pairs whose score reaches the threshold
+    perform set_config('pg_trgm.similarity_threshold', p_threshold::text, true);
+    perform set_config('pg_trgm.word_similarity_threshold', p_threshold::text, true);
+
+    if p_kind = 'brand' then
+        return query
+        with pairs as (
+            select a.id as a_id, a.name::text as a_name, b.id as b_id, b.name::text as b_name, s.score
+            from brands a
+            join brands b on a.id < b.id
+                and (b.name::text % a.name::text or b.name::text <% a.name::text or b.name::text %> a.name::text)
+            cross join lateral (
+                select greatest(similarity(a.name::text, b.name::text), word_similarity(a.name::text, b.name::text), word_similarity(b.name::text, a.name::text)) as score
+            ) s
+            where s.score >= p_threshold
+            order by s.score desc, a.name::text, b.name::text
+            limit 100
+        )
+        select
+            p.a_id,
+            p.a_name,
+            (select count(*) from blends bl where bl.brand_id = p.a_id),
+            p.b_id,
+            p.b_name,
+            (select count(*) from blends bl where bl.brand_id = p.b_id),
+            null::text,
+            p.score
+        from pairs p
+        order by p.score desc, p.a_name, p.b_name;
+    elsif p_kind = 'region' then
+        return query
+        with pairs as (
+            select a.id as a_id, a.name::text as a_name, b.id as b_id, b.name::text as b_name, s.score
+            from regions a
+            join regions b on a.id < b.id
+                and (b.name::text % a.name::text or b.name::text <% a.name::text or b.name::text %> a.name::text)
+            cross join lateral (
+                select greatest(similarity(a.name::text, b.name::text), word_similarity(a.name::text, b.name::text), word_similarity(b.name::text, a.name::text)) as score
+            ) s
+            where s.score >= p_threshold
+            order by s.score desc, a.name::text, b.name::text
+            limit 100
+        )
+        select
+            p.a_id,
+            p.a_name,
+            (select count(*) from blends bl where bl.region_id = p.a_id),
+            p.b_id,
+            p.b_name,
+            (select count(*) from blends bl where bl.region_id = p.b_id),
+            null::text,
+            p.score
+        from pairs p
+        order by p.score desc, p.a_name, p.b_name;
+    elsif p_kind = 'blend' then
+        return query
+        with entries as (
+            select
+                bl.id,
+                bl.brand_id,
+                bl.name::text as name,
+                (select count(*) from tasting_notes tn where tn.blend_id = bl.id) as usage
+            from blends bl
+        )
+        select a.id, a.name, a.usage, b.id, b.name, b.usage, br.name::text, s.score
+        from entries a
+        join entries b on a.brand_id = b.brand_id and a.id < b.id
+        join brands br on br.id = a.brand_id
+        cross join lateral (
+            select greatest(similarity(a.name, b.name), word_similarity(a.name, b.name), word_similarity(b.name, a.name)) as score
+        ) s
+        where s.score >= p_threshold
+        order by s.score desc, a.name, b.name
+        limit 100;
+    else
+        raise exception 'unknown catalog kind: %', p_kind using errcode = '22023';
+    end if;
+end;
+$$;
+
+-- skip the updated_at triggers while a merge re-points references
+-- rationale: a merge is not a user edit; the setting is transaction-local, so it never leaks into other requests
+drop trigger update_tasting_notes_updated_at on tasting_notes;
+
+create trigger update_tasting_notes_updated_at
+before update on tasting_notes
+for each row
+when (
+    (to_jsonb(old) - 'search_vector' - 'price_per_100g_pln' - 'value_ratio' - 'blend_name' - 'brand_name' - 'updated_at')
+    is distinct from
+    (to_jsonb(new) - 'search_vector' - 'price_per_100g_pln' - 'value_ratio' - 'blend_name' - 'brand_name' - 'updated_at')
+    and current_setting('app.catalog_merge', true) is distinct from 'on'
+)
+execute function update_updated_at_column();
+
+drop trigger update_filter_presets_updated_at on filter_presets;
+
+create trigger update_filter_presets_updated_at
+before update on filter_presets
+for each row
+when (current_setting('app.catalog_merge', true) is distinct from 'on')
+execute function update_updated_at_column();
+
+-- function: merge one brand, region or blend into another and record it
+-- rationale: re-pointing other users' notes and presets needs to bypass rls; the whole merge
+-- runs in the caller's transaction, so a failure leaves every reference untouched
+create or replace function merge_catalog_entities(p_kind text, p_source_id uuid, p_target_id uuid)
+returns catalog_merges
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+    v_source_name text;
+    v_target_name text;
+    v_filter_key text;
+    v_count integer;
+    v_blends_moved integer := 0;
+    v_blends_merged integer := 0;
+    v_notes_moved integer := 0;
+    v_presets_updated integer := 0;
+    v_merged_blends jsonb := '[]'::jsonb;
+    v_duplicate record;
+    v_merge catalog_merges;
+begin
+    if not is_admin() then
+        raise exception 'only admins can moderate the catalog' using errcode = '42501';
+    end if;
+
+    if p_source_id = p_target_id then
+        raise exception 'cannot merge an entry into itself' using errcode = 'CM001';
+    end if;
+
+    -- lock both entries so concurrent merges of the same entries run one after the other
+    if p_kind = 'brand' then
+        select name into v_source_name from brands where id = p_source_id for update;
+        select name into v_target_name from brands where id = p_target_id for update;
+    elsif p_kind = 'region' then
+        select name into v_source_name from regions where id = p_source_id for update;
+        select name into v_target_name from regions where id = p_target_id for update;
+    elsif p_kind = 'blend' then
+        select name into v_source_name from blends where id = p_source_id for update;
+        select name into v_target_name from blends where id = p_target_id for update;
+    else
+        raise exception 'unknown catalog kind: %', p_kind using errcode = '22023';
+    end if;
+
+    if v_source_name is null or v_target_name is null then
+        raise exception '% not found', p_kind using errcode = 'P0002';
+    end if;
+
+    -- re-pointing references is not a user edit (see the updated_at triggers above)
+    perform set_config('app.catalog_merge', 'on', true);
+
+    if p_kind = 'brand' then
+        -- blends of the source brand whose name the target brand already uses are merged into those
+        for v_duplicate in
+            select s.id as source_blend_id, t.id as target_blend_id
+            from blends s
+            join blends t on t.brand_id = p_target_id and t.name = s.name
+            where s.brand_id = p_source_id
+        loop
+            update tasting_notes set blend_id = v_duplicate.target_blend_id where blend_id = v_duplicate.source_blend_id;
+            get diagnostics v_count = row_count;
+            v_notes_moved := v_notes_moved + v_count;
+
+            delete from blends where id = v_duplicate.source_blend_id;
+            v_blends_merged := v_blends_merged + 1;
+            v_merged_blends := v_merged_blends || jsonb_build_object(
+                'source_id', v_duplicate.source_blend_id,
+                'target_id', v_duplicate.target_blend_id
+            );
+        end loop;
+
+        update blends set brand_id = p_target_id where brand_id = p_source_id;
+        get diagnostics v_blends_moved = row_count;
+        v_filter_key := 'brand_ids';
+    elsif p_kind = 'region' then
+        update blends set region_id = p_target_id where region_id = p_source_id;
+        get diagnostics v_blends_moved = row_count;
+        v_filter_key := 'region_ids';
+    else
+        update tasting_notes set blend_id = p_target_id where blend_id = p_source_id;
+        get diagnostics v_notes_moved = row_count;
+    end if;
+
+    -- saved dashboard filters refer to brands and regions by id
+    if v_filter_key is not null then
+        update filter_presets fp
+        set filters = jsonb_set(fp.filters, array[v_filter_key], (
+            select jsonb_agg(distinct case when ids.value = p_source_id::text then p_target_id::text else ids.value end)
+            from jsonb_array_elements_text(fp.filters -> v_filter_key) as ids(value)
+        ))
+        where fp.filters -> v_filter_key ? p_source_id::text;
+        get diagnostics v_presets_updated = row_count;
+    end if;
+
+    perform set_config('app.catalog_merge', 'off', true);
+
+    if p_kind = 'brand' then
+        delete from brands where id = p_source_id;
+    elsif p_kind = 'region' then
+        delete from regions where id = p_source_id;
+    else
+        delete from blends where id = p_source_id;
+    end if;
+
+    insert into catalog_merges (kind, source_id, source_name, target_id, target_name, merged_by, details)
+    values (
+        p_kind,
+        p_source_id,
+        v_source_name,
+        p_target_id,
+        v_target_name,
+        auth.uid(),
+        jsonb_build_object(
+            'blends_moved', v_blends_moved,
+            'blends_merged', v_blends_merged,
+            'notes_moved', v_notes_moved,
+            'presets_updated', v_presets_updated,
+            'merged_blends', v_merged_blends
+        )
+    )
+    returning * into v_merge;
+
+    return v_merge;
+end;
+$$;
+
+-- supabase grants execute on new functions to anon explicitly, so revoking from public is not enough
+revoke execute on function is_admin() from public, anon;
+revoke execute on function find_catalog_duplicates(text, real) from public, anon;
+revoke execute on function merge_catalog_entities(text, uuid, uuid) from public, anon;
+grant execute on function is_admin() to authenticated;
+grant execute on function find_catalog_duplicates(text, real) to authenticated;
+grant execute on function merge_catalog_entities(text, uuid, uuid) to authenticated;
+
+-- index: newest merges first on the moderation page
+-- query pattern: select * from catalog_merges order by merged_at desc limit ?
+create index idx_catalog_merges_merged_at
+on catalog_merges (merged_at desc);
@@ -0,0 +1,58 @@
+-- migration: suggest existing brands, regions and blends for names that are close to a new one
+-- purpose: catch typos ("Ipodo", "Uji Kyoto") before POST /api/blends creates another global catalog row
+-- affected: new function 'find_similar_catalog_names', new trigram index on 'blends'
+-- considerations:
+--   - exact (case-insensitive) matches are reused by createBlend already, so they are not suggested
+--   - a name is close when its trigram similarity reaches pg_trgm.similarity_threshold (0.3 by default)
+--     or it is contained in an existing name (word similarity, pg_trgm.word_similarity_threshold, 0.6)
+--   - blends are only suggested within the brand the new blend belongs to, when that brand exists
+--   - the catalog is readable by every signed-in user, so the function runs as the caller
+--   - the indexes cover the % and <% operators on the names (citext is indexed as text); brands and
+--     regions reuse the trigram indexes of the catalog moderation migration
+
+-- index: trigram lookups of blend names
+-- query pattern: select * from blends where brand_id = ? and (name::text % ? or ? <% name::text)
+create index idx_blends_name_trgm
+on blends using gin ((name::text) gin_trgm_ops);
+
+-- function: list existing catalog entries whose names are close to the given one, most similar first
+create or replace function find_similar_catalog_names(
+    p_kind text,
+    p_name text,
+    p_brand_id uuid default null,
+    p_limit integer default 5
+)
+returns table (
+    id uuid,
+    name text,
+    score real
+)
+language sql
+stable
+set search_path = public
+as $$
+    select br.id, br.name::text as name, greatest(similarity(br.name::text, p_name), word_similarity(p_name, br.name::text)) as score
+    from brands br
+    where p_kind = 'brand'
+      and (br.name::text % p_name or p_name <% br.name::text)
+      and br.name <> p_name::citext
+    union all
+    select r.id, r.name::text, greatest(similarity(r.name::text, p_name), word_similarity(p_name, r.name::text))
+    from regions r
+    where p_kind = 'region'
+      and (r.name::text % p_name or p_name <% r.name::text)
+      and r.name <> p_name::citext
+    union all
+    select bl.id, bl.name::text, greatest(similarity(bl.name::text, p_name), word_similarity(p_name, bl.name::text))
+    from blends bl
+    where p_kind = 'blend'
+      and bl.brand_id = p_brand_id
+      and (bl.name::text % p_name or p_name <% bl.name::text)
+      and bl.name <> p_name::citext
+    order by score desc, name
+    limit p_limit;
+$$;
+
+-- supabase grants execute on new functions to anon explicitly, so revoking from public is not enough
+revoke execute on function find_similar_catalog_names(text, text, uuid, integer) from public, anon;
+grant execute on function find_similar_catalog_names(text, text, uuid, integer) to authenticated;
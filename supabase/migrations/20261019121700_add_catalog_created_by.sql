@@ -0,0 +1,86 @@
+-- migration: record who created each brand, region and blend and let them correct it
+-- purpose: fix misspelled catalog names and blends filed under the wrong region via PATCH endpoints
+-- affected: tables 'brands', 'regions', 'blends' (new column 'created_by', insert policies replaced,
+--           new update policies, select limited to the columns other than 'created_by')
+-- considerations:
+--   - created_by defaults to the inserting user, so existing insert paths (api, import) need no change
+--   - rows created before this migration have no creator and can only be edited by admins
+--   - the insert policies now also stop users from attributing new rows to someone else
+--   - only the creator or an admin (is_admin(), see the moderation migration) may update a row;
+--     deleting stays with merge_catalog_entities
+--   - renames and region moves reach the copied names and search vectors of tasting notes through
+--     the existing catalog triggers
+--   - the catalog is readable by anyone, so created_by would link user ids to the entries they added;
+--     anon and authenticated may only select the other columns (policies still compare created_by),
+--     and migrations adding catalog columns must grant select on them
+
+-- add created_by columns
+alter table brands
+    add column created_by uuid default auth.uid() references auth.users(id) on delete set null;
+
+alter table regions
+    add column created_by uuid default auth.uid() references auth.users(id) on delete set null;
+
+alter table blends
+    add column created_by uuid default auth.uid() references auth.users(id) on delete set null;
+
+-- replace the insert policies so new rows are attributed to the inserting user
+drop policy "allow_authenticated_insert_brands" on brands;
+drop policy "allow_authenticated_insert_regions" on regions;
+drop policy "allow_authenticated_insert_blends" on blends;
+
+-- policy: allow authenticated users to insert new brands as themselves
+create policy "allow_authenticated_insert_brands"
+on brands
+for insert
+to authenticated
+with check (created_by = auth.uid());
+
+-- policy: allow authenticated users to insert new regions as themselves
+create policy "allow_authenticated_insert_regions"
+on regions
+for insert
+to authenticated
+with check (created_by = auth.uid());
+
+-- policy: allow authenticated users to insert new blends as themselves
+create policy "allow_authenticated_insert_blends"
+on blends
+for insert
+to authenticated
+with check (created_by = auth.uid());
+
+-- policy: allow the creator or an admin to update a brand
+-- rationale: brands are shared, so users may only correct the ones they added
+create policy "allow_creator_or_admin_update_brands"
+on brands
+for update
+to authenticated
+using (created_by = auth.uid() or is_admin())
+with check (created_by = auth.uid() or is_admin());
+
+-- policy: allow the creator or an admin to update a region
+create policy "allow_creator_or_admin_update_regions"
+on regions
+for update
+to authenticated
+using (created_by = auth.uid() or is_admin())
+with check (created_by = auth.uid() or is_admin());
+
+-- policy: allow the creator or an admin to update a blend
+create policy "allow_creator_or_admin_update_blends"
+on blends
+for update
+to authenticated
+using (created_by = auth.uid() or is_admin())
+with check (created_by = auth.uid() or is_admin());
+
+-- hide created_by from the api
+-- rationale: a table-wide select grant would override a column-level revoke, so select is re-granted per column
+revoke select on brands from anon, authenticated;
+revoke select on regions from anon, authenticated;
+revoke select on blends from anon, authenticated;
+
+grant select (id, name, created_at) on brands to anon, authenticated;
+grant select (id, name, created_at) on regions to anon, authenticated;
+grant select (id, name, brand_id, region_id, created_at) on blends to anon, authenticated;
@@ -0,0 +1,99 @@
+-- migration: add structured metadata to brands and blends
+-- purpose: describe brands (country, website, description, logo) and blends (grade, cultivars,
+--          harvest, organic/jas certification) and filter blends and tasting notes by grade and cultivar
+-- affected: table 'brands' (new columns 'country', 'website_url', 'description', 'logo_url'),
+--           table 'blends' (new columns 'grade', 'cultivars', 'harvest', 'is_organic', 'is_jas_certified'),
+--           new indexes on blends; function 'get_shared_tasting_note' (recreated)
+-- considerations:
+--   - all metadata is optional; existing brands and blends keep null values, empty cultivars and no
+--     certification
+--   - grade and harvest are closed sets kept in sync with BLEND_GRADES and HARVESTS in src/lib/constants.ts
+--   - cultivars are citext so the cultivar filter matches regardless of case
+--   - jas certification is an organic certification, so it implies is_organic
+--   - the logo is referenced by url rather than uploaded; brands are shared and photo storage is per user
+--   - existing update policies (creator or admin) cover the new columns; select is granted per column
+--     since created_by is hidden from the api (see the created_by migration)
+--   - shared notes carry the blend details too, matching the tasting note select of the api
+
+alter table brands
+    add column country text check (country is null or char_length(country) <= 100),
+    add column website_url text check (
+        website_url is null or (website_url ~* '^https?://' and char_length(website_url) <= 500)
+    ),
+    add column description text check (description is null or char_length(description) <= 2000),
+    add column logo_url text check (logo_url is null or (logo_url ~* '^https?://' and char_length(logo_url) <= 500));
+
+alter table blends
+    add column grade text check (grade is null or grade in ('ceremonial', 'premium', 'culinary')),
+    -- tea plant varieties blended (e.g. okumidori, samidori); empty when unknown
+    add column cultivars citext[] not null default '{}' check (cardinality(cultivars) <= 10),
+    add column harvest text check (
+        harvest is null or harvest in ('first_flush', 'second_flush', 'third_flush', 'autumn_flush')
+    ),
+    add column is_organic boolean not null default false,
+    add column is_jas_certified boolean not null default false,
+    add constraint blends_jas_certified_is_organic check (not is_jas_certified or is_organic);
+
+-- make the new columns readable through the api
+grant select (country, website_url, description, logo_url) on brands to anon, authenticated;
+grant select (grade, cultivars, harvest, is_organic, is_jas_certified) on blends to anon, authenticated;
+
+-- index: filter blends (and tasting notes through their blend) by grade
+-- query pattern: select * from blends where grade = ?
+create index idx_blends_grade on blends (grade);
+
+-- index: filter blends by cultivar
+-- query pattern: select * from blends where cultivars @> array[?]::citext[]
+create index idx_blends_cultivars on blends using gin (cultivars);
+
+-- recreate the shared note document with the blend details
+-- rationale: shared notes are served with the same shape as the tasting notes api; the owner and
+-- the derived columns (value ratio, normalised price, sort keys) stay private
+create or replace function get_shared_tasting_note(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select (
+        to_jsonb(tn) - array['search_vector', 'user_id', 'value_ratio', 'price_per_100g_pln', 'blend_name', 'brand_name']
+    ) || jsonb_build_object(
+        'blend', jsonb_build_object(
+            'id', b.id,
+            'name', b.name,
+            'grade', b.grade,
+            'cultivars', b.cultivars,
+            'harvest', b.harvest,
+            'is_organic', b.is_organic,
+            'is_jas_certified', b.is_jas_certified,
+            'brand', jsonb_build_object('id', br.id, 'name', br.name),
+            'region', jsonb_build_object('id', r.id, 'name', r.name)
+        ),
+        'tags', coalesce((
+            select jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name) order by t.name)
+            from tasting_note_tags tnt
+            join tags t on t.id = tnt.tag_id
+            where tnt.tasting_note_id = tn.id
+        ), '[]'::jsonb),
+        'tag_filter', '[]'::jsonb,
+        'photos', coalesce((
+            select jsonb_agg(jsonb_build_object(
+                'id', p.id,
+                'tasting_note_id', p.tasting_note_id,
+                'kind', p.kind,
+                'caption', p.caption,
+                'content_type', p.content_type,
+                'size_bytes', p.size_bytes,
+                'created_at', p.created_at
+            ) order by p.created_at)
+            from tasting_note_photos p
+            where p.tasting_note_id = tn.id
+        ), '[]'::jsonb)
+    )
+    from tasting_notes tn
+    join blends b on b.id = tn.blend_id
+    join brands br on br.id = b.brand_id
+    join regions r on r.id = b.region_id
+    where tn.share_token = p_token and tn.is_public;
+$$;
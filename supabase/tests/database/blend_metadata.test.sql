@@ -0,0 +1,76 @@
+-- tests for brand and blend metadata
+-- run against a local supabase with: npm run test:db
+-- proves that grades, harvests, links and certifications are constrained and that the cultivar
+-- filter matches regardless of case, and that shared notes carry the blend details
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+-- fixtures (as the table owner)
+insert into regions (id, name) values ('11111111-1111-1111-1111-111111111111', 'Metadata Test Uji');
+insert into brands (id, name, country, website_url)
+values ('22222222-2222-2222-2222-222222222222', 'Metadata Test Brand', 'Japan', 'https://example.com');
+insert into blends (id, name, brand_id, region_id, grade, cultivars, harvest, is_organic, is_jas_certified)
+values ('33333333-3333-3333-3333-333333333333', 'Metadata Test Blend',
+        '22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111',
+        'ceremonial', array['Okumidori', 'Samidori']::citext[], 'first_flush', true, true);
+insert into auth.users (id, email, aud, role)
+values ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'metadata@test.com', 'authenticated', 'authenticated');
+insert into tasting_notes (id, user_id, blend_id, overall_rating, is_public, share_token)
+values ('44444444-4444-4444-4444-444444444444', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+        '33333333-3333-3333-3333-333333333333', 5, true, 'metadataTestShareToken00');
+
+select ok(
+    exists (
+        select 1 from blends
+        where id = '33333333-3333-3333-3333-333333333333' and cultivars @> array['okumidori']::citext[]
+    ),
+    'the cultivar filter matches regardless of case'
+);
+
+select throws_ok(
+    $$update blends set grade = 'competition' where id = '33333333-3333-3333-3333-333333333333'$$,
+    '23514',
+    null,
+    'grades outside the closed set are rejected'
+);
+
+select throws_ok(
+    $$update blends set harvest = 'spring' where id = '33333333-3333-3333-3333-333333333333'$$,
+    '23514',
+    null,
+    'harvests outside the closed set are rejected'
+);
+
+select throws_ok(
+    $$update blends set is_organic = false where id = '33333333-3333-3333-3333-333333333333'$$,
+    '23514',
+    null,
+    'a jas certified blend must stay organic'
+);
+
+select throws_ok(
+    $$update brands set website_url = 'javascript:alert(1)' where id = '22222222-2222-2222-2222-222222222222'$$,
+    '23514',
+    null,
+    'brand links must be http(s) urls'
+);
+
+select is(
+    (select cultivars::text[] from blends where id = '33333333-3333-3333-3333-333333333333'),
+    array['Okumidori', 'Samidori'],
+    'cultivars keep their spelling'
+);
+
+select is(
+    get_shared_tasting_note('metadataTestShareToken00') -> 'blend' -> 'grade',
+    '"ceremonial"'::jsonb,
+    'shared notes carry the blend details'
+);
+
+select * from finish();
+
+rollback;
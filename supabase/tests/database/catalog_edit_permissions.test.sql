@@ -0,0 +1,114 @@
+-- tests for editing brands, regions and blends
+-- run against a local supabase with: npm run test:db
+-- proves that new entries are attributed to their creator, that only the creator or an admin
+-- can update them, that nobody can attribute a new entry to someone else, and that the creator
+-- cannot be read through the api
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(9);
+
+-- fixtures (as the table owner, bypassing rls)
+insert into auth.users (id, email, aud, role)
+values
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'catalog-edit-admin@test.com', 'authenticated', 'authenticated'),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'catalog-edit-creator@test.com', 'authenticated', 'authenticated'),
+    ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'catalog-edit-other@test.com', 'authenticated', 'authenticated');
+
+insert into admin_users (user_id) values ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+
+insert into regions (id, name) values ('11111111-1111-1111-1111-11111111111b', 'Edit Test Nishio');
+
+-- the creator adds a brand, a region and a blend
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}';
+
+insert into regions (id, name) values ('11111111-1111-1111-1111-111111111111', 'Edit Test Ujii');
+insert into brands (id, name) values ('22222222-2222-2222-2222-222222222222', 'Edit Test Ippdo');
+insert into blends (id, name, brand_id, region_id)
+values ('33333333-3333-3333-3333-333333333333', 'Edit Test Sayaka',
+        '22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111');
+
+select throws_ok(
+    $$select created_by from brands where id = '22222222-2222-2222-2222-222222222222'$$,
+    '42501',
+    null,
+    'the creator of an entry is not readable through the api'
+);
+
+select throws_ok(
+    $$insert into brands (name, created_by) values ('Edit Test Forged', 'cccccccc-cccc-cccc-cccc-cccccccccccc')$$,
+    '42501',
+    null,
+    'new entries cannot be attributed to another user'
+);
+
+update brands set name = 'Edit Test Ippodo' where id = '22222222-2222-2222-2222-222222222222';
+
+select is(
+    (select name::text from brands where id = '22222222-2222-2222-2222-222222222222'),
+    'Edit Test Ippodo',
+    'the creator can rename their brand'
+);
+
+update blends set region_id = '11111111-1111-1111-1111-11111111111b'
+where id = '33333333-3333-3333-3333-333333333333';
+
+select is(
+    (select region_id from blends where id = '33333333-3333-3333-3333-333333333333'),
+    '11111111-1111-1111-1111-11111111111b'::uuid,
+    'the creator can move their blend to another region'
+);
+
+-- another regular user
+set local request.jwt.claims to '{"sub": "cccccccc-cccc-cccc-cccc-cccccccccccc", "role": "authenticated"}';
+
+update regions set name = 'Edit Test Hijacked' where id = '11111111-1111-1111-1111-111111111111';
+
+select is(
+    (select name::text from regions where id = '11111111-1111-1111-1111-111111111111'),
+    'Edit Test Ujii',
+    'other users cannot rename a region they did not create'
+);
+
+update blends set name = 'Edit Test Hijacked' where id = '33333333-3333-3333-3333-333333333333';
+
+select is(
+    (select name::text from blends where id = '33333333-3333-3333-3333-333333333333'),
+    'Edit Test Sayaka',
+    'other users cannot rename a blend they did not create'
+);
+
+update regions set name = 'Edit Test Hijacked' where id = '11111111-1111-1111-1111-11111111111b';
+
+select is(
+    (select name::text from regions where id = '11111111-1111-1111-1111-11111111111b'),
+    'Edit Test Nishio',
+    'entries without a recorded creator cannot be edited by regular users'
+);
+
+-- an admin
+set local request.jwt.claims to '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}';
+
+update regions set name = 'Edit Test Uji' where id = '11111111-1111-1111-1111-111111111111';
+
+select is(
+    (select name::text from regions where id = '11111111-1111-1111-1111-111111111111'),
+    'Edit Test Uji',
+    'admins can rename any region'
+);
+
+reset role;
+
+-- attribution, checked as the table owner
+select is(
+    (select created_by from brands where id = '22222222-2222-2222-2222-222222222222'),
+    'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'::uuid,
+    'new entries are attributed to the inserting user'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,177 @@
+-- tests for catalog moderation
+-- run against a local supabase with: npm run test:db
+-- proves that only admins can list duplicates and merge entries, that a brand merge re-points blends,
+-- notes (of every user) and saved filters without touching updated_at, and that merges are audited
+-- (including the blends merged along with a brand)
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(16);
+
+-- fixtures (as the table owner, bypassing rls)
+insert into auth.users (id, email, aud, role)
+values
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'moderation-admin@test.com', 'authenticated', 'authenticated'),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'moderation-user@test.com', 'authenticated', 'authenticated');
+
+insert into admin_users (user_id) values ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+
+insert into regions (id, name) values ('11111111-1111-1111-1111-111111111111', 'Moderation Test Region');
+
+-- "Moderation Test Brand Co" is a duplicate of "Moderation Test Brand"
+insert into brands (id, name)
+values
+    ('22222222-2222-2222-2222-222222222222', 'Moderation Test Brand'),
+    ('22222222-2222-2222-2222-22222222222c', 'Moderation Test Brand Co');
+
+-- both brands carry an "Okumidori" blend; "Asahi" only exists under the duplicate
+insert into blends (id, name, brand_id, region_id)
+values
+    ('33333333-3333-3333-3333-333333333333', 'Okumidori',
+     '22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111'),
+    ('33333333-3333-3333-3333-33333333333c', 'Okumidori',
+     '22222222-2222-2222-2222-22222222222c', '11111111-1111-1111-1111-111111111111'),
+    ('44444444-4444-4444-4444-44444444444c', 'Asahi',
+     '22222222-2222-2222-2222-22222222222c', '11111111-1111-1111-1111-111111111111');
+
+insert into tasting_notes (id, user_id, blend_id, overall_rating, updated_at)
+values
+    ('55555555-5555-5555-5555-555555555555', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+     '33333333-3333-3333-3333-33333333333c', 4, '2025-01-01 00:00:00+00'),
+    ('66666666-6666-6666-6666-666666666666', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+     '44444444-4444-4444-4444-44444444444c', 3, '2025-01-01 00:00:00+00');
+
+insert into filter_presets (id, user_id, name, filters)
+values (
+    '77777777-7777-7777-7777-777777777777',
+    'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+    'Both brands',
+    '{"brand_ids": ["22222222-2222-2222-2222-22222222222c", "22222222-2222-2222-2222-222222222222"]}'
+);
+
+-- a regular user
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}';
+
+select is(is_admin(), false, 'regular users are not admins');
+
+select throws_ok(
+    $$select * from find_catalog_duplicates('brand')$$,
+    '42501',
+    'only admins can moderate the catalog',
+    'regular users cannot list duplicates'
+);
+
+select throws_ok(
+    $$select merge_catalog_entities('brand', '22222222-2222-2222-2222-22222222222c', '22222222-2222-2222-2222-222222222222')$$,
+    '42501',
+    'only admins can moderate the catalog',
+    'regular users cannot merge'
+);
+
+reset role;
+
+-- the admin
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}';
+
+select is(is_admin(), true, 'admins are recognised');
+
+select ok(
+    exists (
+        select 1
+        from find_catalog_duplicates('brand')
+        where first_id = '22222222-2222-2222-2222-222222222222'
+          and second_id = '22222222-2222-2222-2222-22222222222c'
+          and second_usage = 2
+    ),
+    'similar brand names are listed as likely duplicates with their usage'
+);
+
+select throws_ok(
+    $$select merge_catalog_entities('blend', '33333333-3333-3333-3333-333333333333', '33333333-3333-3333-3333-333333333333')$$,
+    'CM001',
+    'cannot merge an entry into itself',
+    'an entry cannot be merged into itself'
+);
+
+select throws_ok(
+    $$select merge_catalog_entities('flavour', '33333333-3333-3333-3333-333333333333', '33333333-3333-3333-3333-33333333333c')$$,
+    '22023',
+    'unknown catalog kind: flavour',
+    'unknown kinds are rejected with a different error than self-merges'
+);
+
+select is(
+    (merge_catalog_entities('brand', '22222222-2222-2222-2222-22222222222c', '22222222-2222-2222-2222-222222222222'))
+        .details,
+    '{"blends_moved": 1, "blends_merged": 1, "notes_moved": 1, "presets_updated": 1,
+      "merged_blends": [{"source_id": "33333333-3333-3333-3333-33333333333c",
+                         "target_id": "33333333-3333-3333-3333-333333333333"}]}'::jsonb,
+    'the merge reports what it re-pointed, including the blends merged with the brand'
+);
+
+select is(
+    (select count(*) from catalog_merges where source_name = 'Moderation Test Brand Co'),
+    1::bigint,
+    'admins can read the audit trail'
+);
+
+reset role;
+
+-- effects, checked as the table owner
+select is(
+    (select blend_id from tasting_notes where id = '55555555-5555-5555-5555-555555555555'),
+    '33333333-3333-3333-3333-333333333333'::uuid,
+    'notes of another user move to the same-named blend of the target brand'
+);
+
+select is(
+    (select brand_id from blends where id = '44444444-4444-4444-4444-44444444444c'),
+    '22222222-2222-2222-2222-222222222222'::uuid,
+    'other blends move to the target brand'
+);
+
+select is(
+    (select brand_name::text from tasting_notes where id = '66666666-6666-6666-6666-666666666666'),
+    'Moderation Test Brand',
+    'copied brand names follow the merge'
+);
+
+select is(
+    (select count(*) from tasting_notes
+     where id in ('55555555-5555-5555-5555-555555555555', '66666666-6666-6666-6666-666666666666')
+       and updated_at = '2025-01-01 00:00:00+00'),
+    2::bigint,
+    're-pointed notes keep their updated_at'
+);
+
+select is(
+    current_setting('app.catalog_merge', true),
+    'off',
+    'the merge switches the updated_at bypass off again'
+);
+
+select is(
+    (select filters -> 'brand_ids' from filter_presets where id = '77777777-7777-7777-7777-777777777777'),
+    '["22222222-2222-2222-2222-222222222222"]'::jsonb,
+    'saved filters point to the target brand once'
+);
+
+-- the regular user again
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}';
+
+select is(
+    (select count(*) from catalog_merges),
+    0::bigint,
+    'regular users cannot read the audit trail'
+);
+
+reset role;
+
+select * from finish();
+
+rollback;
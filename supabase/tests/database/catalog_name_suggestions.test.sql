@@ -0,0 +1,69 @@
+-- tests for catalog name suggestions
+-- run against a local supabase with: npm run test:db
+-- proves that find_similar_catalog_names suggests close names but not exact ones,
+-- and only suggests blends of the given brand
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+-- fixtures (as the table owner)
+insert into regions (id, name) values ('11111111-1111-1111-1111-111111111111', 'Suggestion Test Uji');
+insert into brands (id, name)
+values
+    ('22222222-2222-2222-2222-222222222222', 'Suggestion Test Koyamaen'),
+    ('22222222-2222-2222-2222-22222222222b', 'Suggestion Test Other');
+insert into blends (id, name, brand_id, region_id)
+values
+    ('33333333-3333-3333-3333-333333333333', 'Isuzu',
+     '22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111'),
+    ('33333333-3333-3333-3333-33333333333b', 'Isuzu',
+     '22222222-2222-2222-2222-22222222222b', '11111111-1111-1111-1111-111111111111');
+
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}';
+
+select ok(
+    exists (
+        select 1 from find_similar_catalog_names('brand', 'Suggestion Test Koyamen')
+        where id = '22222222-2222-2222-2222-222222222222'
+    ),
+    'a misspelled brand name suggests the existing brand'
+);
+
+select is(
+    (select count(*) from find_similar_catalog_names('brand', 'suggestion test koyamaen')
+     where id = '22222222-2222-2222-2222-222222222222'),
+    0::bigint,
+    'exact (case-insensitive) matches are not suggested'
+);
+
+select ok(
+    exists (
+        select 1 from find_similar_catalog_names('region', 'Uji')
+        where id = '11111111-1111-1111-1111-111111111111'
+    ),
+    'a name contained in an existing one is suggested'
+);
+
+select is(
+    array(
+        select id from find_similar_catalog_names('blend', 'Isuzu Premium', '22222222-2222-2222-2222-222222222222')
+    ),
+    array['33333333-3333-3333-3333-333333333333'::uuid],
+    'blends are only suggested within the given brand'
+);
+
+select is(
+    (select count(*) from find_similar_catalog_names('blend', 'Isuzu Premium')),
+    0::bigint,
+    'no blends are suggested without a brand'
+);
+
+reset role;
+
+select * from finish();
+
+rollback;
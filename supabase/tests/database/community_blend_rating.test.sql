@@ -0,0 +1,126 @@
+-- tests for community blend ratings
+-- run against a local supabase with: npm run test:db
+-- proves that get_community_blend_rating only aggregates consenting users, weighs every taster
+-- once, withholds averages below 3 tasters (per sensory attribute too) and that settings stay private
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(9);
+
+-- fixtures (as the table owner, bypassing rls)
+insert into auth.users (id, email, aud, role)
+values
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'community-a@test.com', 'authenticated', 'authenticated'),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'community-b@test.com', 'authenticated', 'authenticated'),
+    ('cccccccc-cccc-cccc-cccc-cccccccccccc', 'community-c@test.com', 'authenticated', 'authenticated'),
+    ('dddddddd-dddd-dddd-dddd-dddddddddddd', 'community-d@test.com', 'authenticated', 'authenticated');
+
+insert into regions (id, name) values ('11111111-1111-1111-1111-111111111111', 'Community Test Region');
+insert into brands (id, name) values ('22222222-2222-2222-2222-222222222222', 'Community Test Brand');
+insert into blends (id, name, brand_id, region_id)
+values ('33333333-3333-3333-3333-333333333333', 'Community Test Blend',
+        '22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111');
+
+-- a and b consent, c explicitly does not, d never saved settings
+insert into user_settings (user_id, share_community_ratings)
+values
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', true),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', true),
+    ('cccccccc-cccc-cccc-cccc-cccccccccccc', false);
+
+-- a tasted the blend three times (average 5), b once (2), c and d once each (1)
+-- only a scored bitterness
+insert into tasting_notes (user_id, blend_id, overall_rating, umami, bitter)
+values
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333', 5, 4, 3),
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333', 5, 4, 3),
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333', 5, 4, 3),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '33333333-3333-3333-3333-333333333333', 2, 1, null),
+    ('cccccccc-cccc-cccc-cccc-cccccccccccc', '33333333-3333-3333-3333-333333333333', 1, 1, null),
+    ('dddddddd-dddd-dddd-dddd-dddddddddddd', '33333333-3333-3333-3333-333333333333', 1, 1, null);
+
+-- user c, who does not contribute, reads the aggregates
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "cccccccc-cccc-cccc-cccc-cccccccccccc", "role": "authenticated"}';
+
+select is(
+    (get_community_blend_rating('33333333-3333-3333-3333-333333333333') ->> 'taster_count')::int,
+    2,
+    'only consenting users are counted as tasters'
+);
+
+select is(
+    get_community_blend_rating('33333333-3333-3333-3333-333333333333') ->> 'average_rating',
+    null,
+    'averages are withheld below 3 tasters'
+);
+
+select is(
+    (select count(*) from user_settings),
+    1::bigint,
+    'users only see their own settings'
+);
+
+select is(
+    (with updated as (
+        update user_settings set share_community_ratings = false
+        where user_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'
+        returning 1
+    ) select count(*) from updated),
+    0::bigint,
+    'users cannot change another user''s consent'
+);
+
+reset role;
+
+-- user d opts in, making three tasters
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "dddddddd-dddd-dddd-dddd-dddddddddddd", "role": "authenticated"}';
+
+insert into user_settings (user_id, share_community_ratings)
+values ('dddddddd-dddd-dddd-dddd-dddddddddddd', true);
+
+select is(
+    (get_community_blend_rating('33333333-3333-3333-3333-333333333333') ->> 'average_rating')::numeric,
+    2.67,
+    'every taster counts once: (5 + 2 + 1) / 3'
+);
+
+select is(
+    (get_community_blend_rating('33333333-3333-3333-3333-333333333333') -> 'sensory_profile' ->> 'umami')::numeric,
+    2.00,
+    'the sensory profile is averaged per taster too'
+);
+
+select is(
+    get_community_blend_rating('33333333-3333-3333-3333-333333333333') -> 'sensory_profile' ->> 'bitter',
+    null,
+    'an attribute scored by fewer than 3 tasters is withheld'
+);
+
+select is(
+    (select count(*) from tasting_notes where user_id <> 'dddddddd-dddd-dddd-dddd-dddddddddddd'),
+    0::bigint,
+    'contributing does not expose other users'' notes'
+);
+
+reset role;
+
+-- anonymous visitor
+set local role anon;
+set local request.jwt.claims to '{"role": "anon"}';
+
+select throws_ok(
+    $$select get_community_blend_rating('33333333-3333-3333-3333-333333333333')$$,
+    '42501',
+    'permission denied for function get_community_blend_rating',
+    'anon cannot read community ratings'
+);
+
+reset role;
+
+select * from finish();
+
+rollback;
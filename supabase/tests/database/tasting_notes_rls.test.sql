@@ -0,0 +1,183 @@
+-- rls tests for tasting notes
+-- run against a local supabase with: npm run test:db
+-- proves that one user cannot read or modify another user's notes, and that anonymous
+-- access is limited to notes shared through get_shared_tasting_note
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(18);
+
+-- fixtures (as the table owner, bypassing rls)
+insert into auth.users (id, email, aud, role)
+values
+    ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'rls-a@test.com', 'authenticated', 'authenticated'),
+    ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'rls-b@test.com', 'authenticated', 'authenticated');
+
+insert into regions (id, name) values ('11111111-1111-1111-1111-111111111111', 'RLS Test Region');
+insert into brands (id, name) values ('22222222-2222-2222-2222-222222222222', 'RLS Test Brand');
+insert into blends (id, name, brand_id, region_id)
+values ('33333333-3333-3333-3333-333333333333', 'RLS Test Blend',
+        '22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111');
+
+insert into tasting_notes (id, user_id, blend_id, overall_rating, tasted_at)
+values ('a0000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa',
+        '33333333-3333-3333-3333-333333333333', 4, '2025-03-14');
+
+insert into tasting_notes (id, user_id, blend_id, overall_rating, notes_koicha)
+values ('b0000000-0000-0000-0000-000000000001', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+        '33333333-3333-3333-3333-333333333333', 2, 'private thoughts');
+
+insert into tasting_notes (id, user_id, blend_id, overall_rating, is_public, share_token)
+values ('b0000000-0000-0000-0000-000000000002', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+        '33333333-3333-3333-3333-333333333333', 5, true, 'rlsTestShareToken0000000');
+
+insert into tags (id, name) values ('44444444-4444-4444-4444-444444444444', 'rls-test-tag');
+insert into tasting_note_tags (tasting_note_id, tag_id)
+values ('b0000000-0000-0000-0000-000000000001', '44444444-4444-4444-4444-444444444444');
+
+insert into tasting_note_photos (id, tasting_note_id, user_id, storage_path, kind, content_type, size_bytes)
+values ('55555555-5555-5555-5555-555555555555', 'b0000000-0000-0000-0000-000000000002',
+        'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+        'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb/b0000000-0000-0000-0000-000000000002/55555555-5555-5555-5555-555555555555.jpg',
+        'tin', 'image/jpeg', 1024);
+
+-- user a
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa", "role": "authenticated"}';
+
+select is(
+    (select count(*) from tasting_notes where user_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+    0::bigint,
+    'user a cannot read user b''s notes, even shared ones'
+);
+
+select results_eq(
+    'select id from tasting_notes order by id',
+    $$values ('a0000000-0000-0000-0000-000000000001'::uuid)$$,
+    'user a only sees their own notes'
+);
+
+select is(
+    (with updated as (
+        update tasting_notes set overall_rating = 1
+        where id = 'b0000000-0000-0000-0000-000000000001'
+        returning 1
+    ) select count(*) from updated),
+    0::bigint,
+    'user a cannot update user b''s notes'
+);
+
+select is(
+    (with deleted as (
+        delete from tasting_notes
+        where id = 'b0000000-0000-0000-0000-000000000001'
+        returning 1
+    ) select count(*) from deleted),
+    0::bigint,
+    'user a cannot delete user b''s notes'
+);
+
+select throws_ok(
+    $$insert into tasting_notes (user_id, blend_id, overall_rating)
+      values ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '33333333-3333-3333-3333-333333333333', 3)$$,
+    '42501',
+    'new row violates row-level security policy for table "tasting_notes"',
+    'user a cannot create notes for user b'
+);
+
+select is_empty(
+    $$select 1 from tasting_note_tags where tasting_note_id = 'b0000000-0000-0000-0000-000000000001'$$,
+    'user a cannot read user b''s tag links'
+);
+
+select is_empty(
+    $$select 1 from tasting_note_photos where user_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'$$,
+    'user a cannot read user b''s photos'
+);
+
+select is(
+    (get_tasting_stats() ->> 'total_notes')::int,
+    1,
+    'user a''s stats only cover their own notes'
+);
+
+select is(
+    get_tasting_stats() -> 'notes_per_month',
+    '[{"month": "2025-03", "count": 1}]'::jsonb,
+    'notes are counted in the month they were tasted, not written'
+);
+
+select is(
+    get_shared_tasting_note('rlsTestShareToken0000000') ->> 'id',
+    'b0000000-0000-0000-0000-000000000002',
+    'user a can read user b''s note through its share link'
+);
+
+reset role;
+
+-- user b still sees their own data
+set local role authenticated;
+set local request.jwt.claims to '{"sub": "bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb", "role": "authenticated"}';
+
+select is(
+    (select overall_rating from tasting_notes where id = 'b0000000-0000-0000-0000-000000000001'),
+    2::smallint,
+    'user b sees their own note, unchanged by user a'
+);
+
+reset role;
+
+-- anonymous visitor
+set local role anon;
+set local request.jwt.claims to '{"role": "anon"}';
+
+select is_empty('select 1 from tasting_notes', 'anon cannot read any notes');
+
+select is_empty('select 1 from tasting_note_photos', 'anon cannot read any photo rows');
+
+select is(
+    get_shared_tasting_note('rlsTestShareToken0000000') ->> 'id',
+    'b0000000-0000-0000-0000-000000000002',
+    'anon can read a shared note through its token'
+);
+
+select ok(
+    not (get_shared_tasting_note('rlsTestShareToken0000000') ?| array['user_id', 'value_ratio', 'price_per_100g_pln']),
+    'the shared note does not reveal its owner or the derived price columns'
+);
+
+select is(
+    get_shared_tasting_note('rlsTestUnknownToken00000'),
+    null,
+    'anon gets nothing for an unknown token'
+);
+
+select is(
+    (select count(*) from get_shared_tasting_note_photo(
+        'rlsTestShareToken0000000', '55555555-5555-5555-5555-555555555555')),
+    1::bigint,
+    'anon can look up a photo of a shared note'
+);
+
+reset role;
+
+-- revoking the link closes anonymous access
+update tasting_notes set is_public = false, share_token = null
+where id = 'b0000000-0000-0000-0000-000000000002';
+
+set local role anon;
+set local request.jwt.claims to '{"role": "anon"}';
+
+select is(
+    get_shared_tasting_note('rlsTestShareToken0000000'),
+    null,
+    'anon gets nothing once the link is revoked'
+);
+
+reset role;
+
+select * from finish();
+
+rollback;